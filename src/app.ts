@@ -4,6 +4,13 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import { errorHandler } from './common/errors.js';
 import taskRoutes from './modules/tasks/task.routes.js';
+import imageRoutes from './modules/images/image.routes.js';
+import signatureRoutes from './modules/signatures/signature.routes.js';
+import iiifRoutes from './modules/iiif/iiif.routes.js';
+import tileRoutes from './modules/tiles/tile.routes.js';
+import uploadRoutes from './modules/uploads/upload.routes.js';
+import batchRoutes from './modules/batches/batch.routes.js';
+import { UPLOAD_EXPOSED_HEADERS } from './modules/uploads/upload.controller.js';
 import swaggerUi from 'swagger-ui-express';
 import { specs, swaggerUiOptions } from './common/swagger.js';
 import type { AppConfig } from './types/index.js';
@@ -13,7 +20,12 @@ export function createApp(config: AppConfig): Express {
 
   // Security middleware
   app.use(helmet());
-  app.use(cors());
+  // tus clients read upload headers cross-origin and discover capabilities through OPTIONS,
+  // so preflight requests to /uploads continue to the upload routes
+  app.use(cors<Request>((req, callback) => callback(null, {
+    exposedHeaders: UPLOAD_EXPOSED_HEADERS,
+    preflightContinue: req.path.startsWith('/uploads'),
+  })));
 
   // Logging middleware
   app.use(morgan('combined'));
@@ -98,6 +110,12 @@ export function createApp(config: AppConfig): Express {
 
   // API routes
   app.use('/tasks', taskRoutes);
+  app.use('/images', imageRoutes);
+  app.use('/signatures', signatureRoutes);
+  app.use('/iiif/3', iiifRoutes);
+  app.use('/tiles', tileRoutes);
+  app.use('/uploads', uploadRoutes);
+  app.use('/batches', batchRoutes);
 
   // 404 handler - catch all unmatched routes
   app.use((req: Request, res: Response) => {
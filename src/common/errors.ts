@@ -18,6 +18,135 @@ export class NotFoundError extends Error {
   }
 }
 
+export class SignatureError extends Error {
+  public readonly statusCode = 403;
+  public readonly code = 'INVALID_SIGNATURE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+
+export class ForbiddenError extends Error {
+  public readonly statusCode = 403;
+  public readonly code = 'FORBIDDEN';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class UnauthorizedError extends Error {
+  public readonly statusCode = 401;
+  public readonly code = 'UNAUTHORIZED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ConflictError extends Error {
+  public readonly statusCode = 409;
+  public readonly code = 'CONFLICT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+export class GoneError extends Error {
+  public readonly statusCode = 410;
+  public readonly code = 'GONE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'GoneError';
+  }
+}
+
+export class PreconditionFailedError extends Error {
+  public readonly statusCode = 412;
+  public readonly code = 'PRECONDITION_FAILED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+export class PayloadTooLargeError extends Error {
+  public readonly statusCode = 413;
+  public readonly code = 'PAYLOAD_TOO_LARGE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class UnsupportedMediaTypeError extends Error {
+  public readonly statusCode = 415;
+  public readonly code = 'UNSUPPORTED_MEDIA_TYPE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
+// Why an ingested file was refused as an image
+export type InvalidImageCode = 'NOT_AN_IMAGE' | 'UNSUPPORTED_IMAGE_FORMAT' | 'IMAGE_TYPE_MISMATCH' | 'CORRUPT_IMAGE';
+
+export class InvalidImageError extends Error {
+  public readonly statusCode = 422;
+
+  constructor(public readonly code: InvalidImageCode, message: string) {
+    super(message);
+    this.name = 'InvalidImageError';
+  }
+}
+
+export class ImageTooLargeError extends Error {
+  public readonly statusCode = 413;
+  public readonly code = 'IMAGE_TOO_LARGE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+// Why an entry of a zip archive was refused before its image could be inspected
+export type InvalidArchiveEntryCode =
+  | 'UNSAFE_ENTRY_PATH'
+  | 'ENCRYPTED_ENTRY'
+  | 'UNSUPPORTED_COMPRESSION'
+  | 'ENTRY_TOO_LARGE'
+  | 'CORRUPT_ENTRY';
+
+export class InvalidArchiveEntryError extends Error {
+  public readonly statusCode = 422;
+
+  constructor(public readonly code: InvalidArchiveEntryCode, message: string) {
+    super(message);
+    this.name = 'InvalidArchiveEntryError';
+  }
+}
+
+export class NotImplementedError extends Error {
+  public readonly statusCode = 501;
+  public readonly code = 'NOT_IMPLEMENTED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotImplementedError';
+  }
+}
+
 export class ProcessingError extends Error {
   public readonly statusCode = 500;
   public readonly code = 'PROCESSING_ERROR';
@@ -98,6 +227,102 @@ export function errorHandler(error: Error, _req: Request, res: Response, _next:
     });
   }
 
+  if (error instanceof SignatureError) {
+    return res.status(error.statusCode).json({
+      error: 'Forbidden',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof ForbiddenError) {
+    return res.status(error.statusCode).json({
+      error: 'Forbidden',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof UnauthorizedError) {
+    return res.status(error.statusCode).json({
+      error: 'Unauthorized',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof ConflictError) {
+    return res.status(error.statusCode).json({
+      error: 'Conflict',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof GoneError) {
+    return res.status(error.statusCode).json({
+      error: 'Gone',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof PreconditionFailedError) {
+    return res.status(error.statusCode).json({
+      error: 'Precondition Failed',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof PayloadTooLargeError) {
+    return res.status(error.statusCode).json({
+      error: 'Payload Too Large',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof UnsupportedMediaTypeError) {
+    return res.status(error.statusCode).json({
+      error: 'Unsupported Media Type',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof InvalidImageError) {
+    return res.status(error.statusCode).json({
+      error: 'Invalid Image',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof ImageTooLargeError) {
+    return res.status(error.statusCode).json({
+      error: 'Image Too Large',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof InvalidArchiveEntryError) {
+    return res.status(error.statusCode).json({
+      error: 'Invalid Archive Entry',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
+  if (error instanceof NotImplementedError) {
+    return res.status(error.statusCode).json({
+      error: 'Not Implemented',
+      message: error.message,
+      code: error.code,
+    });
+  }
+
   if (error instanceof ProcessingError) {
     return res.status(error.statusCode).json({
       error: 'Processing Error',
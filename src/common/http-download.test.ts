@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { Buffer } from 'buffer';
+import { URL } from 'url';
+import type { AddressInfo } from 'net';
+import { downloadToFile, isPublicAddress } from './http-download.js';
+import type { DownloadPolicy } from './http-download.js';
+import { ForbiddenError, PayloadTooLargeError } from './errors.js';
+
+describe('downloadToFile', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let port: number;
+  let tempDir: string;
+  let filePath: string;
+  let policy: DownloadPolicy;
+
+  const image = Buffer.alloc(4096, 7);
+
+  beforeAll(async () => {
+    // Routes of the stub server, by path
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://stub');
+      switch (url.pathname) {
+        case '/image.png':
+          res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': image.length });
+          res.end(image);
+          return;
+        case '/chunked.png':
+          // No Content-Length, so only the streamed byte count can enforce the limit
+          res.writeHead(200, { 'Content-Type': 'image/png; charset=binary' });
+          res.write(image);
+          res.end(image);
+          return;
+        case '/huge.png':
+          res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': 1024 * 1024 * 1024 });
+          res.end();
+          return;
+        case '/text':
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          res.end('<html></html>');
+          return;
+        case '/stall.png':
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.write(image);
+          return;
+        case '/redirect':
+          res.writeHead(302, { Location: url.searchParams.get('to') ?? '/image.png' });
+          res.end();
+          return;
+        case '/loop':
+          res.writeHead(301, { Location: '/loop' });
+          res.end();
+          return;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'download-'));
+    filePath = path.join(tempDir, 'image.png');
+    // The stub listens on loopback, which only tests that allow private networks can reach
+    policy = {
+      allowedProtocols: ['http', 'https'],
+      allowedHosts: [],
+      deniedHosts: [],
+      allowPrivateNetworks: true,
+      allowedTypes: ['image/png', 'image/jpeg'],
+      maxBytes: 6000,
+      connectTimeout: 1000,
+      readTimeout: 1000,
+      maxRedirects: 2,
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should stream the body to disk and follow redirects', async () => {
+    const file = await downloadToFile(`${baseUrl}/redirect`, filePath, policy);
+
+    expect(file).toEqual({ url: `${baseUrl}/image.png`, size: image.length, contentType: 'image/png' });
+    expect(fs.readFileSync(filePath)).toEqual(image);
+  });
+
+  it('should stop reading once the size limit is exceeded, with or without Content-Length', async () => {
+    await expect(downloadToFile(`${baseUrl}/chunked.png`, filePath, policy)).rejects.toThrow(PayloadTooLargeError);
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    await expect(downloadToFile(`${baseUrl}/huge.png`, filePath, policy)).rejects.toThrow(
+      'File size exceeds maximum allowed size'
+    );
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('should refuse responses that are not allowed images or not successful', async () => {
+    await expect(downloadToFile(`${baseUrl}/text`, filePath, policy)).rejects.toThrow('Invalid image type from URL: text/html');
+    await expect(downloadToFile(`${baseUrl}/missing.png`, filePath, policy)).rejects.toThrow('Server responded with 404');
+  });
+
+  it('should refuse private addresses, as literals and as resolved hostnames', async () => {
+    policy.allowPrivateNetworks = false;
+
+    await expect(downloadToFile(`${baseUrl}/image.png`, filePath, policy)).rejects.toThrow('Address not allowed: 127.0.0.1');
+    await expect(downloadToFile(`http://[::ffff:127.0.0.1]:${port}/image.png`, filePath, policy)).rejects.toThrow(ForbiddenError);
+    await expect(downloadToFile(`http://localhost:${port}/image.png`, filePath, policy)).rejects.toThrow(
+      'Host localhost resolves to an address that is not allowed'
+    );
+  });
+
+  it('should check every redirect against the protocol and host lists', async () => {
+    policy.deniedHosts = ['localhost'];
+    const to = (target: string): string => `${baseUrl}/redirect?to=${encodeURIComponent(target)}`;
+
+    await expect(downloadToFile(to(`http://localhost:${port}/image.png`), filePath, policy)).rejects.toThrow(
+      'Host not allowed: localhost'
+    );
+    await expect(downloadToFile(to('file:///etc/passwd'), filePath, policy)).rejects.toThrow('Protocol not allowed: file');
+    await expect(downloadToFile(`${baseUrl}/loop`, filePath, policy)).rejects.toThrow('Too many redirects');
+
+    policy.allowedHosts = ['example.com'];
+    await expect(downloadToFile(`${baseUrl}/image.png`, filePath, policy)).rejects.toThrow('Host not allowed: 127.0.0.1');
+  });
+
+  it('should abort when the server stops sending data', async () => {
+    policy.readTimeout = 100;
+
+    await expect(downloadToFile(`${baseUrl}/stall.png`, filePath, policy)).rejects.toThrow('No data received');
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('should only accept addresses on the public internet', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.31.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1', 'localhost']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,269 @@
+import fs from 'fs';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Buffer } from 'buffer';
+import { URL } from 'url';
+import { clearTimeout } from 'timers';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { IncomingMessage } from 'http';
+import { ForbiddenError, PayloadTooLargeError, ProcessingError } from './errors.js';
+
+// Limits and destinations a download may reach
+export interface DownloadPolicy {
+  allowedProtocols: string[]; // URL schemes, without the colon
+  allowedHosts: string[]; // hosts and their subdomains; empty allows any host
+  deniedHosts: string[]; // hosts and their subdomains
+  allowPrivateNetworks: boolean; // allow addresses outside the public internet
+  allowedTypes: string[]; // response content types
+  maxBytes: number;
+  connectTimeout: number; // in ms
+  readTimeout: number; // in ms without receiving data
+  maxRedirects: number;
+}
+
+export interface DownloadedFile {
+  url: string; // after redirects
+  size: number;
+  contentType: string;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Special-purpose ranges (RFC 6890 and its successors) that never lead to a public host,
+// including the IPv6 prefixes embedding IPv4 addresses
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['64:ff9b:1::', 48],
+  ['100::', 64],
+  ['2001::', 23],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+const blockedAddresses = new net.BlockList();
+for (const [prefix, bits] of BLOCKED_IPV4_SUBNETS) {
+  blockedAddresses.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of BLOCKED_IPV6_SUBNETS) {
+  blockedAddresses.addSubnet(prefix, bits, 'ipv6');
+}
+
+/**
+ * Check whether an IP address belongs to the public internet. IPv4-mapped IPv6 addresses
+ * are checked as the IPv4 address they carry.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Hostname of a URL without IPv6 brackets or a trailing dot, for matching and address checks
+ */
+function getHostname(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+}
+
+/**
+ * Check whether a host is one of `hosts` or a subdomain of one
+ */
+function matchesHost(host: string, hosts: string[]): boolean {
+  return hosts.some((pattern) => host === pattern || host.endsWith(`.${pattern}`));
+}
+
+/**
+ * Refuse URLs the policy does not allow. Hostnames are resolved and checked when connecting.
+ */
+function checkUrl(url: URL, policy: DownloadPolicy): void {
+  const protocol = url.protocol.slice(0, -1);
+  if (!policy.allowedProtocols.includes(protocol)) {
+    throw new ForbiddenError(`Protocol not allowed: ${protocol}`);
+  }
+
+  const host = getHostname(url);
+  if (matchesHost(host, policy.deniedHosts)) {
+    throw new ForbiddenError(`Host not allowed: ${host}`);
+  }
+  if (policy.allowedHosts.length > 0 && !matchesHost(host, policy.allowedHosts)) {
+    throw new ForbiddenError(`Host not allowed: ${host}`);
+  }
+  // Addresses are connected to without a lookup, so check them here
+  if (net.isIP(host) !== 0 && !policy.allowPrivateNetworks && !isPublicAddress(host)) {
+    throw new ForbiddenError(`Address not allowed: ${host}`);
+  }
+}
+
+/**
+ * DNS lookup refusing hosts that resolve to non-public addresses. The connection uses the
+ * addresses checked here, so a second resolution cannot swap them for internal ones.
+ */
+function createLookup(policy: DownloadPolicy): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+
+      const blocked = policy.allowPrivateNetworks
+        ? undefined
+        : addresses.find(({ address }) => !isPublicAddress(address));
+      const [first] = addresses;
+      if (blocked || !first) {
+        callback(new ForbiddenError(`Host ${hostname} resolves to an address that is not allowed`), '');
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, first.address, first.family);
+      }
+    });
+  };
+}
+
+/**
+ * Send a GET request, failing when the connection is not established within the connect
+ * timeout or the server stays silent for the read timeout, including while the body streams
+ */
+function sendRequest(url: URL, policy: DownloadPolicy): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    let response: IncomingMessage | undefined;
+
+    // Sockets are not pooled, so every connection goes through the checked lookup
+    const request = client.request(url, {
+      method: 'GET',
+      agent: false,
+      lookup: createLookup(policy),
+      headers: { Accept: policy.allowedTypes.join(', ') },
+    });
+
+    const connectTimer = setTimeout(() => {
+      request.destroy(new ProcessingError(`Connection to ${url.host} timed out`));
+    }, policy.connectTimeout);
+    request.on('socket', (socket) => {
+      socket.once('connect', () => clearTimeout(connectTimer));
+    });
+    request.setTimeout(policy.readTimeout, () => {
+      const error = new ProcessingError(`No data received from ${url.host} for ${policy.readTimeout}ms`);
+      if (response) {
+        response.destroy(error);
+      }
+      request.destroy(error);
+    });
+
+    request.on('response', (incoming) => {
+      clearTimeout(connectTimer);
+      response = incoming;
+      resolve(incoming);
+    });
+    request.on('error', (error) => {
+      clearTimeout(connectTimer);
+      reject(error);
+    });
+    request.end();
+  });
+}
+
+/**
+ * Stream a successful response to `filePath`, stopping as soon as it exceeds the size limit
+ */
+async function saveResponse(
+  response: IncomingMessage,
+  filePath: string,
+  policy: DownloadPolicy
+): Promise<Omit<DownloadedFile, 'url'>> {
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    throw new ProcessingError(`Server responded with ${status} ${response.statusMessage ?? ''}`.trim());
+  }
+
+  const contentType = response.headers['content-type']?.split(';')[0]?.trim().toLowerCase();
+  if (!contentType || !policy.allowedTypes.includes(contentType)) {
+    throw new ProcessingError(`Invalid image type from URL: ${contentType ?? 'none'}`);
+  }
+
+  const maxSize = `${Math.round(policy.maxBytes / (1024 * 1024))}MB`;
+  const contentLength = Number(response.headers['content-length']);
+  if (contentLength > policy.maxBytes) {
+    throw new PayloadTooLargeError(`File size exceeds maximum allowed size of ${maxSize}`);
+  }
+
+  // The declared length may be missing or wrong, so count what actually arrives
+  let size = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback): void {
+      size += chunk.length;
+      if (size > policy.maxBytes) {
+        callback(new PayloadTooLargeError(`File size exceeds maximum allowed size of ${maxSize}`));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  await pipeline(response, limit, fs.createWriteStream(filePath));
+  return { size, contentType };
+}
+
+/**
+ * Download a URL to `filePath` within the limits of `policy`. Every redirect is checked like
+ * the original URL, and nothing is left at `filePath` when the download fails.
+ */
+export async function downloadToFile(url: string, filePath: string, policy: DownloadPolicy): Promise<DownloadedFile> {
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    checkUrl(current, policy);
+    const response = await sendRequest(current, policy);
+
+    const location = response.headers.location;
+    if (REDIRECT_STATUSES.has(response.statusCode ?? 0) && location) {
+      response.destroy();
+      if (redirects >= policy.maxRedirects) {
+        throw new ProcessingError(`Too many redirects, at most ${policy.maxRedirects} are followed`);
+      }
+      current = new URL(location, current);
+      continue;
+    }
+
+    try {
+      const file = await saveResponse(response, filePath, policy);
+      return { ...file, url: current.href };
+    } catch (error) {
+      response.destroy();
+      fs.rmSync(filePath, { force: true });
+      throw error;
+    }
+  }
+}
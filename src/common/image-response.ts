@@ -0,0 +1,64 @@
+import { Response, NextFunction } from 'express';
+import path from 'path';
+import { NotFoundError } from './errors.js';
+
+// Images behind a URL never change, so clients may keep them for a year
+export const IMMUTABLE_MAX_AGE = 31536000;
+
+// An image file with the validators to send along
+export interface ImageFile {
+  filePath: string;
+  etag?: string | undefined; // quoted, as sent in the ETag header
+  lastModified?: Date | undefined;
+  start?: number | undefined; // byte range of the image within the file, as for zip entries
+  end?: number | undefined; // inclusive
+}
+
+/**
+ * Stream an image with immutable caching headers. res.sendFile answers If-None-Match,
+ * If-Modified-Since, If-Range and Range against the ETag and Last-Modified set here.
+ * Content-Type and any other headers must already be set.
+ */
+export function sendImage(
+  res: Response,
+  next: NextFunction,
+  image: ImageFile,
+  maxAge: number = IMMUTABLE_MAX_AGE
+): void {
+  if (image.etag) {
+    res.setHeader('ETag', image.etag);
+  }
+  if (image.lastModified) {
+    res.setHeader('Last-Modified', image.lastModified.toUTCString());
+  }
+  res.setHeader('Cache-Control', `public, max-age=${maxAge}, immutable`);
+
+  res.sendFile(
+    image.filePath,
+    {
+      etag: false,
+      lastModified: false,
+      cacheControl: false,
+      dotfiles: 'allow',
+      ...(image.start !== undefined && { start: image.start }),
+      ...(image.end !== undefined && { end: image.end }),
+    },
+    (error?: Error & { status?: number }) => {
+      if (!error || res.headersSent) {
+        return;
+      }
+      if (error.status !== 412 && error.status !== 416) {
+        // The error response is JSON and must not be cached as the image
+        ['Content-Type', 'ETag', 'Last-Modified', 'Cache-Control'].forEach((header) => res.removeHeader(header));
+      }
+      if (error.status === 404) {
+        next(new NotFoundError('Image file', path.basename(image.filePath)));
+      } else if (error.status === 412 || error.status === 416) {
+        // Failed preconditions and unsatisfiable ranges have no body
+        res.status(error.status).end();
+      } else {
+        next(error);
+      }
+    }
+  );
+}
@@ -34,8 +34,8 @@ const options: swaggerJsdoc.Options = {
             },
             status: {
               type: 'string',
-              enum: ['pending', 'completed', 'failed'],
-              description: 'Current status of the task',
+              enum: ['awaiting_upload', 'pending', 'completed', 'failed'],
+              description: 'Current status of the task; awaiting_upload until the image of a direct upload arrives',
               example: 'pending',
             },
             price: {
@@ -73,6 +73,38 @@ const options: swaggerJsdoc.Options = {
               description: 'Error message (if task failed)',
               example: 'Failed to download file from URL: Not Found',
             },
+            errorCode: {
+              type: 'string',
+              description: 'Code of the error that failed the task (if task failed)',
+              enum: ['NOT_AN_IMAGE', 'UNSUPPORTED_IMAGE_FORMAT', 'IMAGE_TYPE_MISMATCH', 'CORRUPT_IMAGE', 'IMAGE_TOO_LARGE', 'PROCESSING_ERROR', 'FILE_SYSTEM_ERROR', 'VALIDATION_ERROR', 'UPLOAD_EXPIRED'],
+              example: 'NOT_AN_IMAGE',
+            },
+            metadata: {
+              $ref: '#/components/schemas/ImageMetadata',
+            },
+            phash: {
+              type: 'string',
+              description: 'Perceptual hash (64-bit dHash) of the original image',
+              example: 'f0e4c2d3b3a39383',
+            },
+            cacheHit: {
+              type: 'boolean',
+              description: 'Whether the images were reused from an identical earlier task',
+              example: false,
+            },
+            cachedFrom: {
+              type: 'string',
+              description: 'Task whose images were reused (cache hits only)',
+              example: 'task_20250811110012_p4k8wz',
+            },
+            batchId: {
+              type: 'string',
+              description: 'Batch the task was created in, such as the images of one archive',
+              example: 'batch_20250811115246_k2m9qz',
+            },
+            tiles: {
+              $ref: '#/components/schemas/TilePyramid',
+            },
             images: {
               type: 'array',
               description: 'Generated image variants (if completed)',
@@ -81,16 +113,108 @@ const options: swaggerJsdoc.Options = {
               },
             },
           },
-          required: ['taskId', 'status', 'price'],
+          required: ['taskId', 'status', 'price', 'cacheHit'],
+        },
+        ImageMetadata: {
+          type: 'object',
+          description: 'Summary of the metadata embedded in the original image',
+          properties: {
+            format: { type: 'string', example: 'jpeg' },
+            width: { type: 'integer', description: 'Width after auto-orientation', example: 3024 },
+            height: { type: 'integer', description: 'Height after auto-orientation', example: 4032 },
+            camera: {
+              type: 'object',
+              properties: {
+                make: { type: 'string', example: 'Apple' },
+                model: { type: 'string', example: 'iPhone 15 Pro' },
+                lens: { type: 'string', example: 'iPhone 15 Pro back triple camera 6.86mm f/1.78' },
+              },
+            },
+            capturedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Capture date from EXIF DateTimeOriginal',
+              example: '2025-07-14T16:21:09.000Z',
+            },
+            gps: {
+              type: 'object',
+              properties: {
+                latitude: { type: 'number', example: 52.370216 },
+                longitude: { type: 'number', example: 4.895168 },
+                altitude: { type: 'number', description: 'Meters above sea level', example: 3.2 },
+              },
+              required: ['latitude', 'longitude'],
+            },
+            iccProfile: { type: 'string', description: 'ICC profile description', example: 'Display P3' },
+            dpi: { type: 'number', example: 72 },
+            orientation: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 8,
+              description: 'EXIF orientation of the original; outputs are always auto-oriented',
+              example: 6,
+            },
+            copyright: { type: 'string', example: '(c) ACME Photography' },
+            artist: { type: 'string', example: 'Jane Doe' },
+            hasExif: { type: 'boolean', example: true },
+            hasIptc: { type: 'boolean', example: false },
+            hasXmp: { type: 'boolean', example: true },
+          },
+          required: ['orientation', 'hasExif', 'hasIptc', 'hasXmp'],
         },
         ImageVariant: {
           type: 'object',
           properties: {
             resolution: {
               type: 'string',
-              description: 'Image resolution',
+              description: 'Resolution label: width ("1024"), height ("x600") or bounding box ("1200x630")',
               example: '1024',
             },
+            requestedWidth: {
+              type: 'integer',
+              description: 'Requested maximum width in pixels',
+              example: 1024,
+            },
+            requestedHeight: {
+              type: 'integer',
+              description: 'Requested maximum height in pixels',
+              example: 768,
+            },
+            fit: {
+              type: 'string',
+              enum: ['cover', 'contain', 'fill', 'inside', 'outside'],
+              description: 'Fit mode used to produce the variant',
+              example: 'inside',
+            },
+            crop: {
+              $ref: '#/components/schemas/CropRect',
+            },
+            format: {
+              type: 'string',
+              enum: ['jpeg', 'png', 'webp', 'avif', 'gif'],
+              description: 'Encoded output format',
+              example: 'webp',
+            },
+            extension: {
+              type: 'string',
+              description: 'File extension of the generated image',
+              example: 'webp',
+            },
+            width: {
+              type: 'integer',
+              description: 'Actual width of the generated image in pixels',
+              example: 1024,
+            },
+            height: {
+              type: 'integer',
+              description: 'Actual height of the generated image in pixels',
+              example: 683,
+            },
+            size: {
+              type: 'integer',
+              description: 'Size of the generated image in bytes',
+              example: 84211,
+            },
             path: {
               type: 'string',
               description: 'Path to the generated image',
@@ -101,6 +225,24 @@ const options: swaggerJsdoc.Options = {
               description: 'MD5 hash of the image file',
               example: 'f322b730b287da77e1c519c7ffef4fc2',
             },
+            phash: {
+              type: 'string',
+              description: 'Perceptual hash (64-bit dHash) of the generated image',
+              example: 'f0e4c2d3b3a39383',
+            },
+            frames: {
+              type: 'integer',
+              description: 'Number of frames (animated variants only)',
+              example: 24,
+            },
+            duration: {
+              type: 'integer',
+              description: 'Total animation duration in milliseconds (animated variants only)',
+              example: 2400,
+            },
+            placeholder: {
+              $ref: '#/components/schemas/ImagePlaceholder',
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -108,7 +250,181 @@ const options: swaggerJsdoc.Options = {
               example: '2025-08-11T11:52:48.532Z',
             },
           },
-          required: ['resolution', 'path', 'md5', 'createdAt'],
+          required: ['resolution', 'format', 'extension', 'width', 'height', 'size', 'path', 'md5', 'createdAt'],
+        },
+        ResolutionSpec: {
+          type: 'object',
+          properties: {
+            width: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 4096,
+              description: 'Target width in pixels',
+              example: 1200,
+            },
+            height: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 4096,
+              description: 'Target height in pixels',
+              example: 630,
+            },
+            fit: {
+              type: 'string',
+              enum: ['cover', 'contain', 'fill', 'inside', 'outside'],
+              description: 'How the image fits the box (defaults to inside; cover, contain and fill need width and height)',
+              example: 'cover',
+            },
+            background: {
+              type: 'string',
+              description: 'Hex letterbox color for fit contain',
+              example: '#ffffff',
+            },
+            gravity: {
+              type: 'string',
+              enum: ['center', 'north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'],
+              description: 'Anchor for cover crops and contain placement',
+              example: 'north',
+            },
+            focalPoint: {
+              type: 'object',
+              description: 'Normalized point (0-1) kept centered in cover crops when possible',
+              properties: {
+                x: { type: 'number', minimum: 0, maximum: 1, example: 0.3 },
+                y: { type: 'number', minimum: 0, maximum: 1, example: 0.4 },
+              },
+              required: ['x', 'y'],
+            },
+            strategy: {
+              type: 'string',
+              enum: ['entropy', 'attention'],
+              description: 'Smart crop strategy for fit cover',
+              example: 'attention',
+            },
+          },
+          description: 'Width, height or both. Only one of gravity, focalPoint or strategy can be set',
+        },
+        ImageOperation: {
+          type: 'object',
+          description: 'Transformation applied to the source, in order, before any variant is resized',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['rotate', 'flip', 'flop', 'blur', 'sharpen', 'grayscale', 'tint', 'modulate', 'gamma', 'normalise', 'threshold'],
+              example: 'rotate',
+            },
+            angle: { type: 'number', minimum: -360, maximum: 360, description: 'rotate: angle in degrees', example: 90 },
+            background: { type: 'string', description: 'rotate: hex fill color for uncovered corners', example: '#000000' },
+            sigma: { type: 'number', description: 'blur (0.3-1000) or sharpen (up to 10) sigma', example: 2 },
+            color: { type: 'string', description: 'tint: hex color', example: '#704214' },
+            brightness: { type: 'number', minimum: 0, maximum: 10, description: 'modulate: brightness multiplier', example: 1.1 },
+            saturation: { type: 'number', minimum: 0, maximum: 10, description: 'modulate: saturation multiplier', example: 0.8 },
+            hue: { type: 'integer', minimum: -360, maximum: 360, description: 'modulate: hue rotation in degrees', example: 30 },
+            gamma: { type: 'number', minimum: 1, maximum: 3, description: 'gamma: correction value', example: 2.2 },
+            lower: { type: 'number', minimum: 0, maximum: 99, description: 'normalise: lower percentile', example: 1 },
+            upper: { type: 'number', minimum: 1, maximum: 100, description: 'normalise: upper percentile', example: 99 },
+            threshold: { type: 'integer', minimum: 0, maximum: 255, description: 'threshold: cut-off value', example: 128 },
+            grayscale: { type: 'boolean', description: 'threshold: convert to grayscale first', example: true },
+          },
+          required: ['type'],
+        },
+        Watermark: {
+          type: 'object',
+          description: 'Overlay composited on every variant. Exactly one of asset, imageUrl or imageFile is required',
+          properties: {
+            asset: { type: 'string', description: 'Name of a stored asset in the assets directory', example: 'logo.png' },
+            imageUrl: { type: 'string', format: 'uri', description: 'URL of the watermark image', example: 'https://example.com/logo.png' },
+            imageFile: { type: 'string', description: 'Base64 encoded watermark image', example: 'data:image/png;base64,iVBORw0KGgo...' },
+            gravity: {
+              type: 'string',
+              enum: ['center', 'north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'],
+              description: 'Watermark position (defaults to southeast)',
+              example: 'southeast',
+            },
+            margin: { type: 'number', minimum: 0, maximum: 0.25, description: 'Inset as a fraction of the variant width, or tile spacing when tiled (defaults to 0.02)', example: 0.02 },
+            opacity: { type: 'number', minimum: 0, maximum: 1, description: 'Watermark opacity (defaults to 0.5)', example: 0.5 },
+            scale: { type: 'number', minimum: 0.01, maximum: 1, description: 'Watermark width as a fraction of the variant width (defaults to 0.2)', example: 0.2 },
+            tile: { type: 'boolean', description: 'Repeat the watermark across the whole variant', example: false },
+          },
+        },
+        TilesRequest: {
+          type: 'object',
+          description: 'Also generate a deep-zoom tile pyramid of the auto-oriented original. Pass {} for the defaults',
+          properties: {
+            layout: { type: 'string', enum: ['dz', 'zoomify', 'google'], description: 'Pyramid layout (defaults to dz)', example: 'dz' },
+            container: { type: 'string', enum: ['fs', 'zip'], description: 'Store the pyramid as a directory or a zip archive (defaults to fs)', example: 'fs' },
+            tileSize: { type: 'integer', minimum: 16, maximum: 8192, description: 'Tile edge in pixels (defaults to 254 for dz, 256 otherwise)', example: 254 },
+            overlap: { type: 'integer', minimum: 0, maximum: 8192, description: 'Pixels shared by neighbouring tiles (defaults to 1 for dz, 0 otherwise)', example: 1 },
+            format: { type: 'string', enum: ['jpeg', 'png', 'webp'], description: 'Tile format (defaults to jpeg)', example: 'jpeg' },
+            quality: { type: 'integer', minimum: 1, maximum: 100, description: 'Tile quality', example: 80 },
+          },
+        },
+        TilePyramid: {
+          type: 'object',
+          description: 'Generated deep-zoom pyramid, served under /tiles/{taskId}/',
+          properties: {
+            layout: { type: 'string', enum: ['dz', 'zoomify', 'google'], example: 'dz' },
+            container: { type: 'string', enum: ['fs', 'zip'], example: 'fs' },
+            tileSize: { type: 'integer', example: 254 },
+            overlap: { type: 'integer', example: 1 },
+            format: { type: 'string', enum: ['jpeg', 'png', 'webp'], example: 'jpeg' },
+            quality: { type: 'integer', example: 80 },
+            path: { type: 'string', description: 'Stored directory or zip archive', example: '/output/tiles/9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08' },
+            descriptorPath: { type: 'string', description: 'Descriptor relative to the pyramid root (none for google)', example: 'image.dzi' },
+            tileCount: { type: 'integer', example: 1365 },
+            width: { type: 'integer', description: 'Width of the full-resolution level', example: 12000 },
+            height: { type: 'integer', description: 'Height of the full-resolution level', example: 8000 },
+          },
+        },
+        CropRect: {
+          type: 'object',
+          description: 'Crop rectangle chosen in source image pixels',
+          properties: {
+            left: { type: 'integer', example: 320 },
+            top: { type: 'integer', example: 0 },
+            width: { type: 'integer', example: 1080 },
+            height: { type: 'integer', example: 1080 },
+          },
+        },
+        OutputFormatOptions: {
+          type: 'object',
+          properties: {
+            format: {
+              type: 'string',
+              enum: ['jpeg', 'png', 'webp', 'avif', 'gif'],
+              description: 'Output format to encode; gif and webp keep animations',
+              example: 'webp',
+            },
+            quality: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 100,
+              description: 'Encoder quality (jpeg defaults to 85, not supported for gif)',
+              example: 80,
+            },
+            lossless: {
+              type: 'boolean',
+              description: 'Use lossless compression (webp and avif only)',
+              example: false,
+            },
+            effort: {
+              type: 'integer',
+              description: 'CPU effort (png 1-10, webp 0-6, avif 0-9, gif 1-10)',
+              example: 4,
+            },
+            progressive: {
+              type: 'boolean',
+              description: 'Progressive scan for jpeg, interlacing for png and gif',
+              example: true,
+            },
+            chromaSubsampling: {
+              type: 'string',
+              enum: ['4:4:4', '4:2:0'],
+              description: 'Chroma subsampling (jpeg and avif only)',
+              example: '4:2:0',
+            },
+          },
+          required: ['format'],
         },
         CreateTaskRequest: {
           type: 'object',
@@ -124,12 +440,118 @@ const options: swaggerJsdoc.Options = {
               description: 'Base64 encoded image file',
               example: 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQ...',
             },
+            imagePath: {
+              type: 'string',
+              description: 'Absolute path of a local image within one of the INPUT_ROOTS directories, read in place',
+              example: '/mnt/shared/incoming/photo.jpg',
+            },
+            source: {
+              type: 'string',
+              enum: ['upload'],
+              description: 'Upload the image afterwards with a PUT to the returned upload URL, instead of sending it now',
+            },
+            resolutions: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 12,
+              description: 'Resolutions to generate (defaults to 1024px and 800px wide)',
+              items: {
+                $ref: '#/components/schemas/ResolutionSpec',
+              },
+            },
+            operations: {
+              type: 'array',
+              maxItems: 20,
+              description: 'Ordered transformations applied to every variant',
+              items: {
+                $ref: '#/components/schemas/ImageOperation',
+              },
+            },
+            watermark: {
+              description: 'Watermark to apply, or false to disable the server default',
+              oneOf: [
+                { $ref: '#/components/schemas/Watermark' },
+                { type: 'boolean', enum: [false] },
+              ],
+            },
+            formats: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 4,
+              description: 'Output formats to generate for every resolution (defaults to jpeg at quality 85)',
+              items: {
+                $ref: '#/components/schemas/OutputFormatOptions',
+              },
+            },
+            metadataPolicy: {
+              type: 'string',
+              enum: ['strip', 'keep', 'copyright'],
+              default: 'strip',
+              description: 'Metadata written to outputs: none, all of the original\'s, or only its copyright and artist',
+              example: 'copyright',
+            },
+            posterFrame: {
+              type: 'integer',
+              minimum: 0,
+              description: 'Flatten animated sources to this frame instead of keeping the animation',
+              example: 0,
+            },
+            tiles: {
+              $ref: '#/components/schemas/TilesRequest',
+            },
           },
           oneOf: [
             { required: ['imageUrl'] },
             { required: ['imageFile'] },
+            { required: ['imagePath'] },
           ],
-          description: 'Either imageUrl or imageFile must be provided',
+          description: 'Exactly one of imageUrl, imageFile or imagePath must be provided',
+        },
+        CreateTaskMultipartRequest: {
+          type: 'object',
+          required: ['image'],
+          properties: {
+            image: {
+              type: 'string',
+              format: 'binary',
+              description: 'Image file, at most MAX_DOWNLOAD_MB',
+            },
+            resolutions: {
+              type: 'string',
+              description: 'JSON encoded array of ResolutionSpec',
+              example: '[{"width":1024},{"width":800}]',
+            },
+            operations: {
+              type: 'string',
+              description: 'JSON encoded array of ImageOperation',
+              example: '[{"type":"grayscale"}]',
+            },
+            watermark: {
+              type: 'string',
+              description: 'JSON encoded Watermark, or false to disable the server default',
+              example: '{"asset":"logo.png"}',
+            },
+            formats: {
+              type: 'string',
+              description: 'JSON encoded array of OutputFormatOptions',
+              example: '[{"format":"webp","quality":80}]',
+            },
+            metadataPolicy: {
+              type: 'string',
+              enum: ['strip', 'keep', 'copyright'],
+              default: 'strip',
+            },
+            posterFrame: {
+              type: 'integer',
+              minimum: 0,
+            },
+            tiles: {
+              type: 'string',
+              description: 'JSON encoded TilesRequest',
+              example: '{"layout":"dz"}',
+            },
+          },
+          description: 'Image upload with the options of CreateTaskRequest as form fields',
         },
         CreateTaskResponse: {
           type: 'object',
@@ -153,6 +575,9 @@ const options: swaggerJsdoc.Options = {
                   type: 'number',
                   example: 25.5,
                 },
+                upload: {
+                  $ref: '#/components/schemas/DirectUpload',
+                },
                 message: {
                   type: 'string',
                   example: 'Task created successfully. Image processing started.',
@@ -161,6 +586,303 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        DirectUpload: {
+          type: 'object',
+          description: 'Where to PUT the image of a task created with source "upload" (only then)',
+          properties: {
+            url: {
+              type: 'string',
+              example: '/uploads/3f2a9c4e0b7d4b1e8a6f5c2d1e0f9a8b?expires=1754908190&signature=n0Jb0uJ8b1I7xQmVq1YkRj8m6Vd1oZ2sYdQ0eE3aW4c',
+            },
+            method: {
+              type: 'string',
+              enum: ['PUT'],
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2025-08-11T11:07:50.000Z',
+            },
+          },
+        },
+        CreateArchiveRequest: {
+          type: 'object',
+          required: ['archiveUrl'],
+          properties: {
+            archiveUrl: {
+              type: 'string',
+              format: 'uri',
+              description: 'URL of the zip archive, at most MAX_ARCHIVE_MB',
+              example: 'https://example.com/shoots/2025-08-11.zip',
+            },
+            resolutions: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ResolutionSpec' },
+            },
+            operations: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ImageOperation' },
+            },
+            watermark: {
+              oneOf: [
+                { $ref: '#/components/schemas/Watermark' },
+                { type: 'boolean', enum: [false] },
+              ],
+            },
+            formats: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/OutputFormatOptions' },
+            },
+            metadataPolicy: {
+              type: 'string',
+              enum: ['strip', 'keep', 'copyright'],
+              default: 'strip',
+            },
+            posterFrame: {
+              type: 'integer',
+              minimum: 0,
+            },
+            tiles: {
+              $ref: '#/components/schemas/TilesRequest',
+            },
+          },
+          description: 'Zip archive to download, with the options of CreateTaskRequest applied to every image',
+        },
+        CreateArchiveMultipartRequest: {
+          type: 'object',
+          required: ['archive'],
+          properties: {
+            archive: {
+              type: 'string',
+              format: 'binary',
+              description: 'Zip archive, at most MAX_ARCHIVE_MB',
+            },
+          },
+          additionalProperties: {
+            type: 'string',
+          },
+          description: 'Zip upload with the option form fields of CreateTaskMultipartRequest',
+        },
+        CreateArchiveResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                batchId: {
+                  type: 'string',
+                  example: 'batch_20250811115246_k2m9qz',
+                },
+                entries: {
+                  type: 'integer',
+                  description: 'Files in the archive, directories aside',
+                  example: 3,
+                },
+                tasks: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      entry: { type: 'string', example: 'shoot/IMG_0001.jpg' },
+                      taskId: { type: 'string', example: 'task_20250811115246_ipgdc3' },
+                      status: { type: 'string', example: 'pending' },
+                      price: { type: 'number', example: 25.5 },
+                    },
+                  },
+                },
+                skipped: {
+                  type: 'array',
+                  description: 'Files that are no images, never extracted',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      entry: { type: 'string', example: 'shoot/notes.txt' },
+                      reason: { type: 'string', example: 'Not an image' },
+                    },
+                  },
+                },
+                failures: {
+                  type: 'array',
+                  description: 'Images refused from their headers; images refused on extraction or inspection fail their own task',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      entry: { type: 'string', example: 'shoot/IMG_0002.jpg' },
+                      error: { type: 'string', example: 'Encrypted entries are not supported' },
+                      errorCode: {
+                        type: 'string',
+                        enum: ['UNSAFE_ENTRY_PATH', 'ENCRYPTED_ENTRY', 'UNSUPPORTED_COMPRESSION', 'ENTRY_TOO_LARGE'],
+                      },
+                    },
+                  },
+                },
+                message: {
+                  type: 'string',
+                  example: '2 tasks created from the archive. Image processing started.',
+                },
+              },
+            },
+          },
+        },
+        CreateBatchRequest: {
+          type: 'object',
+          required: ['items'],
+          properties: {
+            items: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 500,
+              description: 'Image sources, at most MAX_BATCH_ITEMS, each with exactly one of imageUrl, imageFile or imagePath',
+              items: {
+                type: 'object',
+                properties: {
+                  imageUrl: { type: 'string', format: 'uri', example: 'https://example.com/photos/IMG_0001.jpg' },
+                  imageFile: { type: 'string', description: 'Base64 encoded image' },
+                  imagePath: { type: 'string', description: 'Absolute path within an allowlisted input root' },
+                },
+              },
+            },
+            resolutions: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ResolutionSpec' },
+            },
+            operations: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ImageOperation' },
+            },
+            watermark: {
+              oneOf: [
+                { $ref: '#/components/schemas/Watermark' },
+                { type: 'boolean', enum: [false] },
+              ],
+            },
+            formats: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/OutputFormatOptions' },
+            },
+            metadataPolicy: {
+              type: 'string',
+              enum: ['strip', 'keep', 'copyright'],
+              default: 'strip',
+            },
+            posterFrame: {
+              type: 'integer',
+              minimum: 0,
+            },
+            tiles: {
+              $ref: '#/components/schemas/TilesRequest',
+            },
+          },
+          description: 'Image sources with the options of CreateTaskRequest applied to every one of them',
+        },
+        CreateBatchResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                batchId: {
+                  type: 'string',
+                  example: 'batch_20250811115246_k2m9qz',
+                },
+                total: {
+                  type: 'integer',
+                  description: 'Items in the request',
+                  example: 2,
+                },
+                accepted: {
+                  type: 'integer',
+                  description: 'Items that became tasks',
+                  example: 1,
+                },
+                rejected: {
+                  type: 'integer',
+                  description: 'Items refused on validation',
+                  example: 1,
+                },
+                items: {
+                  type: 'array',
+                  description: 'Outcome of every item, in request order',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      index: { type: 'integer', example: 0 },
+                      taskId: { type: 'string', example: 'task_20250811115246_ipgdc3' },
+                      status: { type: 'string', example: 'pending' },
+                      price: { type: 'number', example: 25.5 },
+                      error: { type: 'string', description: 'Why the item was rejected', example: 'Invalid item' },
+                      errorCode: { type: 'string', example: 'VALIDATION_ERROR' },
+                      details: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            field: { type: 'string', example: 'imageUrl' },
+                            message: { type: 'string', example: 'Invalid URL format' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+                message: {
+                  type: 'string',
+                  example: '1 of 2 tasks created. Image processing started.',
+                },
+              },
+            },
+          },
+        },
+        GetBatchResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                batchId: {
+                  type: 'string',
+                  example: 'batch_20250811115246_k2m9qz',
+                },
+                total: {
+                  type: 'integer',
+                  example: 3,
+                },
+                counts: {
+                  type: 'object',
+                  description: 'Tasks per status',
+                  properties: {
+                    awaiting_upload: { type: 'integer', example: 0 },
+                    pending: { type: 'integer', example: 1 },
+                    completed: { type: 'integer', example: 1 },
+                    failed: { type: 'integer', example: 1 },
+                  },
+                },
+                totalPrice: {
+                  type: 'number',
+                  description: 'Sum of the prices of all tasks',
+                  example: 72.25,
+                },
+                items: {
+                  type: 'array',
+                  description: 'Tasks in the order they were created, with the images of completed ones',
+                  items: { $ref: '#/components/schemas/Task' },
+                },
+              },
+            },
+          },
+        },
         GetTaskResponse: {
           type: 'object',
           properties: {
@@ -173,6 +895,282 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        UploadResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                uploadId: { type: 'string', example: '3f2a9c4e0b7d4b1e8a6f5c2d1e0f9a8b' },
+                taskId: {
+                  type: 'string',
+                  description: 'Pending task that processes the image once the upload completes',
+                  example: 'task_20250812101630_abc123',
+                },
+                length: { type: 'integer', description: 'Size of the whole file in bytes', example: 5242880 },
+                offset: { type: 'integer', description: 'Bytes received so far', example: 0 },
+                metadata: { type: 'string', example: 'filename cGhvdG8uanBn,filetype aW1hZ2UvanBlZw==' },
+                expiresAt: { type: 'string', format: 'date-time', example: '2025-08-13T10:16:30.000Z' },
+                completedAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+        PictureSource: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', enum: ['jpeg', 'png', 'webp', 'avif', 'gif'], example: 'webp' },
+            type: { type: 'string', example: 'image/webp' },
+            srcset: {
+              type: 'string',
+              example: 'http://localhost:3000/images/task_20250811115246_ipgdc3/800.webp 800w, http://localhost:3000/images/task_20250811115246_ipgdc3/1024.webp 1024w',
+            },
+            candidates: {
+              type: 'array',
+              description: 'Variants in the srcset, by ascending width',
+              items: {
+                type: 'object',
+                properties: {
+                  url: { type: 'string', example: 'http://localhost:3000/images/task_20250811115246_ipgdc3/800.webp' },
+                  width: { type: 'integer', example: 800 },
+                  height: { type: 'integer', example: 533 },
+                },
+              },
+            },
+          },
+        },
+        PictureMarkupResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                taskId: { type: 'string', example: 'task_20250811115246_ipgdc3' },
+                alt: { type: 'string', example: 'Harbour at dusk' },
+                sizes: { type: 'string', example: '(min-width: 800px) 50vw, 100vw' },
+                loading: { type: 'string', enum: ['lazy', 'eager'], example: 'lazy' },
+                width: { type: 'integer', description: 'Intrinsic width of the fallback image', example: 1024 },
+                height: { type: 'integer', description: 'Intrinsic height of the fallback image', example: 683 },
+                sources: {
+                  type: 'array',
+                  description: 'One source per format preferred over the fallback, best first',
+                  items: { $ref: '#/components/schemas/PictureSource' },
+                },
+                img: {
+                  allOf: [
+                    { $ref: '#/components/schemas/PictureSource' },
+                    {
+                      type: 'object',
+                      properties: {
+                        src: { type: 'string', example: 'http://localhost:3000/images/task_20250811115246_ipgdc3/1024.jpg' },
+                      },
+                    },
+                  ],
+                },
+                placeholder: {
+                  type: 'object',
+                  description: 'LQIP background, when requested',
+                  properties: {
+                    lqip: { type: 'string', example: 'data:image/webp;base64,UklGRl...' },
+                    dominantColor: { type: 'string', example: '#6a7f94' },
+                  },
+                },
+                html: { type: 'string', description: 'The picture element, ready to embed' },
+              },
+            },
+          },
+        },
+        DeleteTaskResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                taskId: { type: 'string', example: 'task_20250811115246_ipgdc3' },
+                deletedFiles: {
+                  type: 'integer',
+                  description: 'Output files removed because no other task references them',
+                  example: 2,
+                },
+              },
+            },
+          },
+        },
+        CreateSignatureRequest: {
+          type: 'object',
+          properties: {
+            taskId: { type: 'string', example: 'task_20250811115246_ipgdc3' },
+            variant: {
+              type: 'string',
+              description: '"original" or a resolution label, optionally with a format extension',
+              example: '1024',
+            },
+            params: {
+              type: 'object',
+              description: 'Transformation query parameters to sign',
+              properties: {
+                w: { type: 'integer', minimum: 1, example: 640 },
+                h: { type: 'integer', minimum: 1 },
+                fit: { type: 'string', enum: ['cover', 'contain', 'fill', 'inside', 'outside'] },
+                format: { type: 'string', enum: ['jpeg', 'png', 'webp', 'avif', 'gif'], example: 'webp' },
+                q: { type: 'integer', minimum: 1, maximum: 100, example: 70 },
+              },
+            },
+            expiresIn: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 31536000,
+              description: 'Seconds until the signature expires; signatures never expire when omitted',
+              example: 3600,
+            },
+          },
+          required: ['taskId', 'variant'],
+        },
+        CreateSignatureResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  example: '/images/task_20250811115246_ipgdc3/1024?expires=1754916766&format=webp&q=70&signature=n7DZwjgOLOD8WYwFn3mWIyWr2PMoBVA335Q847rin28&w=640',
+                },
+                signature: { type: 'string', example: 'n7DZwjgOLOD8WYwFn3mWIyWr2PMoBVA335Q847rin28' },
+                expiresAt: { type: 'string', format: 'date-time', example: '2025-08-11T12:52:46.000Z' },
+              },
+            },
+          },
+        },
+        IiifImageInfo: {
+          type: 'object',
+          description: 'IIIF Image API 3.0 information document',
+          properties: {
+            '@context': { type: 'string', example: 'http://iiif.io/api/image/3/context.json' },
+            id: { type: 'string', example: 'http://localhost:3000/iiif/3/task_20250811115246_ipgdc3' },
+            type: { type: 'string', example: 'ImageService3' },
+            protocol: { type: 'string', example: 'http://iiif.io/api/image' },
+            profile: { type: 'string', example: 'level2' },
+            width: { type: 'integer', example: 6000 },
+            height: { type: 'integer', example: 4000 },
+            maxWidth: { type: 'integer', example: 2048 },
+            maxHeight: { type: 'integer', example: 2048 },
+            sizes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  width: { type: 'integer', example: 375 },
+                  height: { type: 'integer', example: 250 },
+                },
+              },
+            },
+            tiles: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  width: { type: 'integer', example: 512 },
+                  scaleFactors: { type: 'array', items: { type: 'integer' }, example: [1, 2, 4, 8, 16] },
+                },
+              },
+            },
+            extraQualities: { type: 'array', items: { type: 'string' }, example: ['gray', 'bitonal'] },
+            extraFormats: { type: 'array', items: { type: 'string' }, example: ['webp'] },
+            extraFeatures: { type: 'array', items: { type: 'string' }, example: ['mirroring'] },
+          },
+        },
+        ImagePlaceholder: {
+          type: 'object',
+          description: 'Lightweight previews to show while the variant loads',
+          properties: {
+            blurhash: {
+              type: 'string',
+              description: 'BlurHash of the variant',
+              example: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+            },
+            lqip: {
+              type: 'string',
+              description: 'Low-quality image placeholder as a base64 WebP data URI',
+              example: 'data:image/webp;base64,UklGRjIAAABXRUJQVlA4ICYAAACyAgCdASoQAAsAAUAmJaQAA3AA/v89WAAAAA==',
+            },
+            dominantColor: {
+              type: 'string',
+              description: 'Dominant color as #rrggbb',
+              example: '#3c6e8f',
+            },
+            palette: {
+              type: 'array',
+              description: 'Up to five colors, by their share of the image',
+              items: {
+                type: 'object',
+                properties: {
+                  color: { type: 'string', example: '#3c6e8f' },
+                  weight: { type: 'number', example: 0.42 },
+                },
+              },
+            },
+          },
+          required: ['blurhash', 'lqip', 'dominantColor', 'palette'],
+        },
+        SimilarImage: {
+          type: 'object',
+          properties: {
+            taskId: { type: 'string', example: 'task_20250811120102_k2m9xq' },
+            resolution: { type: 'string', example: '800' },
+            format: { type: 'string', enum: ['jpeg', 'png', 'webp', 'avif', 'gif'], example: 'jpeg' },
+            width: { type: 'integer', example: 800 },
+            height: { type: 'integer', example: 533 },
+            path: { type: 'string', example: '/output/image/800/a1b2c3d4e5f678901234567890123456.jpg' },
+            md5: { type: 'string', example: 'a1b2c3d4e5f678901234567890123456' },
+            phash: { type: 'string', example: 'f0e4c2d3b3a39387' },
+            distance: {
+              type: 'integer',
+              description: 'Hamming distance to the queried original (0 = identical)',
+              example: 1,
+            },
+          },
+          required: ['taskId', 'resolution', 'format', 'path', 'md5', 'phash', 'distance'],
+        },
+        SimilarImagesResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            data: {
+              type: 'object',
+              properties: {
+                taskId: { type: 'string', example: 'task_20250811115246_ipgdc3' },
+                phash: { type: 'string', example: 'f0e4c2d3b3a39383' },
+                maxDistance: { type: 'integer', example: 10 },
+                images: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/SimilarImage',
+                  },
+                },
+              },
+            },
+          },
+        },
         Error: {
           type: 'object',
           properties: {
@@ -234,6 +1232,29 @@ const options: swaggerJsdoc.Options = {
           },
         },
       },
+      securitySchemes: {
+        SigningApiKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Api-Key',
+        },
+      },
+      parameters: {
+        TusResumable: {
+          in: 'header',
+          name: 'Tus-Resumable',
+          required: true,
+          schema: { type: 'string', example: '1.0.0' },
+          description: 'tus protocol version of the client',
+        },
+        UploadId: {
+          in: 'path',
+          name: 'uploadId',
+          required: true,
+          schema: { type: 'string', pattern: '^[a-f0-9]{32}$' },
+          example: '3f2a9c4e0b7d4b1e8a6f5c2d1e0f9a8b',
+        },
+      },
       responses: {
         ValidationError: {
           description: 'Validation error',
@@ -0,0 +1,80 @@
+import multer from 'multer';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { appConfig } from '../config/index.js';
+import { PayloadTooLargeError, ValidationError } from './errors.js';
+
+// Form fields may carry JSON encoded options, so allow them as much as a JSON body
+const MAX_FIELD_SIZE = 10 * 1024 * 1024;
+const MAX_FIELDS = 20;
+
+/**
+ * Map multer's limit errors to API errors; files over `maxSize` MB are cut off while streaming
+ */
+function toUploadError(error: multer.MulterError, maxSize: number): Error {
+  const field = error.field ?? 'body';
+  switch (error.code) {
+    case 'LIMIT_FILE_SIZE':
+      return new PayloadTooLargeError(`File size exceeds maximum allowed size of ${maxSize}MB`);
+    case 'LIMIT_FIELD_VALUE':
+    case 'LIMIT_FIELD_COUNT':
+    case 'LIMIT_PART_COUNT':
+      return new PayloadTooLargeError(error.message);
+    default:
+      return new ValidationError('Invalid multipart request', [{ field, message: error.message }]);
+  }
+}
+
+/**
+ * Parse multipart/form-data requests carrying a single file of one of `allowedTypes` in `field`,
+ * streaming it to `storage`. Other requests pass through untouched for the JSON body parser's result.
+ */
+function createSingleFileUpload(
+  field: string,
+  storage: multer.StorageEngine,
+  allowedTypes: string[],
+  maxSize: number
+): RequestHandler {
+  const upload = multer({
+    storage,
+    limits: {
+      fileSize: maxSize * 1024 * 1024,
+      files: 1,
+      fields: MAX_FIELDS,
+      fieldSize: MAX_FIELD_SIZE,
+    },
+    fileFilter: (_req, file, callback) => {
+      if (!allowedTypes.includes(file.mimetype)) {
+        callback(new ValidationError('Invalid multipart request', [{
+          field,
+          message: `Invalid file type: ${file.mimetype}. Allowed types: ${allowedTypes.join(', ')}`,
+        }]));
+        return;
+      }
+      callback(null, true);
+    },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        next(toUploadError(error, maxSize));
+        return;
+      }
+      next(error);
+    });
+  };
+}
+
+/**
+ * Parse multipart/form-data requests carrying a single image in `field`, up to MAX_DOWNLOAD_MB
+ */
+export function createImageUpload(field: string, storage: multer.StorageEngine): RequestHandler {
+  return createSingleFileUpload(field, storage, appConfig.allowedImageTypes, appConfig.maxDownloadSize);
+}
+
+/**
+ * Parse multipart/form-data requests carrying a single zip archive in `field`, up to MAX_ARCHIVE_MB
+ */
+export function createArchiveUpload(field: string, storage: multer.StorageEngine): RequestHandler {
+  return createSingleFileUpload(field, storage, appConfig.allowedArchiveTypes, appConfig.maxArchiveSize);
+}
@@ -0,0 +1,69 @@
+/**
+ * Signed image URLs.
+ *
+ * Transformation URLs (`/images/:taskId/:variant?w=...`) make the server render new
+ * images, so they must carry an HMAC-SHA256 signature of the path and every query
+ * parameter, optionally with an `expires` Unix timestamp. This file only depends on
+ * node:crypto so backend services can copy it and mint URLs with the shared secret:
+ *
+ *   signImageUrl(secret, '/images/task_123/1024', { format: 'webp', q: 70 }, { expiresIn: 3600 })
+ *   // => '/images/task_123/1024?expires=1754910000&format=webp&q=70&signature=...'
+ */
+import crypto from 'crypto';
+
+export type SignableParams = Record<string, string | number | undefined>;
+
+export interface SignOptions {
+  expiresIn?: number | undefined; // seconds from now
+  now?: Date | undefined;
+}
+
+/**
+ * Serialize parameters as a query string with sorted keys, skipping unset values
+ */
+export function canonicalizeParams(params: SignableParams): string {
+  return Object.entries(params)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+}
+
+/**
+ * Compute the base64url HMAC-SHA256 of a path and its canonical query parameters
+ */
+export function computeSignature(secret: string, path: string, params: SignableParams): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${path}\n${canonicalizeParams(params)}`)
+    .digest('base64url');
+}
+
+/**
+ * Add the expiry and the signature to transformation parameters
+ */
+export function signParams(
+  secret: string,
+  path: string,
+  params: SignableParams = {},
+  options: SignOptions = {}
+): SignableParams & { signature: string } {
+  const signedParams: SignableParams = { ...params };
+  if (options.expiresIn !== undefined) {
+    const now = options.now ?? new Date();
+    signedParams['expires'] = Math.floor(now.getTime() / 1000) + options.expiresIn;
+  }
+  return { ...signedParams, signature: computeSignature(secret, path, signedParams) };
+}
+
+/**
+ * Build a signed URL path for the given transformation parameters
+ */
+export function signImageUrl(
+  secret: string,
+  path: string,
+  params: SignableParams = {},
+  options: SignOptions = {}
+): string {
+  return `${path}?${canonicalizeParams(signParams(secret, path, params, options))}`;
+}
@@ -1,5 +1,7 @@
 import { z, ZodError } from 'zod';
 import { Request, Response, NextFunction } from 'express';
+import path from 'path';
+import { appConfig } from '../config/index.js';
 
 // Base schemas
 export const TaskIdSchema = z.string().min(1, 'Task ID is required');
@@ -9,39 +11,537 @@ export const PriceSchema = z
   .min(5, 'Price must be at least 5')
   .max(50, 'Price must be at most 50');
 
-export const StatusSchema = z.enum(['pending', 'completed', 'failed']);
+export const StatusSchema = z.enum(['awaiting_upload', 'pending', 'completed', 'failed']);
 
-export const ResolutionSchema = z.enum(['1024', '800']);
+// Resolution labels: "1024" (width), "x600" (height) or "1200x630" (bounding box),
+// suffixed with the fit mode when it is not the default "inside"
+export const ResolutionSchema = z
+  .string()
+  .regex(/^(\d+|x\d+|\d+x\d+)(-(cover|contain|fill|outside))?$/, 'Invalid resolution label');
+
+export const ColorSchema = z
+  .string()
+  .regex(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i, 'Color must be a hex value such as #ffffff');
+
+export const FitModeSchema = z.enum(['cover', 'contain', 'fill', 'inside', 'outside']);
+
+export const GravitySchema = z.enum([
+  'center',
+  'north',
+  'northeast',
+  'east',
+  'southeast',
+  'south',
+  'southwest',
+  'west',
+  'northwest',
+]);
+
+export const CropStrategySchema = z.enum(['entropy', 'attention']);
+
+export const FocalPointSchema = z.object({
+  x: z.number().min(0, 'Focal point x must be between 0 and 1').max(1, 'Focal point x must be between 0 and 1'),
+  y: z.number().min(0, 'Focal point y must be between 0 and 1').max(1, 'Focal point y must be between 0 and 1'),
+});
+
+const DimensionSchema = z
+  .number()
+  .int('Dimension must be an integer')
+  .min(1, 'Dimension must be at least 1')
+  .max(appConfig.maxOutputDimension, `Dimension must be at most ${appConfig.maxOutputDimension}`);
+
+export const ResolutionSpecSchema = z.object({
+  width: DimensionSchema.optional(),
+  height: DimensionSchema.optional(),
+  fit: FitModeSchema.optional(),
+  background: ColorSchema.optional(),
+  gravity: GravitySchema.optional(),
+  focalPoint: FocalPointSchema.optional(),
+  strategy: CropStrategySchema.optional(),
+}).superRefine((data, ctx) => {
+  if (data.width === undefined && data.height === undefined) {
+    ctx.addIssue({ code: 'custom', path: [], message: 'Either width or height must be provided' });
+    return;
+  }
+  const fit = data.fit ?? 'inside';
+  if ((fit === 'cover' || fit === 'contain' || fit === 'fill') && (data.width === undefined || data.height === undefined)) {
+    ctx.addIssue({ code: 'custom', path: ['fit'], message: `fit ${fit} requires both width and height` });
+  }
+  if (data.background !== undefined && fit !== 'contain') {
+    ctx.addIssue({ code: 'custom', path: ['background'], message: 'background is only supported with fit contain' });
+  }
+  if (data.gravity !== undefined && fit !== 'cover' && fit !== 'contain') {
+    ctx.addIssue({ code: 'custom', path: ['gravity'], message: 'gravity is only supported with fit cover or contain' });
+  }
+  for (const field of ['focalPoint', 'strategy'] as const) {
+    if (data[field] !== undefined && fit !== 'cover') {
+      ctx.addIssue({ code: 'custom', path: [field], message: `${field} is only supported with fit cover` });
+    }
+  }
+  const cropModes = [data.gravity, data.focalPoint, data.strategy].filter((mode) => mode !== undefined);
+  if (cropModes.length > 1) {
+    ctx.addIssue({ code: 'custom', path: [], message: 'Only one of gravity, focalPoint or strategy can be provided' });
+  }
+});
+
+export const ResolutionsSchema = z
+  .array(ResolutionSpecSchema)
+  .min(1, 'At least one resolution is required')
+  .max(appConfig.maxResolutions, `At most ${appConfig.maxResolutions} resolutions are allowed`)
+  .refine(
+    (resolutions) =>
+      new Set(resolutions.map((r) => `${r.width ?? ''}x${r.height ?? ''}-${r.fit ?? 'inside'}`)).size ===
+      resolutions.length,
+    { message: 'Each resolution and fit mode combination can only be requested once' }
+  );
+
+// Transformation operations, applied in order to the source before resizing
+export const OperationSchema = z.discriminatedUnion(
+  'type',
+  [
+    z.strictObject({
+      type: z.literal('rotate'),
+      angle: z.number().min(-360, 'Angle must be at least -360').max(360, 'Angle must be at most 360'),
+      background: ColorSchema.optional(),
+    }),
+    z.strictObject({ type: z.literal('flip') }),
+    z.strictObject({ type: z.literal('flop') }),
+    z.strictObject({
+      type: z.literal('blur'),
+      sigma: z.number().min(0.3, 'Blur sigma must be at least 0.3').max(1000, 'Blur sigma must be at most 1000'),
+    }),
+    z.strictObject({
+      type: z.literal('sharpen'),
+      sigma: z.number().min(0.000001, 'Sharpen sigma must be positive').max(10, 'Sharpen sigma must be at most 10').optional(),
+    }),
+    z.strictObject({ type: z.literal('grayscale') }),
+    z.strictObject({ type: z.literal('tint'), color: ColorSchema }),
+    z.strictObject({
+      type: z.literal('modulate'),
+      brightness: z.number().min(0, 'Brightness must be at least 0').max(10, 'Brightness must be at most 10').optional(),
+      saturation: z.number().min(0, 'Saturation must be at least 0').max(10, 'Saturation must be at most 10').optional(),
+      hue: z.number().int('Hue must be an integer').min(-360, 'Hue must be at least -360').max(360, 'Hue must be at most 360').optional(),
+    }).refine(
+      (data) => data.brightness !== undefined || data.saturation !== undefined || data.hue !== undefined,
+      { message: 'modulate requires brightness, saturation or hue' }
+    ),
+    z.strictObject({
+      type: z.literal('gamma'),
+      gamma: z.number().min(1, 'Gamma must be at least 1').max(3, 'Gamma must be at most 3'),
+    }),
+    z.strictObject({
+      type: z.literal('normalise'),
+      lower: z.number().min(0, 'Lower percentile must be at least 0').max(99, 'Lower percentile must be at most 99').optional(),
+      upper: z.number().min(1, 'Upper percentile must be at least 1').max(100, 'Upper percentile must be at most 100').optional(),
+    }).refine(
+      (data) => data.lower === undefined || data.upper === undefined || data.lower < data.upper,
+      { message: 'Lower percentile must be below upper percentile', path: ['lower'] }
+    ),
+    z.strictObject({
+      type: z.literal('threshold'),
+      threshold: z.number().int('Threshold must be an integer').min(0, 'Threshold must be at least 0').max(255, 'Threshold must be at most 255'),
+      grayscale: z.boolean().optional(),
+    }),
+  ],
+  { error: (issue) => (issue.code === 'invalid_union' ? 'Unknown operation type' : undefined) }
+);
+
+export const OperationsSchema = z
+  .array(OperationSchema)
+  .max(20, 'At most 20 operations are allowed');
+
+export const AssetNameSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9][a-zA-Z0-9._-]*$/, 'Asset name may only contain letters, numbers, dots, dashes and underscores');
+
+export const WatermarkSchema = z.object({
+  asset: AssetNameSchema.optional(),
+  imageUrl: z.url('Invalid URL format').optional(),
+  imageFile: z.string().min(1, 'File data is required').optional(),
+  gravity: GravitySchema.optional(),
+  margin: z.number().min(0, 'Margin must be at least 0').max(0.25, 'Margin must be at most 0.25').optional(),
+  opacity: z.number().min(0, 'Opacity must be between 0 and 1').max(1, 'Opacity must be between 0 and 1').optional(),
+  scale: z.number().min(0.01, 'Scale must be at least 0.01').max(1, 'Scale must be at most 1').optional(),
+  tile: z.boolean().optional(),
+}).refine(
+  (data) => [data.asset, data.imageUrl, data.imageFile].filter((source) => source !== undefined).length === 1,
+  { message: 'Exactly one of asset, imageUrl or imageFile must be provided', path: ['asset'] }
+);
 
 export const Md5Schema = z.string().length(32, 'MD5 must be 32 characters');
 
 export const PathSchema = z.string().min(1, 'Path is required');
 
+export const OutputFormatSchema = z.enum(['jpeg', 'png', 'webp', 'avif', 'gif']);
+
+// Effort ranges accepted by sharp for each encoder
+const EFFORT_RANGES: Record<string, [number, number]> = {
+  png: [1, 10],
+  webp: [0, 6],
+  avif: [0, 9],
+  gif: [1, 10],
+};
+
+export const OutputFormatOptionsSchema = z.object({
+  format: OutputFormatSchema,
+  quality: z.number().int().min(1, 'Quality must be at least 1').max(100, 'Quality must be at most 100').optional(),
+  lossless: z.boolean().optional(),
+  effort: z.number().int().min(0).max(10).optional(),
+  progressive: z.boolean().optional(),
+  chromaSubsampling: z.enum(['4:4:4', '4:2:0']).optional(),
+}).superRefine((data, ctx) => {
+  if (data.quality !== undefined && data.format === 'gif') {
+    ctx.addIssue({ code: 'custom', path: ['quality'], message: 'quality is not supported for gif' });
+  }
+  if (data.lossless !== undefined && data.format !== 'webp' && data.format !== 'avif') {
+    ctx.addIssue({ code: 'custom', path: ['lossless'], message: `lossless is not supported for ${data.format}` });
+  }
+  if (data.effort !== undefined) {
+    const range = EFFORT_RANGES[data.format];
+    if (!range) {
+      ctx.addIssue({ code: 'custom', path: ['effort'], message: `effort is not supported for ${data.format}` });
+    } else if (data.effort < range[0] || data.effort > range[1]) {
+      ctx.addIssue({ code: 'custom', path: ['effort'], message: `effort for ${data.format} must be between ${range[0]} and ${range[1]}` });
+    }
+  }
+  if (data.progressive !== undefined && data.format !== 'jpeg' && data.format !== 'png' && data.format !== 'gif') {
+    ctx.addIssue({ code: 'custom', path: ['progressive'], message: `progressive is not supported for ${data.format}` });
+  }
+  if (data.chromaSubsampling !== undefined && data.format !== 'jpeg' && data.format !== 'avif') {
+    ctx.addIssue({ code: 'custom', path: ['chromaSubsampling'], message: `chromaSubsampling is not supported for ${data.format}` });
+  }
+});
+
+export const OutputFormatsSchema = z
+  .array(OutputFormatOptionsSchema)
+  .min(1, 'At least one output format is required')
+  .max(4, 'At most 4 output formats are allowed')
+  .refine(
+    (formats) => new Set(formats.map((f) => f.format)).size === formats.length,
+    { message: 'Each output format can only be requested once' }
+  );
+
+export const CropRectSchema = z.object({
+  left: z.number().int(),
+  top: z.number().int(),
+  width: z.number().int(),
+  height: z.number().int(),
+});
+
+export const MetadataPolicySchema = z.enum(['strip', 'keep', 'copyright'], {
+  error: 'Metadata policy must be one of: strip, keep, copyright',
+});
+
+// Deep-zoom pyramid generated from the original, with layout-dependent defaults
+export const TilesRequestSchema = z.object({
+  layout: z.enum(['dz', 'zoomify', 'google']).optional(),
+  container: z.enum(['fs', 'zip']).optional(),
+  tileSize: z.number().int().min(16, 'Tile size must be at least 16').max(8192, 'Tile size must be at most 8192').optional(),
+  overlap: z.number().int().min(0, 'Overlap must be at least 0').max(8192, 'Overlap must be at most 8192').optional(),
+  format: z.enum(['jpeg', 'png', 'webp']).optional(),
+  quality: z.number().int().min(1, 'Quality must be at least 1').max(100, 'Quality must be at most 100').optional(),
+}).refine(
+  (data) => data.overlap === undefined || data.tileSize === undefined || data.overlap <= data.tileSize,
+  { message: 'Overlap must not exceed the tile size', path: ['overlap'] }
+);
+
+export const ImageMetadataSchema = z.object({
+  format: z.string().optional(),
+  width: z.number().int().optional(),
+  height: z.number().int().optional(),
+  camera: z.object({
+    make: z.string().optional(),
+    model: z.string().optional(),
+    lens: z.string().optional(),
+  }).optional(),
+  capturedAt: z.date().optional(),
+  gps: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    altitude: z.number().optional(),
+  }).optional(),
+  iccProfile: z.string().optional(),
+  dpi: z.number().optional(),
+  orientation: z.number().int(),
+  copyright: z.string().optional(),
+  artist: z.string().optional(),
+  hasExif: z.boolean(),
+  hasIptc: z.boolean(),
+  hasXmp: z.boolean(),
+});
+
+// Local image within an allowlisted input root
+const ImagePathSchema = z
+  .string()
+  .max(4096, 'Image path must be at most 4096 characters')
+  .refine((value) => path.isAbsolute(value), 'Image path must be absolute')
+  .refine((value) => !value.includes('\0'), 'Image path must not contain null bytes');
+
 // Request schemas
 export const CreateTaskRequestSchema = z.object({
   imageUrl: z.url('Invalid URL format').optional(),
   imageFile: z.string().min(1, 'File data is required').optional(),
+  imagePath: ImagePathSchema.optional(),
+  source: z.literal('upload').optional(),
+  resolutions: ResolutionsSchema.optional(),
+  formats: OutputFormatsSchema.optional(),
+  operations: OperationsSchema.optional(),
+  watermark: z.union([z.literal(false), WatermarkSchema]).optional(),
+  metadataPolicy: MetadataPolicySchema.optional(),
+  posterFrame: z.number().int().min(0, 'Poster frame must be a non-negative frame index').optional(),
+  tiles: TilesRequestSchema.optional(),
 }).refine(
-  (data) => {
-    // Check if at least one is provided
-    if (!data.imageUrl && !data.imageFile) {
-      return false;
-    }
-    // Check that not both are provided
-    if (data.imageUrl && data.imageFile) {
-      return false;
-    }
-    return true;
-  },
+  // Exactly one image source
+  (data) => [data.imageUrl, data.imageFile, data.imagePath, data.source].filter(Boolean).length === 1,
   {
-    message: 'Either imageUrl or imageFile must be provided, but not both',
+    message: 'Either imageUrl, imageFile, imagePath or source "upload" must be provided, but only one',
     path: ['imageUrl'], // This will show the error on the imageUrl field
   }
 ).transform((data) => ({
   imageUrl: data.imageUrl || undefined,
   imageFile: data.imageFile || undefined,
+  imagePath: data.imagePath || undefined,
+  source: data.source,
+  resolutions: data.resolutions || undefined,
+  formats: data.formats || undefined,
+  operations: data.operations || undefined,
+  watermark: data.watermark,
+  metadataPolicy: data.metadataPolicy,
+  posterFrame: data.posterFrame,
+  tiles: data.tiles,
+}));
+
+// Processing options shared by every image of an archive or a batch
+const SharedTaskOptionsSchema = z.object({
+  resolutions: ResolutionsSchema.optional(),
+  formats: OutputFormatsSchema.optional(),
+  operations: OperationsSchema.optional(),
+  watermark: z.union([z.literal(false), WatermarkSchema]).optional(),
+  metadataPolicy: MetadataPolicySchema.optional(),
+  posterFrame: z.number().int().min(0, 'Poster frame must be a non-negative frame index').optional(),
+  tiles: TilesRequestSchema.optional(),
+});
+
+// A zip archive to download, whose images all get the same processing options
+export const CreateArchiveRequestSchema = SharedTaskOptionsSchema.extend({
+  archiveUrl: z.url('Invalid URL format'),
+});
+
+// Image sources of a batch, with the processing options sent once for all of them. Items are
+// validated one by one with BatchItemSchema, so an invalid item cannot fail the rest.
+export const CreateBatchRequestSchema = SharedTaskOptionsSchema.extend({
+  items: z
+    .array(z.unknown(), 'Items must be an array of image sources')
+    .min(1, 'At least one item is required')
+    .max(appConfig.maxBatchItems, `At most ${appConfig.maxBatchItems} items are allowed`),
+});
+
+export const BatchItemSchema = z.strictObject({
+  imageUrl: z.url('Invalid URL format').optional(),
+  imageFile: z.string().min(1, 'File data is required').optional(),
+  imagePath: ImagePathSchema.optional(),
+}).refine(
+  // Exactly one image source
+  (data) => [data.imageUrl, data.imageFile, data.imagePath].filter(Boolean).length === 1,
+  {
+    message: 'Either imageUrl, imageFile or imagePath must be provided, but only one',
+    path: ['imageUrl'],
+  }
+);
+
+export const BatchParamsSchema = z.object({
+  batchId: z.string().regex(/^batch_\d{14}_[a-z0-9]+$/, 'Invalid batch ID'),
+});
+
+// Form fields hold strings, so structured options are sent JSON encoded
+const jsonField = <T extends z.ZodType>(schema: T): z.ZodPipe<z.ZodTransform<unknown, unknown>, T> => z.preprocess((value, ctx) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    ctx.addIssue({ code: 'custom', message: 'Invalid JSON' });
+    return z.NEVER;
+  }
+}, schema);
+
+// Processing options sent as string fields next to an uploaded image, as multipart form fields
+// or tus Upload-Metadata; the upload replaces the other image sources
+export const TaskOptionFieldsSchema = z.strictObject({
+  resolutions: jsonField(ResolutionsSchema).optional(),
+  formats: jsonField(OutputFormatsSchema).optional(),
+  operations: jsonField(OperationsSchema).optional(),
+  watermark: jsonField(z.union([z.literal(false), WatermarkSchema])).optional(),
+  metadataPolicy: MetadataPolicySchema.optional(),
+  posterFrame: z.coerce.number().int().min(0, 'Poster frame must be a non-negative frame index').optional(),
+  tiles: jsonField(TilesRequestSchema).optional(),
+});
+
+// Byte counts of tus headers, such as Upload-Length and Upload-Offset
+const ByteCountSchema = z
+  .string()
+  .regex(/^\d{1,15}$/, 'Must be a non-negative integer')
+  .transform(Number);
+
+export const UploadCreationHeadersSchema = z.object({
+  'upload-length': ByteCountSchema,
+  'upload-metadata': z.string().max(64 * 1024, 'Upload metadata must be at most 64KB').optional(),
+});
+
+export const UploadPatchHeadersSchema = z.object({
+  'upload-offset': ByteCountSchema,
+});
+
+export const UploadParamsSchema = z.object({
+  uploadId: z.string().regex(/^[a-f0-9]{32}$/, 'Invalid upload ID'),
+});
+
+export const DirectUploadParamsSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{32}$/, 'Invalid upload token'),
+});
+
+// tus metadata of an upload, beside the processing options
+export const UploadFileMetadataSchema = z.object({
+  filename: z.string().max(255, 'File name must be at most 255 characters').optional(),
+  filetype: z.string().refine(
+    (type) => appConfig.allowedImageTypes.includes(type),
+    `File type must be one of ${appConfig.allowedImageTypes.join(', ')}`
+  ),
+});
+
+// Options of the responsive <picture> markup of a task
+export const MarkupQuerySchema = z.object({
+  sizes: z.string().trim().min(1, 'Sizes must not be empty').max(1000, 'Sizes must be at most 1000 characters').default('100vw'),
+  alt: z.string().max(1000, 'Alt text must be at most 1000 characters').default(''),
+  loading: z.enum(['lazy', 'eager']).default('lazy'),
+  lqip: z.stringbool().default(false),
+});
+
+export const SimilarImagesQuerySchema = z.object({
+  taskId: TaskIdSchema,
+  maxDistance: z.coerce
+    .number()
+    .int()
+    .min(0, 'Max distance must be at least 0')
+    .max(64, 'Max distance must be at most 64')
+    .default(10),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must be at most 100')
+    .default(20),
+});
+
+// "original" or a resolution label, optionally with the extension of one of its formats
+export const ImageVariantSchema = z
+  .string()
+  .regex(
+    /^(original|(\d+|x\d+|\d+x\d+)(-(cover|contain|fill|outside))?(\.(jpg|png|webp|avif|gif))?)$/,
+    'Invalid image variant'
+  );
+
+export const ImageParamsSchema = z.object({
+  taskId: TaskIdSchema,
+  variant: ImageVariantSchema,
+});
+
+const QueryDimensionSchema = z.coerce
+  .number()
+  .int('Dimension must be an integer')
+  .min(1, 'Dimension must be at least 1')
+  .max(appConfig.maxOutputDimension, `Dimension must be at most ${appConfig.maxOutputDimension}`);
+
+// imgproxy-style transformations rendered from the task's original
+export const TransformationParamsSchema = z.strictObject({
+  w: QueryDimensionSchema.optional(),
+  h: QueryDimensionSchema.optional(),
+  fit: FitModeSchema.optional(),
+  format: OutputFormatSchema.optional(),
+  q: z.coerce
+    .number()
+    .int('Quality must be an integer')
+    .min(1, 'Quality must be at least 1')
+    .max(100, 'Quality must be at most 100')
+    .optional(),
+});
+
+// Transformations with the URL signature, which is verified separately
+export const ImageDeliveryQuerySchema = TransformationParamsSchema.extend({
+  expires: z.coerce.number().int('Expiry must be a Unix timestamp').positive('Expiry must be a Unix timestamp').optional(),
+  signature: z.string().regex(/^[A-Za-z0-9_-]{43}$/, 'Invalid signature format').optional(),
+}).transform(({ w, h, fit, format, q }) => ({
+  width: w,
+  height: h,
+  fit,
+  format,
+  quality: q,
 }));
 
+export const CreateSignatureRequestSchema = z.object({
+  taskId: TaskIdSchema,
+  variant: ImageVariantSchema,
+  params: TransformationParamsSchema.optional(),
+  expiresIn: z
+    .number()
+    .int('expiresIn must be a whole number of seconds')
+    .min(1, 'expiresIn must be at least 1 second')
+    .max(31536000, 'expiresIn must be at most one year')
+    .optional(),
+});
+
+export const IiifInfoParamsSchema = z.object({
+  taskId: TaskIdSchema,
+});
+
+// The last IIIF path segment, "{quality}.{format}"
+const IiifFileSchema = z
+  .string()
+  .regex(/^[a-z]+\.[a-z0-9]+$/, 'Expected {quality}.{format}')
+  .transform((file) => {
+    const [quality, format] = file.split('.');
+    return { quality, format };
+  })
+  .pipe(z.object({
+    quality: z.enum(['default', 'color', 'gray', 'bitonal']),
+    format: z.enum(['jpg', 'png', 'webp']),
+  }));
+
+// Region, size and rotation are parsed against the image dimensions by the IIIF service
+export const IiifImageParamsSchema = z.object({
+  taskId: TaskIdSchema,
+  region: z.string(),
+  size: z.string(),
+  rotation: z.string(),
+  file: IiifFileSchema,
+}).transform(({ file, ...params }) => ({ ...params, ...file }));
+
+// Path of a file within a tile pyramid, as the segments of a wildcard route
+export const TileParamsSchema = z.object({
+  taskId: TaskIdSchema,
+  file: z
+    .array(
+      z.string().regex(/^(?!\.{1,2}$)[a-zA-Z0-9_.,-]+$/, 'Tile path segments may only contain letters, numbers, dots, commas, dashes and underscores')
+    )
+    .min(1, 'Tile path is required')
+    .transform((segments) => segments.join('/')),
+});
+
+export const PerceptualHashSchema = z.string().regex(/^[a-f0-9]{16}$/, 'Invalid perceptual hash');
+
+const HexColorSchema = z.string().regex(/^#[a-f0-9]{6}$/, 'Invalid hex color');
+
+export const ImagePlaceholderSchema = z.object({
+  blurhash: z.string().min(6),
+  lqip: z.string().startsWith('data:image/', 'LQIP must be a data URI'),
+  dominantColor: HexColorSchema,
+  palette: z.array(z.object({
+    color: HexColorSchema,
+    weight: z.number().min(0).max(1),
+  })),
+});
+
 export const GetTaskResponseSchema = z.object({
   taskId: TaskIdSchema,
   status: StatusSchema,
@@ -51,18 +551,49 @@ export const GetTaskResponseSchema = z.object({
   updatedAt: z.date(),
   completedAt: z.date().optional(),
   error: z.string().optional(),
+  errorCode: z.string().optional(),
+  metadata: ImageMetadataSchema.optional(),
+  phash: PerceptualHashSchema.optional(),
+  cacheHit: z.boolean(),
+  cachedFrom: TaskIdSchema.optional(),
   images: z.array(z.object({
     resolution: ResolutionSchema,
+    requestedWidth: z.number().int().optional(),
+    requestedHeight: z.number().int().optional(),
+    fit: FitModeSchema,
+    crop: CropRectSchema.optional(),
+    format: OutputFormatSchema,
+    extension: z.string(),
+    width: z.number().int(),
+    height: z.number().int(),
+    size: z.number().int(),
     path: PathSchema,
     md5: Md5Schema,
+    frames: z.number().int().optional(),
+    duration: z.number().int().optional(),
+    phash: PerceptualHashSchema.optional(),
+    placeholder: ImagePlaceholderSchema.optional(),
     createdAt: z.date(),
   })).optional(),
 });
 
 export const ImageSchema = z.object({
   resolution: ResolutionSchema,
+  requestedWidth: z.number().int().optional(),
+  requestedHeight: z.number().int().optional(),
+  fit: FitModeSchema,
+  crop: CropRectSchema.optional(),
+  format: OutputFormatSchema,
+  extension: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  size: z.number().int(),
   path: PathSchema,
   md5: Md5Schema,
+  frames: z.number().int().optional(),
+  duration: z.number().int().optional(),
+  phash: PerceptualHashSchema.optional(),
+  placeholder: ImagePlaceholderSchema.optional(),
   createdAt: z.date(),
 });
 
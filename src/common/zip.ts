@@ -0,0 +1,214 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { Buffer } from 'buffer';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { FileSystemError, PayloadTooLargeError } from './errors.js';
+
+// Record signatures and the fields read from them, per APPNOTE.TXT
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_LOCATOR_SIZE = 20;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const MAX_COMMENT_SIZE = 0xffff;
+const ENCRYPTED_FLAG = 0x0001;
+
+// Compression methods of entries stored as is and deflated
+export const ZIP_STORED = 0;
+export const ZIP_DEFLATED = 8;
+
+// An entry of the central directory
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflated
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+/**
+ * Read a range of a file into a buffer
+ */
+function readRange(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = fs.readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Locate the central directory from the end of central directory record, following
+ * the zip64 locator when the archive is too large for the classic fields
+ */
+function findCentralDirectory(fd: number, fileSize: number): { offset: number; size: number; entries: number } {
+  const tailLength = Math.min(fileSize, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+  const tail = readRange(fd, fileSize - tailLength, tailLength);
+
+  // The record is followed by a variable-length comment, so scan backwards for it
+  let position = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE;
+  while (position >= 0 && tail.readUInt32LE(position) !== END_OF_CENTRAL_DIRECTORY) {
+    position--;
+  }
+  if (position < 0) {
+    throw new FileSystemError('Invalid zip archive: end of central directory not found');
+  }
+
+  const entries = tail.readUInt16LE(position + 10);
+  const size = tail.readUInt32LE(position + 12);
+  const offset = tail.readUInt32LE(position + 16);
+  if (entries !== 0xffff && size !== 0xffffffff && offset !== 0xffffffff) {
+    return { offset, size, entries };
+  }
+
+  const locatorPosition = position - ZIP64_LOCATOR_SIZE;
+  if (locatorPosition < 0 || tail.readUInt32LE(locatorPosition) !== ZIP64_LOCATOR) {
+    throw new FileSystemError('Invalid zip archive: zip64 locator not found');
+  }
+  const record = readRange(fd, Number(tail.readBigUInt64LE(locatorPosition + 8)), 56);
+  if (record.length < 56 || record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+    throw new FileSystemError('Invalid zip archive: zip64 end of central directory not found');
+  }
+  return {
+    entries: Number(record.readBigUInt64LE(32)),
+    size: Number(record.readBigUInt64LE(40)),
+    offset: Number(record.readBigUInt64LE(48)),
+  };
+}
+
+/**
+ * List the entries of a zip archive from its central directory, without reading their data.
+ * The directory is only read once its declared location lies within the file and it declares
+ * no more than `maxEntries` entries, so a crafted record cannot size a huge allocation.
+ */
+export function readZipEntries(filePath: string, maxEntries: number = Infinity): ZipEntry[] {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const fileSize = fs.fstatSync(fd).size;
+    const directory = findCentralDirectory(fd, fileSize);
+    if (directory.offset + directory.size > fileSize) {
+      throw new FileSystemError('Invalid zip archive: central directory extends beyond the end of the file');
+    }
+    if (directory.entries > maxEntries) {
+      throw new FileSystemError(
+        `Invalid zip archive: declares ${directory.entries} entries, at most ${maxEntries} are allowed`
+      );
+    }
+    const buffer = readRange(fd, directory.offset, directory.size);
+
+    const entries: ZipEntry[] = [];
+    let position = 0;
+    for (let index = 0; index < directory.entries; index++) {
+      if (position + 46 > buffer.length || buffer.readUInt32LE(position) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new FileSystemError('Invalid zip archive: truncated central directory');
+      }
+      const nameLength = buffer.readUInt16LE(position + 28);
+      const extraLength = buffer.readUInt16LE(position + 30);
+      const commentLength = buffer.readUInt16LE(position + 32);
+      const entry: ZipEntry = {
+        name: buffer.toString('utf8', position + 46, position + 46 + nameLength),
+        method: buffer.readUInt16LE(position + 10),
+        compressedSize: buffer.readUInt32LE(position + 20),
+        size: buffer.readUInt32LE(position + 24),
+        localHeaderOffset: buffer.readUInt32LE(position + 42),
+        encrypted: (buffer.readUInt16LE(position + 8) & ENCRYPTED_FLAG) !== 0,
+      };
+
+      // Fields that overflow 32 bits are moved, in this order, to the zip64 extra field
+      const extraStart = position + 46 + nameLength;
+      for (let extra = extraStart; extra + 4 <= extraStart + extraLength; ) {
+        const id = buffer.readUInt16LE(extra);
+        const length = buffer.readUInt16LE(extra + 2);
+        if (id === ZIP64_EXTRA_FIELD) {
+          let field = extra + 4;
+          for (const key of ['size', 'compressedSize', 'localHeaderOffset'] as const) {
+            if (entry[key] === 0xffffffff && field + 8 <= extra + 4 + length) {
+              entry[key] = Number(buffer.readBigUInt64LE(field));
+              field += 8;
+            }
+          }
+        }
+        extra += 4 + length;
+      }
+
+      entries.push(entry);
+      position = extraStart + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Find the byte range, inclusive, of an entry's data within the archive
+ */
+export function getZipEntryRange(filePath: string, entry: ZipEntry): { start: number; end: number } {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = readRange(fd, entry.localHeaderOffset, LOCAL_FILE_HEADER_SIZE);
+    if (header.length < LOCAL_FILE_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+      throw new FileSystemError(`Invalid zip archive: local header of ${entry.name} not found`);
+    }
+    // The local header repeats the name, with its own extra field
+    const start = entry.localHeaderOffset + LOCAL_FILE_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+    return { start, end: start + entry.compressedSize - 1 };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Write the uncompressed data of a stored or deflated entry to `destination`, failing as soon
+ * as more than `maxBytes` come out, whatever size the central directory declares. Returns the
+ * number of bytes written; nothing is left at `destination` when extraction fails.
+ */
+export async function extractZipEntry(
+  filePath: string,
+  entry: ZipEntry,
+  destination: string,
+  maxBytes: number
+): Promise<number> {
+  if (entry.method !== ZIP_STORED && entry.method !== ZIP_DEFLATED) {
+    throw new FileSystemError(`Unsupported compression method ${entry.method} of ${entry.name}`);
+  }
+
+  let size = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback): void {
+      size += chunk.length;
+      if (size > maxBytes) {
+        callback(new PayloadTooLargeError(`${entry.name} is larger than ${maxBytes} bytes`));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  // An empty range cannot be read, and there is no data to inflate
+  if (entry.compressedSize === 0) {
+    fs.writeFileSync(destination, Buffer.alloc(0));
+    return 0;
+  }
+
+  const output = fs.createWriteStream(destination);
+  try {
+    const { start, end } = getZipEntryRange(filePath, entry);
+    const data = fs.createReadStream(filePath, { start, end });
+    if (entry.method === ZIP_DEFLATED) {
+      await pipeline(data, zlib.createInflateRaw(), limit, output);
+    } else {
+      await pipeline(data, limit, output);
+    }
+    return size;
+  } catch (error) {
+    output.destroy();
+    fs.rmSync(destination, { force: true });
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import { config } from 'dotenv';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import pino from 'pino';
 
 // Load environment variables from .env file
@@ -20,10 +21,40 @@ export interface AppConfig extends BaseAppConfig {
   // File system configuration
   outputDir: string;
   tempDir: string;
+  assetsDir: string;
+  cacheDir: string; // images transformed on the fly
+  inputRoots: string[]; // directories local imagePath sources may be read from, none disables them
   
   // Image processing configuration
   maxDownloadSize: number; // in MB
   allowedImageTypes: string[];
+  allowedArchiveTypes: string[]; // content types zip archives are accepted as
+  maxArchiveSize: number; // in MB
+  maxArchiveEntries: number; // files in one archive
+  maxArchiveExtractedSize: number; // uncompressed size of one archive, in MB
+  maxBatchItems: number; // image sources per batch request
+  maxResolutions: number; // per task
+  maxOutputDimension: number; // in pixels
+  iiifMaxDimension: number; // width or height of unsigned IIIF renders, in pixels
+  maxInputDimension: number; // width or height of ingested images, in pixels
+  maxInputPixels: number; // width x height over all frames of ingested images, sharp's limitInputPixels
+  defaultWatermark?: string | undefined; // asset name applied when tasks don't choose one
+  cacheMaxSize: number; // in MB
+  uploadExpiration: number; // hours before unfinished resumable uploads are discarded
+  directUploadExpiration: number; // minutes a presigned upload URL stays valid
+  
+  // URL download configuration
+  downloadAllowedProtocols: string[]; // URL schemes images may be downloaded over, without the colon
+  downloadAllowedHosts: string[]; // hosts (and their subdomains) downloads are limited to, none allows any
+  downloadDeniedHosts: string[]; // hosts (and their subdomains) never downloaded from
+  downloadAllowPrivateNetworks: boolean; // allow loopback, private and link-local addresses
+  downloadConnectTimeout: number; // in ms
+  downloadReadTimeout: number; // in ms without receiving data
+  downloadMaxRedirects: number;
+  
+  // URL signing configuration
+  urlSigningSecret: string; // HMAC key for transformation URLs
+  signingApiKey?: string | undefined; // required by POST /signatures, which is disabled without it
   
   // Logging configuration
   logLevel: string;
@@ -35,6 +66,13 @@ function getOptionalEnvVar(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
+function getListEnvVar(name: string, defaultValue = ''): string[] {
+  return getOptionalEnvVar(name, defaultValue)
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
 function getOptionalNumberEnvVar(name: string, defaultValue: number): number {
   const value = process.env[name];
   if (!value) return defaultValue;
@@ -58,10 +96,40 @@ export const appConfig: AppConfig = {
   // File system configuration
   outputDir: getOptionalEnvVar('OUTPUT_DIR', path.join(process.cwd(), 'output')),
   tempDir: getOptionalEnvVar('TMP_DIR', path.join(process.cwd(), 'temp')),
+  assetsDir: getOptionalEnvVar('ASSETS_DIR', path.join(process.cwd(), 'assets')),
+  cacheDir: getOptionalEnvVar('CACHE_DIR', path.join(process.cwd(), 'cache')),
+  inputRoots: getListEnvVar('INPUT_ROOTS'),
   
   // Image processing configuration
   maxDownloadSize: getOptionalNumberEnvVar('MAX_DOWNLOAD_MB', 25),
   allowedImageTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  allowedArchiveTypes: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'],
+  maxArchiveSize: getOptionalNumberEnvVar('MAX_ARCHIVE_MB', 500),
+  maxArchiveEntries: getOptionalNumberEnvVar('MAX_ARCHIVE_ENTRIES', 1000),
+  maxArchiveExtractedSize: getOptionalNumberEnvVar('MAX_ARCHIVE_EXTRACTED_MB', 2048),
+  maxBatchItems: getOptionalNumberEnvVar('MAX_BATCH_ITEMS', 500),
+  maxResolutions: getOptionalNumberEnvVar('MAX_RESOLUTIONS', 12),
+  maxOutputDimension: getOptionalNumberEnvVar('MAX_OUTPUT_DIMENSION', 4096),
+  iiifMaxDimension: getOptionalNumberEnvVar('IIIF_MAX_DIMENSION', 2048),
+  maxInputDimension: getOptionalNumberEnvVar('MAX_INPUT_DIMENSION', 16384),
+  maxInputPixels: getOptionalNumberEnvVar('MAX_INPUT_PIXELS', 100000000),
+  defaultWatermark: process.env['DEFAULT_WATERMARK'] || undefined,
+  cacheMaxSize: getOptionalNumberEnvVar('CACHE_MAX_MB', 512),
+  uploadExpiration: getOptionalNumberEnvVar('UPLOAD_EXPIRATION_HOURS', 24),
+  directUploadExpiration: getOptionalNumberEnvVar('DIRECT_UPLOAD_EXPIRATION_MINUTES', 15),
+  
+  // URL download configuration - only public addresses are reachable unless explicitly allowed
+  downloadAllowedProtocols: getListEnvVar('DOWNLOAD_ALLOWED_PROTOCOLS', 'https,http').map((protocol) => protocol.toLowerCase()),
+  downloadAllowedHosts: getListEnvVar('DOWNLOAD_ALLOWED_HOSTS').map((host) => host.toLowerCase()),
+  downloadDeniedHosts: getListEnvVar('DOWNLOAD_DENIED_HOSTS').map((host) => host.toLowerCase()),
+  downloadAllowPrivateNetworks: process.env['DOWNLOAD_ALLOW_PRIVATE_NETWORKS'] === 'true',
+  downloadConnectTimeout: getOptionalNumberEnvVar('DOWNLOAD_CONNECT_TIMEOUT_MS', 5000),
+  downloadReadTimeout: getOptionalNumberEnvVar('DOWNLOAD_READ_TIMEOUT_MS', 15000),
+  downloadMaxRedirects: getOptionalNumberEnvVar('DOWNLOAD_MAX_REDIRECTS', 5),
+  
+  // URL signing configuration - a random secret only lasts until restart, so production must set one
+  urlSigningSecret: process.env['URL_SIGNING_SECRET'] || crypto.randomBytes(32).toString('hex'),
+  signingApiKey: process.env['SIGNING_API_KEY'] || undefined,
   
   // Logging configuration
   logLevel: getOptionalEnvVar('LOG_LEVEL', 'info'),
@@ -81,6 +149,21 @@ export function validateConfig(): void {
     fs.mkdirSync(appConfig.tempDir, { recursive: true });
   }
   
+  // Ensure local input roots are absolute directories, since paths are only matched against them
+  for (const root of appConfig.inputRoots) {
+    if (!path.isAbsolute(root)) {
+      throw new Error(`Input root must be an absolute path: ${root}`);
+    }
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      throw new Error(`Input root is not a directory: ${root}`);
+    }
+  }
+  
+  // Ensure the default watermark asset is available
+  if (appConfig.defaultWatermark && !fs.existsSync(path.join(appConfig.assetsDir, appConfig.defaultWatermark))) {
+    throw new Error(`Default watermark asset not found: ${appConfig.defaultWatermark}`);
+  }
+  
   // Validate port range
   if (appConfig.port < 1 || appConfig.port > 65535) {
     throw new Error(`Invalid port number: ${appConfig.port}`);
@@ -90,6 +173,70 @@ export function validateConfig(): void {
   if (appConfig.maxDownloadSize < 1 || appConfig.maxDownloadSize > 100) {
     throw new Error(`Invalid max download size: ${appConfig.maxDownloadSize}MB`);
   }
+
+  // Validate resolution limits
+  if (appConfig.maxResolutions < 1 || appConfig.maxResolutions > 50) {
+    throw new Error(`Invalid max resolutions per task: ${appConfig.maxResolutions}`);
+  }
+
+  if (appConfig.maxOutputDimension < 16 || appConfig.maxOutputDimension > 16384) {
+    throw new Error(`Invalid max output dimension: ${appConfig.maxOutputDimension}px`);
+  }
+
+  if (appConfig.iiifMaxDimension < 16 || appConfig.iiifMaxDimension > appConfig.maxOutputDimension) {
+    throw new Error(`Invalid max IIIF dimension: ${appConfig.iiifMaxDimension}px`);
+  }
+
+  // Validate decompression limits of ingested images
+  if (appConfig.maxInputDimension < 1 || appConfig.maxInputPixels < 1) {
+    throw new Error(`Invalid input image limits: ${appConfig.maxInputDimension}px, ${appConfig.maxInputPixels} pixels`);
+  }
+
+  // Validate zip archive limits
+  if (appConfig.maxArchiveSize < 1 || appConfig.maxArchiveEntries < 1 || appConfig.maxArchiveExtractedSize < 1) {
+    throw new Error(
+      `Invalid archive limits: ${appConfig.maxArchiveSize}MB, ${appConfig.maxArchiveEntries} entries, ${appConfig.maxArchiveExtractedSize}MB extracted`
+    );
+  }
+
+  if (appConfig.maxBatchItems < 1) {
+    throw new Error(`Invalid max batch items: ${appConfig.maxBatchItems}`);
+  }
+
+  if (appConfig.cacheMaxSize < 1) {
+    throw new Error(`Invalid image cache size: ${appConfig.cacheMaxSize}MB`);
+  }
+
+  if (appConfig.uploadExpiration < 1) {
+    throw new Error(`Invalid upload expiration: ${appConfig.uploadExpiration}h`);
+  }
+
+  if (appConfig.directUploadExpiration < 1) {
+    throw new Error(`Invalid direct upload expiration: ${appConfig.directUploadExpiration}min`);
+  }
+
+  // Validate URL download limits
+  const unsupportedProtocol = appConfig.downloadAllowedProtocols.find((protocol) => !['http', 'https'].includes(protocol));
+  if (unsupportedProtocol !== undefined || appConfig.downloadAllowedProtocols.length === 0) {
+    throw new Error(`Invalid download protocols: ${appConfig.downloadAllowedProtocols.join(',')}`);
+  }
+
+  if (appConfig.downloadConnectTimeout < 1 || appConfig.downloadReadTimeout < 1) {
+    throw new Error(`Invalid download timeouts: ${appConfig.downloadConnectTimeout}ms/${appConfig.downloadReadTimeout}ms`);
+  }
+
+  if (appConfig.downloadMaxRedirects < 0 || appConfig.downloadMaxRedirects > 20) {
+    throw new Error(`Invalid max download redirects: ${appConfig.downloadMaxRedirects}`);
+  }
+
+  // Validate URL signing secret
+  if (appConfig.nodeEnv === 'production' && !process.env['URL_SIGNING_SECRET']) {
+    throw new Error('URL_SIGNING_SECRET is required in production');
+  }
+
+  if (appConfig.urlSigningSecret.length < 32) {
+    throw new Error('URL_SIGNING_SECRET must be at least 32 characters');
+  }
 }
 
 export default appConfig;
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import { BatchController } from './batch.controller.js';
+import { BatchService } from './batch.service.js';
+import { NotFoundError, ValidationError } from '../../common/errors.js';
+
+// Mock the batch service
+vi.mock('./batch.service.js');
+
+describe('BatchController', () => {
+  let controller: BatchController;
+  let mockBatchService: {
+    createBatch: ReturnType<typeof vi.fn>;
+    getBatch: ReturnType<typeof vi.fn>;
+  };
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockBatchService = {
+      createBatch: vi.fn(),
+      getBatch: vi.fn(),
+    };
+    controller = new BatchController(mockBatchService as unknown as BatchService);
+
+    mockRequest = { body: {}, params: {} };
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    mockNext = vi.fn();
+  });
+
+  describe('createBatch', () => {
+    it('should create the batch and report how many items became tasks', async () => {
+      const result = {
+        batchId: 'batch_20250811115246_k2m9qz',
+        total: 2,
+        accepted: 1,
+        rejected: 1,
+        items: [
+          { index: 0, taskId: 'task_0', status: 'pending', price: 10 },
+          { index: 1, error: 'Invalid item', errorCode: 'VALIDATION_ERROR' },
+        ],
+      };
+      mockBatchService.createBatch.mockResolvedValue(result);
+      mockRequest.body = {
+        items: [{ imageUrl: 'https://example.com/a.jpg' }, { imageUrl: 'not a url' }],
+        resolutions: [{ width: 800 }],
+      };
+
+      await controller.createBatch(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockBatchService.createBatch).toHaveBeenCalledWith({
+        items: [{ imageUrl: 'https://example.com/a.jpg' }, { imageUrl: 'not a url' }],
+        resolutions: [{ width: 800 }],
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: { ...result, message: '1 of 2 tasks created. Image processing started.' },
+      });
+    });
+
+    it('should refuse requests without items or with invalid shared options', async () => {
+      mockRequest.body = { items: [], metadataPolicy: 'everything' };
+
+      await controller.createBatch(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockBatchService.createBatch).not.toHaveBeenCalled();
+      const error = vi.mocked(mockNext).mock.calls[0]?.[0];
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as unknown as ValidationError).details?.map(({ field }) => field)).toEqual(['metadataPolicy', 'items']);
+    });
+  });
+
+  describe('getBatch', () => {
+    it('should return the batch', async () => {
+      const batch = { batchId: 'batch_20250811115246_k2m9qz', total: 0, counts: {}, totalPrice: 0, items: [] };
+      mockBatchService.getBatch.mockResolvedValue(batch);
+      mockRequest.params = { batchId: 'batch_20250811115246_k2m9qz' };
+
+      await controller.getBatch(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockBatchService.getBatch).toHaveBeenCalledWith('batch_20250811115246_k2m9qz');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: batch });
+    });
+
+    it('should refuse invalid batch IDs and pass lookup errors on', async () => {
+      mockRequest.params = { batchId: '../tasks' };
+      await controller.getBatch(mockRequest as Request, mockResponse as Response, mockNext);
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationError));
+      expect(mockBatchService.getBatch).not.toHaveBeenCalled();
+
+      const notFound = new NotFoundError('Batch', 'batch_20250811115246_k2m9qz');
+      mockBatchService.getBatch.mockRejectedValue(notFound);
+      mockRequest.params = { batchId: 'batch_20250811115246_k2m9qz' };
+      await controller.getBatch(mockRequest as Request, mockResponse as Response, mockNext);
+      expect(mockNext).toHaveBeenCalledWith(notFound);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { Request, Response, NextFunction } from 'express';
+import { BatchService } from './batch.service.js';
+import { BatchParamsSchema, CreateBatchRequestSchema } from '../../common/validation.js';
+import { ValidationError } from '../../common/errors.js';
+import { ZodError } from 'zod';
+
+export class BatchController {
+  private batchService: BatchService;
+
+  constructor(batchService: BatchService) {
+    this.batchService = batchService;
+  }
+
+  /**
+   * @swagger
+   * /batches:
+   *   post:
+   *     summary: Create one task per image source, with shared processing options
+   *     description: |
+   *       Send up to MAX_BATCH_ITEMS image sources, each with exactly one of imageUrl, imageFile
+   *       or imagePath, and the processing options once for all of them. Every item is validated
+   *       on its own: valid items become tasks grouped under a batch ID and processed one after
+   *       another, and invalid ones are reported by index without failing the rest.
+   *     tags: [Batches]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateBatchRequest'
+   *     responses:
+   *       201:
+   *         description: Tasks created for the valid items
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CreateBatchResponse'
+   *       400:
+   *         description: Invalid processing options, no items or too many, or no valid item
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async createBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = CreateBatchRequestSchema.parse(req.body);
+
+      const result = await this.batchService.createBatch(validatedData);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: `${result.accepted} of ${result.total} tasks created. Image processing started.`,
+        },
+      });
+    } catch (error) {
+      next(this.toValidationError(error));
+    }
+  }
+
+  /**
+   * @swagger
+   * /batches/{batchId}:
+   *   get:
+   *     summary: Get the progress of a batch
+   *     description: |
+   *       Get the tasks of a batch in the order they were created, with their number per status and
+   *       their total price. Batches created from zip archives can be followed the same way.
+   *     tags: [Batches]
+   *     parameters:
+   *       - in: path
+   *         name: batchId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           pattern: '^batch_\d{14}_[a-z0-9]+$'
+   *         example: batch_20250811115246_k2m9qz
+   *     responses:
+   *       200:
+   *         description: Batch progress and tasks
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/GetBatchResponse'
+   *       400:
+   *         description: Invalid batch ID
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Batch not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async getBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { batchId } = BatchParamsSchema.parse(req.params);
+
+      const batch = await this.batchService.getBatch(batchId);
+
+      res.status(200).json({
+        success: true,
+        data: batch,
+      });
+    } catch (error) {
+      next(this.toValidationError(error));
+    }
+  }
+
+  /**
+   * Convert a ZodError to a ValidationError, passing other errors through
+   */
+  private toValidationError(error: unknown): unknown {
+    if (error instanceof ZodError) {
+      return new ValidationError(
+        'Invalid request data',
+        error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        }))
+      );
+    }
+    return error;
+  }
+}
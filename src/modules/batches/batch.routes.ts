@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { BatchController } from './batch.controller.js';
+import { batchService } from './batch.service.js';
+
+// Create controller instance
+const batchController = new BatchController(batchService);
+
+// Create router
+const router = Router();
+
+/**
+ * @route POST /batches
+ * @desc Create one task per image source of a batch, reporting invalid items by index
+ * @access Public
+ */
+router.post('/', batchController.createBatch.bind(batchController));
+
+/**
+ * @route GET /batches/:batchId
+ * @desc Get the tasks of a batch with their counts per status and total price
+ * @access Public
+ */
+router.get('/:batchId', batchController.getBatch.bind(batchController));
+
+export default router;
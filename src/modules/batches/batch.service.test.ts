@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BatchService } from './batch.service.js';
+import { taskService } from '../tasks/task.service.js';
+import { fileService } from '../images/file.service.js';
+import { ForbiddenError, ValidationError } from '../../common/errors.js';
+import type { TaskResult } from '../tasks/task.types.js';
+
+vi.mock('../tasks/task.service.js');
+vi.mock('../images/file.service.js');
+
+describe('BatchService', () => {
+  let batchService: BatchService;
+
+  const localFile = { path: '/srv/input/a.jpg', name: 'a.jpg', size: 2048, type: 'image/jpeg' };
+
+  const createTaskResult = (taskId: string, status: TaskResult['status'], price: number): TaskResult => ({
+    taskId,
+    status,
+    price,
+    cacheHit: false,
+    createdAt: new Date('2025-08-11T11:52:46.174Z'),
+    updatedAt: new Date('2025-08-11T11:52:46.174Z'),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    batchService = new BatchService();
+    vi.mocked(taskService.createBatchTasks).mockImplementation(async (_options, sources) => ({
+      batchId: 'batch_20250811115246_k2m9qz',
+      tasks: sources.map((_source, index) => createTaskResult(`task_${index}`, 'pending', 10)),
+    }));
+  });
+
+  describe('createBatch', () => {
+    it('should create tasks for the valid items and report the others by index', async () => {
+      vi.mocked(fileService.resolveInputPath).mockImplementation(async (imagePath) => {
+        if (imagePath === '/etc/passwd') {
+          throw new ForbiddenError('Image path is outside the allowed input directories');
+        }
+        return localFile;
+      });
+
+      const result = await batchService.createBatch({
+        items: [
+          { imageUrl: 'https://example.com/a.jpg' },
+          { imageUrl: 'not a url' },
+          { imagePath: '/srv/input/a.jpg' },
+          { imageUrl: 'https://example.com/b.jpg', imageFile: 'aGVsbG8=' },
+          { imagePath: '/etc/passwd' },
+          { imageFile: 'aGVsbG8=' },
+        ],
+        metadataPolicy: 'keep',
+      });
+
+      expect(result).toEqual({
+        batchId: 'batch_20250811115246_k2m9qz',
+        total: 6,
+        accepted: 3,
+        rejected: 3,
+        items: [
+          { index: 0, taskId: 'task_0', status: 'pending', price: 10 },
+          {
+            index: 1,
+            error: 'Invalid item',
+            errorCode: 'VALIDATION_ERROR',
+            details: [{ field: 'imageUrl', message: 'Invalid URL format' }],
+          },
+          { index: 2, taskId: 'task_1', status: 'pending', price: 10 },
+          {
+            index: 3,
+            error: 'Invalid item',
+            errorCode: 'VALIDATION_ERROR',
+            details: [{ field: 'imageUrl', message: 'Either imageUrl, imageFile or imagePath must be provided, but only one' }],
+          },
+          { index: 4, error: 'Image path is outside the allowed input directories', errorCode: 'FORBIDDEN' },
+          { index: 5, taskId: 'task_2', status: 'pending', price: 10 },
+        ],
+      });
+      expect(taskService.createBatchTasks).toHaveBeenCalledWith({ metadataPolicy: 'keep' }, [
+        { imageUrl: 'https://example.com/a.jpg', imageFile: undefined },
+        { localFile },
+        { imageUrl: undefined, imageFile: 'aGVsbG8=' },
+      ]);
+    });
+
+    it('should refuse a batch without a single valid item', async () => {
+      const error = await batchService
+        .createBatch({ items: [{ imageUrl: 'not a url' }, { imageUrl: 'https://example.com/a.jpg', extra: true }, 'a.jpg'] })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toMatchObject({
+        message: 'No item of the batch is valid',
+        details: [
+          { field: 'items.0.imageUrl', message: 'Invalid URL format' },
+          { field: 'items.1', message: expect.stringContaining('extra') },
+          { field: 'items.2', message: expect.stringContaining('expected object') },
+        ],
+      });
+      expect(taskService.createBatchTasks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBatch', () => {
+    it('should count the tasks per status and sum their prices', async () => {
+      const tasks = [
+        createTaskResult('task_0', 'completed', 10.1),
+        createTaskResult('task_1', 'failed', 20.2),
+        createTaskResult('task_2', 'pending', 5.05),
+      ];
+      vi.mocked(taskService.getBatchTasks).mockResolvedValue(tasks);
+
+      const batch = await batchService.getBatch('batch_20250811115246_k2m9qz');
+
+      expect(batch).toEqual({
+        batchId: 'batch_20250811115246_k2m9qz',
+        total: 3,
+        counts: { awaiting_upload: 0, pending: 1, completed: 1, failed: 1 },
+        totalPrice: 35.35,
+        items: tasks,
+      });
+    });
+  });
+});
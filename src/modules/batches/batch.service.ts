@@ -0,0 +1,110 @@
+import { ZodError } from 'zod';
+import { taskService } from '../tasks/task.service.js';
+import { fileService } from '../images/file.service.js';
+import { BatchItemSchema } from '../../common/validation.js';
+import { ValidationError } from '../../common/errors.js';
+import type { BatchTaskSource, TaskStatus } from '../tasks/task.types.js';
+import type { BatchItemResult, BatchStatus, CreateBatchRequest, CreateBatchResult } from './batch.types.js';
+
+export class BatchService {
+  /**
+   * Create one task per valid item of a batch, all with the same processing options. Items
+   * failing validation, or whose local path cannot be used, are reported by index without
+   * failing the others; only a batch without a single valid item is refused.
+   */
+  async createBatch(request: CreateBatchRequest): Promise<CreateBatchResult> {
+    const { items, ...options } = request;
+    const results: BatchItemResult[] = [];
+    const accepted: Array<{ index: number; source: BatchTaskSource }> = [];
+
+    for (const [index, item] of items.entries()) {
+      try {
+        accepted.push({ index, source: await this.resolveItem(item) });
+      } catch (error) {
+        results[index] = this.toRejection(index, error);
+      }
+    }
+
+    if (accepted.length === 0) {
+      throw new ValidationError(
+        'No item of the batch is valid',
+        results.flatMap(({ index, error, details }) =>
+          (details ?? [{ field: '', message: error ?? 'Invalid item' }]).map(({ field, message }) => ({
+            field: field ? `items.${index}.${field}` : `items.${index}`,
+            message,
+          }))
+        )
+      );
+    }
+
+    const { batchId, tasks } = await taskService.createBatchTasks(options, accepted.map(({ source }) => source));
+    tasks.forEach((task, position) => {
+      const index = accepted[position]?.index ?? position;
+      results[index] = { index, taskId: task.taskId, status: task.status, price: task.price };
+    });
+
+    return {
+      batchId,
+      total: items.length,
+      accepted: tasks.length,
+      rejected: items.length - tasks.length,
+      items: results,
+    };
+  }
+
+  /**
+   * Get the tasks of a batch with their number per status and their total price
+   */
+  async getBatch(batchId: string): Promise<BatchStatus> {
+    const tasks = await taskService.getBatchTasks(batchId);
+
+    const counts: Record<TaskStatus, number> = { awaiting_upload: 0, pending: 0, completed: 0, failed: 0 };
+    for (const task of tasks) {
+      counts[task.status] += 1;
+    }
+    const totalPrice = tasks.reduce((total, task) => total + task.price, 0);
+
+    return {
+      batchId,
+      total: tasks.length,
+      counts,
+      totalPrice: Math.round(totalPrice * 100) / 100,
+      items: tasks,
+    };
+  }
+
+  /**
+   * Validate an item and resolve its local path, the way a single task checks it up front
+   */
+  private async resolveItem(item: unknown): Promise<BatchTaskSource> {
+    const { imageUrl, imageFile, imagePath } = BatchItemSchema.parse(item);
+    if (imagePath) {
+      return { localFile: await fileService.resolveInputPath(imagePath) };
+    }
+    return { imageUrl, imageFile };
+  }
+
+  /**
+   * Report why an item was rejected, with the code of the error that rejected it
+   */
+  private toRejection(index: number, error: unknown): BatchItemResult {
+    if (error instanceof ZodError) {
+      return {
+        index,
+        error: 'Invalid item',
+        errorCode: 'VALIDATION_ERROR',
+        details: error.issues.map((issue) => ({ field: issue.path.join('.'), message: issue.message })),
+      };
+    }
+    if (error instanceof ValidationError) {
+      return { index, error: error.message, errorCode: error.code, details: error.details };
+    }
+    return {
+      index,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorCode: error instanceof Error && 'code' in error && typeof error.code === 'string' ? error.code : 'PROCESSING_ERROR',
+    };
+  }
+}
+
+export const batchService = new BatchService();
@@ -0,0 +1,35 @@
+import type { TaskOptions, TaskResult, TaskStatus } from '../tasks/task.types.js';
+
+// API Request/Response Types
+// Image sources of a batch with the processing options shared by all of them. Items are
+// validated one by one, so they arrive unchecked.
+export type CreateBatchRequest = TaskOptions & {
+  items: unknown[];
+};
+
+// Outcome of one item of a batch request: its task, or why it was rejected
+export interface BatchItemResult {
+  index: number; // position of the item in the request
+  taskId?: string | undefined;
+  status?: TaskStatus | undefined;
+  price?: number | undefined;
+  error?: string | undefined;
+  errorCode?: string | undefined;
+  details?: Array<{ field: string; message: string }> | undefined;
+}
+
+export interface CreateBatchResult {
+  batchId: string;
+  total: number;
+  accepted: number;
+  rejected: number;
+  items: BatchItemResult[];
+}
+
+export interface BatchStatus {
+  batchId: string;
+  total: number;
+  counts: Record<TaskStatus, number>;
+  totalPrice: number;
+  items: TaskResult[];
+}
@@ -0,0 +1,209 @@
+import { Request, Response, NextFunction } from 'express';
+import { IiifService, IIIF_CONTEXT } from './iiif.service.js';
+import { IiifImageParamsSchema, IiifInfoParamsSchema } from '../../common/validation.js';
+import { ValidationError } from '../../common/errors.js';
+import { sendImage } from '../../common/image-response.js';
+import { ZodError } from 'zod';
+
+export class IiifController {
+  private iiifService: IiifService;
+
+  constructor(iiifService: IiifService) {
+    this.iiifService = iiifService;
+  }
+
+  /**
+   * @swagger
+   * /iiif/3/{taskId}/info.json:
+   *   get:
+   *     summary: Get the IIIF image information of a task
+   *     description: |
+   *       IIIF Image API 3.0 information document for the task's original, as read by viewers
+   *       such as Mirador and OpenSeadragon. The document is returned as is, without the
+   *       API's success envelope, and as JSON-LD when the client accepts application/ld+json.
+   *     tags: [IIIF]
+   *     parameters:
+   *       - in: path
+   *         name: taskId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: task_20250811115246_ipgdc3
+   *     responses:
+   *       200:
+   *         description: Image information
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/IiifImageInfo'
+   *       400:
+   *         description: Task not completed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Task or original not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async getInfo(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = IiifInfoParamsSchema.parse(req.params);
+
+      const info = await this.iiifService.getInfo(taskId, this.getServiceId(req, taskId));
+
+      res.status(200);
+      res.type(req.accepts('application/json', 'application/ld+json') === 'application/ld+json'
+        ? `application/ld+json;profile="${IIIF_CONTEXT}"`
+        : 'application/json');
+      res.send(JSON.stringify(info));
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * @swagger
+   * /iiif/3/{taskId}:
+   *   get:
+   *     summary: Redirect to the IIIF image information
+   *     tags: [IIIF]
+   *     parameters:
+   *       - in: path
+   *         name: taskId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       303:
+   *         description: Redirect to info.json
+   */
+  redirectToInfo(req: Request, res: Response, next: NextFunction): void {
+    try {
+      const { taskId } = IiifInfoParamsSchema.parse(req.params);
+      res.redirect(303, `${this.getServiceId(req, taskId)}/info.json`);
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * @swagger
+   * /iiif/3/{taskId}/{region}/{size}/{rotation}/{quality}.{format}:
+   *   get:
+   *     summary: Get a IIIF image request of a task
+   *     description: |
+   *       Render a region of the task's original at the requested size, rotation, quality
+   *       and format (IIIF Image API 3.0, level 2). Renders are kept in the disk cache.
+   *     tags: [IIIF]
+   *     parameters:
+   *       - in: path
+   *         name: taskId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: region
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: full, square, x,y,w,h or pct:x,y,w,h
+   *         example: 0,0,512,512
+   *       - in: path
+   *         name: size
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: max, w,, ,h, pct:n, w,h or !w,h, at most the region and IIIF_MAX_DIMENSION; ^ upscaling answers 501
+   *         example: 256,
+   *       - in: path
+   *         name: rotation
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: 0, 90, 180 or 270, optionally prefixed with ! to mirror
+   *         example: '0'
+   *       - in: path
+   *         name: quality
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [default, color, gray, bitonal]
+   *       - in: path
+   *         name: format
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [jpg, png, webp]
+   *     responses:
+   *       200:
+   *         description: Image content
+   *         content:
+   *           image/*:
+   *             schema:
+   *               type: string
+   *               format: binary
+   *       304:
+   *         description: Not modified since the cached copy
+   *       400:
+   *         description: Invalid region, size, rotation, quality or format
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Task or original not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       501:
+   *         description: Rotation by other than a multiple of 90 degrees
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async getImage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId, ...request } = IiifImageParamsSchema.parse(req.params);
+
+      const image = await this.iiifService.getImage(taskId, request);
+
+      res.status(200);
+      res.setHeader('Content-Type', image.contentType);
+      // Viewers load tiles from other origins, which helmet blocks by default
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      sendImage(res, next, image);
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * Build the image service URI viewers resolve requests against
+   */
+  private getServiceId(req: Request, taskId: string): string {
+    return `${req.protocol}://${req.get('host')}${req.baseUrl}/${encodeURIComponent(taskId)}`;
+  }
+
+  /**
+   * Forward an error, reporting invalid parameters as a validation error
+   */
+  private handleError(error: unknown, next: NextFunction): void {
+    if (error instanceof ZodError) {
+      next(new ValidationError(
+        'Invalid IIIF request',
+        error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        }))
+      ));
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { IiifController } from './iiif.controller.js';
+import { iiifService } from './iiif.service.js';
+
+// Create controller instance
+const iiifController = new IiifController(iiifService);
+
+// Create router
+const router = Router();
+
+/**
+ * @route GET /iiif/3/:taskId
+ * @desc Redirect the image service URI to its information document
+ * @access Public
+ */
+router.get('/:taskId', iiifController.redirectToInfo.bind(iiifController));
+
+/**
+ * @route GET /iiif/3/:taskId/info.json
+ * @desc Get the IIIF image information of a task's original
+ * @access Public
+ */
+router.get('/:taskId/info.json', iiifController.getInfo.bind(iiifController));
+
+/**
+ * @route GET /iiif/3/:taskId/:region/:size/:rotation/:quality.:format
+ * @desc Render a IIIF image request from a task's original
+ * @access Public
+ */
+router.get('/:taskId/:region/:size/:rotation/:file', iiifController.getImage.bind(iiifController));
+
+export default router;
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { iiifService } from './iiif.service.js';
+import { Task } from '../tasks/task.model.js';
+import { imageService } from '../images/image.service.js';
+import { imageCacheService } from '../images/image-cache.service.js';
+import { fileService } from '../images/file.service.js';
+import { NotFoundError, NotImplementedError, ValidationError } from '../../common/errors.js';
+import type { IiifImageRequest } from './iiif.types.js';
+
+// Safe type casting helper
+const asMock = <T>(obj: unknown): T => obj as T;
+
+// Mock dependencies
+vi.mock('../tasks/task.model.js');
+vi.mock('../images/image.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../images/image.service.js')>()),
+  imageService: { renderRegion: vi.fn(), extractMetadata: vi.fn() },
+}));
+vi.mock('../images/image-cache.service.js');
+
+type MockTask = {
+  taskId: string;
+  status: 'pending' | 'completed' | 'failed';
+  originalPath?: string;
+  sourceHash?: string;
+  metadata?: { format: string; width?: number; height?: number };
+  createdAt: Date;
+};
+
+const ORIGINAL_PATH = '/output/originals/iiif-test.png';
+const CREATED_AT = new Date('2025-08-11T12:00:00Z');
+
+const createMockTask = (overrides: Partial<MockTask> = {}): MockTask => ({
+  taskId: 'task_123',
+  status: 'completed',
+  originalPath: ORIGINAL_PATH,
+  sourceHash: 'a'.repeat(64),
+  metadata: { format: 'png', width: 6000, height: 4000 },
+  createdAt: CREATED_AT,
+  ...overrides,
+});
+
+const mockTask = (task: MockTask | null): void => {
+  asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask | null> }) => void }>(Task.findOne).mockReturnValue({
+    exec: vi.fn().mockResolvedValue(task),
+  });
+};
+
+const createRequest = (overrides: Partial<IiifImageRequest> = {}): IiifImageRequest => ({
+  region: 'full',
+  size: 'max',
+  rotation: '0',
+  quality: 'default',
+  format: 'jpg',
+  ...overrides,
+});
+
+describe('IiifService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(imageService.renderRegion).mockResolvedValue(Buffer.alloc(32));
+    vi.mocked(imageCacheService.getOrRender).mockImplementation(async (key, extension, render) => ({
+      filePath: `/cache/${key}.${extension}`,
+      size: (await render()).length,
+    }));
+  });
+
+  describe('getInfo', () => {
+    it('should describe the original as a level 2 image service', async () => {
+      mockTask(createMockTask());
+
+      const info = await iiifService.getInfo('task_123', 'http://localhost/iiif/3/task_123');
+
+      expect(info).toMatchObject({
+        '@context': 'http://iiif.io/api/image/3/context.json',
+        id: 'http://localhost/iiif/3/task_123',
+        type: 'ImageService3',
+        protocol: 'http://iiif.io/api/image',
+        profile: 'level2',
+        width: 6000,
+        height: 4000,
+        maxWidth: 2048,
+        maxHeight: 2048,
+        tiles: [{ width: 512, scaleFactors: [1, 2, 4, 8, 16] }],
+        extraFeatures: ['mirroring'],
+      });
+      // Sizes beyond the limit of unsigned renders are not offered
+      expect(info.sizes).toEqual([
+        { width: 375, height: 250 },
+        { width: 750, height: 500 },
+        { width: 1500, height: 1000 },
+      ]);
+    });
+
+    it('should read the dimensions from the original when the task has none', async () => {
+      mockTask(createMockTask({ metadata: { format: 'png' } }));
+      vi.mocked(imageService.extractMetadata).mockResolvedValue({
+        width: 400,
+        height: 300,
+        orientation: 1,
+        hasExif: false,
+        hasIptc: false,
+        hasXmp: false,
+      });
+
+      const info = await iiifService.getInfo('task_123', 'id');
+
+      expect(imageService.extractMetadata).toHaveBeenCalledWith(fileService.resolveOutputPath(ORIGINAL_PATH));
+      expect(info).toMatchObject({ width: 400, height: 300, tiles: [{ width: 512, scaleFactors: [1] }] });
+    });
+
+    it('should reject unknown, unfinished and original-less tasks', async () => {
+      mockTask(null);
+      await expect(iiifService.getInfo('task_missing', 'id')).rejects.toThrow(NotFoundError);
+
+      mockTask(createMockTask({ status: 'pending' }));
+      await expect(iiifService.getInfo('task_123', 'id')).rejects.toThrow(ValidationError);
+
+      mockTask(createMockTask({ originalPath: '/tmp/source.png' }));
+      await expect(iiifService.getInfo('task_123', 'id')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getImage', () => {
+    it('should render the request from the original through the cache', async () => {
+      mockTask(createMockTask());
+
+      const image = await iiifService.getImage('task_123', createRequest({
+        region: '0,0,1024,1024',
+        size: '512,',
+        rotation: '!90',
+        quality: 'gray',
+        format: 'webp',
+      }));
+
+      expect(imageService.renderRegion).toHaveBeenCalledWith(
+        fileService.resolveOutputPath(ORIGINAL_PATH),
+        { left: 0, top: 0, width: 1024, height: 1024 },
+        { width: 512, height: 512 },
+        [{ type: 'flop' }, { type: 'rotate', angle: 90 }, { type: 'grayscale' }],
+        { format: 'webp' }
+      );
+      expect(image).toEqual({
+        filePath: expect.stringMatching(/^\/cache\/[a-f0-9]{64}\.webp$/),
+        contentType: 'image/webp',
+        etag: expect.stringMatching(/^W\/"[a-f0-9]{64}"$/),
+        lastModified: CREATED_AT,
+      });
+    });
+
+    it('should share cached renders between equivalent requests', async () => {
+      mockTask(createMockTask());
+
+      const full = await iiifService.getImage('task_123', createRequest({ size: '1500,' }));
+      const pixels = await iiifService.getImage('task_123', createRequest({ region: '0,0,6000,4000', size: ',1000' }));
+
+      expect(pixels.filePath).toBe(full.filePath);
+    });
+  });
+
+  describe('parseRequest', () => {
+    const parse = (overrides: Partial<IiifImageRequest>): ReturnType<typeof iiifService.parseRequest> =>
+      iiifService.parseRequest(createRequest(overrides), 1200, 800);
+
+    it('should parse regions and clip them to the image', () => {
+      expect(parse({ region: 'square' }).region).toEqual({ left: 200, top: 0, width: 800, height: 800 });
+      expect(parse({ region: '1000,700,500,500' }).region).toEqual({ left: 1000, top: 700, width: 200, height: 100 });
+      expect(parse({ region: 'pct:50,25,50,50' }).region).toEqual({ left: 600, top: 200, width: 600, height: 400 });
+    });
+
+    it('should reject empty, outside and malformed regions', () => {
+      expect(() => parse({ region: '0,0,0,10' })).toThrow(ValidationError);
+      expect(() => parse({ region: '1200,0,10,10' })).toThrow('Region is outside the image');
+      expect(() => parse({ region: '0,0,10' })).toThrow('Invalid region: 0,0,10');
+      expect(() => parse({ region: 'pct:-1,0,10,10' })).toThrow(ValidationError);
+    });
+
+    it('should parse every size syntax', () => {
+      const size = (value: string): { width: number; height: number } => {
+        const { width, height } = parse({ size: value });
+        return { width, height };
+      };
+
+      expect(size('max')).toEqual({ width: 1200, height: 800 });
+      expect(size('600,')).toEqual({ width: 600, height: 400 });
+      expect(size(',200')).toEqual({ width: 300, height: 200 });
+      expect(size('pct:25')).toEqual({ width: 300, height: 200 });
+      expect(size('100,100')).toEqual({ width: 100, height: 100 });
+      expect(size('!300,300')).toEqual({ width: 300, height: 200 });
+      expect(size('!3000,3000')).toEqual({ width: 1200, height: 800 });
+      expect(iiifService.parseRequest(createRequest({ size: 'max' }), 6000, 4000)).toMatchObject({ width: 2048, height: 1365 });
+    });
+
+    it('should reject upscaling and sizes over the limit of unsigned renders', () => {
+      expect(() => parse({ size: '1201,' })).toThrow('Sizes larger than the region are not supported');
+      expect(() => parse({ size: 'pct:101' })).toThrow(ValidationError);
+      expect(() => parse({ size: '^max' })).toThrow(NotImplementedError);
+      expect(() => parse({ size: '^!3000,3000' })).toThrow('Upscaling is not supported');
+      expect(() => iiifService.parseRequest(createRequest({ size: '3000,' }), 6000, 4000))
+        .toThrow('Size must be at most 2048x2048');
+      expect(() => parse({ size: '0,' })).toThrow('Size must have a positive width and height');
+      expect(() => parse({ size: ',' })).toThrow(ValidationError);
+      expect(() => parse({ size: '!300,' })).toThrow(ValidationError);
+      expect(() => parse({ size: 'full' })).toThrow('Invalid size: full');
+    });
+
+    it('should mirror before rotating and map qualities to operations', () => {
+      expect(parse({ rotation: '180' }).operations).toEqual([{ type: 'rotate', angle: 180 }]);
+      expect(parse({ rotation: '!0' }).operations).toEqual([{ type: 'flop' }]);
+      expect(parse({ rotation: '360' }).operations).toEqual([]);
+      expect(parse({ quality: 'color' }).operations).toEqual([]);
+      expect(parse({ quality: 'bitonal', format: 'png' })).toMatchObject({
+        operations: [{ type: 'threshold', threshold: 128, grayscale: true }],
+        format: 'png',
+      });
+    });
+
+    it('should reject arbitrary rotations as not implemented', () => {
+      expect(() => parse({ rotation: '45' })).toThrow(NotImplementedError);
+      expect(() => parse({ rotation: '361' })).toThrow(ValidationError);
+      expect(() => parse({ rotation: '-90' })).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import { Task } from '../tasks/task.model.js';
+import { imageService, FORMAT_EXTENSIONS, FORMAT_MIME_TYPES } from '../images/image.service.js';
+import { fileService } from '../images/file.service.js';
+import { imageCacheService } from '../images/image-cache.service.js';
+import { appConfig } from '../../config/index.js';
+import { NotFoundError, NotImplementedError, ValidationError } from '../../common/errors.js';
+import type { CropRect, ImageOperation, OutputFormat } from '../images/image.types.js';
+import type {
+  IiifFormat,
+  IiifImage,
+  IiifImageInfo,
+  IiifImageRequest,
+  IiifRenderPlan,
+  IiifSize,
+} from './iiif.types.js';
+
+export const IIIF_CONTEXT = 'http://iiif.io/api/image/3/context.json';
+
+const IIIF_PROTOCOL = 'http://iiif.io/api/image';
+
+// Tile edge advertised to deep-zoom viewers
+const TILE_SIZE = 512;
+
+const IIIF_FORMATS: Record<IiifFormat, OutputFormat> = {
+  jpg: 'jpeg',
+  png: 'png',
+  webp: 'webp',
+};
+
+// Luminance threshold for the bitonal quality
+const BITONAL_THRESHOLD = 128;
+
+const REGION_PIXELS = /^(\d+),(\d+),(\d+),(\d+)$/;
+const REGION_PERCENT = /^pct:(\d+(?:\.\d+)?),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)$/;
+const SIZE = /^(\^)?(?:(max)|pct:(\d+(?:\.\d+)?)|(!)?(\d+)?,(\d+)?)$/;
+const ROTATION = /^(!)?(\d+(?:\.\d+)?)$/;
+
+// A stored original with the dimensions requests are resolved against
+interface IiifSource {
+  filePath: string;
+  width: number;
+  height: number;
+  sourceHash?: string | undefined;
+  createdAt?: Date | undefined;
+}
+
+export class IiifService {
+  /**
+   * Describe a task's original as a level 2 image service
+   */
+  async getInfo(taskId: string, id: string): Promise<IiifImageInfo> {
+    const source = await this.resolveSource(taskId);
+    const maxSize = appConfig.iiifMaxDimension;
+    const scaleFactors = this.getScaleFactors(source.width, source.height);
+
+    return {
+      '@context': IIIF_CONTEXT,
+      id,
+      type: 'ImageService3',
+      protocol: IIIF_PROTOCOL,
+      profile: 'level2',
+      width: source.width,
+      height: source.height,
+      maxWidth: maxSize,
+      maxHeight: maxSize,
+      sizes: scaleFactors
+        .map((factor): IiifSize => ({
+          width: Math.ceil(source.width / factor),
+          height: Math.ceil(source.height / factor),
+        }))
+        .filter((size) => size.width <= maxSize && size.height <= maxSize)
+        .reverse(),
+      tiles: [{ width: TILE_SIZE, scaleFactors }],
+      extraQualities: ['gray', 'bitonal'],
+      extraFormats: ['webp'],
+      extraFeatures: ['mirroring'],
+    };
+  }
+
+  /**
+   * Render an image request from a task's original, reusing the cached result when present
+   */
+  async getImage(taskId: string, request: IiifImageRequest): Promise<IiifImage> {
+    const source = await this.resolveSource(taskId);
+    const plan = this.parseRequest(request, source.width, source.height);
+
+    // Keyed by the resolved plan, so equivalent requests ("full" and "0,0,w,h") share renders
+    const key = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ iiif: source.sourceHash ?? source.filePath, ...plan }))
+      .digest('hex');
+
+    const entry = await imageCacheService.getOrRender(key, FORMAT_EXTENSIONS[plan.format], () =>
+      imageService.renderRegion(
+        source.filePath,
+        plan.region,
+        { width: plan.width, height: plan.height },
+        plan.operations,
+        { format: plan.format }
+      )
+    );
+    return {
+      filePath: entry.filePath,
+      contentType: FORMAT_MIME_TYPES[plan.format],
+      etag: `W/"${key}"`,
+      lastModified: source.createdAt,
+    };
+  }
+
+  /**
+   * Resolve the region, size, rotation, quality and format of a request against
+   * the dimensions of the image
+   */
+  parseRequest(request: IiifImageRequest, imageWidth: number, imageHeight: number): IiifRenderPlan {
+    const region = this.parseRegion(request.region, imageWidth, imageHeight);
+    const size = this.parseSize(request.size, region.width, region.height);
+    const operations: ImageOperation[] = [...this.parseRotation(request.rotation)];
+    if (request.quality === 'gray') {
+      operations.push({ type: 'grayscale' });
+    } else if (request.quality === 'bitonal') {
+      operations.push({ type: 'threshold', threshold: BITONAL_THRESHOLD, grayscale: true });
+    }
+
+    return { region, ...size, operations, format: IIIF_FORMATS[request.format] };
+  }
+
+  /**
+   * Parse "full", "square", "x,y,w,h" or "pct:x,y,w,h" into a rectangle clipped to the image
+   */
+  private parseRegion(region: string, imageWidth: number, imageHeight: number): CropRect {
+    if (region === 'full') {
+      return { left: 0, top: 0, width: imageWidth, height: imageHeight };
+    }
+    if (region === 'square') {
+      const side = Math.min(imageWidth, imageHeight);
+      return {
+        left: Math.floor((imageWidth - side) / 2),
+        top: Math.floor((imageHeight - side) / 2),
+        width: side,
+        height: side,
+      };
+    }
+
+    let rect: CropRect;
+    const pixels = REGION_PIXELS.exec(region);
+    const percent = REGION_PERCENT.exec(region);
+    if (pixels) {
+      const [left, top, width, height] = pixels.slice(1).map(Number) as [number, number, number, number];
+      rect = { left, top, width, height };
+    } else if (percent) {
+      const [left, top, width, height] = percent.slice(1).map(Number) as [number, number, number, number];
+      rect = {
+        left: Math.round((left * imageWidth) / 100),
+        top: Math.round((top * imageHeight) / 100),
+        width: Math.round((width * imageWidth) / 100),
+        height: Math.round((height * imageHeight) / 100),
+      };
+    } else {
+      throw new ValidationError(`Invalid region: ${region}`);
+    }
+
+    if (rect.width === 0 || rect.height === 0) {
+      throw new ValidationError('Region must have a positive width and height');
+    }
+    if (rect.left >= imageWidth || rect.top >= imageHeight) {
+      throw new ValidationError('Region is outside the image');
+    }
+    return {
+      ...rect,
+      width: Math.min(rect.width, imageWidth - rect.left),
+      height: Math.min(rect.height, imageHeight - rect.top),
+    };
+  }
+
+  /**
+   * Parse "max", "w,", ",h", "pct:n", "w,h" or "!w,h" into the output size of a region. Anyone
+   * can request IIIF renders without a signature, so unlike signed transformation URLs they are
+   * never upscaled and stay within IIIF_MAX_DIMENSION, below the limit of signed renders.
+   */
+  private parseSize(size: string, regionWidth: number, regionHeight: number): IiifSize {
+    const match = SIZE.exec(size);
+    if (!match) {
+      throw new ValidationError(`Invalid size: ${size}`);
+    }
+    const [, upscale, max, percent, confined, widthParam, heightParam] = match;
+    if (upscale) {
+      throw new NotImplementedError('Upscaling is not supported');
+    }
+    if ([percent, widthParam, heightParam].some((value) => value !== undefined && Number(value) === 0)) {
+      throw new ValidationError('Size must have a positive width and height');
+    }
+    const maxSize = appConfig.iiifMaxDimension;
+
+    let width: number;
+    let height: number;
+    if (max) {
+      const scale = Math.min(maxSize / regionWidth, maxSize / regionHeight, 1);
+      width = Math.round(regionWidth * scale);
+      height = Math.round(regionHeight * scale);
+    } else if (percent) {
+      width = Math.round((regionWidth * Number(percent)) / 100);
+      height = Math.round((regionHeight * Number(percent)) / 100);
+    } else if (confined) {
+      if (!widthParam || !heightParam) {
+        throw new ValidationError(`Invalid size: ${size}`);
+      }
+      // Best fit within w,h, and within the region itself
+      const scale = Math.min(Number(widthParam) / regionWidth, Number(heightParam) / regionHeight, 1);
+      width = Math.round(regionWidth * scale);
+      height = Math.round(regionHeight * scale);
+    } else if (widthParam && heightParam) {
+      width = Number(widthParam);
+      height = Number(heightParam);
+    } else if (widthParam) {
+      width = Number(widthParam);
+      height = Math.round((regionHeight * width) / regionWidth);
+    } else if (heightParam) {
+      height = Number(heightParam);
+      width = Math.round((regionWidth * height) / regionHeight);
+    } else {
+      throw new ValidationError(`Invalid size: ${size}`);
+    }
+
+    // Keep thin regions at least one pixel across
+    width = Math.max(width, 1);
+    height = Math.max(height, 1);
+    if (width > regionWidth || height > regionHeight) {
+      throw new ValidationError('Sizes larger than the region are not supported');
+    }
+    if (width > maxSize || height > maxSize) {
+      throw new ValidationError(`Size must be at most ${maxSize}x${maxSize}`);
+    }
+    return { width, height };
+  }
+
+  /**
+   * Parse "n" or "!n" into mirroring and rotation operations. Only multiples of 90° are supported.
+   */
+  private parseRotation(rotation: string): ImageOperation[] {
+    const match = ROTATION.exec(rotation);
+    const degrees = Number(match?.[2]);
+    if (!match || degrees > 360) {
+      throw new ValidationError(`Invalid rotation: ${rotation}`);
+    }
+    if (degrees % 90 !== 0) {
+      throw new NotImplementedError('Only rotations by multiples of 90 degrees are supported');
+    }
+
+    // IIIF mirrors before rotating
+    const operations: ImageOperation[] = match[1] ? [{ type: 'flop' }] : [];
+    if (degrees % 360 !== 0) {
+      operations.push({ type: 'rotate', angle: degrees % 360 });
+    }
+    return operations;
+  }
+
+  /**
+   * Powers of two down to the level where the whole image fits in one tile
+   */
+  private getScaleFactors(width: number, height: number): number[] {
+    const scaleFactors = [1];
+    for (let factor = 2; Math.max(width, height) / (factor / 2) > TILE_SIZE; factor *= 2) {
+      scaleFactors.push(factor);
+    }
+    return scaleFactors;
+  }
+
+  /**
+   * Locate the stored original of a completed task and its dimensions
+   */
+  private async resolveSource(taskId: string): Promise<IiifSource> {
+    const task = await Task.findOne({ taskId }).exec();
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
+    }
+    if (task.status !== 'completed') {
+      throw new ValidationError(`Task ${taskId} is not completed`);
+    }
+    if (!task.originalPath?.startsWith('/output/')) {
+      throw new NotFoundError('Original image for task', taskId);
+    }
+
+    const filePath = fileService.resolveOutputPath(task.originalPath);
+    let { width, height } = task.metadata ?? {};
+    if (width === undefined || height === undefined) {
+      ({ width, height } = await imageService.extractMetadata(filePath));
+    }
+    if (width === undefined || height === undefined) {
+      throw new ValidationError(`Dimensions of task ${taskId} are unknown`);
+    }
+    return { filePath, width, height, sourceHash: task.sourceHash, createdAt: task.createdAt };
+  }
+}
+
+export const iiifService = new IiifService();
@@ -0,0 +1,57 @@
+import type { ImageFile } from '../../common/image-response.js';
+import type { CropRect, ImageOperation, OutputFormat } from '../images/image.types.js';
+
+export type IiifQuality = 'default' | 'color' | 'gray' | 'bitonal';
+
+export type IiifFormat = 'jpg' | 'png' | 'webp';
+
+// Path segments of an image request: {region}/{size}/{rotation}/{quality}.{format}
+export interface IiifImageRequest {
+  region: string;
+  size: string;
+  rotation: string;
+  quality: IiifQuality;
+  format: IiifFormat;
+}
+
+// An image request resolved against the dimensions of the original
+export interface IiifRenderPlan {
+  region: CropRect;
+  width: number;
+  height: number;
+  operations: ImageOperation[]; // mirroring, rotation and quality, in that order
+  format: OutputFormat;
+}
+
+export interface IiifSize {
+  width: number;
+  height: number;
+}
+
+export interface IiifTile {
+  width: number;
+  scaleFactors: number[];
+}
+
+// Image information document (info.json)
+export interface IiifImageInfo {
+  '@context': string;
+  id: string;
+  type: 'ImageService3';
+  protocol: string;
+  profile: 'level0' | 'level1' | 'level2';
+  width: number;
+  height: number;
+  maxWidth: number;
+  maxHeight: number;
+  sizes: IiifSize[];
+  tiles: IiifTile[];
+  extraQualities: IiifQuality[];
+  extraFormats: IiifFormat[];
+  extraFeatures: string[];
+}
+
+// A rendered image ready to be streamed
+export interface IiifImage extends ImageFile {
+  contentType: string;
+}
@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { deliveryService } from './delivery.service.js';
+import { Image } from './image.model.js';
+import { Task } from '../tasks/task.model.js';
+import { imageService, ImageService } from './image.service.js';
+import { metadataService } from './metadata.service.js';
+import { imageCacheService } from './image-cache.service.js';
+import { fileService } from './file.service.js';
+import { NotFoundError, ValidationError } from '../../common/errors.js';
+
+// Safe type casting helper
+const asMock = <T>(obj: unknown): T => obj as T;
+
+// Mock dependencies
+vi.mock('./image.model.js');
+vi.mock('../tasks/task.model.js');
+vi.mock('./image.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./image.service.js')>()),
+  imageService: { renderImage: vi.fn() },
+}));
+vi.mock('./image-cache.service.js');
+
+type MockTask = {
+  taskId: string;
+  status: 'pending' | 'completed' | 'failed';
+  originalPath?: string;
+  sourceHash?: string;
+  metadata?: { format: string; width?: number };
+  createdAt: Date;
+};
+
+type MockImage = {
+  taskId: string;
+  resolution: string;
+  requestedWidth?: number;
+  requestedHeight?: number;
+  fit: string;
+  format: string;
+  path: string;
+  width: number;
+  md5: string;
+  frames?: number;
+  createdAt: Date;
+};
+
+const ORIGINAL_PATH = '/output/originals/delivery-test.png';
+const VARIANT_PATH = '/output/delivery-test/1024/abc.webp';
+const JPEG_VARIANT_PATH = '/output/delivery-test/1024/abc.jpg';
+const TASK_CREATED_AT = new Date('2025-08-11T12:00:00Z');
+const IMAGE_CREATED_AT = new Date('2025-08-11T12:00:05Z');
+
+const createMockTask = (overrides: Partial<MockTask> = {}): MockTask => ({
+  taskId: 'task_123',
+  status: 'completed',
+  originalPath: ORIGINAL_PATH,
+  sourceHash: 'a'.repeat(64),
+  metadata: { format: 'png' },
+  createdAt: TASK_CREATED_AT,
+  ...overrides,
+});
+
+const createMockImage = (overrides: Partial<MockImage> = {}): MockImage => ({
+  taskId: 'task_123',
+  resolution: '1024',
+  requestedWidth: 1024,
+  fit: 'inside',
+  format: 'jpeg',
+  path: JPEG_VARIANT_PATH,
+  width: 1024,
+  md5: 'b'.repeat(32),
+  createdAt: IMAGE_CREATED_AT,
+  ...overrides,
+});
+
+const mockTask = (task: MockTask | null): void => {
+  asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask | null> }) => void }>(Task.findOne).mockReturnValue({
+    exec: vi.fn().mockResolvedValue(task),
+  });
+};
+
+const mockImages = (images: MockImage[]): void => {
+  asMock<{ mockReturnValue: (obj: { sort: () => { exec: () => Promise<MockImage[]> } }) => void }>(Image.find).mockReturnValue({
+    sort: vi.fn().mockReturnValue({ exec: vi.fn().mockResolvedValue(images) }),
+  });
+};
+
+describe('DeliveryService', () => {
+  const storedFiles = [ORIGINAL_PATH, VARIANT_PATH, JPEG_VARIANT_PATH].map((outputPath) => fileService.resolveOutputPath(outputPath));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const filePath of storedFiles) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, Buffer.alloc(64));
+    }
+    vi.mocked(imageService.renderImage).mockResolvedValue(Buffer.alloc(32));
+    vi.mocked(imageCacheService.getOrRender).mockImplementation(async (key, extension, render) => ({
+      filePath: `/cache/${key}.${extension}`,
+      size: (await render()).length,
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storedFiles[0] ?? '', { force: true });
+    fs.rmSync(fileService.resolveOutputPath('/output/delivery-test'), { recursive: true, force: true });
+  });
+
+  it('should serve a stored variant picked by its extension', async () => {
+    mockTask(createMockTask());
+    mockImages([createMockImage(), createMockImage({ format: 'webp', path: VARIANT_PATH, md5: 'c'.repeat(32) })]);
+
+    const image = await deliveryService.getImage('task_123', '1024.webp');
+
+    expect(Image.find).toHaveBeenCalledWith({ taskId: 'task_123', resolution: '1024' });
+    expect(image).toEqual({
+      filePath: fileService.resolveOutputPath(VARIANT_PATH),
+      contentType: 'image/webp',
+      size: 64,
+      vary: ['Sec-CH-Width', 'Width'],
+      etag: `"${'c'.repeat(32)}"`,
+      lastModified: IMAGE_CREATED_AT,
+    });
+    expect(imageService.renderImage).not.toHaveBeenCalled();
+  });
+
+  it('should serve the first requested format of a variant without an extension', async () => {
+    mockTask(createMockTask());
+    mockImages([createMockImage({ format: 'webp', path: VARIANT_PATH, md5: 'c'.repeat(32) }), createMockImage()]);
+
+    const image = await deliveryService.getImage('task_123', '1024');
+
+    const sort = vi.mocked(Image.find).mock.results[0]?.value.sort;
+    expect(sort).toHaveBeenCalledWith({ _id: 1 });
+    expect(image).toMatchObject({
+      filePath: fileService.resolveOutputPath(VARIANT_PATH),
+      contentType: 'image/webp',
+      etag: `"${'c'.repeat(32)}"`,
+    });
+  });
+
+  it('should serve the original re-encoded in its format without metadata', async () => {
+    mockTask(createMockTask());
+
+    const image = await deliveryService.getImage('task_123', 'original');
+
+    expect(imageService.renderImage).toHaveBeenCalledWith(
+      fileService.resolveOutputPath(ORIGINAL_PATH),
+      { width: undefined, fit: 'inside' },
+      { format: 'png' },
+      'strip'
+    );
+    expect(image).toEqual({
+      filePath: expect.stringMatching(/^\/cache\/[a-f0-9]{64}\.png$/),
+      contentType: 'image/png',
+      size: 32,
+      vary: ['Accept'],
+      etag: expect.stringMatching(/^W\/"[a-f0-9]{64}"$/),
+      lastModified: TASK_CREATED_AT,
+    });
+  });
+
+  it('should strip the GPS position from a geotagged original', async () => {
+    const originalPath = '/output/delivery-test/geotagged.jpg';
+    await sharp({ create: { width: 64, height: 48, channels: 3, background: { r: 10, g: 20, b: 30 } } })
+      .jpeg()
+      .withExif({ IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '48/1 51/1 24/1', GPSLongitudeRef: 'E', GPSLongitude: '2/1 21/1 3/1' } })
+      .toFile(fileService.resolveOutputPath(originalPath));
+    expect(metadataService.summarize(await sharp(fileService.resolveOutputPath(originalPath)).metadata()).gps).toBeDefined();
+    mockTask(createMockTask({ originalPath, metadata: { format: 'jpeg', width: 64 } }));
+    vi.mocked(imageService.renderImage).mockImplementation((...args) => new ImageService().renderImage(...args));
+    let rendered: Buffer = Buffer.alloc(0);
+    vi.mocked(imageCacheService.getOrRender).mockImplementation(async (key, extension, render) => {
+      rendered = await render();
+      return { filePath: `/cache/${key}.${extension}`, size: rendered.length };
+    });
+
+    const image = await deliveryService.getImage('task_123', 'original');
+
+    expect(image.contentType).toBe('image/jpeg');
+    const metadata = await sharp(rendered).metadata();
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.exif).toBeUndefined();
+    expect(metadataService.summarize(metadata).gps).toBeUndefined();
+  });
+
+  it('should render transformations from the original with the variant as defaults', async () => {
+    mockTask(createMockTask());
+    mockImages([createMockImage({ format: 'webp', path: VARIANT_PATH })]);
+
+    const image = await deliveryService.getImage('task_123', '1024', { quality: 40 });
+
+    expect(imageService.renderImage).toHaveBeenCalledWith(
+      fileService.resolveOutputPath(ORIGINAL_PATH),
+      { width: 1024, height: undefined, fit: 'inside' },
+      { format: 'webp', quality: 40 }
+    );
+    expect(image).toEqual({
+      filePath: expect.stringMatching(/^\/cache\/[a-f0-9]{64}\.webp$/),
+      contentType: 'image/webp',
+      size: 32,
+      vary: ['Accept'],
+      etag: expect.stringMatching(/^W\/"[a-f0-9]{64}"$/),
+      lastModified: TASK_CREATED_AT,
+    });
+  });
+
+  it('should replace the variant size when a width or height is requested', async () => {
+    mockTask(createMockTask());
+
+    await deliveryService.getImage('task_123', 'original', { height: 300, format: 'avif' });
+
+    expect(imageService.renderImage).toHaveBeenCalledWith(
+      expect.any(String),
+      { width: undefined, height: 300, fit: undefined },
+      { format: 'avif' }
+    );
+  });
+
+  it('should derive the same cache key for tasks sharing an original', async () => {
+    mockTask(createMockTask());
+    const first = await deliveryService.getImage('task_123', 'original', { width: 200 });
+    mockTask(createMockTask({ taskId: 'task_456' }));
+    const second = await deliveryService.getImage('task_456', 'original', { width: 200 });
+    const third = await deliveryService.getImage('task_456', 'original', { width: 201 });
+
+    expect(second.filePath).toBe(first.filePath);
+    expect(third.filePath).not.toBe(first.filePath);
+  });
+
+  it('should negotiate AVIF by re-encoding the stored variant', async () => {
+    mockTask(createMockTask());
+    mockImages([createMockImage()]);
+
+    const image = await deliveryService.getImage('task_123', '1024', {}, {
+      accept: 'image/avif,image/webp,image/apng,*/*;q=0.8',
+    });
+
+    expect(imageService.renderImage).toHaveBeenCalledWith(
+      fileService.resolveOutputPath(JPEG_VARIANT_PATH),
+      { width: undefined, fit: 'inside' },
+      { format: 'avif' },
+      'keep'
+    );
+    expect(image).toEqual({
+      filePath: expect.stringMatching(/^\/cache\/[a-f0-9]{64}\.avif$/),
+      contentType: 'image/avif',
+      size: 32,
+      vary: ['Accept', 'Sec-CH-Width', 'Width'],
+      etag: expect.stringMatching(/^W\/"[a-f0-9]{64}"$/),
+      lastModified: IMAGE_CREATED_AT,
+    });
+  });
+
+  it('should follow q-values and ignore wildcards', async () => {
+    mockTask(createMockTask());
+    mockImages([createMockImage()]);
+
+    const webp = await deliveryService.getImage('task_123', '1024', {}, {
+      accept: 'image/avif;q=0.5, image/webp;q=0.9',
+    });
+    expect(webp.contentType).toBe('image/webp');
+
+    const fallback = await deliveryService.getImage('task_123', '1024', {}, { accept: 'image/avif;q=0, image/*' });
+    expect(fallback).toMatchObject({ contentType: 'image/jpeg', size: 64 });
+    expect(imageService.renderImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only offer WebP for animated variants', async () => {
+    mockTask(createMockTask());
+    mockImages([createMockImage({ format: 'gif', frames: 12 })]);
+
+    const image = await deliveryService.getImage('task_123', '1024', {}, { accept: 'image/avif,image/webp' });
+
+    expect(image.contentType).toBe('image/webp');
+  });
+
+  it('should keep the format named by the variant extension', async () => {
+    mockTask(createMockTask());
+    mockImages([createMockImage()]);
+
+    const image = await deliveryService.getImage('task_123', '1024.jpg', {}, { accept: 'image/avif' });
+
+    expect(image).toMatchObject({ contentType: 'image/jpeg', vary: ['Sec-CH-Width', 'Width'] });
+    expect(imageService.renderImage).not.toHaveBeenCalled();
+  });
+
+  it('should snap the Width hint to a smaller served width', async () => {
+    mockTask(createMockTask());
+    mockImages([createMockImage()]);
+
+    await deliveryService.getImage('task_123', '1024', {}, { width: 500 });
+    expect(imageService.renderImage).toHaveBeenCalledWith(
+      expect.any(String),
+      { width: 640, fit: 'inside' },
+      { format: 'jpeg' },
+      'keep'
+    );
+
+    vi.mocked(imageService.renderImage).mockClear();
+    const full = await deliveryService.getImage('task_123', '1024', {}, { width: 1000 });
+    expect(full.size).toBe(64);
+    expect(imageService.renderImage).not.toHaveBeenCalled();
+  });
+
+  it('should scale explicit sizes by the DPR hint', async () => {
+    mockTask(createMockTask());
+
+    const image = await deliveryService.getImage('task_123', 'original', { width: 300 }, {
+      dpr: 2.2,
+      accept: 'image/webp',
+    });
+
+    expect(imageService.renderImage).toHaveBeenCalledWith(
+      expect.any(String),
+      { width: 600, height: undefined, fit: undefined },
+      { format: 'webp' }
+    );
+    expect(image.vary).toEqual(['Accept', 'Sec-CH-DPR', 'DPR']);
+  });
+
+  it('should reject quality for gif output', async () => {
+    mockTask(createMockTask());
+
+    await expect(
+      deliveryService.getImage('task_123', 'original', { format: 'gif', quality: 50 })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject tasks that are not completed', async () => {
+    mockTask(createMockTask({ status: 'pending' }));
+
+    await expect(deliveryService.getImage('task_123', 'original')).rejects.toThrow(ValidationError);
+  });
+
+  it('should throw NotFoundError for unknown tasks and variants', async () => {
+    mockTask(null);
+    await expect(deliveryService.getImage('task_missing', 'original')).rejects.toThrow(NotFoundError);
+
+    mockTask(createMockTask());
+    mockImages([createMockImage({ path: '/output/delivery-test/1024/missing.jpg' })]);
+    await expect(deliveryService.getImage('task_123', '1024.avif')).rejects.toThrow(NotFoundError);
+    await expect(deliveryService.getImage('task_123', '1024')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should throw NotFoundError when the original was not kept', async () => {
+    mockTask(createMockTask({ originalPath: '/tmp/source.jpg' }));
+
+    await expect(deliveryService.getImage('task_123', 'original', { width: 100 })).rejects.toThrow(NotFoundError);
+  });
+});
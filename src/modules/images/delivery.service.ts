@@ -0,0 +1,334 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Image } from './image.model.js';
+import { Task } from '../tasks/task.model.js';
+import { imageService, FORMAT_EXTENSIONS, FORMAT_MIME_TYPES } from './image.service.js';
+import { fileService } from './file.service.js';
+import { imageCacheService } from './image-cache.service.js';
+import { appConfig } from '../../config/index.js';
+import { NotFoundError, ValidationError } from '../../common/errors.js';
+import type { ITask } from '../tasks/task.types.js';
+import type {
+  ClientHints,
+  DeliveredImage,
+  ImageTransformation,
+  MetadataPolicy,
+  OutputFormat,
+  ResolutionSpec,
+} from './image.types.js';
+
+// Variant name that serves the task's original
+export const ORIGINAL_VARIANT = 'original';
+
+// Client hints the server asks browsers for in Accept-CH
+export const CLIENT_HINT_HEADERS = ['Sec-CH-DPR', 'Sec-CH-Width'];
+
+// Formats offered to clients that list them in Accept, best first. AVIF is encoded
+// without animation, so animated images are only offered as WebP.
+const NEGOTIATED_FORMATS: OutputFormat[] = ['avif', 'webp'];
+const ANIMATED_NEGOTIATED_FORMATS: OutputFormat[] = ['webp'];
+
+// Widths served for the Width hint, so unsigned requests can't render arbitrary sizes
+const HINT_WIDTHS = [160, 320, 480, 640, 800, 1024, 1280, 1600, 1920, 2560, 3840];
+
+// Highest device pixel ratio applied to explicit sizes
+const MAX_DPR = 3;
+
+// A file to stream as is, with the defaults transformations start from
+interface VariantFile {
+  filePath: string;
+  contentType: string;
+  spec: ResolutionSpec;
+  format: OutputFormat;
+  explicitFormat: boolean; // format named by the variant's extension
+  width?: number | undefined; // actual pixel width
+  animated: boolean;
+  contentHash?: string | undefined;
+  lastModified?: Date | undefined;
+  metadataPolicy: MetadataPolicy; // policy for renditions of this file
+}
+
+export class DeliveryService {
+  /**
+   * Resolve a stored variant of a task, or render a transformation of the task's
+   * original through the disk cache. Query parameters override the variant's
+   * size, fit and format. Unless the format is fixed by an extension or the query,
+   * it is negotiated from the Accept header, and client hints pick smaller widths.
+   */
+  async getImage(
+    taskId: string,
+    variant: string,
+    transformation: ImageTransformation = {},
+    hints: ClientHints = {}
+  ): Promise<DeliveredImage> {
+    const task = await Task.findOne({ taskId }).exec();
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
+    }
+    if (task.status !== 'completed') {
+      throw new ValidationError(`Task ${taskId} is not completed`);
+    }
+
+    const base = variant === ORIGINAL_VARIANT
+      ? this.resolveOriginal(task)
+      : await this.resolveVariant(taskId, variant);
+
+    // Request headers the response depends on, for the Vary header. Client hints
+    // fall back to their legacy names, which are listed too.
+    const vary: string[] = [];
+    let negotiatedFormat: OutputFormat | undefined;
+    if (transformation.format === undefined && !base.explicitFormat) {
+      vary.push('Accept');
+      negotiatedFormat = this.negotiateFormat(hints.accept, base.animated);
+    }
+
+    if (Object.values(transformation).some((value) => value !== undefined)) {
+      const sized = transformation.width !== undefined || transformation.height !== undefined;
+      if (sized) {
+        vary.push('Sec-CH-DPR', 'DPR');
+      }
+      const dpr = sized ? this.roundDpr(hints.dpr) : undefined;
+      const image = await this.renderTransformation(task, base, {
+        ...transformation,
+        ...(dpr !== undefined && {
+          width: this.scaleDimension(transformation.width, dpr),
+          height: this.scaleDimension(transformation.height, dpr),
+        }),
+        format: transformation.format ?? negotiatedFormat,
+      });
+      return { ...image, vary };
+    }
+
+    if (base.width !== undefined) {
+      vary.push('Sec-CH-Width', 'Width');
+    }
+    const width = this.hintedWidth(base, hints.width);
+    const format = negotiatedFormat ?? base.format;
+    // Originals are always re-encoded, so their EXIF, GPS included, never leaves the server
+    if (width === undefined && format === base.format && variant !== ORIGINAL_VARIANT) {
+      return { ...this.toDeliveredImage(base), vary };
+    }
+    return { ...(await this.renderRendition(base, format, width)), vary };
+  }
+
+  /**
+   * Render the file itself, possibly in another format or at a smaller width. Stored variants
+   * are re-encoded as is, so their operations, watermark and metadata carry over;
+   * originals are stripped of their metadata.
+   */
+  private async renderRendition(
+    base: VariantFile,
+    format: OutputFormat,
+    width: number | undefined
+  ): Promise<Omit<DeliveredImage, 'vary'>> {
+    if (!fs.existsSync(base.filePath)) {
+      throw new NotFoundError('Image file', path.basename(base.filePath));
+    }
+
+    const key = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ rendition: base.contentHash ?? base.filePath, width, format }))
+      .digest('hex');
+
+    const entry = await imageCacheService.getOrRender(key, FORMAT_EXTENSIONS[format], () =>
+      imageService.renderImage(base.filePath, { width, fit: 'inside' }, { format }, base.metadataPolicy)
+    );
+    return this.toRenderedImage(entry, format, key, base.lastModified);
+  }
+
+  /**
+   * Pick the best format the client lists in Accept, or undefined to keep the stored one.
+   * Wildcards don't count: browsers name the modern formats they decode.
+   */
+  private negotiateFormat(accept: string | undefined, animated: boolean): OutputFormat | undefined {
+    if (!accept) {
+      return undefined;
+    }
+
+    const accepted = new Map<string, number>();
+    for (const range of accept.split(',')) {
+      const [type = '', ...params] = range.split(';').map((part) => part.trim());
+      const qParam = params.find((param) => param.toLowerCase().startsWith('q='));
+      const q = qParam ? Number(qParam.slice(2)) : 1;
+      accepted.set(type.toLowerCase(), Number.isFinite(q) ? q : 0);
+    }
+
+    let best: { format: OutputFormat; q: number } | undefined;
+    for (const format of animated ? ANIMATED_NEGOTIATED_FORMATS : NEGOTIATED_FORMATS) {
+      const q = accepted.get(FORMAT_MIME_TYPES[format]) ?? 0;
+      if (q > 0 && (!best || q > best.q)) {
+        best = { format, q };
+      }
+    }
+    return best?.format;
+  }
+
+  /**
+   * Snap the Width hint up to the nearest served width, or undefined when the
+   * file is not wider than that
+   */
+  private hintedWidth(base: VariantFile, hintWidth: number | undefined): number | undefined {
+    if (hintWidth === undefined || base.width === undefined) {
+      return undefined;
+    }
+    const width = HINT_WIDTHS.find((candidate) => candidate >= hintWidth);
+    return width !== undefined && width < base.width ? width : undefined;
+  }
+
+  /**
+   * Round the DPR hint to steps of 0.5 within [1, MAX_DPR], so it adds few cache entries
+   */
+  private roundDpr(dpr: number | undefined): number | undefined {
+    return dpr === undefined ? undefined : Math.min(Math.max(Math.round(dpr * 2) / 2, 1), MAX_DPR);
+  }
+
+  /**
+   * Scale a requested dimension by the device pixel ratio, within the output limit
+   */
+  private scaleDimension(dimension: number | undefined, dpr: number): number | undefined {
+    return dimension === undefined
+      ? undefined
+      : Math.min(Math.round(dimension * dpr), appConfig.maxOutputDimension);
+  }
+
+  /**
+   * Render a transformation of the task's original, reusing the cached result when present
+   */
+  private async renderTransformation(
+    task: ITask,
+    base: VariantFile,
+    transformation: ImageTransformation
+  ): Promise<Omit<DeliveredImage, 'vary'>> {
+    const original = this.resolveOriginal(task);
+
+    // A requested size replaces the variant's size as a whole, so the aspect ratio isn't mixed
+    const resized = transformation.width !== undefined || transformation.height !== undefined;
+    const spec: ResolutionSpec = {
+      width: resized ? transformation.width : base.spec.width,
+      height: resized ? transformation.height : base.spec.height,
+      fit: transformation.fit ?? base.spec.fit,
+    };
+    const format = transformation.format ?? base.format;
+    if (transformation.quality !== undefined && format === 'gif') {
+      throw new ValidationError('quality is not supported for gif');
+    }
+
+    // Keyed by the original's content, so tasks sharing an original share cached renders
+    const key = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({
+        source: task.sourceHash ?? task.originalPath,
+        width: spec.width,
+        height: spec.height,
+        fit: spec.fit,
+        format,
+        quality: transformation.quality,
+      }))
+      .digest('hex');
+
+    const entry = await imageCacheService.getOrRender(key, FORMAT_EXTENSIONS[format], () =>
+      imageService.renderImage(original.filePath, spec, {
+        format,
+        ...(transformation.quality !== undefined && { quality: transformation.quality }),
+      })
+    );
+    return this.toRenderedImage(entry, format, key, original.lastModified);
+  }
+
+  /**
+   * Locate the stored original of a task. Tasks created before originals were kept have none.
+   */
+  private resolveOriginal(task: ITask): VariantFile {
+    if (!task.originalPath?.startsWith('/output/')) {
+      throw new NotFoundError('Original image for task', task.taskId);
+    }
+
+    // The format of the contents, whatever extension older originals were stored under
+    const format = task.metadata?.format && task.metadata.format in FORMAT_EXTENSIONS
+      ? (task.metadata.format as OutputFormat)
+      : 'jpeg';
+    return {
+      filePath: fileService.resolveOutputPath(task.originalPath),
+      contentType: FORMAT_MIME_TYPES[format],
+      spec: {},
+      format,
+      explicitFormat: false,
+      width: task.metadata?.width,
+      // Originals aren't probed for frames, so treat formats that can animate as animated
+      animated: format === 'gif' || format === 'webp',
+      contentHash: task.sourceHash,
+      lastModified: task.createdAt,
+      metadataPolicy: 'strip',
+    };
+  }
+
+  /**
+   * Find a variant by resolution label, optionally suffixed with the extension
+   * of one of its formats: "1024" or "1024.webp"
+   */
+  private async resolveVariant(taskId: string, variant: string): Promise<VariantFile> {
+    const [resolution, extension] = variant.split('.', 2);
+    // Variants are stored in the order their formats were requested, so the first is the first format
+    const images = await Image.find({ taskId, resolution }).sort({ _id: 1 }).exec();
+    const image = extension ? images.find((img) => FORMAT_EXTENSIONS[img.format] === extension) : images[0];
+    if (!image) {
+      throw new NotFoundError('Image variant', variant);
+    }
+
+    return {
+      filePath: fileService.resolveOutputPath(image.path),
+      contentType: FORMAT_MIME_TYPES[image.format],
+      spec: {
+        width: image.requestedWidth,
+        height: image.requestedHeight,
+        fit: image.fit,
+      },
+      format: image.format,
+      explicitFormat: extension !== undefined,
+      width: image.width,
+      animated: (image.frames ?? 1) > 1,
+      contentHash: image.md5,
+      lastModified: image.createdAt,
+      metadataPolicy: 'keep',
+    };
+  }
+
+  /**
+   * Check the file is still on disk and report its size. Stored files are named by
+   * their content hash, which makes a strong entity tag.
+   */
+  private toDeliveredImage(file: VariantFile): Omit<DeliveredImage, 'vary'> {
+    if (!fs.existsSync(file.filePath)) {
+      throw new NotFoundError('Image file', path.basename(file.filePath));
+    }
+    return {
+      filePath: file.filePath,
+      contentType: file.contentType,
+      size: fs.statSync(file.filePath).size,
+      etag: file.contentHash && `"${file.contentHash}"`,
+      lastModified: file.lastModified,
+    };
+  }
+
+  /**
+   * Describe a cached render. Its entity tag is weak: the cache key identifies the
+   * image, but a render repeated after eviction isn't guaranteed to match byte for byte.
+   */
+  private toRenderedImage(
+    entry: Pick<DeliveredImage, 'filePath' | 'size'>,
+    format: OutputFormat,
+    key: string,
+    lastModified: Date | undefined
+  ): Omit<DeliveredImage, 'vary'> {
+    return {
+      filePath: entry.filePath,
+      contentType: FORMAT_MIME_TYPES[format],
+      size: entry.size,
+      etag: `W/"${key}"`,
+      lastModified,
+    };
+  }
+}
+
+export const deliveryService = new DeliveryService();
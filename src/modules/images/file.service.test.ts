@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { FileService } from './file.service.js';
+import { appConfig } from '../../config/index.js';
+import {
+  ForbiddenError,
+  ImageTooLargeError,
+  InvalidImageError,
+  NotFoundError,
+  ValidationError,
+} from '../../common/errors.js';
+
+// Solid image of the given size and format
+const createImage = (width: number, height: number, format: keyof sharp.FormatEnum): Promise<Buffer> =>
+  sharp({ create: { width, height, channels: 3, background: { r: 200, g: 80, b: 40 } } })
+    .toFormat(format)
+    .toBuffer();
+
+describe('FileService', () => {
+  describe('resolveInputPath', () => {
+    let baseDir: string;
+    let inputRoot: string;
+    let fileService: FileService;
+    const configuredRoots = appConfig.inputRoots;
+
+    let photoSize: number;
+
+    beforeAll(async () => {
+      const photo = await createImage(8, 8, 'jpeg');
+      photoSize = photo.length;
+
+      baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'input-roots-'));
+      inputRoot = path.join(baseDir, 'shared');
+      fs.mkdirSync(path.join(inputRoot, 'incoming'), { recursive: true });
+      fs.mkdirSync(path.join(baseDir, 'shared-secrets'));
+      fs.writeFileSync(path.join(inputRoot, 'incoming', 'photo.jpg'), photo);
+      fs.writeFileSync(path.join(inputRoot, 'notes.txt'), 'text');
+      fs.writeFileSync(path.join(baseDir, 'shared-secrets', 'secret.png'), 'png');
+      fs.symlinkSync(path.join(inputRoot, 'incoming', 'photo.jpg'), path.join(inputRoot, 'latest.jpg'));
+      fs.symlinkSync(path.join(baseDir, 'shared-secrets'), path.join(inputRoot, 'escape'));
+
+      appConfig.inputRoots = [inputRoot];
+      fileService = new FileService();
+    });
+
+    afterAll(() => {
+      appConfig.inputRoots = configuredRoots;
+      fs.rmSync(baseDir, { recursive: true, force: true });
+    });
+
+    it('should resolve files within an input root, following links that stay inside', async () => {
+      const realPhoto = fs.realpathSync(path.join(inputRoot, 'incoming', 'photo.jpg'));
+
+      await expect(fileService.resolveInputPath(path.join(inputRoot, 'incoming', 'photo.jpg'))).resolves.toEqual({
+        path: realPhoto,
+        name: 'photo.jpg',
+        size: photoSize,
+        type: 'image/jpeg',
+      });
+      await expect(fileService.resolveInputPath(path.join(inputRoot, 'latest.jpg'))).resolves.toMatchObject({
+        path: realPhoto,
+      });
+    });
+
+    it('should reject traversal, sibling directories and symlink escapes', async () => {
+      await expect(fileService.resolveInputPath(`${inputRoot}/incoming/../../shared-secrets/secret.png`))
+        .rejects.toThrow(ForbiddenError);
+      await expect(fileService.resolveInputPath(path.join(baseDir, 'shared-secrets', 'secret.png')))
+        .rejects.toThrow(ForbiddenError);
+      await expect(fileService.resolveInputPath(path.join(inputRoot, 'escape', 'secret.png')))
+        .rejects.toThrow('Image path is outside the allowed input directories');
+    });
+
+    it('should reject missing files, directories and files that are not images', async () => {
+      await expect(fileService.resolveInputPath(path.join(inputRoot, 'missing.jpg'))).rejects.toThrow(NotFoundError);
+      await expect(fileService.resolveInputPath(path.join(inputRoot, 'incoming'))).rejects.toThrow(ValidationError);
+      await expect(fileService.resolveInputPath(path.join(inputRoot, 'notes.txt'))).rejects.toMatchObject({
+        code: 'NOT_AN_IMAGE',
+      });
+    });
+
+    it('should refuse local paths when no input roots are configured', async () => {
+      appConfig.inputRoots = [];
+      const disabled = new FileService();
+      appConfig.inputRoots = [inputRoot];
+
+      await expect(disabled.resolveInputPath(path.join(inputRoot, 'incoming', 'photo.jpg')))
+        .rejects.toThrow('Local image paths are not enabled');
+    });
+  });
+
+  describe('inspectImage', () => {
+    let tempDir: string;
+    const configuredLimits = { dimension: appConfig.maxInputDimension, pixels: appConfig.maxInputPixels };
+
+    const writeFile = (name: string, data: Buffer | string): string => {
+      const filePath = path.join(tempDir, name);
+      fs.writeFileSync(filePath, data);
+      return filePath;
+    };
+
+    beforeAll(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'inspect-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should report the format found in the file with its dimensions', async () => {
+      const filePath = writeFile('photo.bin', await createImage(32, 16, 'webp'));
+
+      await expect(new FileService().inspectImage(filePath, 'image/webp')).resolves.toEqual({
+        type: 'image/webp',
+        width: 32,
+        height: 16,
+        pages: 1,
+      });
+    });
+
+    it('should refuse files that are no image, of a disallowed format or not of the declared type', async () => {
+      const fileService = new FileService();
+      const png = writeFile('photo.png', await createImage(8, 8, 'png'));
+
+      await expect(fileService.inspectImage(writeFile('script.png', '<?php echo 1; ?>'))).rejects.toMatchObject({
+        code: 'NOT_AN_IMAGE',
+      });
+      await expect(fileService.inspectImage(writeFile('scan.tiff', await createImage(8, 8, 'tiff')))).rejects.toMatchObject({
+        code: 'UNSUPPORTED_IMAGE_FORMAT',
+      });
+      await expect(fileService.inspectImage(png, 'image/jpeg')).rejects.toThrow(
+        'Image declared as image/jpeg is actually image/png'
+      );
+      await expect(fileService.inspectImage(png, 'image/png')).resolves.toMatchObject({ type: 'image/png' });
+    });
+
+    it('should refuse truncated images', async () => {
+      const jpeg = await createImage(64, 64, 'jpeg');
+      const filePath = writeFile('truncated.jpg', jpeg.subarray(0, Math.floor(jpeg.length / 2)));
+
+      const error = await new FileService().inspectImage(filePath).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(InvalidImageError);
+      expect(error).toMatchObject({ code: 'CORRUPT_IMAGE' });
+    });
+
+    it('should refuse images beyond the dimension and pixel limits before decoding them', async () => {
+      appConfig.maxInputDimension = 100;
+      appConfig.maxInputPixels = 5000;
+      const fileService = new FileService();
+      appConfig.maxInputDimension = configuredLimits.dimension;
+      appConfig.maxInputPixels = configuredLimits.pixels;
+
+      await expect(fileService.inspectImage(writeFile('wide.png', await createImage(200, 10, 'png')))).rejects.toThrow(
+        'Image dimensions 200x10 exceed the maximum of 100px per side'
+      );
+      await expect(fileService.inspectImage(writeFile('large.png', await createImage(80, 80, 'png')))).rejects.toThrow(
+        ImageTooLargeError
+      );
+      await expect(fileService.inspectImage(writeFile('small.png', await createImage(50, 50, 'png')))).resolves.toMatchObject({
+        width: 50,
+      });
+    });
+  });
+
+  describe('storeOriginal', () => {
+    let tempDir: string;
+    let fileService: FileService;
+    const configuredOutputDir = appConfig.outputDir;
+
+    beforeAll(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'originals-'));
+      appConfig.outputDir = path.join(tempDir, 'output');
+      fileService = new FileService();
+    });
+
+    afterAll(() => {
+      appConfig.outputDir = configuredOutputDir;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should name originals after their contents rather than the extension they arrived with', async () => {
+      const png = await createImage(8, 8, 'png');
+      const downloaded = path.join(tempDir, 'download');
+      const renamed = path.join(tempDir, 'avatar.php');
+      fs.writeFileSync(downloaded, png);
+      fs.writeFileSync(renamed, png);
+
+      const first = await fileService.storeOriginal(downloaded, 'b'.repeat(64));
+      const second = await fileService.storeOriginal(renamed, 'b'.repeat(64));
+
+      expect(first).toBe(`/output/originals/${'b'.repeat(64)}.png`);
+      expect(second).toBe(first);
+      expect(fs.readdirSync(path.join(tempDir, 'output', 'originals'))).toEqual([`${'b'.repeat(64)}.png`]);
+    });
+  });
+});
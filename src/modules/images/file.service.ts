@@ -1,20 +1,195 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
+import multer from 'multer';
+import sharp from 'sharp';
 import { appConfig } from '../../config/index.js';
-import { FileSystemError, ProcessingError } from '../../common/errors.js';
-import type { FileInfo, UploadedFile } from './image.types.js';
+import { OutputFile } from './output-file.model.js';
+import {
+  FileSystemError,
+  ForbiddenError,
+  ImageTooLargeError,
+  InvalidImageError,
+  NotFoundError,
+  PayloadTooLargeError,
+  ProcessingError,
+  ValidationError,
+} from '../../common/errors.js';
+import { downloadToFile } from '../../common/http-download.js';
+import { FORMAT_EXTENSIONS, FORMAT_MIME_TYPES } from './image.service.js';
+import type { DownloadPolicy } from '../../common/http-download.js';
+import type { FileInfo, OutputFormat, UploadedFile } from './image.types.js';
+
+// Bytes read to recognize a file's format by its signature
+const SIGNATURE_LENGTH = 16;
+
+// ISO base media file brands of HEIF images, AVIF among them
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1']);
+
+/**
+ * Recognize an image format from the first bytes of a file, including formats that are not
+ * accepted, so those can be told apart from files that are no image at all
+ */
+function detectImageType(header: Buffer): string | undefined {
+  const ascii = (start: number, end: number): string => header.toString('latin1', start, end);
+
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') {
+    return 'image/png';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'image/gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (AVIF_BRANDS.has(brand)) {
+      return 'image/avif';
+    }
+    if (HEIC_BRANDS.has(brand)) {
+      return 'image/heic';
+    }
+  }
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') {
+    return 'image/tiff';
+  }
+  if (ascii(0, 2) === 'BM') {
+    return 'image/bmp';
+  }
+  if (ascii(0, 4) === '\0\0\x01\0') {
+    return 'image/x-icon';
+  }
+  return undefined;
+}
+
+// Image details established by inspecting a file's contents
+export interface InspectedImage {
+  type: string;
+  width: number;
+  height: number;
+  pages: number;
+}
 
 export class FileService {
   private readonly tempDir: string;
+  private readonly outputDir: string;
+  private readonly assetsDir: string;
   private readonly maxDownloadSize: number;
+  private readonly inputRoots: string[];
+  private readonly downloadPolicy: DownloadPolicy;
+  private readonly maxInputDimension: number;
+  private readonly maxInputPixels: number;
 
   constructor() {
     this.tempDir = appConfig.tempDir;
+    this.outputDir = appConfig.outputDir;
+    this.assetsDir = appConfig.assetsDir;
     this.maxDownloadSize = appConfig.maxDownloadSize;
+    this.inputRoots = appConfig.inputRoots;
+    this.downloadPolicy = {
+      allowedProtocols: appConfig.downloadAllowedProtocols,
+      allowedHosts: appConfig.downloadAllowedHosts,
+      deniedHosts: appConfig.downloadDeniedHosts,
+      allowPrivateNetworks: appConfig.downloadAllowPrivateNetworks,
+      allowedTypes: appConfig.allowedImageTypes,
+      maxBytes: appConfig.maxDownloadSize * 1024 * 1024,
+      connectTimeout: appConfig.downloadConnectTimeout,
+      readTimeout: appConfig.downloadReadTimeout,
+      maxRedirects: appConfig.downloadMaxRedirects,
+    };
+    this.maxInputDimension = appConfig.maxInputDimension;
+    this.maxInputPixels = appConfig.maxInputPixels;
+  }
+
+  /**
+   * Establish the real format of an ingested file from its signature rather than the type it was
+   * declared with, and refuse it unless it is an accepted image of that type, within the pixel
+   * limits, that decodes completely. Only the header is parsed before the limits are checked.
+   */
+  async inspectImage(filePath: string, declaredType?: string): Promise<InspectedImage> {
+    const type = this.sniffImageType(filePath);
+    if (!type) {
+      throw new InvalidImageError('NOT_AN_IMAGE', 'File is not a recognized image');
+    }
+    if (!this.isValidImageType(type)) {
+      throw new InvalidImageError(
+        'UNSUPPORTED_IMAGE_FORMAT',
+        `Image format ${type} is not supported. Allowed types: ${appConfig.allowedImageTypes.join(', ')}`
+      );
+    }
+    if (declaredType && this.normalizeMimeType(declaredType) !== type) {
+      throw new InvalidImageError('IMAGE_TYPE_MISMATCH', `Image declared as ${declaredType} is actually ${type}`);
+    }
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(filePath, { limitInputPixels: false }).metadata();
+    } catch (error) {
+      throw new InvalidImageError('CORRUPT_IMAGE', `Image header is corrupt: ${error instanceof Error ? error.message : 'unreadable'}`);
+    }
+
+    const { width = 0, height = 0, pages = 1 } = metadata;
+    if (width > this.maxInputDimension || height > this.maxInputDimension) {
+      throw new ImageTooLargeError(
+        `Image dimensions ${width}x${height} exceed the maximum of ${this.maxInputDimension}px per side`
+      );
+    }
+    if (width * height * pages > this.maxInputPixels) {
+      throw new ImageTooLargeError(
+        `Image has ${width * height * pages} pixels${pages > 1 ? ` over ${pages} frames` : ''}, more than the maximum of ${this.maxInputPixels}`
+      );
+    }
+
+    // Decoding every frame catches truncated and corrupt data before any work is done
+    try {
+      await sharp(filePath, { animated: true, failOn: 'truncated', limitInputPixels: this.maxInputPixels }).stats();
+    } catch (error) {
+      throw new InvalidImageError('CORRUPT_IMAGE', `Image data is truncated or corrupt: ${error instanceof Error ? error.message : 'undecodable'}`);
+    }
+
+    return { type, width, height, pages };
+  }
+
+  /**
+   * Recognize the format of a file from its signature, without parsing anything beyond it
+   */
+  private sniffImageType(filePath: string): string | undefined {
+    const header = Buffer.alloc(SIGNATURE_LENGTH);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      fs.readSync(fd, header, 0, SIGNATURE_LENGTH, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return detectImageType(header);
+  }
+
+  /**
+   * Multer storage streaming uploads straight to the temporary directory, named after the
+   * client's file name with the extension of their declared type
+   */
+  createUploadStorage(): multer.StorageEngine {
+    return multer.diskStorage({
+      destination: (_req, _file, callback) => {
+        this.ensureDirectoryExists(this.tempDir).then(
+          () => callback(null, this.tempDir),
+          (error: Error) => callback(error, this.tempDir)
+        );
+      },
+      filename: (_req, file, callback) => {
+        const name = path.parse(file.originalname).name || 'uploaded-image';
+        callback(null, this.generateUniqueFilename(`${name}.${this.getExtensionFromMimeType(file.mimetype)}`));
+      },
+    });
   }
 
   /**
-   * Save uploaded file to temporary directory
+   * Accept a file streamed to the temporary directory by an upload, removing it when rejected
    */
   async saveUploadedFile(file: UploadedFile): Promise<FileInfo> {
     try {
@@ -24,23 +199,19 @@ export class FileService {
       // Validate file size
       this.validateFileSize(file.size);
 
-      // Generate unique filename
-      const filename = this.generateUniqueFilename(file.originalname);
-      const filePath = path.join(this.tempDir, filename);
-
-      // Ensure temp directory exists
-      await this.ensureDirectoryExists(this.tempDir);
-
-      // Write file
-      fs.writeFileSync(filePath, file.buffer);
+      const { type } = await this.inspectImage(file.path, file.mimetype);
 
       return {
-        path: filePath,
-        name: filename,
+        path: file.path,
+        name: path.basename(file.path),
         size: file.size,
-        type: file.mimetype,
+        type,
       };
     } catch (error) {
+      await this.cleanupTempFile(file.path);
+      if (this.isImageRejection(error)) {
+        throw error;
+      }
       throw new FileSystemError(
         `Failed to save uploaded file: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -50,7 +221,7 @@ export class FileService {
   /**
    * Get file extension from MIME type
    */
-  private getExtensionFromMimeType(mimeType: string): string {
+  getExtensionFromMimeType(mimeType: string): string {
     const extensions: Record<string, string> = {
       'image/jpeg': 'jpg',
       'image/jpg': 'jpg',
@@ -61,6 +232,92 @@ export class FileService {
     return extensions[mimeType] || 'jpg';
   }
 
+  /**
+   * Get MIME type from file extension
+   */
+  getMimeTypeFromExtension(extension: string): string {
+    const mimeTypes: Record<string, string> = {
+      '.jpg': 'image/jpeg',
+      '.jpeg': 'image/jpeg',
+      '.png': 'image/png',
+      '.webp': 'image/webp',
+      '.gif': 'image/gif',
+      '.avif': 'image/avif',
+    };
+    return mimeTypes[extension.toLowerCase()] || 'application/octet-stream';
+  }
+
+  /**
+   * Resolve a stored asset, such as a watermark logo, by name
+   */
+  async resolveAsset(name: string): Promise<FileInfo> {
+    const filename = path.basename(name);
+    const assetPath = path.join(this.assetsDir, filename);
+
+    if (!fs.existsSync(assetPath)) {
+      throw new FileSystemError(`Asset not found: ${filename}`);
+    }
+
+    const type = this.getMimeTypeFromExtension(path.extname(filename));
+    this.validateFileType(type);
+
+    return {
+      path: assetPath,
+      name: filename,
+      size: fs.statSync(assetPath).size,
+      type,
+    };
+  }
+
+  /**
+   * Resolve a local image within one of the allowlisted input roots, to be read in place.
+   * Paths are checked both as given and with their symlinks resolved, so neither ".."
+   * segments nor links pointing outside the roots can escape them.
+   */
+  async resolveInputPath(imagePath: string): Promise<FileInfo> {
+    if (this.inputRoots.length === 0) {
+      throw new ForbiddenError('Local image paths are not enabled');
+    }
+
+    const requestedPath = path.resolve(imagePath);
+    if (!this.inputRoots.some((root) => this.isWithin(root, requestedPath))) {
+      throw new ForbiddenError('Image path is outside the allowed input directories');
+    }
+
+    let realPath: string;
+    try {
+      realPath = fs.realpathSync(requestedPath);
+    } catch {
+      throw new NotFoundError('Image file', imagePath);
+    }
+    const realRoots = this.inputRoots.filter((root) => fs.existsSync(root)).map((root) => fs.realpathSync(root));
+    if (!realRoots.some((root) => this.isWithin(root, realPath))) {
+      throw new ForbiddenError('Image path is outside the allowed input directories');
+    }
+
+    const stats = fs.statSync(realPath);
+    if (!stats.isFile()) {
+      throw new ValidationError('Image path is not a file', [{ field: 'imagePath', message: 'Image path is not a file' }]);
+    }
+
+    try {
+      this.validateFileSize(stats.size);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid image file';
+      throw new ValidationError(message, [{ field: 'imagePath', message }]);
+    }
+
+    // Shared files are named by whoever put them there, so only their contents are trusted
+    const { type } = await this.inspectImage(realPath);
+
+    return {
+      path: realPath,
+      name: path.basename(realPath),
+      size: stats.size,
+      type,
+    };
+  }
+
   /**
    * Save base64 encoded file to temporary directory
    */
@@ -101,13 +358,23 @@ export class FileService {
       // Write file
       fs.writeFileSync(filePath, buffer);
 
+      try {
+        await this.inspectImage(filePath, mimeType);
+      } catch (error) {
+        await this.cleanupTempFile(filePath);
+        throw error;
+      }
+
       return {
         path: filePath,
         name: filename,
         size: buffer.length,
-        type: mimeType,
+        type: this.normalizeMimeType(mimeType),
       };
     } catch (error) {
+      if (this.isImageRejection(error)) {
+        throw error;
+      }
       throw new FileSystemError(
         `Failed to save base64 file: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -115,43 +382,15 @@ export class FileService {
   }
 
   /**
-   * Download file from URL and save to temporary directory
+   * Download file from URL and save to temporary directory. Only destinations allowed by the
+   * download configuration are reached, redirects included, and the body is streamed to disk
+   * up to MAX_DOWNLOAD_MB.
    */
   async downloadFromUrl(url: string): Promise<FileInfo> {
     try {
       // Validate URL
       this.validateUrl(url);
 
-      // Download file
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new ProcessingError(`Failed to download file from URL: ${response.statusText}`);
-      }
-
-      // Check content type
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !this.isValidImageType(contentType)) {
-        throw new ProcessingError('Invalid image type from URL');
-      }
-
-      // Get file size
-      const contentLength = response.headers.get('content-length');
-      const fileSize = contentLength ? parseInt(contentLength, 10) : 0;
-
-      if (fileSize > this.maxDownloadSize * 1024 * 1024) {
-        throw new ProcessingError(`File size exceeds maximum allowed size of ${this.maxDownloadSize}MB`);
-      }
-
-      // Download file
-      const buffer = await response.arrayBuffer();
-      const fileBuffer = Buffer.from(buffer);
-
-      // Validate actual file size
-      if (fileBuffer.length > this.maxDownloadSize * 1024 * 1024) {
-        throw new ProcessingError(`File size exceeds maximum allowed size of ${this.maxDownloadSize}MB`);
-      }
-
       // Generate filename from URL
       const urlPath = new URL(url).pathname;
       const originalName = path.basename(urlPath) || 'downloaded-image';
@@ -161,22 +400,58 @@ export class FileService {
       // Ensure temp directory exists
       await this.ensureDirectoryExists(this.tempDir);
 
-      // Write file
-      fs.writeFileSync(filePath, fileBuffer);
+      // Download file
+      const download = await downloadToFile(url, filePath, this.downloadPolicy);
+
+      try {
+        await this.inspectImage(filePath, download.contentType);
+      } catch (error) {
+        await this.cleanupTempFile(filePath);
+        throw error;
+      }
 
       return {
         path: filePath,
         name: filename,
-        size: fileBuffer.length,
-        type: contentType,
+        size: download.size,
+        type: this.normalizeMimeType(download.contentType),
       };
     } catch (error) {
+      if (this.isImageRejection(error)) {
+        throw error;
+      }
       throw new ProcessingError(
         `Failed to download file from URL: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
+  /**
+   * Download a zip archive to `filePath` under the same destination rules as images, with the
+   * archive content types and MAX_ARCHIVE_MB as the size limit
+   */
+  async downloadArchive(url: string, filePath: string): Promise<number> {
+    try {
+      this.validateUrl(url);
+      await this.ensureDirectoryExists(path.dirname(filePath));
+
+      const download = await downloadToFile(url, filePath, {
+        ...this.downloadPolicy,
+        allowedTypes: appConfig.allowedArchiveTypes,
+        maxBytes: appConfig.maxArchiveSize * 1024 * 1024,
+      });
+      return download.size;
+    } catch (error) {
+      // Refused destinations and oversized archives keep their status for the client
+      if (error instanceof ForbiddenError || error instanceof PayloadTooLargeError) {
+        throw error;
+      }
+      throw new ProcessingError(
+        `Failed to download archive from URL: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Clean up temporary files
    */
@@ -191,6 +466,128 @@ export class FileService {
     }
   }
 
+  /**
+   * Compute the SHA-256 of a file's contents, used to address identical originals
+   */
+  async computeSha256(filePath: string): Promise<string> {
+    try {
+      return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+    } catch (error) {
+      throw new FileSystemError(`Failed to hash file: ${filePath}`, error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Keep an original in the output directory, addressed by its content hash, so it can
+   * be transformed again later. Returns its "/output/..." path.
+   */
+  async storeOriginal(sourcePath: string, sourceHash: string): Promise<string> {
+    // Source file names come from URLs and clients, so the extension follows the contents
+    const type = this.sniffImageType(sourcePath);
+    const format = (Object.keys(FORMAT_MIME_TYPES) as OutputFormat[]).find((key) => FORMAT_MIME_TYPES[key] === type);
+    if (!format) {
+      throw new InvalidImageError('NOT_AN_IMAGE', 'Original is not a recognized image');
+    }
+    const outputPath = path.join('/output', 'originals', `${sourceHash}.${FORMAT_EXTENSIONS[format]}`);
+    const filePath = this.resolveOutputPath(outputPath);
+
+    try {
+      await this.ensureDirectoryExists(path.dirname(filePath));
+      if (!fs.existsSync(filePath)) {
+        fs.copyFileSync(sourcePath, filePath);
+      }
+      return outputPath;
+    } catch (error) {
+      throw new FileSystemError(`Failed to store original: ${sourcePath}`, error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Count one more image referencing each generated file
+   */
+  async retainOutputFiles(outputPaths: string[]): Promise<void> {
+    if (outputPaths.length === 0) {
+      return;
+    }
+    await OutputFile.bulkWrite(outputPaths.map((outputPath) => ({
+      updateOne: {
+        filter: { path: outputPath },
+        update: { $inc: { refCount: 1 } },
+        upsert: true,
+      },
+    })));
+  }
+
+  /**
+   * Count one more image referencing each of the files another task already references, without
+   * recreating the count of files being deleted. Either every file is retained or, when one is
+   * no longer referenced, none is and false is returned.
+   */
+  async retainExistingOutputFiles(outputPaths: string[]): Promise<boolean> {
+    const retained: string[] = [];
+    for (const outputPath of outputPaths) {
+      const result = await OutputFile.updateOne(
+        { path: outputPath, refCount: { $gt: 0 } },
+        { $inc: { refCount: 1 } }
+      ).exec();
+      if (result.matchedCount === 0) {
+        // The release that deletes the other files may have run meanwhile, so the ones retained
+        // so far are released again the same way
+        await this.releaseOutputFiles(retained);
+        return false;
+      }
+      retained.push(outputPath);
+    }
+    return true;
+  }
+
+  /**
+   * Drop one reference to each generated file and delete the files nobody references anymore.
+   * Returns the number of files deleted.
+   */
+  async releaseOutputFiles(outputPaths: string[]): Promise<number> {
+    let deleted = 0;
+    for (const outputPath of outputPaths) {
+      const outputFile = await OutputFile.findOneAndUpdate(
+        { path: outputPath, refCount: { $gt: 0 } },
+        { $inc: { refCount: -1 } },
+        { new: true }
+      ).exec();
+
+      // Only the release that takes the count to zero removes the file
+      if (outputFile && outputFile.refCount === 0) {
+        await OutputFile.deleteOne({ path: outputPath, refCount: 0 }).exec();
+        const filePath = this.resolveOutputPath(outputPath);
+        try {
+          if (fs.existsSync(filePath)) {
+            // Tile pyramids are stored as whole directories
+            fs.rmSync(filePath, { recursive: true });
+            deleted++;
+          }
+        } catch (error) {
+          // Log error but don't throw - the file can be removed by hand
+          console.warn(`Failed to delete output file ${filePath}:`, error);
+        }
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Map a stored "/output/..." path to its location on disk
+   */
+  resolveOutputPath(outputPath: string): string {
+    return path.join(this.outputDir, path.normalize(outputPath).replace(/^[/\\]output[/\\]/, ''));
+  }
+
+  /**
+   * Check whether a path is a directory or lies below it, comparing whole path segments
+   */
+  private isWithin(directory: string, filePath: string): boolean {
+    const relative = path.relative(directory, filePath);
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+  }
+
   /**
    * Validate file type
    */
@@ -221,6 +618,22 @@ export class FileService {
     }
   }
 
+  /**
+   * Map alias MIME types to the canonical type detected from file signatures
+   */
+  private normalizeMimeType(mimeType: string): string {
+    const type = mimeType.split(';')[0]?.trim().toLowerCase() ?? '';
+    return type === 'image/jpg' ? 'image/jpeg' : type;
+  }
+
+  /**
+   * Check whether an error refuses a file as an image, which callers pass on unwrapped
+   * so clients get its specific code
+   */
+  private isImageRejection(error: unknown): error is InvalidImageError | ImageTooLargeError {
+    return error instanceof InvalidImageError || error instanceof ImageTooLargeError;
+  }
+
   /**
    * Check if mimetype is a valid image type
    */
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ImageCacheService } from './image-cache.service.js';
+
+// Budget of two 400-byte entries
+const MAX_SIZE_MB = 1000 / (1024 * 1024);
+
+describe('ImageCacheService', () => {
+  let cacheDir: string;
+  let cache: ImageCacheService;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-cache-'));
+    cache = new ImageCacheService(cacheDir, MAX_SIZE_MB);
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should render on a miss and reuse the file on a hit', async () => {
+    const render = vi.fn().mockResolvedValue(Buffer.alloc(400, 1));
+
+    const first = await cache.getOrRender('a', 'webp', render);
+    const second = await cache.getOrRender('a', 'webp', render);
+
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(first.filePath).toBe(path.join(cacheDir, 'a.webp'));
+    expect(fs.readFileSync(first.filePath)).toHaveLength(400);
+  });
+
+  it('should share one render between concurrent requests', async () => {
+    let finish: (data: Buffer) => void = () => undefined;
+    const render = vi.fn().mockReturnValue(new Promise<Buffer>((resolve) => {
+      finish = resolve;
+    }));
+
+    const requests = Promise.all([
+      cache.getOrRender('a', 'jpg', render),
+      cache.getOrRender('a', 'jpg', render),
+      cache.getOrRender('a', 'jpg', render),
+    ]);
+    finish(Buffer.alloc(400));
+    const entries = await requests;
+
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(new Set(entries.map((entry) => entry.filePath)).size).toBe(1);
+  });
+
+  it('should evict the least recently used entry when over budget', async () => {
+    const render = (): Promise<Buffer> => Promise.resolve(Buffer.alloc(400));
+
+    await cache.getOrRender('a', 'jpg', render);
+    await cache.getOrRender('b', 'jpg', render);
+    await cache.getOrRender('a', 'jpg', render);
+    await cache.getOrRender('c', 'jpg', render);
+
+    expect(fs.readdirSync(cacheDir).sort()).toEqual(['a.jpg', 'c.jpg']);
+    expect(cache.size).toBe(800);
+  });
+
+  it('should render again when the cached file was removed', async () => {
+    const render = vi.fn().mockResolvedValue(Buffer.alloc(400));
+
+    const entry = await cache.getOrRender('a', 'jpg', render);
+    fs.rmSync(entry.filePath);
+    await cache.getOrRender('a', 'jpg', render);
+
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(400);
+  });
+
+  it('should index files left by a previous run', async () => {
+    fs.writeFileSync(path.join(cacheDir, 'a.png'), Buffer.alloc(400));
+    const render = vi.fn().mockResolvedValue(Buffer.alloc(400));
+
+    const entry = await cache.getOrRender('a', 'png', render);
+
+    expect(render).not.toHaveBeenCalled();
+    expect(entry).toEqual({ filePath: path.join(cacheDir, 'a.png'), size: 400 });
+  });
+
+  it('should not cache failed renders', async () => {
+    const render = vi.fn()
+      .mockRejectedValueOnce(new Error('decode failed'))
+      .mockResolvedValueOnce(Buffer.alloc(400));
+
+    await expect(cache.getOrRender('a', 'jpg', render)).rejects.toThrow('decode failed');
+    await expect(cache.getOrRender('a', 'jpg', render)).resolves.toMatchObject({ size: 400 });
+  });
+});
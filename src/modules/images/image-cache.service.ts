@@ -0,0 +1,150 @@
+import fs from 'fs';
+import path from 'path';
+import { appConfig } from '../../config/index.js';
+import { FileSystemError } from '../../common/errors.js';
+
+interface CacheEntry {
+  filePath: string;
+  size: number;
+}
+
+export class ImageCacheService {
+  private readonly cacheDir: string;
+  private readonly maxBytes: number;
+  // Maps iterate in insertion order, so the first entry is the least recently used
+  private readonly entries = new Map<string, CacheEntry>();
+  // Renders in progress, shared by concurrent requests for the same key
+  private readonly pending = new Map<string, Promise<CacheEntry>>();
+  private totalBytes = 0;
+  private indexed = false;
+
+  constructor(cacheDir: string = appConfig.cacheDir, maxSizeMb: number = appConfig.cacheMaxSize) {
+    this.cacheDir = cacheDir;
+    this.maxBytes = maxSizeMb * 1024 * 1024;
+  }
+
+  /**
+   * Return the cached file for a key, rendering and storing it on a miss.
+   * Concurrent misses for the same key wait for a single render.
+   */
+  async getOrRender(key: string, extension: string, render: () => Promise<Buffer>): Promise<CacheEntry> {
+    this.loadIndex();
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      if (fs.existsSync(cached.filePath)) {
+        this.touch(key, cached);
+        return cached;
+      }
+      this.remove(key, cached);
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const stored = this.store(key, extension, render).finally(() => this.pending.delete(key));
+    this.pending.set(key, stored);
+    return stored;
+  }
+
+  /**
+   * Total size of the cached files in bytes
+   */
+  get size(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Render a missing entry and write it atomically, then evict down to the size budget
+   */
+  private async store(key: string, extension: string, render: () => Promise<Buffer>): Promise<CacheEntry> {
+    const data = await render();
+    const filePath = path.join(this.cacheDir, `${key}.${extension}`);
+
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      // Readers never see a partially written file
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, data);
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      throw new FileSystemError(`Failed to write cached image: ${filePath}`, error instanceof Error ? error : undefined);
+    }
+
+    const entry = { filePath, size: data.length };
+    this.entries.set(key, entry);
+    this.totalBytes += entry.size;
+    this.evict(key);
+    return entry;
+  }
+
+  /**
+   * Drop least recently used entries until the cache fits its budget, never evicting the newest entry
+   */
+  private evict(keep: string): void {
+    for (const [key, entry] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      if (key !== keep) {
+        this.remove(key, entry);
+      }
+    }
+  }
+
+  /**
+   * Forget an entry and delete its file
+   */
+  private remove(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+    try {
+      fs.rmSync(entry.filePath, { force: true });
+    } catch (error) {
+      // Log error but don't throw - a stale file only costs disk space
+      console.warn(`Failed to delete cached image ${entry.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Mark an entry as most recently used. The modification time keeps the order across restarts.
+   */
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    const now = new Date();
+    fs.utimes(entry.filePath, now, now, () => undefined);
+  }
+
+  /**
+   * Index the files left by a previous run, oldest first
+   */
+  private loadIndex(): void {
+    if (this.indexed) {
+      return;
+    }
+    this.indexed = true;
+    if (!fs.existsSync(this.cacheDir)) {
+      return;
+    }
+
+    const files = fs.readdirSync(this.cacheDir)
+      .filter((name) => !name.endsWith('.tmp'))
+      .map((name) => {
+        const filePath = path.join(this.cacheDir, name);
+        return { name, filePath, stats: fs.statSync(filePath) };
+      })
+      .filter(({ stats }) => stats.isFile())
+      .sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs);
+
+    for (const { name, filePath, stats } of files) {
+      this.entries.set(path.parse(name).name, { filePath, size: stats.size });
+      this.totalBytes += stats.size;
+    }
+    this.evict('');
+  }
+}
+
+export const imageCacheService = new ImageCacheService();
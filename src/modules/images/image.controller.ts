@@ -0,0 +1,336 @@
+import { Request, Response, NextFunction } from 'express';
+import { SimilarityService } from './similarity.service.js';
+import { DeliveryService, CLIENT_HINT_HEADERS } from './delivery.service.js';
+import { SignatureService } from '../signatures/signature.service.js';
+import {
+  ImageDeliveryQuerySchema,
+  ImageParamsSchema,
+  SimilarImagesQuerySchema,
+} from '../../common/validation.js';
+import { ValidationError } from '../../common/errors.js';
+import { sendImage, IMMUTABLE_MAX_AGE } from '../../common/image-response.js';
+import { ZodError } from 'zod';
+
+export class ImageController {
+  private similarityService: SimilarityService;
+  private deliveryService: DeliveryService;
+  private signatureService: SignatureService;
+
+  constructor(
+    similarityService: SimilarityService,
+    deliveryService: DeliveryService,
+    signatureService: SignatureService
+  ) {
+    this.similarityService = similarityService;
+    this.deliveryService = deliveryService;
+    this.signatureService = signatureService;
+  }
+
+  /**
+   * @swagger
+   * /images/similar:
+   *   get:
+   *     summary: Find images similar to a task's original
+   *     description: Find visually similar images across all other tasks, ranked by the Hamming distance of their perceptual hashes
+   *     tags: [Images]
+   *     parameters:
+   *       - in: query
+   *         name: taskId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Task whose original image is searched for
+   *         example: task_20250811115246_ipgdc3
+   *       - in: query
+   *         name: maxDistance
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           maximum: 64
+   *           default: 10
+   *         description: Maximum Hamming distance between 64-bit perceptual hashes
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *         description: Maximum number of images to return
+   *     responses:
+   *       200:
+   *         description: Similar images, closest first
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/SimilarImagesResponse'
+   *       400:
+   *         description: Invalid query parameters or task not hashed yet
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Task not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async findSimilar(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId, maxDistance, limit } = SimilarImagesQuerySchema.parse(req.query);
+
+      const { phash, images } = await this.similarityService.findSimilar(taskId, maxDistance, limit);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          taskId,
+          phash,
+          maxDistance,
+          images,
+        },
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        next(new ValidationError(
+          'Invalid query parameters',
+          error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        ));
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /images/{taskId}/{variant}:
+   *   get:
+   *     summary: Download an image of a task
+   *     description: |
+   *       Stream a stored variant, or the task's original with the variant "original".
+   *       The original is re-encoded in its own format with its metadata (GPS included) stripped.
+   *       Query parameters render a transformation of the original instead, starting from
+   *       the variant's size, fit and format. Rendered images are kept in a disk LRU cache
+   *       and concurrent requests for the same transformation share one render.
+   *       Transformation URLs must be signed (see POST /signatures).
+   *
+   *       Unless the variant has an extension or the query sets a format, the format is
+   *       negotiated from Accept: AVIF, then WebP, else the stored format. Sec-CH-Width
+   *       serves a smaller rendition snapped to a fixed set of widths, and Sec-CH-DPR
+   *       scales explicit w and h. Negotiated renditions are rendered lazily from the
+   *       stored file and cached; responses list the headers they depend on in Vary.
+   *
+   *       Responses are cacheable for a year (or until a signed URL expires). Stored files
+   *       carry a strong ETag from their content hash, renders a weak one. Conditional
+   *       requests get 304 Not Modified, and single byte ranges are served with 206.
+   *     tags: [Images]
+   *     parameters:
+   *       - in: path
+   *         name: taskId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: task_20250811115246_ipgdc3
+   *       - in: path
+   *         name: variant
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: '"original" or a resolution label, optionally with a format extension'
+   *         example: 1024.webp
+   *       - in: header
+   *         name: Accept
+   *         schema:
+   *           type: string
+   *         example: image/avif,image/webp,image/apng,image/jpeg
+   *       - in: header
+   *         name: Sec-CH-DPR
+   *         schema:
+   *           type: number
+   *         description: Device pixel ratio, scales w and h (1 to 3). The legacy DPR header is read when absent.
+   *       - in: header
+   *         name: Sec-CH-Width
+   *         schema:
+   *           type: integer
+   *         description: Display width in physical pixels, used when w and h are not set. The legacy Width header is read when absent.
+   *       - in: header
+   *         name: If-None-Match
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: If-Modified-Since
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: Range
+   *         schema:
+   *           type: string
+   *         example: bytes=0-1023
+   *       - in: query
+   *         name: w
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *         description: Target width in pixels
+   *       - in: query
+   *         name: h
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *         description: Target height in pixels
+   *       - in: query
+   *         name: fit
+   *         schema:
+   *           type: string
+   *           enum: [cover, contain, fill, inside, outside]
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [jpeg, png, webp, avif, gif]
+   *       - in: query
+   *         name: q
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *         description: Encoder quality
+   *       - in: query
+   *         name: expires
+   *         schema:
+   *           type: integer
+   *         description: Unix timestamp after which the signature is rejected
+   *       - in: query
+   *         name: signature
+   *         schema:
+   *           type: string
+   *         description: HMAC-SHA256 of the path and the other query parameters (base64url)
+   *     responses:
+   *       200:
+   *         description: Image content
+   *         headers:
+   *           Vary:
+   *             schema:
+   *               type: string
+   *             description: Request headers that selected the rendition
+   *           Accept-CH:
+   *             schema:
+   *               type: string
+   *             example: Sec-CH-DPR, Sec-CH-Width
+   *           ETag:
+   *             schema:
+   *               type: string
+   *           Last-Modified:
+   *             schema:
+   *               type: string
+   *           Cache-Control:
+   *             schema:
+   *               type: string
+   *             example: public, max-age=31536000, immutable
+   *         content:
+   *           image/*:
+   *             schema:
+   *               type: string
+   *               format: binary
+   *       206:
+   *         description: Requested byte range
+   *         headers:
+   *           Content-Range:
+   *             schema:
+   *               type: string
+   *             example: bytes 0-1023/48213
+   *         content:
+   *           image/*:
+   *             schema:
+   *               type: string
+   *               format: binary
+   *       304:
+   *         description: Not modified since the cached copy
+   *       400:
+   *         description: Invalid variant or query parameters, or task not completed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Missing, invalid or expired signature
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Task, variant or file not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       416:
+   *         description: Range not satisfiable
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async getImage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId, variant } = ImageParamsSchema.parse(req.params);
+      // Reject unsigned transformations before any rendering work
+      const expiresAt = this.signatureService.verify(`${req.baseUrl}${req.path}`, req.query);
+      const transformation = ImageDeliveryQuerySchema.parse(req.query);
+
+      const image = await this.deliveryService.getImage(taskId, variant, transformation, {
+        accept: req.get('Accept'),
+        dpr: this.parseHint(req.get('Sec-CH-DPR') ?? req.get('DPR')),
+        width: this.parseHint(req.get('Sec-CH-Width') ?? req.get('Width')),
+      });
+
+      res.status(200);
+      res.setHeader('Content-Type', image.contentType);
+      if (image.vary.length > 0) {
+        res.vary(image.vary.join(', '));
+      }
+      res.setHeader('Accept-CH', CLIENT_HINT_HEADERS.join(', '));
+      // Allow embedding from other origins, which helmet blocks by default
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      // Signed URLs must not outlive their signature in caches
+      const maxAge = expiresAt
+        ? Math.max(0, Math.min(IMMUTABLE_MAX_AGE, Math.floor((expiresAt.getTime() - Date.now()) / 1000)))
+        : IMMUTABLE_MAX_AGE;
+      sendImage(res, next, image, maxAge);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        next(new ValidationError(
+          'Invalid image request',
+          error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        ));
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Read a numeric client hint, ignoring malformed values rather than failing the request
+   */
+  private parseHint(value: string | undefined): number | undefined {
+    const hint = value === undefined ? NaN : Number(value);
+    return Number.isFinite(hint) && hint > 0 ? hint : undefined;
+  }
+}
@@ -11,6 +11,47 @@ const ImageSchema = new Schema<IImage>(
       type: String,
       required: true,
     },
+    requestedWidth: {
+      type: Number,
+    },
+    requestedHeight: {
+      type: Number,
+    },
+    fit: {
+      type: String,
+      required: true,
+      enum: ['cover', 'contain', 'fill', 'inside', 'outside'],
+      default: 'inside',
+    },
+    crop: {
+      type: new Schema(
+        {
+          left: { type: Number, required: true },
+          top: { type: Number, required: true },
+          width: { type: Number, required: true },
+          height: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
+    format: {
+      type: String,
+      required: true,
+      enum: ['jpeg', 'png', 'webp', 'avif', 'gif'],
+    },
+    width: {
+      type: Number,
+      required: true,
+    },
+    height: {
+      type: Number,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
     path: {
       type: String,
       required: true,
@@ -19,6 +60,42 @@ const ImageSchema = new Schema<IImage>(
       type: String,
       required: true,
     },
+    frames: {
+      type: Number,
+      required: false, // Animated variants only
+    },
+    duration: {
+      type: Number,
+      required: false,
+    },
+    phash: {
+      type: String,
+      required: false, // Not set on images processed before hashing was added
+    },
+    sourcePhash: {
+      type: String,
+      required: false,
+    },
+    placeholder: {
+      type: new Schema(
+        {
+          blurhash: { type: String, required: true },
+          lqip: { type: String, required: true },
+          dominantColor: { type: String, required: true },
+          palette: [
+            new Schema(
+              {
+                color: { type: String, required: true },
+                weight: { type: Number, required: true },
+              },
+              { _id: false }
+            ),
+          ],
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
     createdAt: {
       type: Date,
       required: true,
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { ImageController } from './image.controller.js';
+import { similarityService } from './similarity.service.js';
+import { deliveryService } from './delivery.service.js';
+import { signatureService } from '../signatures/signature.service.js';
+
+// Create controller instance
+const imageController = new ImageController(similarityService, deliveryService, signatureService);
+
+// Create router
+const router = Router();
+
+/**
+ * @route GET /images/similar
+ * @desc Find images visually similar to a task's original
+ * @access Public
+ */
+router.get('/similar', imageController.findSimilar.bind(imageController));
+
+/**
+ * @route GET /images/:taskId/:variant
+ * @desc Stream a stored variant or an on-the-fly transformation of the original
+ * @access Public; transformations require a signed URL
+ */
+router.get('/:taskId/:variant', imageController.getImage.bind(imageController));
+
+export default router;
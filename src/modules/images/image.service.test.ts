@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import fs from 'fs';
 import path from 'path';
+import sharp from 'sharp';
 import { imageService } from './image.service.js';
+import { appConfig } from '../../config/index.js';
 
 describe('ImageService', () => {
   const testImagePath = path.join(process.cwd(), 'test-images', 'test-image.jpg');
@@ -79,4 +81,472 @@ describe('ImageService', () => {
     });
   });
 
+  describe('processImage', () => {
+    const originalName = 'format-test.png';
+    const variantDir = path.join(appConfig.outputDir, 'format-test.png');
+
+    beforeEach(async () => {
+      await sharp({
+        create: { width: 1200, height: 600, channels: 3, background: { r: 200, g: 50, b: 50 } },
+      })
+        .jpeg()
+        .toFile(testImagePath);
+    });
+
+    afterEach(() => {
+      fs.rmSync(variantDir, { recursive: true, force: true });
+    });
+
+    it('should encode jpeg variants by default', async () => {
+      const images = await imageService.processImage(testImagePath, originalName);
+
+      expect(images).toHaveLength(2);
+      expect(images.map((img) => img.format)).toEqual(['jpeg', 'jpeg']);
+      expect(images[0]?.path).toMatch(/\/1024\/[a-f0-9]{32}\.jpg$/);
+    });
+
+    it('should attach a placeholder computed from each variant', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 800 }],
+      });
+
+      expect(images[0]?.placeholder).toEqual({
+        blurhash: expect.any(String),
+        lqip: expect.stringMatching(/^data:image\/webp;base64,/),
+        dominantColor: expect.stringMatching(/^#[a-f0-9]{6}$/),
+        palette: [{ color: expect.stringMatching(/^#c[89a-f]3[0-4]3[0-4]$/), weight: 1 }],
+      });
+    });
+
+    it('should create one variant per resolution and requested format', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 800 }],
+        formats: [
+          { format: 'webp', quality: 70, effort: 2 },
+          { format: 'avif', lossless: false, effort: 0 },
+          { format: 'png', progressive: true },
+        ],
+      });
+
+      expect(images.map((img) => img.extension)).toEqual(['webp', 'avif', 'png']);
+      for (const img of images) {
+        const metadata = await sharp(path.join(process.cwd(), img.path)).metadata();
+        expect(img.width).toBe(800);
+        expect(img.height).toBe(400);
+        expect(img.size).toBe(fs.statSync(path.join(process.cwd(), img.path)).size);
+        expect(metadata.format).toBe(img.format === 'avif' ? 'heif' : img.format);
+      }
+    });
+
+    it('should report real dimensions when the source is smaller than the target', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 2048 }],
+        formats: [{ format: 'jpeg' }],
+      });
+
+      expect(images[0]?.width).toBe(1200);
+      expect(images[0]?.height).toBe(600);
+    });
+
+    it('should support height-constrained and bounding-box resolutions', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ height: 300 }, { width: 500, height: 100 }],
+        formats: [{ format: 'jpeg' }],
+      });
+
+      expect(images.map((img) => img.resolution)).toEqual(['x300', '500x100']);
+      expect(images[0]).toMatchObject({ width: 600, height: 300, requestedHeight: 300 });
+      expect(images[1]).toMatchObject({ width: 200, height: 100, requestedWidth: 500, requestedHeight: 100 });
+      expect(images[1]?.path).toContain('/500x100/');
+    });
+
+    it('should crop cover variants to the exact size around a focal point', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 300, height: 300, fit: 'cover', focalPoint: { x: 0.9, y: 0.5 } }],
+        formats: [{ format: 'jpeg' }],
+      });
+
+      expect(images[0]).toMatchObject({
+        resolution: '300x300-cover',
+        fit: 'cover',
+        width: 300,
+        height: 300,
+        crop: { left: 600, top: 0, width: 600, height: 600 },
+      });
+    });
+
+    it('should record the crop chosen by gravity and smart strategies', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [
+          { width: 400, height: 225, fit: 'cover', gravity: 'west' },
+          { width: 200, height: 200, fit: 'cover', strategy: 'entropy' },
+        ],
+        formats: [{ format: 'jpeg' }],
+      });
+
+      expect(images[0]?.crop).toEqual({ left: 0, top: 0, width: 1067, height: 600 });
+      expect(images[1]?.crop).toMatchObject({ top: 0, width: 600, height: 600 });
+      expect(images[1]).toMatchObject({ width: 200, height: 200 });
+    });
+
+    it('should apply operations in order before resizing every variant', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 300 }, { width: 150 }],
+        formats: [{ format: 'png' }],
+        operations: [
+          { type: 'rotate', angle: 90 },
+          { type: 'grayscale' },
+          { type: 'modulate', brightness: 1.2 },
+        ],
+      });
+
+      expect(images[0]).toMatchObject({ width: 300, height: 600 });
+      expect(images[1]).toMatchObject({ width: 150, height: 300 });
+      const { data } = await sharp(path.join(process.cwd(), images[1]?.path ?? ''))
+        .removeAlpha()
+        .toColourspace('srgb')
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      expect(data[0]).toBe(data[1]);
+      expect(data[1]).toBe(data[2]);
+    });
+
+    it('should composite a watermark scaled to each variant width', async () => {
+      const watermarkPath = path.join(testOutputDir, 'logo.png');
+      await sharp({
+        create: { width: 200, height: 100, channels: 4, background: { r: 0, g: 0, b: 255, alpha: 1 } },
+      })
+        .png()
+        .toFile(watermarkPath);
+
+      const images = await imageService.processImage(testImagePath, originalName, {
+        formats: [{ format: 'png' }],
+        watermark: { path: watermarkPath, gravity: 'southeast', margin: 0.05, opacity: 1, scale: 0.25, tile: false },
+      });
+
+      for (const img of images) {
+        const { data, info } = await sharp(path.join(process.cwd(), img.path))
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        const margin = Math.round(img.width * 0.05);
+        const isLogoPixel = (x: number, y: number): boolean => {
+          const offset = (y * info.width + x) * info.channels;
+          return (data[offset + 2] ?? 0) > 200 && (data[offset] ?? 0) < 50;
+        };
+
+        // Watermark is a quarter of the variant wide, inset by the margin
+        const logoWidth = Math.round(img.width * 0.25);
+        expect(isLogoPixel(img.width - margin - 1, img.height - margin - 1)).toBe(true);
+        expect(isLogoPixel(img.width - margin - logoWidth + 1, img.height - margin - 1)).toBe(true);
+        expect(isLogoPixel(img.width - margin - logoWidth - 2, img.height - margin - 1)).toBe(false);
+        expect(isLogoPixel(img.width - 1, img.height - 1)).toBe(false);
+        expect(isLogoPixel(0, 0)).toBe(false);
+      }
+    });
+
+    it('should tile a translucent watermark across the variant', async () => {
+      const watermarkPath = path.join(testOutputDir, 'logo.png');
+      await sharp({
+        create: { width: 100, height: 100, channels: 4, background: { r: 255, g: 255, b: 255, alpha: 1 } },
+      })
+        .png()
+        .toFile(watermarkPath);
+
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 800 }],
+        formats: [{ format: 'png' }],
+        watermark: { path: watermarkPath, gravity: 'center', margin: 0, opacity: 0.5, scale: 0.1, tile: true },
+      });
+
+      const { data } = await sharp(path.join(process.cwd(), images[0]?.path ?? ''))
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      expect(data[0]).toBeGreaterThan(200);
+      expect(data[1]).toBeGreaterThan(140);
+      expect(data[1]).toBeLessThan(170);
+    });
+
+    it('should letterbox contain variants with the requested background', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 300, height: 300, fit: 'contain', background: '#00ff00' }],
+        formats: [{ format: 'png' }],
+      });
+
+      const { data } = await sharp(path.join(process.cwd(), images[0]?.path ?? ''))
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      expect(images[0]).toMatchObject({ width: 300, height: 300, fit: 'contain' });
+      expect(images[0]?.crop).toBeUndefined();
+      expect([data[0], data[1], data[2]]).toEqual([0, 255, 0]);
+    });
+  });
+
+  describe('metadata', () => {
+    const originalName = 'metadata-test.jpg';
+    const variantDir = path.join(appConfig.outputDir, 'metadata-test.jpg');
+
+    beforeEach(async () => {
+      // A landscape-encoded phone photo that should be displayed rotated 90 degrees
+      await sharp({
+        create: { width: 1200, height: 600, channels: 3, background: { r: 200, g: 50, b: 50 } },
+      })
+        .jpeg()
+        .withMetadata({ orientation: 6, density: 300 })
+        .withExifMerge({
+          IFD0: { Make: 'ACME', Model: 'Phone 9', Copyright: 'ACME Photo', Artist: 'Jane Doe' },
+        })
+        .toFile(testImagePath);
+    });
+
+    afterEach(() => {
+      fs.rmSync(variantDir, { recursive: true, force: true });
+    });
+
+    const readExif = async (imagePath: string): Promise<Buffer | undefined> =>
+      (await sharp(path.join(process.cwd(), imagePath)).metadata()).exif;
+
+    it('should summarize the original metadata', async () => {
+      const metadata = await imageService.extractMetadata(testImagePath);
+
+      expect(metadata).toMatchObject({
+        format: 'jpeg',
+        width: 600,
+        height: 1200,
+        camera: { make: 'ACME', model: 'Phone 9' },
+        dpi: 300,
+        orientation: 6,
+        copyright: 'ACME Photo',
+        artist: 'Jane Doe',
+        hasExif: true,
+        hasIptc: false,
+      });
+      expect(metadata.gps).toBeUndefined();
+    });
+
+    it('should auto-orient variants and strip metadata by default', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 300 }],
+      });
+
+      expect(images[0]).toMatchObject({ width: 300, height: 600 });
+      const output = await sharp(path.join(process.cwd(), images[0]?.path ?? '')).metadata();
+      expect(output.exif).toBeUndefined();
+      expect(output.orientation).toBeUndefined();
+    });
+
+    it('should keep all metadata with the keep policy', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 300 }],
+        operations: [{ type: 'grayscale' }],
+        metadataPolicy: 'keep',
+      });
+
+      const exif = await readExif(images[0]?.path ?? '');
+      expect(exif?.toString('latin1')).toContain('Phone 9');
+      expect(exif?.toString('latin1')).toContain('ACME Photo');
+      expect(images[0]).toMatchObject({ width: 300, height: 600 });
+      // Pixels are already rotated, so the kept orientation tag must not rotate them again
+      expect((await sharp(path.join(process.cwd(), images[0]?.path ?? '')).metadata()).orientation ?? 1).toBe(1);
+    });
+
+    it('should keep only copyright and artist with the copyright policy', async () => {
+      const images = await imageService.processImage(testImagePath, originalName, {
+        resolutions: [{ width: 300 }],
+        metadataPolicy: 'copyright',
+      });
+
+      const exif = (await readExif(images[0]?.path ?? ''))?.toString('latin1');
+      expect(exif).toContain('ACME Photo');
+      expect(exif).toContain('Jane Doe');
+      expect(exif).not.toContain('Phone 9');
+    });
+
+    it('should apply the given metadata policy when rendering in memory', async () => {
+      const stripped = await imageService.renderImage(testImagePath, { width: 100 }, { format: 'webp' });
+      const kept = await imageService.renderImage(testImagePath, { width: 100 }, { format: 'webp' }, 'copyright');
+
+      expect((await sharp(stripped).metadata()).exif).toBeUndefined();
+      expect((await sharp(kept).metadata()).exif?.toString('latin1')).toContain('ACME Photo');
+    });
+  });
+
+  describe('animation', () => {
+    const originalName = 'animation-test.gif';
+    const variantDir = path.join(appConfig.outputDir, 'animation-test.gif');
+    const animationPath = path.join(process.cwd(), 'test-images', 'animation.gif');
+    const colors = [
+      { r: 255, g: 0, b: 0 },
+      { r: 0, g: 255, b: 0 },
+      { r: 0, g: 0, b: 255 },
+    ];
+
+    beforeEach(async () => {
+      const frames = await Promise.all(colors.map((background) =>
+        sharp({ create: { width: 120, height: 60, channels: 3, background } }).png().toBuffer()
+      ));
+      await sharp(frames, { join: { animated: true } })
+        .gif({ loop: 2, delay: [100, 200, 300] })
+        .toFile(animationPath);
+    });
+
+    afterEach(() => {
+      fs.rmSync(animationPath, { force: true });
+      fs.rmSync(variantDir, { recursive: true, force: true });
+    });
+
+    it('should resize every frame and keep loop count and delays', async () => {
+      const images = await imageService.processImage(animationPath, originalName, {
+        resolutions: [{ width: 60 }],
+        formats: [{ format: 'webp' }, { format: 'gif' }, { format: 'jpeg' }],
+      });
+
+      const [webp, gif, jpeg] = images;
+      expect(webp).toMatchObject({ width: 60, height: 30, frames: 3, duration: 600 });
+      expect(gif).toMatchObject({ width: 60, height: 30, frames: 3, duration: 600 });
+      expect(jpeg?.frames).toBeUndefined();
+
+      for (const img of [webp, gif]) {
+        const metadata = await sharp(path.join(process.cwd(), img?.path ?? '')).metadata();
+        expect(metadata.pages).toBe(3);
+        expect(metadata.loop).toBe(2);
+        expect(metadata.delay).toEqual([100, 200, 300]);
+      }
+    });
+
+    it('should render a transformation in memory, keeping animation where supported', async () => {
+      const webp = await imageService.renderImage(animationPath, { width: 30 }, { format: 'webp', quality: 50 });
+      const png = await imageService.renderImage(animationPath, { height: 20 }, { format: 'png' });
+
+      expect(await sharp(webp).metadata()).toMatchObject({ format: 'webp', width: 30, pages: 3, loop: 2 });
+      expect(await sharp(png).metadata()).toMatchObject({ format: 'png', width: 40, height: 20 });
+      expect(fs.existsSync(variantDir)).toBe(false);
+    });
+
+    it('should flatten animations to the requested poster frame', async () => {
+      const images = await imageService.processImage(animationPath, originalName, {
+        resolutions: [{ width: 60 }],
+        formats: [{ format: 'gif' }],
+        posterFrame: 2,
+      });
+
+      const output = path.join(process.cwd(), images[0]?.path ?? '');
+      const { data } = await sharp(output).raw().toBuffer({ resolveWithObject: true });
+      expect(images[0]?.frames).toBeUndefined();
+      expect((await sharp(output).metadata()).pages ?? 1).toBe(1);
+      expect([data[0], data[1], data[2]]).toEqual([0, 0, 255]);
+    });
+
+    it('should reject poster frames beyond the last frame', async () => {
+      await expect(imageService.processImage(animationPath, originalName, { posterFrame: 3 }))
+        .rejects.toThrow('Poster frame 3 is out of range for an image with 3 frame(s)');
+    });
+  });
+
+  describe('renderRegion', () => {
+    beforeEach(async () => {
+      // Red left half, blue right half
+      await sharp({ create: { width: 200, height: 100, channels: 3, background: { r: 255, g: 0, b: 0 } } })
+        .composite([{
+          input: { create: { width: 100, height: 100, channels: 3, background: { r: 0, g: 0, b: 255 } } },
+          left: 100,
+          top: 0,
+        }])
+        .jpeg()
+        .toFile(testImagePath);
+    });
+
+    it('should crop, scale and then apply the operations', async () => {
+      const output = await imageService.renderRegion(
+        testImagePath,
+        { left: 100, top: 0, width: 100, height: 50 },
+        { width: 40, height: 20 },
+        [{ type: 'rotate', angle: 90 }],
+        { format: 'png' }
+      );
+
+      const { data, info } = await sharp(output).raw().toBuffer({ resolveWithObject: true });
+      expect(info).toMatchObject({ format: 'raw', width: 20, height: 40 });
+      expect(data[2]).toBeGreaterThan(200);
+      expect(data[0]).toBeLessThan(50);
+    });
+
+    it('should reject regions outside the image', async () => {
+      await expect(imageService.renderRegion(
+        testImagePath,
+        { left: 150, top: 0, width: 100, height: 100 },
+        { width: 10, height: 10 },
+        [],
+        { format: 'jpeg' }
+      )).rejects.toThrow('Failed to render image region');
+    });
+  });
+
+  describe('createTilePyramid', () => {
+    const tilesDir = path.join(appConfig.outputDir, 'tiles');
+    const key = 'c'.repeat(64);
+
+    beforeEach(async () => {
+      await sharp({ create: { width: 1000, height: 600, channels: 3, background: { r: 40, g: 120, b: 200 } } })
+        .jpeg()
+        .toFile(testImagePath);
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.join(tilesDir, key), { recursive: true, force: true });
+      fs.rmSync(path.join(tilesDir, `${key}.zip`), { force: true });
+    });
+
+    it('should write a deep zoom pyramid directory and count its tiles', async () => {
+      const pyramid = await imageService.createTilePyramid(testImagePath, key, {
+        layout: 'dz',
+        container: 'fs',
+        tileSize: 254,
+        overlap: 1,
+        format: 'jpeg',
+      });
+
+      expect(pyramid).toMatchObject({
+        path: `/output/tiles/${key}`,
+        descriptorPath: 'image.dzi',
+        width: 1000,
+        height: 600,
+      });
+      const rootDir = path.join(tilesDir, key);
+      expect(fs.readFileSync(path.join(rootDir, 'image.dzi'), 'utf8')).toContain('TileSize="254"');
+      // Levels 0 to 10, the full-resolution level split into 4x3 tiles
+      const levels = fs.readdirSync(path.join(rootDir, 'image_files')).filter((name) => /^\d+$/.test(name));
+      expect(levels).toHaveLength(11);
+      expect(fs.readdirSync(path.join(rootDir, 'image_files', '10'))).toHaveLength(12);
+      const tiles = levels.flatMap((level) => fs.readdirSync(path.join(rootDir, 'image_files', level)));
+      expect(pyramid.tileCount).toBe(tiles.length);
+      expect(fs.readdirSync(tilesDir).some((name) => name.startsWith('.'))).toBe(false);
+    });
+
+    it('should pack the pyramid into a zip archive', async () => {
+      const options = { layout: 'zoomify', container: 'zip', tileSize: 256, overlap: 0, format: 'webp' } as const;
+      const pyramid = await imageService.createTilePyramid(testImagePath, key, options);
+
+      expect(pyramid).toMatchObject({
+        ...options,
+        path: `/output/tiles/${key}.zip`,
+        descriptorPath: 'image/ImageProperties.xml',
+        // 4x3 + 2x2 + 1 tiles
+        tileCount: 17,
+      });
+      expect(fs.existsSync(path.join(tilesDir, `${key}.zip`))).toBe(true);
+    });
+
+    it('should reuse an existing pyramid with the same key', async () => {
+      const options = { layout: 'google', container: 'fs', tileSize: 256, overlap: 0, format: 'png' } as const;
+      const first = await imageService.createTilePyramid(testImagePath, key, options);
+      const blankTile = path.join(tilesDir, key, 'image', 'blank.png');
+      const { mtimeMs } = fs.statSync(blankTile);
+
+      const second = await imageService.createTilePyramid(testImagePath, key, options);
+
+      expect(second).toEqual(first);
+      expect(first.descriptorPath).toBeUndefined();
+      expect(fs.statSync(blankTile).mtimeMs).toBe(mtimeMs);
+    });
+  });
 });
@@ -4,32 +4,160 @@ import fs from 'fs';
 import path from 'path';
 import { appConfig } from '../../config/index.js';
 import { FileSystemError, ProcessingError } from '../../common/errors.js';
-import type { ProcessedImage } from './image.types.js';
+import { metadataService } from './metadata.service.js';
+import { similarityService } from './similarity.service.js';
+import { placeholderService } from './placeholder.service.js';
+import { readZipEntries } from '../../common/zip.js';
+import type {
+  AnimationInfo,
+  CropRect,
+  FitMode,
+  ImageMetadataSummary,
+  ImageOperation,
+  ImageProcessingOptions,
+  MetadataPolicy,
+  OutputFormat,
+  OutputFormatOptions,
+  ProcessedImage,
+  ResolutionSpec,
+  TileLayout,
+  TileOptions,
+  TilePyramid,
+  WatermarkOptions,
+} from './image.types.js';
+
+export const DEFAULT_RESOLUTIONS: ResolutionSpec[] = [{ width: 1024 }, { width: 800 }];
+
+export const DEFAULT_OUTPUT_FORMATS: OutputFormatOptions[] = [{ format: 'jpeg', quality: 85 }];
+
+export const WATERMARK_DEFAULTS: Omit<WatermarkOptions, 'path'> = {
+  gravity: 'southeast',
+  margin: 0.02,
+  opacity: 0.5,
+  scale: 0.2,
+  tile: false,
+};
+
+// Tile pyramid options used when a task leaves them unset
+export const TILE_DEFAULTS: Omit<TileOptions, 'tileSize' | 'overlap' | 'quality'> = {
+  layout: 'dz',
+  container: 'fs',
+  format: 'jpeg',
+};
+
+// Deep Zoom viewers expect 254px tiles sharing a 1px border; the other layouts use plain 256px tiles
+export const TILE_SIZE_DEFAULTS: Record<TileLayout, Pick<TileOptions, 'tileSize' | 'overlap'>> = {
+  dz: { tileSize: 254, overlap: 1 },
+  zoomify: { tileSize: 256, overlap: 0 },
+  google: { tileSize: 256, overlap: 0 },
+};
+
+/**
+ * Build the resolution label used in output paths: "1024", "x600", "1200x630"
+ * or "300x300-cover" when a fit mode other than inside is requested
+ */
+export function getResolutionLabel(spec: ResolutionSpec): string {
+  let label: string;
+  if (spec.width && spec.height) {
+    label = `${spec.width}x${spec.height}`;
+  } else {
+    label = spec.width ? `${spec.width}` : `x${spec.height}`;
+  }
+  return spec.fit && spec.fit !== 'inside' ? `${label}-${spec.fit}` : label;
+}
+
+export const FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif',
+  gif: 'gif',
+};
+
+export const FORMAT_MIME_TYPES: Record<OutputFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+};
+
+// Formats that can carry animation; other formats get a single frame
+const ANIMATED_FORMATS: ReadonlySet<OutputFormat> = new Set<OutputFormat>(['gif', 'webp']);
+
+// Browsers fall back to this delay when a frame doesn't specify one
+const DEFAULT_FRAME_DELAY = 100;
+
+// Base name of pyramids in their directory or archive, as in "image.dzi" and "image_files/"
+const TILE_BASENAME = 'image';
+
+// Descriptor viewers open a pyramid with, relative to its root
+const TILE_DESCRIPTORS: Record<TileLayout, string | undefined> = {
+  dz: `${TILE_BASENAME}.dzi`,
+  zoomify: `${TILE_BASENAME}/ImageProperties.xml`,
+  google: undefined, // addressed as {z}/{y}/{x} from the size alone
+};
+
+// Tiles among the files of a pyramid; the google layout also writes a blank.png filler
+const TILE_FILE = /\.(jpe?g|png|webp)$/;
+
+// Decoded frames shared by every variant of a task
+interface VariantSource {
+  frames: Buffer[];
+  info: sharp.Metadata;
+  animation?: AnimationInfo | undefined;
+}
 
 export class ImageService {
   private readonly outputDir: string;
   private readonly maxDownloadSize: number;
+  private readonly maxInputPixels: number;
 
   constructor() {
     this.outputDir = appConfig.outputDir;
     this.maxDownloadSize = appConfig.maxDownloadSize;
+    this.maxInputPixels = appConfig.maxInputPixels;
   }
 
   /**
-   * Process an image file and create variants at specified resolutions
+   * Process an image file and create one variant per resolution and output format
    */
   async processImage(
     sourcePath: string,
     originalName: string,
-    resolutions: number[] = [1024, 800]
+    options: Partial<ImageProcessingOptions> = {}
   ): Promise<ProcessedImage[]> {
+    const {
+      resolutions = DEFAULT_RESOLUTIONS,
+      formats = DEFAULT_OUTPUT_FORMATS,
+      operations = [],
+      watermark,
+      metadataPolicy = 'strip',
+      posterFrame,
+    } = options;
+
     try {
       // Validate source file
       await this.validateSourceFile(sourcePath);
 
       // Read and validate image
-      const imageBuffer = await this.readImageFile(sourcePath);
-      const imageInfo = await this.getImageInfo(imageBuffer);
+      const sourceBuffer = await this.readImageFile(sourcePath);
+      const sourceInfo = await this.getImageInfo(sourceBuffer);
+      const metadata = metadataService.summarize(sourceInfo);
+
+      // Keep every frame of animations unless a poster frame was requested
+      const pageCount = sourceInfo.pages ?? 1;
+      if (posterFrame !== undefined && posterFrame >= pageCount) {
+        throw new ProcessingError(`Poster frame ${posterFrame} is out of range for an image with ${pageCount} frame(s)`);
+      }
+      const animation = posterFrame === undefined ? this.getAnimation(sourceInfo) : undefined;
+      const pages = animation ? Array.from({ length: pageCount }, (_, page) => page) : [posterFrame ?? 0];
+
+      // Auto-orient and apply transformations once so every variant shares them
+      const frames = await this.decodeFrames(sourceBuffer, metadata.orientation, pages, operations);
+      const [firstFrame = sourceBuffer] = frames;
+      const imageInfo = await this.getImageInfo(firstFrame);
+      const watermarkBuffer = watermark ? await this.readImageFile(watermark.path) : undefined;
 
       // Create output directory structure
       const baseOutputPath = path.join(this.outputDir, this.sanitizeFileName(originalName));
@@ -37,15 +165,20 @@ export class ImageService {
 
       const processedImages: ProcessedImage[] = [];
 
-      // Process each resolution
-      for (const width of resolutions) {
-        const processedImage = await this.createImageVariant(
-          imageBuffer,
-          imageInfo,
-          baseOutputPath,
-          width
-        );
-        processedImages.push(processedImage);
+      // Process each resolution in every requested format
+      for (const resolutionSpec of resolutions) {
+        for (const formatOptions of formats) {
+          const animated = animation && ANIMATED_FORMATS.has(formatOptions.format);
+          const processedImage = await this.createImageVariant(
+            animated ? { frames, info: imageInfo, animation } : { frames: [firstFrame], info: imageInfo },
+            baseOutputPath,
+            resolutionSpec,
+            formatOptions,
+            { policy: metadataPolicy, summary: metadata },
+            watermark && watermarkBuffer && { options: watermark, buffer: watermarkBuffer }
+          );
+          processedImages.push(processedImage);
+        }
       }
 
       return processedImages;
@@ -57,6 +190,150 @@ export class ImageService {
     }
   }
 
+  /**
+   * Render one variant of a source image in memory, without operations or watermark.
+   * Animations are kept when the output format supports them, metadata is stripped
+   * unless another policy is given.
+   */
+  async renderImage(
+    sourcePath: string,
+    resolutionSpec: ResolutionSpec,
+    formatOptions: OutputFormatOptions,
+    metadataPolicy: MetadataPolicy = 'strip'
+  ): Promise<Buffer> {
+    try {
+      await this.validateSourceFile(sourcePath);
+
+      const sourceBuffer = await this.readImageFile(sourcePath);
+      const sourceInfo = await this.getImageInfo(sourceBuffer);
+      const metadata = metadataService.summarize(sourceInfo);
+
+      const animation = ANIMATED_FORMATS.has(formatOptions.format) ? this.getAnimation(sourceInfo) : undefined;
+      const pages = animation ? Array.from({ length: animation.delay.length }, (_, page) => page) : [0];
+      const frames = await this.decodeFrames(sourceBuffer, metadata.orientation, pages, []);
+      const [firstFrame = sourceBuffer] = frames;
+
+      const { data } = await this.renderVariant(
+        { frames, info: await this.getImageInfo(firstFrame), animation },
+        resolutionSpec,
+        formatOptions,
+        { policy: metadataPolicy, summary: metadata }
+      );
+      return data;
+    } catch (error) {
+      throw new ProcessingError(
+        `Failed to render image: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Extract a region of the auto-oriented first frame, scale it to an exact size and
+   * apply the operations, in that order. Metadata is stripped.
+   */
+  async renderRegion(
+    sourcePath: string,
+    region: CropRect,
+    size: { width: number; height: number },
+    operations: ImageOperation[],
+    formatOptions: OutputFormatOptions
+  ): Promise<Buffer> {
+    try {
+      await this.validateSourceFile(sourcePath);
+
+      const sourceBuffer = await this.readImageFile(sourcePath);
+      const metadata = metadataService.summarize(await this.getImageInfo(sourceBuffer));
+      const [frame = sourceBuffer] = await this.decodeFrames(sourceBuffer, metadata.orientation, [0], []);
+
+      const { data } = await this.toIntermediate(
+        sharp(frame).extract(region).resize(size.width, size.height, { fit: 'fill' })
+      );
+      const transformed = await this.applyOperations(data, operations);
+      return await this.applyOutputFormat(sharp(transformed), formatOptions).toBuffer();
+    } catch (error) {
+      throw new ProcessingError(
+        `Failed to render image region: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Generate a deep-zoom tile pyramid of the auto-oriented first frame under "/output/tiles",
+   * addressed by the given key. An existing pyramid with the same key is reused.
+   */
+  async createTilePyramid(sourcePath: string, key: string, options: TileOptions): Promise<TilePyramid> {
+    const tilesDir = path.join(this.outputDir, 'tiles');
+    const rootName = options.container === 'zip' ? `${key}.zip` : key;
+    const rootPath = path.join(tilesDir, rootName);
+
+    try {
+      await this.validateSourceFile(sourcePath);
+      const metadata = await this.extractMetadata(sourcePath);
+
+      if (!fs.existsSync(rootPath)) {
+        // Write to a staging directory and move the result into place, so a pyramid
+        // is either complete or absent for concurrent tasks and readers
+        const stagingDir = path.join(tilesDir, `.${key}-${crypto.randomBytes(4).toString('hex')}`);
+        await this.ensureDirectoryExists(stagingDir);
+        try {
+          const stagingPath = path.join(stagingDir, options.container === 'zip' ? `${TILE_BASENAME}.zip` : TILE_BASENAME);
+          await this.applyOutputFormat(this.openImage(sourcePath).autoOrient(), options)
+            .tile({
+              size: options.tileSize,
+              overlap: options.overlap,
+              layout: options.layout,
+              container: options.container,
+            })
+            .toFile(stagingPath);
+          try {
+            fs.renameSync(options.container === 'zip' ? stagingPath : stagingDir, rootPath);
+          } catch (error) {
+            // Another task finished the same pyramid first
+            if (!fs.existsSync(rootPath)) {
+              throw error;
+            }
+          }
+        } finally {
+          fs.rmSync(stagingDir, { recursive: true, force: true });
+        }
+      }
+
+      const files = options.container === 'zip'
+        ? readZipEntries(rootPath).map((entry) => entry.name)
+        : this.listFiles(rootPath);
+      return {
+        ...options,
+        path: path.posix.join('/output', 'tiles', rootName),
+        descriptorPath: TILE_DESCRIPTORS[options.layout],
+        tileCount: files.filter((file) => TILE_FILE.test(file) && path.posix.basename(file) !== 'blank.png').length,
+        width: metadata.width ?? 0,
+        height: metadata.height ?? 0,
+      };
+    } catch (error) {
+      throw new ProcessingError(
+        `Failed to generate tile pyramid: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Read the source image metadata and summarize it
+   */
+  async extractMetadata(sourcePath: string): Promise<ImageMetadataSummary> {
+    const imageInfo = await this.getImageInfo(await this.readImageFile(sourcePath));
+    return metadataService.summarize(imageInfo);
+  }
+
+  /**
+   * Compute the perceptual hash of the auto-oriented source image
+   */
+  async computePerceptualHash(sourcePath: string): Promise<string> {
+    return similarityService.computeHash(await this.readImageFile(sourcePath));
+  }
+
   /**
    * Validate the source file exists and is within size limits
    */
@@ -86,48 +363,142 @@ export class ImageService {
     }
   }
 
+  /**
+   * Open a source image, refusing to decode more pixels than the configured limit
+   */
+  private openImage(input: string | Buffer, options: sharp.SharpOptions = {}): sharp.Sharp {
+    return sharp(input, { limitInputPixels: this.maxInputPixels, ...options });
+  }
+
   /**
    * Get image information using Sharp
    */
   private async getImageInfo(imageBuffer: Buffer): Promise<sharp.Metadata> {
     try {
-      return await sharp(imageBuffer).metadata();
+      return await this.openImage(imageBuffer).metadata();
     } catch (error) {
       throw new ProcessingError('Invalid image format or corrupted image file');
     }
   }
 
   /**
-   * Create an image variant at specified width
+   * Detect animated GIF and WebP sources from their page count
+   */
+  private getAnimation(imageInfo: sharp.Metadata): AnimationInfo | undefined {
+    const pages = imageInfo.pages ?? 1;
+    if (pages < 2 || (imageInfo.format !== 'gif' && imageInfo.format !== 'webp')) {
+      return undefined;
+    }
+    return {
+      loop: imageInfo.loop ?? 0,
+      delay: Array.from({ length: pages }, (_, page) => imageInfo.delay?.[page] ?? DEFAULT_FRAME_DELAY),
+    };
+  }
+
+  /**
+   * Decode the requested pages, auto-oriented and with the operations applied
+   */
+  private async decodeFrames(
+    sourceBuffer: Buffer,
+    orientation: number,
+    pages: number[],
+    operations: ImageOperation[]
+  ): Promise<Buffer[]> {
+    const frames: Buffer[] = [];
+    for (const page of pages) {
+      const frameBuffer = orientation > 1 || page > 0
+        ? (await this.toIntermediate(this.openImage(sourceBuffer, { page }).autoOrient())).data
+        : sourceBuffer;
+      frames.push(await this.applyOperations(frameBuffer, operations));
+    }
+    return frames;
+  }
+
+  /**
+   * Render a pipeline to an uncompressed PNG that keeps the source metadata,
+   * so later passes can still honour the task's metadata policy
+   */
+  private toIntermediate(pipeline: sharp.Sharp): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+    return pipeline.keepMetadata().png({ compressionLevel: 0 }).toBuffer({ resolveWithObject: true });
+  }
+
+  /**
+   * Apply transformation operations in order. Sharp reorders operations
+   * within a single pipeline, so each one runs in its own pass.
+   */
+  private async applyOperations(imageBuffer: Buffer, operations: ImageOperation[]): Promise<Buffer> {
+    let buffer = imageBuffer;
+    for (const operation of operations) {
+      buffer = (await this.toIntermediate(this.applyOperation(sharp(buffer), operation))).data;
+    }
+    return buffer;
+  }
+
+  /**
+   * Add a single transformation operation to a pipeline
+   */
+  private applyOperation(pipeline: sharp.Sharp, operation: ImageOperation): sharp.Sharp {
+    switch (operation.type) {
+      case 'rotate':
+        return pipeline.rotate(operation.angle, this.withoutUndefined({ background: operation.background }));
+      case 'flip':
+        return pipeline.flip();
+      case 'flop':
+        return pipeline.flop();
+      case 'blur':
+        return pipeline.blur(operation.sigma);
+      case 'sharpen':
+        return operation.sigma !== undefined ? pipeline.sharpen({ sigma: operation.sigma }) : pipeline.sharpen();
+      case 'grayscale':
+        return pipeline.grayscale();
+      case 'tint':
+        return pipeline.tint(operation.color);
+      case 'modulate':
+        return pipeline.modulate(this.withoutUndefined({
+          brightness: operation.brightness,
+          saturation: operation.saturation,
+          hue: operation.hue,
+        }));
+      case 'gamma':
+        return pipeline.gamma(operation.gamma);
+      case 'normalise':
+        return pipeline.normalise(this.withoutUndefined({ lower: operation.lower, upper: operation.upper }));
+      case 'threshold':
+        return pipeline.threshold(operation.threshold, this.withoutUndefined({ grayscale: operation.grayscale }));
+    }
+  }
+
+  /**
+   * Create an image variant fitting the requested resolution in the given output format
+   * and write it to the output directory
    */
   private async createImageVariant(
-    imageBuffer: Buffer,
-    imageInfo: sharp.Metadata,
+    source: VariantSource,
     baseOutputPath: string,
-    targetWidth: number
+    resolutionSpec: ResolutionSpec,
+    formatOptions: OutputFormatOptions,
+    metadata: { policy: MetadataPolicy; summary: ImageMetadataSummary },
+    watermark?: { options: WatermarkOptions; buffer: Buffer }
   ): Promise<ProcessedImage> {
-    const resolution = targetWidth.toString();
+    const resolution = getResolutionLabel(resolutionSpec);
     const resolutionDir = path.join(baseOutputPath, resolution);
     await this.ensureDirectoryExists(resolutionDir);
 
-    // Calculate height maintaining aspect ratio
-    const aspectRatio = (imageInfo.height || 1) / (imageInfo.width || 1);
-    const targetHeight = Math.round(targetWidth * aspectRatio);
+    const { data: processedBuffer, info, crop } = await this.renderVariant(
+      source,
+      resolutionSpec,
+      formatOptions,
+      metadata,
+      watermark
+    );
 
-    // Process image with Sharp
-    const processedBuffer = await sharp(imageBuffer)
-      .resize(targetWidth, targetHeight, {
-        fit: 'inside',
-        withoutEnlargement: true,
-      })
-      .jpeg({ quality: 85 })
-      .toBuffer();
-
-    // Generate MD5 hash
+    // Generate MD5 hash of the bytes, a perceptual hash of the pixels and a loading placeholder
     const md5 = crypto.createHash('md5').update(processedBuffer).digest('hex');
+    const phash = await similarityService.computeHash(processedBuffer);
+    const placeholder = await placeholderService.generate(processedBuffer);
 
     // Determine file extension
-    const extension = 'jpg';
+    const extension = FORMAT_EXTENSIONS[formatOptions.format];
     const filename = `${md5}.${extension}`;
     const outputPath = path.join(resolutionDir, filename);
 
@@ -139,14 +510,346 @@ export class ImageService {
 
     return {
       resolution,
+      requestedWidth: resolutionSpec.width,
+      requestedHeight: resolutionSpec.height,
+      fit: resolutionSpec.fit ?? 'inside',
+      crop,
+      format: formatOptions.format,
+      extension,
       path: relativePath,
       md5,
+      phash,
+      placeholder,
       size: processedBuffer.length,
-      width: targetWidth,
-      height: targetHeight,
+      width: info.width,
+      // Joined animations report the height of all frames stacked
+      height: info.pageHeight ?? info.height,
+      ...(source.animation && {
+        frames: source.frames.length,
+        duration: source.animation.delay.reduce((total, delay) => total + delay, 0),
+      }),
+    };
+  }
+
+  /**
+   * Encode a variant in memory, reporting the crop taken from the source.
+   * Animated sources are rendered frame by frame and joined back into one animation.
+   */
+  private async renderVariant(
+    source: VariantSource,
+    resolutionSpec: ResolutionSpec,
+    formatOptions: OutputFormatOptions,
+    metadata: { policy: MetadataPolicy; summary: ImageMetadataSummary },
+    watermark?: { options: WatermarkOptions; buffer: Buffer }
+  ): Promise<{ data: Buffer; info: sharp.OutputInfo; crop?: CropRect | undefined }> {
+    // Process image with Sharp
+    const { frames, info: imageInfo, animation } = source;
+    const [firstFrame, ...otherFrames] = frames;
+    if (!firstFrame) {
+      throw new ProcessingError('No image frames to process');
+    }
+    const rendered = await this.renderFrame(firstFrame, imageInfo, resolutionSpec, watermark);
+    let pipeline = rendered.pipeline;
+    let cropInfo = rendered.resizeInfo;
+
+    if (animation) {
+      const { data, info } = await this.toIntermediate(pipeline);
+      cropInfo ??= info;
+
+      // Reuse the first frame's smart crop so the animation doesn't jitter
+      const cropOffset = cropInfo.cropOffsetLeft !== undefined && cropInfo.cropOffsetTop !== undefined
+        ? { left: -cropInfo.cropOffsetLeft, top: -cropInfo.cropOffsetTop }
+        : undefined;
+      const frameBuffers = [data];
+      for (const frame of otherFrames) {
+        const next = await this.renderFrame(frame, imageInfo, resolutionSpec, watermark, cropOffset);
+        frameBuffers.push((await this.toIntermediate(next.pipeline)).data);
+      }
+      pipeline = sharp(frameBuffers, { join: { animated: true } });
+    }
+
+    pipeline = this.applyMetadataPolicy(pipeline, metadata.policy, metadata.summary);
+    const { data, info } = await this.applyOutputFormat(pipeline, formatOptions, animation)
+      .toBuffer({ resolveWithObject: true });
+
+    // Smart crop strategies only report the chosen offsets after processing
+    let crop = rendered.crop;
+    cropInfo ??= info;
+    if (resolutionSpec.strategy && cropInfo.cropOffsetLeft !== undefined && cropInfo.cropOffsetTop !== undefined) {
+      crop = this.toSourceRect(
+        imageInfo,
+        rendered.scale,
+        -cropInfo.cropOffsetLeft,
+        -cropInfo.cropOffsetTop,
+        cropInfo.width,
+        cropInfo.height
+      );
+    }
+
+    return { data, info, crop };
+  }
+
+  /**
+   * Resize a single frame and composite the watermark onto it
+   */
+  private async renderFrame(
+    frame: Buffer,
+    imageInfo: sharp.Metadata,
+    resolutionSpec: ResolutionSpec,
+    watermark?: { options: WatermarkOptions; buffer: Buffer },
+    cropOffset?: { left: number; top: number }
+  ): Promise<{ pipeline: sharp.Sharp; scale: number; crop?: CropRect; resizeInfo?: sharp.OutputInfo }> {
+    const resized = this.applyResize(sharp(frame), imageInfo, resolutionSpec, cropOffset);
+    if (!watermark) {
+      return resized;
+    }
+
+    // The overlay is sized from the variant, so resize first and composite on the result
+    const { data, info } = await this.toIntermediate(resized.pipeline);
+    const overlay = await this.createWatermarkOverlay(watermark.buffer, watermark.options, info.width, info.height);
+    return { ...resized, pipeline: sharp(data).composite([overlay]), resizeInfo: info };
+  }
+
+  /**
+   * Resize for the requested resolution and fit mode.
+   * Cover crops by gravity or focal point are computed here so the chosen
+   * rectangle can be recorded; smart strategies are delegated to sharp.
+   */
+  private applyResize(
+    pipeline: sharp.Sharp,
+    imageInfo: sharp.Metadata,
+    spec: ResolutionSpec,
+    cropOffset?: { left: number; top: number }
+  ): { pipeline: sharp.Sharp; scale: number; crop?: CropRect } {
+    const fit: FitMode = spec.fit ?? 'inside';
+    const sourceWidth = imageInfo.width || 1;
+    const sourceHeight = imageInfo.height || 1;
+
+    if (fit === 'cover' && spec.width && spec.height) {
+      const scale = Math.max(spec.width / sourceWidth, spec.height / sourceHeight);
+
+      if (spec.strategy && !cropOffset) {
+        return {
+          pipeline: pipeline.resize(spec.width, spec.height, {
+            fit: 'cover',
+            position: sharp.strategy[spec.strategy],
+          }),
+          scale,
+        };
+      }
+
+      const resizedWidth = Math.max(spec.width, Math.round(sourceWidth * scale));
+      const resizedHeight = Math.max(spec.height, Math.round(sourceHeight * scale));
+      const { left, top } = cropOffset
+        ? {
+          left: this.clamp(cropOffset.left, 0, resizedWidth - spec.width),
+          top: this.clamp(cropOffset.top, 0, resizedHeight - spec.height),
+        }
+        : this.getCropOffset(resizedWidth, resizedHeight, spec.width, spec.height, spec);
+
+      return {
+        pipeline: pipeline
+          .resize(resizedWidth, resizedHeight, { fit: 'fill' })
+          .extract({ left, top, width: spec.width, height: spec.height }),
+        scale,
+        crop: this.toSourceRect(imageInfo, scale, left, top, spec.width, spec.height),
+      };
+    }
+
+    return {
+      pipeline: pipeline.resize(spec.width ?? null, spec.height ?? null, {
+        fit,
+        position: spec.gravity ?? 'center',
+        ...(spec.background && { background: spec.background }),
+        withoutEnlargement: fit === 'inside' || fit === 'outside',
+      }),
+      scale: 1,
     };
   }
 
+  /**
+   * Scale the watermark relative to the variant width, apply its opacity and place it
+   * by gravity and margin, or repeat it across the whole variant when tiled
+   */
+  private async createWatermarkOverlay(
+    watermarkBuffer: Buffer,
+    options: WatermarkOptions,
+    width: number,
+    height: number
+  ): Promise<sharp.OverlayOptions> {
+    const margin = Math.round(width * options.margin);
+    const maxWidth = Math.max(1, Math.min(Math.round(width * options.scale), width - 2 * margin));
+    const maxHeight = Math.max(1, height - 2 * margin);
+
+    // Multiply the alpha channel by the requested opacity
+    const { data, info } = await this.openImage(watermarkBuffer)
+      .resize(maxWidth, maxHeight, { fit: 'inside' })
+      .ensureAlpha()
+      .composite([{
+        input: Buffer.from([255, 255, 255, Math.round(255 * options.opacity)]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: 'dest-in',
+      }])
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    if (options.tile) {
+      // Margins become the spacing between tiles
+      const tile = await sharp(data)
+        .extend({ top: margin, bottom: margin, left: margin, right: margin, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+        .png()
+        .toBuffer();
+      return { input: tile, tile: true, gravity: 'northwest' };
+    }
+
+    const { gravity } = options;
+    const maxLeft = width - info.width - margin;
+    const maxTop = height - info.height - margin;
+    const left = gravity.endsWith('west') ? margin : gravity.endsWith('east') ? maxLeft : Math.round((width - info.width) / 2);
+    const top = gravity.startsWith('north') ? margin : gravity.startsWith('south') ? maxTop : Math.round((height - info.height) / 2);
+
+    return { input: data, left: Math.max(0, left), top: Math.max(0, top) };
+  }
+
+  /**
+   * Locate the crop window inside the resized image from a focal point or gravity
+   */
+  private getCropOffset(
+    resizedWidth: number,
+    resizedHeight: number,
+    width: number,
+    height: number,
+    spec: ResolutionSpec
+  ): { left: number; top: number } {
+    const maxLeft = resizedWidth - width;
+    const maxTop = resizedHeight - height;
+
+    if (spec.focalPoint) {
+      return {
+        left: this.clamp(Math.round(spec.focalPoint.x * resizedWidth - width / 2), 0, maxLeft),
+        top: this.clamp(Math.round(spec.focalPoint.y * resizedHeight - height / 2), 0, maxTop),
+      };
+    }
+
+    const gravity = spec.gravity ?? 'center';
+    const left = gravity.endsWith('west') ? 0 : gravity.endsWith('east') ? maxLeft : Math.round(maxLeft / 2);
+    const top = gravity.startsWith('north') ? 0 : gravity.startsWith('south') ? maxTop : Math.round(maxTop / 2);
+    return { left, top };
+  }
+
+  /**
+   * Map a rectangle in resized pixels back to source image pixels
+   */
+  private toSourceRect(
+    imageInfo: sharp.Metadata,
+    scale: number,
+    left: number,
+    top: number,
+    width: number,
+    height: number
+  ): CropRect {
+    const sourceWidth = imageInfo.width || 1;
+    const sourceHeight = imageInfo.height || 1;
+    const sourceLeft = this.clamp(Math.round(left / scale), 0, sourceWidth - 1);
+    const sourceTop = this.clamp(Math.round(top / scale), 0, sourceHeight - 1);
+
+    return {
+      left: sourceLeft,
+      top: sourceTop,
+      width: this.clamp(Math.round(width / scale), 1, sourceWidth - sourceLeft),
+      height: this.clamp(Math.round(height / scale), 1, sourceHeight - sourceTop),
+    };
+  }
+
+  /**
+   * Clamp a value to the given range
+   */
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+  }
+
+  /**
+   * Decide which source metadata is written to the variant. Sharp strips everything by default.
+   */
+  private applyMetadataPolicy(
+    pipeline: sharp.Sharp,
+    policy: MetadataPolicy,
+    summary: ImageMetadataSummary
+  ): sharp.Sharp {
+    switch (policy) {
+      case 'keep':
+        return pipeline.keepMetadata();
+      case 'copyright': {
+        const ifd0: Record<string, string> = {};
+        if (summary.copyright) {
+          ifd0['Copyright'] = summary.copyright;
+        }
+        if (summary.artist) {
+          ifd0['Artist'] = summary.artist;
+        }
+        return Object.keys(ifd0).length > 0 ? pipeline.withExif({ IFD0: ifd0 }) : pipeline;
+      }
+      case 'strip':
+        return pipeline;
+    }
+  }
+
+  /**
+   * Configure the encoder for the requested output format, keeping loop count and delays for animations
+   */
+  private applyOutputFormat(
+    pipeline: sharp.Sharp,
+    options: OutputFormatOptions,
+    animation?: AnimationInfo
+  ): sharp.Sharp {
+    switch (options.format) {
+      case 'jpeg':
+        return pipeline.jpeg(this.withoutUndefined({
+          quality: options.quality ?? 85,
+          progressive: options.progressive,
+          chromaSubsampling: options.chromaSubsampling,
+        }));
+      case 'png':
+        return pipeline.png(this.withoutUndefined({
+          quality: options.quality,
+          effort: options.effort,
+          progressive: options.progressive,
+        }));
+      case 'webp':
+        return pipeline.webp(this.withoutUndefined({
+          quality: options.quality,
+          lossless: options.lossless,
+          effort: options.effort,
+          loop: animation?.loop,
+          delay: animation?.delay,
+        }));
+      case 'avif':
+        return pipeline.avif(this.withoutUndefined({
+          quality: options.quality,
+          lossless: options.lossless,
+          effort: options.effort,
+          chromaSubsampling: options.chromaSubsampling,
+        }));
+      case 'gif':
+        return pipeline.gif(this.withoutUndefined({
+          effort: options.effort,
+          progressive: options.progressive,
+          loop: animation?.loop,
+          delay: animation?.delay,
+        }));
+    }
+  }
+
+  /**
+   * Drop undefined entries so encoder defaults apply for unset options
+   */
+  private withoutUndefined<T extends object>(options: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+    return Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as { [K in keyof T]?: Exclude<T[K], undefined> };
+  }
+
   /**
    * Ensure directory exists, create if it doesn't
    */
@@ -156,6 +859,15 @@ export class ImageService {
     }
   }
 
+  /**
+   * List the files below a directory, relative to it and with forward slashes
+   */
+  private listFiles(dirPath: string): string[] {
+    return fs.readdirSync(dirPath, { recursive: true, withFileTypes: true })
+      .filter((entry) => entry.isFile())
+      .map((entry) => path.relative(dirPath, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+  }
+
   /**
    * Sanitize filename for safe file system operations
    */
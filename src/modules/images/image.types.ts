@@ -1,12 +1,24 @@
 import type { Document, Model } from 'mongoose';
-import type { Buffer } from 'node:buffer';
 
 // Database Model Types
 export interface IImage extends Document {
   taskId: string;
   resolution: string;
+  requestedWidth?: number | undefined;
+  requestedHeight?: number | undefined;
+  fit: FitMode;
+  crop?: CropRect | undefined;
+  format: OutputFormat;
+  width: number;
+  height: number;
+  size: number;
   path: string;
   md5: string;
+  frames?: number | undefined;
+  duration?: number | undefined;
+  phash?: string | undefined; // perceptual hash of the variant
+  sourcePhash?: string | undefined; // perceptual hash of the task's original
+  placeholder?: ImagePlaceholder | undefined;
   createdAt: Date;
 }
 
@@ -14,20 +26,204 @@ export interface IImageModel extends Model<IImage> {
   findByTaskId(taskId: string): Promise<IImage[]>;
 }
 
+export interface IOutputFile extends Document {
+  path: string;
+  refCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Image Processing Types
-export interface ImageProcessingOptions {
+export type OutputFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'gif';
+
+export interface OutputFormatOptions {
+  format: OutputFormat;
+  quality?: number | undefined;
+  lossless?: boolean | undefined;
+  effort?: number | undefined;
+  progressive?: boolean | undefined;
+  chromaSubsampling?: '4:4:4' | '4:2:0' | undefined;
+}
+
+export type FitMode = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+
+export type Gravity =
+  | 'center'
+  | 'north'
+  | 'northeast'
+  | 'east'
+  | 'southeast'
+  | 'south'
+  | 'southwest'
+  | 'west'
+  | 'northwest';
+
+export type CropStrategy = 'entropy' | 'attention';
+
+// Normalized coordinates: (0, 0) is the top-left corner, (1, 1) the bottom-right
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+// Crop rectangle in source image pixels
+export interface CropRect {
+  left: number;
+  top: number;
   width: number;
-  quality?: number;
-  format?: 'jpeg' | 'png' | 'webp';
+  height: number;
+}
+
+export interface ResolutionSpec {
+  width?: number | undefined;
+  height?: number | undefined;
+  fit?: FitMode | undefined;
+  background?: string | undefined;
+  gravity?: Gravity | undefined;
+  focalPoint?: FocalPoint | undefined;
+  strategy?: CropStrategy | undefined;
+}
+
+export type ImageOperation =
+  | { type: 'rotate'; angle: number; background?: string | undefined }
+  | { type: 'flip' }
+  | { type: 'flop' }
+  | { type: 'blur'; sigma: number }
+  | { type: 'sharpen'; sigma?: number | undefined }
+  | { type: 'grayscale' }
+  | { type: 'tint'; color: string }
+  | {
+      type: 'modulate';
+      brightness?: number | undefined;
+      saturation?: number | undefined;
+      hue?: number | undefined;
+    }
+  | { type: 'gamma'; gamma: number }
+  | { type: 'normalise'; lower?: number | undefined; upper?: number | undefined }
+  | { type: 'threshold'; threshold: number; grayscale?: boolean | undefined };
+
+// Watermark with its image already resolved to a local file
+export interface WatermarkOptions {
+  path: string;
+  gravity: Gravity;
+  margin: number; // fraction of the variant width
+  opacity: number;
+  scale: number; // watermark width as a fraction of the variant width
+  tile: boolean;
+}
+
+// Metadata written to variants: none, everything, or only copyright and artist
+export type MetadataPolicy = 'strip' | 'keep' | 'copyright';
+
+export interface ImageProcessingOptions {
+  resolutions: ResolutionSpec[];
+  formats: OutputFormatOptions[];
+  operations: ImageOperation[];
+  watermark?: WatermarkOptions | undefined;
+  metadataPolicy: MetadataPolicy;
+  posterFrame?: number | undefined; // flatten animated sources to this frame
+}
+
+// Loop count (0 = forever) and per-frame delays in milliseconds of an animated source
+export interface AnimationInfo {
+  loop: number;
+  delay: number[];
+}
+
+// Metadata Types
+export interface ImageMetadataSummary {
+  format?: string | undefined;
+  width?: number | undefined; // after auto-orientation
+  height?: number | undefined;
+  camera?: {
+    make?: string;
+    model?: string;
+    lens?: string;
+  };
+  capturedAt?: Date;
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  } | undefined;
+  iccProfile?: string;
+  dpi?: number;
+  orientation: number;
+  copyright?: string;
+  artist?: string;
+  hasExif: boolean;
+  hasIptc: boolean;
+  hasXmp: boolean;
 }
 
 export interface ProcessedImage {
   resolution: string;
+  requestedWidth?: number | undefined;
+  requestedHeight?: number | undefined;
+  fit: FitMode;
+  crop?: CropRect | undefined;
+  format: OutputFormat;
+  extension: string;
   path: string;
   md5: string;
   size: number;
   width: number;
   height: number;
+  frames?: number | undefined; // animated variants only
+  duration?: number | undefined; // total animation duration in milliseconds
+  phash: string;
+  placeholder: ImagePlaceholder;
+}
+
+// Tile Pyramid Types
+export type TileLayout = 'dz' | 'zoomify' | 'google';
+
+export type TileContainer = 'fs' | 'zip';
+
+export type TileFormat = 'jpeg' | 'png' | 'webp';
+
+export interface TileOptions {
+  layout: TileLayout;
+  container: TileContainer;
+  tileSize: number;
+  overlap: number; // pixels shared by neighbouring tiles
+  format: TileFormat;
+  quality?: number | undefined;
+}
+
+// A deep-zoom pyramid generated from an original, as a directory or a zip archive of it
+export interface TilePyramid extends TileOptions {
+  path: string; // "/output/tiles/<key>" directory or "/output/tiles/<key>.zip" archive
+  descriptorPath?: string | undefined; // relative to the pyramid root, none for the google layout
+  tileCount: number;
+  width: number;
+  height: number;
+}
+
+// Placeholder Types
+export interface PaletteColor {
+  color: string; // #rrggbb
+  weight: number; // share of the image, 0..1
+}
+
+export interface ImagePlaceholder {
+  blurhash: string;
+  lqip: string; // tiny base64 data URI
+  dominantColor: string; // #rrggbb
+  palette: PaletteColor[];
+}
+
+// Similarity Types
+export interface SimilarImage {
+  taskId: string;
+  resolution: string;
+  format: OutputFormat;
+  width: number;
+  height: number;
+  path: string;
+  md5: string;
+  phash: string;
+  distance: number; // Hamming distance to the queried original
 }
 
 // File Service Types
@@ -38,9 +234,37 @@ export interface FileInfo {
   type: string;
 }
 
+// A multipart upload already streamed to the temporary directory
 export interface UploadedFile {
-  buffer: Buffer;
+  path: string;
   originalname: string;
   mimetype: string;
   size: number;
 }
+
+// Delivery Types
+// Query-string transformation rendered from a task's original, imgproxy style
+export interface ImageTransformation {
+  width?: number | undefined;
+  height?: number | undefined;
+  fit?: FitMode | undefined;
+  format?: OutputFormat | undefined;
+  quality?: number | undefined;
+}
+
+// Request headers used to negotiate the delivered rendition
+export interface ClientHints {
+  accept?: string | undefined;
+  dpr?: number | undefined; // Sec-CH-DPR, or the legacy DPR
+  width?: number | undefined; // Sec-CH-Width or the legacy Width, in physical pixels
+}
+
+// A stored or cached file ready to be streamed
+export interface DeliveredImage {
+  filePath: string;
+  contentType: string;
+  size: number;
+  vary: string[]; // request headers that selected this file
+  etag?: string | undefined; // entity tag, quoted as sent in the ETag header
+  lastModified?: Date | undefined;
+}
@@ -0,0 +1,190 @@
+import exifReader from 'exif-reader';
+import type sharp from 'sharp';
+import type { ImageMetadataSummary } from './image.types.js';
+
+// IPTC IIM datasets (record 2) we read
+const IPTC_BYLINE = 80;
+const IPTC_COPYRIGHT_NOTICE = 116;
+
+export class MetadataService {
+  /**
+   * Build a summary of the EXIF, IPTC, XMP and ICC metadata reported by Sharp
+   */
+  summarize(metadata: sharp.Metadata): ImageMetadataSummary {
+    const exif = this.parseExif(metadata.exif);
+    const iptc = this.parseIptc(metadata.iptc);
+    const xmp = metadata.xmpAsString ?? metadata.xmp?.toString('utf8');
+
+    const make = this.cleanString(exif?.Image?.Make);
+    const model = this.cleanString(exif?.Image?.Model);
+    const lens = this.cleanString(exif?.Photo?.LensModel);
+    const capturedAt = exif?.Photo?.DateTimeOriginal ?? exif?.Image?.DateTime;
+    const gps = this.parseGps(exif?.GPSInfo);
+    const iccProfile = this.parseIccDescription(metadata.icc);
+    const copyright =
+      this.cleanString(exif?.Image?.Copyright) ??
+      iptc.get(IPTC_COPYRIGHT_NOTICE) ??
+      this.parseXmpRights(xmp);
+    const artist = this.cleanString(exif?.Image?.Artist) ?? iptc.get(IPTC_BYLINE);
+
+    return {
+      format: metadata.format,
+      width: metadata.autoOrient?.width ?? metadata.width,
+      height: metadata.autoOrient?.height ?? metadata.height,
+      ...((make || model || lens) && {
+        camera: {
+          ...(make && { make }),
+          ...(model && { model }),
+          ...(lens && { lens }),
+        },
+      }),
+      ...(capturedAt instanceof Date && !isNaN(capturedAt.getTime()) && { capturedAt }),
+      ...(gps && { gps }),
+      ...(iccProfile && { iccProfile }),
+      ...(metadata.density && { dpi: metadata.density }),
+      orientation: metadata.orientation ?? 1,
+      ...(copyright && { copyright }),
+      ...(artist && { artist }),
+      hasExif: !!metadata.exif,
+      hasIptc: !!metadata.iptc,
+      hasXmp: !!xmp,
+    };
+  }
+
+  /**
+   * Parse the raw EXIF block, ignoring blocks that cannot be decoded
+   */
+  private parseExif(exif: Buffer | undefined): exifReader.Exif | undefined {
+    if (!exif) {
+      return undefined;
+    }
+    try {
+      return exifReader(exif);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Convert EXIF degrees/minutes/seconds to signed decimal coordinates
+   */
+  private parseGps(gpsInfo: Partial<exifReader.GPSInfoTags> | undefined): ImageMetadataSummary['gps'] {
+    const latitude = this.toDecimalDegrees(gpsInfo?.GPSLatitude, gpsInfo?.GPSLatitudeRef);
+    const longitude = this.toDecimalDegrees(gpsInfo?.GPSLongitude, gpsInfo?.GPSLongitudeRef);
+    if (latitude === undefined || longitude === undefined) {
+      return undefined;
+    }
+
+    const altitude = gpsInfo?.GPSAltitude;
+    return {
+      latitude,
+      longitude,
+      ...(typeof altitude === 'number' && { altitude: gpsInfo?.GPSAltitudeRef === 1 ? -altitude : altitude }),
+    };
+  }
+
+  /**
+   * Convert a [degrees, minutes, seconds] triple and hemisphere to decimal degrees
+   */
+  private toDecimalDegrees(value: number[] | undefined, ref: string | undefined): number | undefined {
+    if (!Array.isArray(value) || value.length === 0) {
+      return undefined;
+    }
+    const [degrees = 0, minutes = 0, seconds = 0] = value;
+    const decimal = degrees + minutes / 60 + seconds / 3600;
+    const sign = ref === 'S' || ref === 'W' ? -1 : 1;
+    return Math.round(sign * decimal * 1e6) / 1e6;
+  }
+
+  /**
+   * Read record 2 datasets from an IPTC IIM block
+   */
+  private parseIptc(iptc: Buffer | undefined): Map<number, string> {
+    const datasets = new Map<number, string>();
+    if (!iptc) {
+      return datasets;
+    }
+
+    // Photoshop IRB blocks wrap the IIM data; scan for dataset markers
+    let offset = 0;
+    while (offset + 5 <= iptc.length) {
+      if (iptc[offset] !== 0x1c) {
+        offset++;
+        continue;
+      }
+      const record = iptc[offset + 1];
+      const dataset = iptc[offset + 2] ?? 0;
+      const length = iptc.readUInt16BE(offset + 3);
+      const start = offset + 5;
+      if (start + length > iptc.length) {
+        break;
+      }
+      if (record === 2 && !datasets.has(dataset)) {
+        const value = this.cleanString(iptc.toString('utf8', start, start + length));
+        if (value) {
+          datasets.set(dataset, value);
+        }
+      }
+      offset = start + length;
+    }
+
+    return datasets;
+  }
+
+  /**
+   * Extract dc:rights from an XMP packet
+   */
+  private parseXmpRights(xmp: string | undefined): string | undefined {
+    const rights = xmp?.match(/<dc:rights>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/);
+    return this.cleanString(rights?.[1]);
+  }
+
+  /**
+   * Read the profile description from an ICC profile ('desc' or v4 'mluc' tag)
+   */
+  private parseIccDescription(icc: Buffer | undefined): string | undefined {
+    if (!icc || icc.length < 132) {
+      return undefined;
+    }
+
+    try {
+      const tagCount = icc.readUInt32BE(128);
+      for (let i = 0; i < tagCount; i++) {
+        const entry = 132 + i * 12;
+        if (entry + 12 > icc.length || icc.toString('ascii', entry, entry + 4) !== 'desc') {
+          continue;
+        }
+        const offset = icc.readUInt32BE(entry + 4);
+        const type = icc.toString('ascii', offset, offset + 4);
+
+        if (type === 'desc') {
+          const length = icc.readUInt32BE(offset + 8);
+          return this.cleanString(icc.toString('latin1', offset + 12, offset + 12 + length));
+        }
+        if (type === 'mluc') {
+          const recordLength = icc.readUInt32BE(offset + 20);
+          const recordOffset = icc.readUInt32BE(offset + 24);
+          const text = icc.subarray(offset + recordOffset, offset + recordOffset + recordLength);
+          return this.cleanString(Buffer.from(text).swap16().toString('utf16le'));
+        }
+      }
+    } catch {
+      // Malformed profiles simply have no description
+    }
+    return undefined;
+  }
+
+  /**
+   * Trim whitespace and NUL padding, treating empty strings as missing
+   */
+  private cleanString(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    // eslint-disable-next-line no-control-regex
+    const cleaned = value.replace(/\u0000/g, '').trim();
+    return cleaned || undefined;
+  }
+}
+
+export const metadataService = new MetadataService();
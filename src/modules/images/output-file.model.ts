@@ -0,0 +1,25 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IOutputFile } from './image.types.js';
+
+// One document per generated file, counting the images that reference it
+const OutputFileSchema = new Schema<IOutputFile>(
+  {
+    path: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    refCount: {
+      type: Number,
+      required: true,
+      min: 0,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'output_files',
+  }
+);
+
+export const OutputFile = mongoose.model<IOutputFile>('OutputFile', OutputFileSchema);
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { isBlurhashValid } from 'blurhash';
+import { placeholderService } from './placeholder.service.js';
+import { ProcessingError } from '../../common/errors.js';
+
+const createSolidImage = (width: number, height: number, background: string): Promise<Buffer> =>
+  sharp({ create: { width, height, channels: 3, background } }).png().toBuffer();
+
+// Left three quarters red, right quarter blue
+const createTwoColorImage = (): Promise<Buffer> =>
+  sharp({ create: { width: 400, height: 200, channels: 3, background: '#ff0000' } })
+    .composite([{
+      input: { create: { width: 100, height: 200, channels: 3, background: '#0000ff' } },
+      left: 300,
+      top: 0,
+    }])
+    .png()
+    .toBuffer();
+
+describe('PlaceholderService', () => {
+  it('should generate a valid blurhash and a webp LQIP', async () => {
+    const placeholder = await placeholderService.generate(await createTwoColorImage());
+
+    expect(isBlurhashValid(placeholder.blurhash).result).toBe(true);
+    expect(placeholder.lqip).toMatch(/^data:image\/webp;base64,/);
+
+    const lqip = Buffer.from(placeholder.lqip.split(',')[1] ?? '', 'base64');
+    const metadata = await sharp(lqip).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.width).toBe(16);
+    expect(metadata.height).toBe(8);
+  });
+
+  it('should report the color of a solid image', async () => {
+    const placeholder = await placeholderService.generate(await createSolidImage(64, 64, '#c83232'));
+
+    expect(placeholder.dominantColor).toMatch(/^#[a-f0-9]{6}$/);
+    expect(placeholder.palette).toEqual([{ color: '#c83232', weight: 1 }]);
+  });
+
+  it('should weight palette colors by their share of the image', async () => {
+    const placeholder = await placeholderService.generate(await createTwoColorImage());
+
+    expect(placeholder.palette).toEqual([
+      { color: '#ff0000', weight: 0.75 },
+      { color: '#0000ff', weight: 0.25 },
+    ]);
+  });
+
+  it('should be deterministic', async () => {
+    const image = await createTwoColorImage();
+
+    const first = await placeholderService.generate(image);
+    const second = await placeholderService.generate(image);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should wrap decoding failures in a ProcessingError', async () => {
+    await expect(placeholderService.generate(Buffer.from('not an image'))).rejects.toThrow(ProcessingError);
+  });
+});
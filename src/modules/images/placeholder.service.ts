@@ -0,0 +1,197 @@
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+import { ProcessingError } from '../../common/errors.js';
+import type { ImagePlaceholder, PaletteColor } from './image.types.js';
+
+// Thumbnail sizes: the palette and BlurHash need little detail, the LQIP must stay tiny
+const SAMPLE_SIZE = 32;
+const LQIP_SIZE = 16;
+const PALETTE_SIZE = 5;
+const MAX_KMEANS_ITERATIONS = 10;
+// Clusters closer than this (euclidean RGB distance) are reported as one color
+const MIN_PALETTE_DISTANCE = 32;
+
+type Rgb = [number, number, number];
+
+export class PlaceholderService {
+  /**
+   * Compute a BlurHash, a base64 LQIP, the dominant color and a k-means palette for an image
+   */
+  async generate(imageBuffer: Buffer): Promise<ImagePlaceholder> {
+    try {
+      const { data, info } = await sharp(imageBuffer)
+        .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside' })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const lqip = await sharp(imageBuffer)
+        .resize(LQIP_SIZE, LQIP_SIZE, { fit: 'inside' })
+        .webp({ quality: 40 })
+        .toBuffer();
+
+      const { dominant } = await sharp(imageBuffer).stats();
+
+      // More horizontal components for landscape images, more vertical ones for portraits
+      const aspectRatio = info.width / info.height;
+      const componentsX = aspectRatio >= 1 ? 4 : 3;
+      const componentsY = aspectRatio >= 1 ? 3 : 4;
+
+      return {
+        blurhash: encode(new Uint8ClampedArray(data), info.width, info.height, componentsX, componentsY),
+        lqip: `data:image/webp;base64,${lqip.toString('base64')}`,
+        dominantColor: this.toHex([dominant.r, dominant.g, dominant.b]),
+        palette: this.computePalette(data),
+      };
+    } catch (error) {
+      throw new ProcessingError(
+        `Failed to generate placeholder: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Cluster opaque RGBA pixels with k-means, returning colors by their share of the image
+   */
+  private computePalette(rgba: Buffer): PaletteColor[] {
+    const pixels: Rgb[] = [];
+    for (let offset = 0; offset + 3 < rgba.length; offset += 4) {
+      if ((rgba[offset + 3] ?? 0) >= 128) {
+        pixels.push([rgba[offset] ?? 0, rgba[offset + 1] ?? 0, rgba[offset + 2] ?? 0]);
+      }
+    }
+    if (pixels.length === 0) {
+      return [];
+    }
+
+    const centroids = this.initCentroids(pixels, PALETTE_SIZE);
+    const assignments = new Array<number>(pixels.length).fill(-1);
+
+    for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+      let changed = false;
+      pixels.forEach((pixel, index) => {
+        const nearest = this.nearestCentroid(pixel, centroids);
+        if (assignments[index] !== nearest) {
+          assignments[index] = nearest;
+          changed = true;
+        }
+      });
+      if (!changed) {
+        break;
+      }
+
+      // Move every centroid to the mean of its pixels
+      const sums = centroids.map(() => [0, 0, 0, 0]);
+      pixels.forEach((pixel, index) => {
+        const sum = sums[assignments[index] ?? 0];
+        if (sum) {
+          sum[0] = (sum[0] ?? 0) + pixel[0];
+          sum[1] = (sum[1] ?? 0) + pixel[1];
+          sum[2] = (sum[2] ?? 0) + pixel[2];
+          sum[3] = (sum[3] ?? 0) + 1;
+        }
+      });
+      sums.forEach(([r = 0, g = 0, b = 0, count = 0], cluster) => {
+        if (count > 0) {
+          centroids[cluster] = [r / count, g / count, b / count];
+        }
+      });
+    }
+
+    const counts = centroids.map(() => 0);
+    for (const cluster of assignments) {
+      counts[cluster] = (counts[cluster] ?? 0) + 1;
+    }
+
+    // Fold small clusters of resampled edge pixels into the large cluster they resemble
+    const merged: { centroid: Rgb; count: number }[] = [];
+    const clusters = centroids
+      .map((centroid, cluster) => ({ centroid, count: counts[cluster] ?? 0 }))
+      .filter((cluster) => cluster.count > 0)
+      .sort((a, b) => b.count - a.count);
+    for (const cluster of clusters) {
+      const similar = merged.find(
+        (entry) => this.distance(entry.centroid, cluster.centroid) < MIN_PALETTE_DISTANCE ** 2
+      );
+      if (similar) {
+        similar.count += cluster.count;
+      } else {
+        merged.push({ ...cluster });
+      }
+    }
+
+    return merged
+      .map(({ centroid, count }) => ({
+        color: this.toHex(centroid),
+        weight: Math.round((count / pixels.length) * 100) / 100,
+      }))
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  /**
+   * Pick starting centroids deterministically: the pixel closest to the mean,
+   * then repeatedly the pixel farthest from all centroids chosen so far
+   */
+  private initCentroids(pixels: Rgb[], count: number): Rgb[] {
+    const mean: Rgb = [0, 0, 0];
+    for (const pixel of pixels) {
+      mean[0] += pixel[0] / pixels.length;
+      mean[1] += pixel[1] / pixels.length;
+      mean[2] += pixel[2] / pixels.length;
+    }
+
+    const first = pixels[this.nearestCentroid(mean, pixels)] ?? mean;
+    const centroids: Rgb[] = [first];
+    while (centroids.length < count) {
+      let farthest: Rgb | undefined;
+      let farthestDistance = 0;
+      for (const pixel of pixels) {
+        const nearest = centroids[this.nearestCentroid(pixel, centroids)] ?? first;
+        const distance = this.distance(pixel, nearest);
+        if (distance > farthestDistance) {
+          farthest = pixel;
+          farthestDistance = distance;
+        }
+      }
+      // Fewer distinct colors than clusters
+      if (!farthest) {
+        break;
+      }
+      centroids.push(farthest);
+    }
+    return centroids;
+  }
+
+  /**
+   * Index of the centroid closest to a pixel
+   */
+  private nearestCentroid(pixel: Rgb, centroids: Rgb[]): number {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    centroids.forEach((centroid, index) => {
+      const distance = this.distance(pixel, centroid);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * Squared euclidean distance between two colors
+   */
+  private distance(a: Rgb, b: Rgb): number {
+    return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+  }
+
+  /**
+   * Format a color as #rrggbb
+   */
+  private toHex(color: Rgb): string {
+    return `#${color.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+  }
+}
+
+export const placeholderService = new PlaceholderService();
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import sharp from 'sharp';
+import { similarityService } from './similarity.service.js';
+import { Image } from './image.model.js';
+import { Task } from '../tasks/task.model.js';
+import { NotFoundError, ValidationError } from '../../common/errors.js';
+
+// Safe type casting helper
+const asMock = <T>(obj: unknown): T => obj as T;
+
+// Mock dependencies
+vi.mock('./image.model.js');
+vi.mock('../tasks/task.model.js');
+
+type MockImage = {
+  taskId: string;
+  resolution: string;
+  format: string;
+  width: number;
+  height: number;
+  path: string;
+  md5: string;
+  phash?: string;
+  sourcePhash?: string;
+};
+
+const createMockImage = (overrides: Partial<MockImage> = {}): MockImage => ({
+  taskId: 'task_other',
+  resolution: '800',
+  format: 'jpeg',
+  width: 800,
+  height: 400,
+  path: '/output/other.jpg/800/abc.jpg',
+  md5: 'a'.repeat(32),
+  phash: '0000000000000000',
+  ...overrides,
+});
+
+// Left-to-right gradient with a dark square, so neighbouring pixels differ
+const createTestImage = async (width: number, height: number): Promise<Buffer> => {
+  const gradient = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      gradient[y * width + x] = Math.round((x / width) * 255);
+    }
+  }
+  const size = Math.round(height / 2);
+  return sharp(gradient, { raw: { width, height, channels: 1 } })
+    .composite([{
+      input: { create: { width: size, height: size, channels: 3, background: '#000000' } },
+      left: 0,
+      top: Math.round(height / 4),
+    }])
+    .png()
+    .toBuffer();
+};
+
+describe('SimilarityService', () => {
+  describe('computeHash', () => {
+    it('should hash resized and re-encoded copies to nearly the same value', async () => {
+      const original = await createTestImage(800, 400);
+      const copy = await sharp(original).resize(320).jpeg({ quality: 60 }).toBuffer();
+      const other = await sharp(original).flop().png().toBuffer();
+
+      const originalHash = await similarityService.computeHash(original);
+      const copyHash = await similarityService.computeHash(copy);
+      const otherHash = await similarityService.computeHash(other);
+
+      expect(originalHash).toMatch(/^[a-f0-9]{16}$/);
+      expect(similarityService.hammingDistance(originalHash, copyHash)).toBeLessThanOrEqual(4);
+      expect(similarityService.hammingDistance(originalHash, otherHash)).toBeGreaterThan(32);
+    });
+
+    it('should reject data that is not an image', async () => {
+      await expect(similarityService.computeHash(Buffer.from('not an image')))
+        .rejects.toThrow('Failed to compute perceptual hash');
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it('should count differing bits', () => {
+      expect(similarityService.hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+      expect(similarityService.hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+      expect(similarityService.hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    });
+  });
+
+  describe('findSimilar', () => {
+    const mockImages = (images: MockImage[]): void => {
+      const cursor = async function* (): AsyncGenerator<MockImage> {
+        yield* images;
+      };
+      asMock<{ mockReturnValue: (obj: unknown) => void }>(Image.find).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockReturnValue({ cursor }),
+        }),
+      });
+    };
+
+    const mockTask = (task: { taskId: string; phash?: string } | null): void => {
+      asMock<{ mockReturnValue: (obj: unknown) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(task),
+      });
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should rank images from other tasks by distance to the variant or its original', async () => {
+      mockTask({ taskId: 'task_123', phash: '00000000000000ff' });
+      mockImages([
+        createMockImage({ md5: 'b'.repeat(32), phash: '000000000000000f' }),
+        createMockImage({ md5: 'c'.repeat(32), phash: 'ffffffffffffffff', sourcePhash: '00000000000000fe' }),
+        createMockImage({ md5: 'd'.repeat(32), phash: 'ffffffffffff0000' }),
+      ]);
+
+      const result = await similarityService.findSimilar('task_123', 8, 20);
+
+      expect(Image.find).toHaveBeenCalledWith({ taskId: { $ne: 'task_123' }, phash: { $exists: true } });
+      expect(result.phash).toBe('00000000000000ff');
+      expect(result.images.map((img) => [img.md5[0], img.distance])).toEqual([
+        ['c', 1],
+        ['b', 4],
+      ]);
+    });
+
+    it('should apply the limit after ranking', async () => {
+      mockTask({ taskId: 'task_123', phash: '0000000000000000' });
+      mockImages([
+        createMockImage({ md5: 'b'.repeat(32), phash: '0000000000000003' }),
+        createMockImage({ md5: 'c'.repeat(32), phash: '0000000000000001' }),
+      ]);
+
+      const result = await similarityService.findSimilar('task_123', 10, 1);
+
+      expect(result.images).toHaveLength(1);
+      expect(result.images[0]?.distance).toBe(1);
+    });
+
+    it('should throw NotFoundError for unknown tasks', async () => {
+      mockTask(null);
+
+      await expect(similarityService.findSimilar('task_missing', 10, 20)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError when the original has not been hashed yet', async () => {
+      mockTask({ taskId: 'task_123' });
+
+      await expect(similarityService.findSimilar('task_123', 10, 20)).rejects.toThrow(ValidationError);
+    });
+  });
+});
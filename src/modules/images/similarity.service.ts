@@ -0,0 +1,100 @@
+import sharp from 'sharp';
+import { Image } from './image.model.js';
+import { Task } from '../tasks/task.model.js';
+import { NotFoundError, ProcessingError, ValidationError } from '../../common/errors.js';
+import type { SimilarImage } from './image.types.js';
+
+// dHash compares neighbouring pixels of an 9x8 grayscale thumbnail, giving 64 bits
+const HASH_SIZE = 8;
+
+export class SimilarityService {
+  /**
+   * Compute a 64-bit difference hash (dHash) as 16 hex characters.
+   * It survives re-encoding and resizing, unlike the MD5 of the encoded bytes.
+   */
+  async computeHash(imageBuffer: Buffer): Promise<string> {
+    try {
+      const { data } = await sharp(imageBuffer)
+        .autoOrient()
+        .grayscale()
+        .resize(HASH_SIZE + 1, HASH_SIZE, { fit: 'fill' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      let hash = 0n;
+      for (let row = 0; row < HASH_SIZE; row++) {
+        for (let col = 0; col < HASH_SIZE; col++) {
+          const offset = row * (HASH_SIZE + 1) + col;
+          hash = (hash << 1n) | ((data[offset] ?? 0) > (data[offset + 1] ?? 0) ? 1n : 0n);
+        }
+      }
+      return hash.toString(16).padStart(HASH_SIZE * HASH_SIZE / 4, '0');
+    } catch (error) {
+      throw new ProcessingError(
+        `Failed to compute perceptual hash: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Count the differing bits between two hashes
+   */
+  hammingDistance(a: string, b: string): number {
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let distance = 0;
+    while (diff > 0n) {
+      distance += Number(diff & 1n);
+      diff >>= 1n;
+    }
+    return distance;
+  }
+
+  /**
+   * Find images from other tasks that look like the original of the given task,
+   * ranked by the Hamming distance to either the variant or its original
+   */
+  async findSimilar(taskId: string, maxDistance: number, limit: number): Promise<{ phash: string; images: SimilarImage[] }> {
+    const task = await Task.findOne({ taskId }).exec();
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
+    }
+    if (!task.phash) {
+      throw new ValidationError(`Task ${taskId} has no perceptual hash yet`);
+    }
+
+    const matches: SimilarImage[] = [];
+    const cursor = Image.find({ taskId: { $ne: taskId }, phash: { $exists: true } })
+      .select('taskId resolution format width height path md5 phash sourcePhash')
+      .lean()
+      .cursor();
+
+    for await (const image of cursor) {
+      if (!image.phash) {
+        continue;
+      }
+      const distance = Math.min(
+        this.hammingDistance(task.phash, image.phash),
+        image.sourcePhash ? this.hammingDistance(task.phash, image.sourcePhash) : Infinity
+      );
+      if (distance <= maxDistance) {
+        matches.push({
+          taskId: image.taskId,
+          resolution: image.resolution,
+          format: image.format,
+          width: image.width,
+          height: image.height,
+          path: image.path,
+          md5: image.md5,
+          phash: image.phash,
+          distance,
+        });
+      }
+    }
+
+    matches.sort((a, b) => a.distance - b.distance);
+    return { phash: task.phash, images: matches.slice(0, limit) };
+  }
+}
+
+export const similarityService = new SimilarityService();
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import { SignatureController } from './signature.controller.js';
+import { SignatureService } from './signature.service.js';
+import { UnauthorizedError } from '../../common/errors.js';
+
+// Mock the signature service
+vi.mock('./signature.service.js');
+
+describe('SignatureController', () => {
+  let controller: SignatureController;
+  let mockSignatureService: {
+    sign: ReturnType<typeof vi.fn>;
+    authorize: ReturnType<typeof vi.fn>;
+  };
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockSignatureService = {
+      sign: vi.fn(),
+      authorize: vi.fn(),
+    };
+    controller = new SignatureController(mockSignatureService as unknown as SignatureService);
+
+    mockRequest = {
+      body: {},
+      get: vi.fn().mockReturnValue('api-key') as unknown as Request['get'],
+    };
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    mockNext = vi.fn();
+  });
+
+  describe('createSignature', () => {
+    it('should return a signed URL', async () => {
+      const signed = { url: '/images/task_123/1024?signature=abc&w=640', signature: 'abc' };
+      mockRequest.body = { taskId: 'task_123', variant: '1024', params: { w: 640 } };
+      mockSignatureService.sign.mockReturnValue(signed);
+
+      await controller.createSignature(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockSignatureService.authorize).toHaveBeenCalledWith('api-key');
+      expect(mockSignatureService.sign).toHaveBeenCalledWith({ taskId: 'task_123', variant: '1024', params: { w: 640 } });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: signed });
+    });
+
+    it('should reject requests without a valid API key', async () => {
+      const error = new UnauthorizedError('Invalid API key');
+      mockSignatureService.authorize.mockImplementation(() => {
+        throw error;
+      });
+
+      await controller.createSignature(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+      expect(mockSignatureService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should handle validation errors', async () => {
+      mockRequest.body = { taskId: 'task_123', variant: '1024', params: { w: 640, crop: true }, expiresIn: 0 };
+
+      await controller.createSignature(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'VALIDATION_ERROR',
+          details: expect.arrayContaining([
+            expect.objectContaining({ field: 'expiresIn' }),
+          ]),
+        })
+      );
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+  });
+});
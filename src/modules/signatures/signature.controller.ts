@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { SignatureService } from './signature.service.js';
+import { CreateSignatureRequestSchema } from '../../common/validation.js';
+import { ValidationError } from '../../common/errors.js';
+import { ZodError } from 'zod';
+
+export class SignatureController {
+  private signatureService: SignatureService;
+
+  constructor(signatureService: SignatureService) {
+    this.signatureService = signatureService;
+  }
+
+  /**
+   * @swagger
+   * /signatures:
+   *   post:
+   *     summary: Mint a signed image transformation URL
+   *     description: |
+   *       Sign the path, transformation parameters and optional expiry of an image URL.
+   *       Requires the signing API key; backend services can also sign URLs themselves
+   *       with the shared secret.
+   *     tags: [Signatures]
+   *     security:
+   *       - SigningApiKey: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateSignatureRequest'
+   *     responses:
+   *       201:
+   *         description: Signed URL created
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CreateSignatureResponse'
+   *       400:
+   *         description: Invalid request data
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Missing or invalid API key
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async createSignature(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.signatureService.authorize(req.get('X-Api-Key'));
+
+      const validatedData = CreateSignatureRequestSchema.parse(req.body);
+      const signed = this.signatureService.sign(validatedData);
+
+      res.status(201).json({
+        success: true,
+        data: signed,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        next(new ValidationError(
+          'Invalid request data',
+          error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        ));
+        return;
+      }
+      next(error);
+    }
+  }
+}
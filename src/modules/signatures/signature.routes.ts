@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { SignatureController } from './signature.controller.js';
+import { signatureService } from './signature.service.js';
+
+// Create controller instance
+const signatureController = new SignatureController(signatureService);
+
+// Create router
+const router = Router();
+
+/**
+ * @route POST /signatures
+ * @desc Mint a signed image transformation URL
+ * @access Signing API key
+ */
+router.post('/', signatureController.createSignature.bind(signatureController));
+
+export default router;
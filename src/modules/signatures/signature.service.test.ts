@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { SignatureService } from './signature.service.js';
+import { signImageUrl } from '../../common/url-signing.js';
+import { SignatureError, UnauthorizedError } from '../../common/errors.js';
+
+const SECRET = 's'.repeat(32);
+const NOW = new Date('2025-08-11T12:00:00Z');
+
+// Parse a signed URL back into what Express hands the controller
+const toRequest = (url: string): { path: string; query: Record<string, string> } => {
+  const parsed = new URL(url, 'http://localhost');
+  return { path: parsed.pathname, query: Object.fromEntries(parsed.searchParams) };
+};
+
+describe('SignatureService', () => {
+  const service = new SignatureService(SECRET, 'api-key');
+
+  describe('sign', () => {
+    it('should sign the path and sorted transformation parameters', () => {
+      const signed = service.sign({ taskId: 'task_123', variant: '1024', params: { w: 640, format: 'webp' } }, NOW);
+
+      expect(signed.url).toBe(`/images/task_123/1024?format=webp&signature=${signed.signature}&w=640`);
+      expect(signed.signature).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(signed.expiresAt).toBeUndefined();
+    });
+
+    it('should include the expiry in the signed parameters', () => {
+      const signed = service.sign({ taskId: 'task_123', variant: 'original', params: { q: 50 }, expiresIn: 60 }, NOW);
+
+      expect(signed.url).toContain(`expires=${NOW.getTime() / 1000 + 60}`);
+      expect(signed.expiresAt).toEqual(new Date(NOW.getTime() + 60_000));
+    });
+
+    it('should match URLs minted with the standalone utility', () => {
+      const signed = service.sign({ taskId: 'task_123', variant: '1024', params: { h: 300, fit: 'cover' } }, NOW);
+
+      expect(signed.url).toBe(signImageUrl(SECRET, '/images/task_123/1024', { fit: 'cover', h: 300 }));
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept valid signatures', () => {
+      const { path, query } = toRequest(
+        service.sign({ taskId: 'task_123', variant: '1024', params: { w: 640 }, expiresIn: 60 }, NOW).url
+      );
+
+      expect(service.verify(path, query, NOW)).toEqual(new Date(NOW.getTime() + 60_000));
+    });
+
+    it('should not require signatures without query parameters', () => {
+      expect(() => service.verify('/images/task_123/1024', {}, NOW)).not.toThrow();
+    });
+
+    it('should reject unsigned transformations', () => {
+      expect(() => service.verify('/images/task_123/1024', { w: '640' }, NOW)).toThrow(
+        new SignatureError('Transformation URLs must be signed')
+      );
+    });
+
+    it('should reject tampered parameters and paths', () => {
+      const { path, query } = toRequest(service.sign({ taskId: 'task_123', variant: '1024', params: { w: 640 } }).url);
+
+      expect(() => service.verify(path, { ...query, w: '4000' }, NOW)).toThrow(SignatureError);
+      expect(() => service.verify(path, { ...query, h: '10' }, NOW)).toThrow(SignatureError);
+      expect(() => service.verify('/images/task_456/1024', query, NOW)).toThrow(SignatureError);
+      expect(() => service.verify(path, { ...query, w: ['640', '641'] }, NOW)).toThrow(SignatureError);
+    });
+
+    it('should reject signatures made with another secret', () => {
+      const { path, query } = toRequest(signImageUrl('o'.repeat(32), '/images/task_123/1024', { w: 640 }));
+
+      expect(() => service.verify(path, query, NOW)).toThrow(new SignatureError('Invalid signature'));
+    });
+
+    it('should reject expired signatures', () => {
+      const { path, query } = toRequest(
+        service.sign({ taskId: 'task_123', variant: '1024', params: { w: 640 }, expiresIn: 60 }, NOW).url
+      );
+
+      expect(() => service.verify(path, query, new Date(NOW.getTime() + 61_000))).toThrow(
+        new SignatureError('Signature has expired')
+      );
+    });
+  });
+
+  describe('authorize', () => {
+    it('should accept the configured API key', () => {
+      expect(() => service.authorize('api-key')).not.toThrow();
+    });
+
+    it('should reject missing or wrong API keys', () => {
+      expect(() => service.authorize(undefined)).toThrow(UnauthorizedError);
+      expect(() => service.authorize('wrong')).toThrow(new UnauthorizedError('Invalid API key'));
+    });
+
+    it('should reject every key when no API key is configured', () => {
+      expect(() => new SignatureService(SECRET, undefined).authorize('api-key')).toThrow(UnauthorizedError);
+    });
+  });
+});
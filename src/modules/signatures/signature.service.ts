@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { appConfig } from '../../config/index.js';
+import { SignatureError, UnauthorizedError } from '../../common/errors.js';
+import { canonicalizeParams, computeSignature, signParams } from '../../common/url-signing.js';
+import type { SignableParams } from '../../common/url-signing.js';
+import type { CreateSignatureRequest, SignedUrl } from './signature.types.js';
+
+export class SignatureService {
+  private readonly secret: string;
+  private readonly apiKey: string | undefined;
+
+  constructor(secret: string = appConfig.urlSigningSecret, apiKey: string | undefined = appConfig.signingApiKey) {
+    this.secret = secret;
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * Mint a signed delivery URL for an image of a task
+   */
+  sign(request: CreateSignatureRequest, now: Date = new Date()): SignedUrl {
+    const path = `/images/${encodeURIComponent(request.taskId)}/${encodeURIComponent(request.variant)}`;
+    return this.signPath(path, { ...request.params }, request.expiresIn, now);
+  }
+
+  /**
+   * Mint a signed URL for any path served by this API, such as a direct upload target
+   */
+  signPath(path: string, params: SignableParams, expiresIn: number | undefined, now: Date = new Date()): SignedUrl {
+    const signedParams = signParams(this.secret, path, params, { expiresIn, now });
+
+    return {
+      url: `${path}?${canonicalizeParams(signedParams)}`,
+      signature: signedParams.signature,
+      ...(typeof signedParams['expires'] === 'number' && { expiresAt: new Date(signedParams['expires'] * 1000) }),
+    };
+  }
+
+  /**
+   * Check the signature of a delivery request. Requests without query parameters
+   * serve stored files and need none; everything else must be signed and unexpired.
+   * Returns the signature's expiry, if it has one.
+   */
+  verify(path: string, query: Record<string, unknown>, now: Date = new Date()): Date | undefined {
+    if (Object.keys(query).length === 0) {
+      return undefined;
+    }
+
+    const { signature, ...params } = query;
+    if (signature === undefined) {
+      throw new SignatureError('Transformation URLs must be signed');
+    }
+    if (typeof signature !== 'string' || !this.isStringRecord(params)) {
+      throw new SignatureError('Invalid signature');
+    }
+
+    const expected = Buffer.from(computeSignature(this.secret, path, params));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      throw new SignatureError('Invalid signature');
+    }
+
+    const expires = params['expires'];
+    if (expires === undefined) {
+      return undefined;
+    }
+    const expiresAt = new Date(Number(expires) * 1000);
+    if (!(expiresAt.getTime() > now.getTime())) {
+      throw new SignatureError('Signature has expired');
+    }
+    return expiresAt;
+  }
+
+  /**
+   * Only holders of the signing API key may mint URLs
+   */
+  authorize(apiKey: string | undefined): void {
+    if (!this.apiKey) {
+      throw new UnauthorizedError('URL signing is disabled: SIGNING_API_KEY is not configured');
+    }
+
+    // Compare digests so the comparison takes the same time whatever the key length
+    const expected = crypto.createHash('sha256').update(this.apiKey).digest();
+    const actual = crypto.createHash('sha256').update(apiKey ?? '').digest();
+    if (!apiKey || !crypto.timingSafeEqual(actual, expected)) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+  }
+
+  /**
+   * Repeated query parameters arrive as arrays and can never match a signature
+   */
+  private isStringRecord(params: Record<string, unknown>): params is Record<string, string> {
+    return Object.values(params).every((value) => typeof value === 'string');
+  }
+}
+
+export const signatureService = new SignatureService();
@@ -0,0 +1,24 @@
+import type { FitMode, OutputFormat } from '../images/image.types.js';
+
+// Transformation query parameters, as they appear in delivery URLs
+export interface TransformationParams {
+  w?: number | undefined;
+  h?: number | undefined;
+  fit?: FitMode | undefined;
+  format?: OutputFormat | undefined;
+  q?: number | undefined;
+}
+
+// API Request/Response Types
+export interface CreateSignatureRequest {
+  taskId: string;
+  variant: string;
+  params?: TransformationParams | undefined;
+  expiresIn?: number | undefined; // seconds
+}
+
+export interface SignedUrl {
+  url: string;
+  signature: string;
+  expiresAt?: Date | undefined;
+}
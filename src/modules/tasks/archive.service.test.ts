@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import sharp from 'sharp';
+import { archiveService } from './archive.service.js';
+import { taskService } from './task.service.js';
+import { appConfig } from '../../config/index.js';
+import { ZIP_DEFLATED, ZIP_STORED } from '../../common/zip.js';
+import { PayloadTooLargeError, ValidationError } from '../../common/errors.js';
+import type { FileInfo } from '../images/image.types.js';
+import type { BatchTaskSource, TaskResult } from './task.types.js';
+
+vi.mock('./task.service.js');
+
+interface TestEntry {
+  name: string;
+  data?: Buffer;
+  method?: number;
+  declaredSize?: number; // uncompressed size written to the headers, the real one by default
+  encrypted?: boolean;
+}
+
+// Zip archive with a local header per entry and a central directory, as zip tools write them
+const createZip = (entries: TestEntry[]): Buffer => {
+  const records: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data = Buffer.alloc(0), method = ZIP_DEFLATED, declaredSize = data.length, encrypted = false } of entries) {
+    const compressed = method === ZIP_DEFLATED ? zlib.deflateRawSync(data) : data;
+    const fileName = Buffer.from(name);
+    const crc = zlib.crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(encrypted ? 1 : 0, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(declaredSize, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(encrypted ? 1 : 0, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(declaredSize, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    records.push(local, fileName, compressed);
+    directory.push(central, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...records, centralDirectory, end]);
+};
+
+const createImage = (format: 'jpeg' | 'png'): Promise<Buffer> =>
+  sharp({ create: { width: 16, height: 12, channels: 3, background: { r: 20, g: 120, b: 200 } } })
+    .toFormat(format)
+    .toBuffer();
+
+describe('ArchiveService', () => {
+  const configuredTempDir = appConfig.tempDir;
+  const configuredMaxEntries = appConfig.maxArchiveEntries;
+  let tempDir: string;
+  let jpeg: Buffer;
+  let png: Buffer;
+
+  // Write an archive where multer would have stored its upload
+  const uploadArchive = (contents: Buffer): FileInfo => {
+    const filePath = path.join(tempDir, 'archives', 'upload.zip');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, contents);
+    return { path: filePath, name: 'shoot.zip', size: contents.length, type: 'application/zip' };
+  };
+
+  beforeAll(async () => {
+    jpeg = await createImage('jpeg');
+    png = await createImage('png');
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archives-'));
+    appConfig.tempDir = tempDir;
+    vi.mocked(taskService.createBatchTasks).mockImplementation(async (_options, sources) => ({
+      batchId: 'batch_123',
+      tasks: sources.map((_source, index) => ({ taskId: `task_${index}`, status: 'pending', price: 25 }) as TaskResult),
+    }));
+  });
+
+  afterEach(() => {
+    appConfig.tempDir = configuredTempDir;
+    appConfig.maxArchiveEntries = configuredMaxEntries;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  // Sources, and the hook releasing the archive, handed to the batch by the last call
+  const getBatch = (): { sources: BatchTaskSource[]; onFinished: (() => Promise<void>) | undefined } => {
+    const [, sources = [], onFinished] = vi.mocked(taskService.createBatchTasks).mock.calls.at(-1) ?? [];
+    return { sources, onFinished };
+  };
+
+  it('should create one task per image and report the entries it skipped or refused from their headers', async () => {
+    const archiveFile = uploadArchive(createZip([
+      { name: 'shoot/' },
+      { name: 'shoot/a.jpg', data: jpeg },
+      { name: 'shoot/b.PNG', data: png, method: ZIP_STORED },
+      { name: 'shoot/notes.txt', data: Buffer.from('notes') },
+      { name: '__MACOSX/shoot/._a.jpg', data: Buffer.from('resource fork') },
+      { name: 'shoot/broken.jpg', data: Buffer.from('not an image') },
+      { name: '../../escape.jpg', data: jpeg },
+      { name: 'shoot/locked.jpg', data: jpeg, encrypted: true },
+    ]));
+
+    const result = await archiveService.createArchiveTasks({ archiveFile, metadataPolicy: 'keep' });
+
+    expect(result).toEqual({
+      batchId: 'batch_123',
+      entries: 7,
+      tasks: [
+        { entry: 'shoot/a.jpg', taskId: 'task_0', status: 'pending', price: 25 },
+        { entry: 'shoot/b.PNG', taskId: 'task_1', status: 'pending', price: 25 },
+        { entry: 'shoot/broken.jpg', taskId: 'task_2', status: 'pending', price: 25 },
+      ],
+      skipped: [
+        { entry: 'shoot/notes.txt', reason: 'Not an image' },
+        { entry: '__MACOSX/shoot/._a.jpg', reason: 'Hidden or system file' },
+      ],
+      failures: [
+        { entry: '../../escape.jpg', error: 'Entry path is not allowed: ../../escape.jpg', errorCode: 'UNSAFE_ENTRY_PATH' },
+        { entry: 'shoot/locked.jpg', error: 'Encrypted entries are not supported', errorCode: 'ENCRYPTED_ENTRY' },
+      ],
+    });
+    expect(vi.mocked(taskService.createBatchTasks).mock.calls[0]?.[0]).toEqual({ metadataPolicy: 'keep' });
+
+    // Nothing is extracted before the tasks' turn comes
+    expect(fs.readdirSync(path.join(tempDir, 'archives'))).toEqual(['upload.zip']);
+
+    const { sources, onFinished } = getBatch();
+    const [first, second, broken] = sources;
+    const a = await first?.prepare?.();
+    const b = await second?.prepare?.();
+    expect([a, b].map((file) => ({ name: file?.name, size: file?.size, type: file?.type }))).toEqual([
+      { name: 'a.jpg', size: jpeg.length, type: 'image/jpeg' },
+      { name: 'b.PNG', size: png.length, type: 'image/png' },
+    ]);
+    expect(fs.readFileSync(a?.path ?? '')).toEqual(jpeg);
+    await expect(broken?.prepare?.()).rejects.toMatchObject({ code: 'NOT_AN_IMAGE' });
+
+    // Only the extracted images are left once the batch releases the archive
+    await onFinished?.();
+    expect(fs.readdirSync(path.join(tempDir, 'archives')).sort()).toEqual(
+      [a, b].map((file) => path.basename(file?.path ?? '')).sort()
+    );
+    expect(fs.existsSync(path.join(tempDir, 'escape.jpg'))).toBe(false);
+  });
+
+  it('should refuse entries that inflate beyond their declared size or far beyond their compressed size', async () => {
+    const zeros = Buffer.alloc(1024 * 1024);
+    const archiveFile = uploadArchive(createZip([
+      { name: 'a.jpg', data: jpeg },
+      { name: 'bomb.png', data: zeros },
+    ]));
+
+    const result = await archiveService.createArchiveTasks({ archiveFile });
+
+    expect(result.tasks).toHaveLength(1);
+    expect(result.failures).toEqual([
+      { entry: 'bomb.png', error: 'Entry inflates more than 100 times its compressed size', errorCode: 'ENTRY_TOO_LARGE' },
+    ]);
+
+    // Headers understating the size pass the ratio check, but extraction stops at the declared size
+    const understated = uploadArchive(createZip([{ name: 'understated.png', data: zeros, declaredSize: 2048 }]));
+    await archiveService.createArchiveTasks({ archiveFile: understated });
+    await expect(getBatch().sources[0]?.prepare?.()).rejects.toMatchObject({
+      message: 'Entry inflates beyond its declared size',
+      code: 'ENTRY_TOO_LARGE',
+    });
+    expect(fs.readdirSync(path.join(tempDir, 'archives'))).toEqual(['upload.zip']);
+  });
+
+  it('should refuse whole archives that are no zip, too large or without images, and remove them', async () => {
+    const notZip = uploadArchive(jpeg);
+    await expect(archiveService.createArchiveTasks({ archiveFile: notZip })).rejects.toThrow(ValidationError);
+    expect(fs.existsSync(notZip.path)).toBe(false);
+
+    appConfig.maxArchiveEntries = 1;
+    const crowded = uploadArchive(createZip([{ name: 'a.jpg', data: jpeg }, { name: 'b.jpg', data: jpeg }]));
+    await expect(archiveService.createArchiveTasks({ archiveFile: crowded })).rejects.toMatchObject({
+      message: 'Invalid archive',
+      details: [{ field: 'archive', message: 'Invalid zip archive: declares 2 entries, at most 1 are allowed' }],
+    });
+
+    const inflated = uploadArchive(createZip([{ name: 'a.jpg', data: Buffer.alloc(1024 * 1024), declaredSize: 0xfffffff0 }]));
+    await expect(archiveService.createArchiveTasks({ archiveFile: inflated })).rejects.toThrow(PayloadTooLargeError);
+
+    appConfig.maxArchiveEntries = configuredMaxEntries;
+    const empty = uploadArchive(createZip([
+      { name: 'notes.txt', data: Buffer.from('notes') },
+      { name: 'locked.jpg', data: jpeg, encrypted: true },
+    ]));
+    await expect(archiveService.createArchiveTasks({ archiveFile: empty })).rejects.toMatchObject({
+      message: 'Archive contains no images that can be processed',
+      details: [{ field: 'locked.jpg', message: 'Encrypted entries are not supported' }],
+    });
+    expect(taskService.createBatchTasks).not.toHaveBeenCalled();
+    expect(fs.readdirSync(path.join(tempDir, 'archives'))).toEqual([]);
+  });
+
+  it('should refuse end of central directory records pointing beyond the archive before reading them', async () => {
+    // A directory of almost 4GB declared by a 22 byte archive
+    const classic = Buffer.alloc(22);
+    classic.writeUInt32LE(0x06054b50, 0);
+    classic.writeUInt16LE(1, 8);
+    classic.writeUInt16LE(1, 10);
+    classic.writeUInt32LE(0xfffffffe, 12);
+    await expect(archiveService.createArchiveTasks({ archiveFile: uploadArchive(classic) })).rejects.toMatchObject({
+      message: 'Invalid archive',
+      details: [{ field: 'archive', message: 'Invalid zip archive: central directory extends beyond the end of the file' }],
+    });
+
+    // A zip64 record declaring a directory larger than any buffer, and more entries than allowed
+    const zip64 = Buffer.alloc(98);
+    zip64.writeUInt32LE(0x06064b50, 0);
+    zip64.writeBigUInt64LE(1n, 32);
+    zip64.writeBigUInt64LE(2n ** 40n, 40);
+    zip64.writeUInt32LE(0x07064b50, 56);
+    zip64.writeUInt32LE(0x06054b50, 76);
+    zip64.writeUInt16LE(0xffff, 84);
+    zip64.writeUInt16LE(0xffff, 86);
+    zip64.writeUInt32LE(0xffffffff, 88);
+    zip64.writeUInt32LE(0xffffffff, 92);
+    await expect(archiveService.createArchiveTasks({ archiveFile: uploadArchive(zip64) })).rejects.toThrow(ValidationError);
+
+    zip64.writeBigUInt64LE(0n, 40);
+    zip64.writeBigUInt64LE(BigInt(appConfig.maxArchiveEntries + 1), 32);
+    await expect(archiveService.createArchiveTasks({ archiveFile: uploadArchive(zip64) })).rejects.toMatchObject({
+      details: [{ field: 'archive', message: expect.stringContaining('at most') }],
+    });
+    expect(taskService.createBatchTasks).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { taskService } from './task.service.js';
+import { fileService } from '../images/file.service.js';
+import { appConfig } from '../../config/index.js';
+import { extractZipEntry, readZipEntries, ZIP_DEFLATED, ZIP_STORED } from '../../common/zip.js';
+import type { ZipEntry } from '../../common/zip.js';
+import {
+  FileSystemError,
+  InvalidArchiveEntryError,
+  PayloadTooLargeError,
+  ValidationError,
+} from '../../common/errors.js';
+import type { FileInfo } from '../images/image.types.js';
+import type {
+  ArchiveEntryFailure,
+  ArchiveEntrySkipped,
+  ArchiveResult,
+  CreateArchiveRequest,
+} from './task.types.js';
+
+// Archives and the images extracted from them are kept apart from the other temp files
+const ARCHIVES_DIR = 'archives';
+
+// Images barely compress, so entries inflating far beyond their compressed size are bombs
+const MAX_COMPRESSION_RATIO = 100;
+
+// Metadata macOS adds to archives, including "._" files named like the images they describe
+const SYSTEM_ENTRY = /(^|\/)(__MACOSX|\.[^./][^/]*)(\/|$)/;
+
+export class ArchiveService {
+  /**
+   * Multer storage streaming uploaded archives to the temporary directory under random names
+   */
+  createUploadStorage(): multer.StorageEngine {
+    return multer.diskStorage({
+      destination: (_req, _file, callback) => {
+        const directory = this.getArchivesDir();
+        fs.promises.mkdir(directory, { recursive: true }).then(
+          () => callback(null, directory),
+          (error: Error) => callback(error, directory)
+        );
+      },
+      filename: (_req, _file, callback) => {
+        callback(null, `${crypto.randomBytes(16).toString('hex')}.zip`);
+      },
+    });
+  }
+
+  /**
+   * Fan a zip archive, uploaded or downloaded from `archiveUrl`, out into one task per image,
+   * grouped under a batch ID. Only the central directory is read before responding: files that
+   * are no images are skipped and entries refused from their headers are reported, without
+   * failing the rest. Each image is extracted and inspected on its task's turn in the batch
+   * queue, failing that task alone, and the archive is removed once the batch is processed.
+   */
+  async createArchiveTasks(request: CreateArchiveRequest): Promise<ArchiveResult> {
+    const { archiveUrl, archiveFile, ...options } = request;
+    const archivePath = archiveFile?.path ?? path.join(this.getArchivesDir(), `${crypto.randomBytes(16).toString('hex')}.zip`);
+    let handedOver = false;
+
+    try {
+      if (!archiveFile) {
+        if (!archiveUrl) {
+          throw new ValidationError('Either archiveUrl or an uploaded archive must be provided');
+        }
+        await fileService.downloadArchive(archiveUrl, archivePath);
+      }
+
+      const entries = this.listEntries(archivePath);
+      const images: Array<{ entry: ZipEntry; type: string }> = [];
+      const skipped: ArchiveEntrySkipped[] = [];
+      const failures: ArchiveEntryFailure[] = [];
+
+      for (const entry of entries) {
+        const type = fileService.getMimeTypeFromExtension(path.extname(entry.name));
+        if (SYSTEM_ENTRY.test(entry.name.replace(/\\/g, '/'))) {
+          skipped.push({ entry: entry.name, reason: 'Hidden or system file' });
+          continue;
+        }
+        if (!appConfig.allowedImageTypes.includes(type)) {
+          skipped.push({ entry: entry.name, reason: 'Not an image' });
+          continue;
+        }
+        try {
+          this.checkEntry(entry);
+          images.push({ entry, type });
+        } catch (error) {
+          failures.push(this.toFailure(entry.name, error));
+        }
+      }
+
+      if (images.length === 0) {
+        throw new ValidationError(
+          'Archive contains no images that can be processed',
+          failures.map(({ entry, error }) => ({ field: entry, message: error }))
+        );
+      }
+
+      const prefix = crypto.randomBytes(8).toString('hex');
+      const { batchId, tasks } = await taskService.createBatchTasks(
+        options,
+        images.map(({ entry, type }, index) => ({
+          prepare: (): Promise<FileInfo> => this.extractImage(archivePath, entry, type, `${prefix}-${index}`),
+        })),
+        () => fileService.cleanupTempFile(archivePath)
+      );
+      handedOver = true;
+
+      return {
+        batchId,
+        entries: entries.length,
+        tasks: tasks.map((task, index) => ({
+          entry: images[index]?.entry.name ?? '',
+          taskId: task.taskId,
+          status: task.status,
+          price: task.price,
+        })),
+        skipped,
+        failures,
+      };
+    } finally {
+      // Once the batch is created, the archive stays until its last image was extracted
+      if (!handedOver) {
+        await fileService.cleanupTempFile(archivePath);
+      }
+    }
+  }
+
+  /**
+   * Where archives and their extracted images are kept until processed
+   */
+  private getArchivesDir(): string {
+    return path.join(appConfig.tempDir, ARCHIVES_DIR);
+  }
+
+  /**
+   * List the files of an archive, refusing archives with more entries, or more uncompressed data
+   * declared, than the limits allow before anything is extracted. The entry count is checked by
+   * the reader itself, before it reads the central directory.
+   */
+  private listEntries(archivePath: string): ZipEntry[] {
+    let entries: ZipEntry[];
+    try {
+      entries = readZipEntries(archivePath, appConfig.maxArchiveEntries).filter((entry) => !entry.name.endsWith('/'));
+    } catch (error) {
+      if (error instanceof FileSystemError) {
+        throw new ValidationError('Invalid archive', [{ field: 'archive', message: error.message }]);
+      }
+      throw error;
+    }
+
+    const declaredSize = entries.reduce((total, entry) => total + entry.size, 0);
+    if (declaredSize > appConfig.maxArchiveExtractedSize * 1024 * 1024) {
+      throw new PayloadTooLargeError(
+        `Archive extracts to more than the maximum allowed size of ${appConfig.maxArchiveExtractedSize}MB`
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Refuse an entry from its central directory record: its name, encryption, compression method
+   * and declared sizes
+   */
+  private checkEntry(entry: ZipEntry): void {
+    if (!this.isSafeEntryName(entry.name)) {
+      throw new InvalidArchiveEntryError('UNSAFE_ENTRY_PATH', `Entry path is not allowed: ${entry.name}`);
+    }
+    if (entry.encrypted) {
+      throw new InvalidArchiveEntryError('ENCRYPTED_ENTRY', 'Encrypted entries are not supported');
+    }
+    if (entry.method !== ZIP_STORED && entry.method !== ZIP_DEFLATED) {
+      throw new InvalidArchiveEntryError('UNSUPPORTED_COMPRESSION', `Compression method ${entry.method} is not supported`);
+    }
+    if (entry.size > appConfig.maxDownloadSize * 1024 * 1024) {
+      throw new InvalidArchiveEntryError(
+        'ENTRY_TOO_LARGE',
+        `Image size exceeds maximum allowed size of ${appConfig.maxDownloadSize}MB`
+      );
+    }
+    if (entry.compressedSize > 0 && entry.size / entry.compressedSize > MAX_COMPRESSION_RATIO) {
+      throw new InvalidArchiveEntryError(
+        'ENTRY_TOO_LARGE',
+        `Entry inflates more than ${MAX_COMPRESSION_RATIO} times its compressed size`
+      );
+    }
+  }
+
+  /**
+   * Extract a checked image entry under a name of our own, since entry names never become paths,
+   * and inspect it like any other upload. The declared size caps the bytes written, so the sum
+   * over all entries stays within the checked total whatever the compressed data inflates to.
+   * Nothing is left behind when the entry is refused.
+   */
+  private async extractImage(archivePath: string, entry: ZipEntry, type: string, name: string): Promise<FileInfo> {
+    const filePath = path.join(this.getArchivesDir(), `${name}${path.extname(entry.name).toLowerCase()}`);
+    try {
+      await fs.promises.mkdir(this.getArchivesDir(), { recursive: true });
+      let size: number;
+      try {
+        size = await extractZipEntry(archivePath, entry, filePath, entry.size);
+      } catch (error) {
+        if (error instanceof PayloadTooLargeError) {
+          throw new InvalidArchiveEntryError('ENTRY_TOO_LARGE', 'Entry inflates beyond its declared size');
+        }
+        throw new InvalidArchiveEntryError(
+          'CORRUPT_ENTRY',
+          `Entry could not be extracted: ${error instanceof Error ? error.message : 'unreadable'}`
+        );
+      }
+      await fileService.inspectImage(filePath, type);
+      return { path: filePath, name: path.basename(entry.name), size, type };
+    } catch (error) {
+      await fileService.cleanupTempFile(filePath);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that an entry name is a relative path that stays within the archive, the way
+   * extracting it by name would need it to (zip-slip)
+   */
+  private isSafeEntryName(name: string): boolean {
+    const normalized = name.replace(/\\/g, '/');
+    return (
+      !normalized.includes('\0') &&
+      !normalized.startsWith('/') &&
+      !/^[a-zA-Z]:/.test(normalized) &&
+      !normalized.split('/').includes('..')
+    );
+  }
+
+  /**
+   * Report why an entry was refused, with the code of the error that refused it
+   */
+  private toFailure(entry: string, error: unknown): ArchiveEntryFailure {
+    if (error instanceof InvalidArchiveEntryError) {
+      return { entry, error: error.message, errorCode: error.code };
+    }
+    return { entry, error: error instanceof Error ? error.message : 'Unknown error', errorCode: 'PROCESSING_ERROR' };
+  }
+}
+
+export const archiveService = new ArchiveService();
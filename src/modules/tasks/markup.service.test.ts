@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { markupService } from './markup.service.js';
+import { NotFoundError, ValidationError } from '../../common/errors.js';
+import type { ImageResult, MarkupOptions, TaskResult } from './task.types.js';
+
+const BASE_URL = 'https://api.example.com/images';
+
+const OPTIONS: MarkupOptions = { sizes: '100vw', alt: '', loading: 'lazy', lqip: false };
+
+const createImage = (overrides: Partial<ImageResult> = {}): ImageResult => ({
+  resolution: '1024',
+  fit: 'inside',
+  format: 'jpeg',
+  extension: 'jpg',
+  width: 1024,
+  height: 683,
+  size: 120000,
+  path: '/output/photo.jpg/1024/abc.jpg',
+  md5: 'abc',
+  placeholder: {
+    blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+    lqip: 'data:image/webp;base64,UklGRh4AAABXRUJQVlA4',
+    dominantColor: '#6a7f94',
+    palette: [],
+  },
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const createTask = (images: ImageResult[], overrides: Partial<TaskResult> = {}): TaskResult => ({
+  taskId: 'task_123',
+  status: 'completed',
+  price: 25,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  cacheHit: false,
+  images,
+  ...overrides,
+});
+
+describe('MarkupService', () => {
+  const images = [
+    createImage(),
+    createImage({ resolution: '800', width: 800, height: 533 }),
+    createImage({ format: 'webp', extension: 'webp' }),
+    createImage({ resolution: '800', format: 'webp', extension: 'webp', width: 800, height: 533 }),
+    createImage({ format: 'avif', extension: 'avif' }),
+  ];
+
+  it('should offer one source per format, best first, with a jpeg fallback', () => {
+    const picture = markupService.buildPicture(createTask(images), OPTIONS, BASE_URL);
+
+    expect(picture.sources.map((source) => source.type)).toEqual(['image/avif', 'image/webp']);
+    expect(picture.sources[1]?.srcset).toBe(
+      `${BASE_URL}/task_123/800.webp 800w, ${BASE_URL}/task_123/1024.webp 1024w`
+    );
+    expect(picture.img).toMatchObject({
+      format: 'jpeg',
+      src: `${BASE_URL}/task_123/1024.jpg`,
+      srcset: `${BASE_URL}/task_123/800.jpg 800w, ${BASE_URL}/task_123/1024.jpg 1024w`,
+    });
+    expect(picture).toMatchObject({ width: 1024, height: 683 });
+    expect(picture.html).toBe([
+      '<picture>',
+      `  <source type="image/avif" srcset="${BASE_URL}/task_123/1024.avif 1024w" sizes="100vw">`,
+      `  <source type="image/webp" srcset="${BASE_URL}/task_123/800.webp 800w, ${BASE_URL}/task_123/1024.webp 1024w" sizes="100vw">`,
+      `  <img src="${BASE_URL}/task_123/1024.jpg" srcset="${BASE_URL}/task_123/800.jpg 800w, ${BASE_URL}/task_123/1024.jpg 1024w" ` +
+        'sizes="100vw" width="1024" height="683" alt="" loading="lazy" decoding="async">',
+      '</picture>',
+    ].join('\n'));
+  });
+
+  it('should leave out cropped variants and formats ranked below the fallback', () => {
+    const picture = markupService.buildPicture(createTask([
+      createImage(),
+      createImage({ resolution: '400x400-cover', fit: 'cover', width: 400, height: 400 }),
+      createImage({ format: 'png', extension: 'png' }),
+    ]), OPTIONS, BASE_URL);
+
+    expect(picture.sources).toEqual([]);
+    expect(picture.img.candidates).toEqual([{ url: `${BASE_URL}/task_123/1024.jpg`, width: 1024, height: 683 }]);
+  });
+
+  it('should fall back to the least preferred format when no universal one was generated', () => {
+    const picture = markupService.buildPicture(createTask(images.slice(2)), OPTIONS, BASE_URL);
+
+    expect(picture.sources.map((source) => source.format)).toEqual(['avif']);
+    expect(picture.img.format).toBe('webp');
+  });
+
+  it('should escape attributes and paint the LQIP background when requested', () => {
+    const picture = markupService.buildPicture(
+      createTask(images),
+      { sizes: '(min-width: 800px) 50vw, 100vw', alt: 'Fish & "chips" <3', loading: 'eager', lqip: true },
+      BASE_URL
+    );
+
+    expect(picture.placeholder).toEqual({
+      lqip: 'data:image/webp;base64,UklGRh4AAABXRUJQVlA4',
+      dominantColor: '#6a7f94',
+    });
+    expect(picture.html).toContain('alt="Fish &amp; &quot;chips&quot; &lt;3"');
+    expect(picture.html).toContain('sizes="(min-width: 800px) 50vw, 100vw"');
+    expect(picture.html).toContain('loading="eager"');
+    expect(picture.html).toContain(
+      'style="background-color:#6a7f94;background-image:url(data:image/webp;base64,UklGRh4AAABXRUJQVlA4);' +
+        'background-size:cover;background-repeat:no-repeat"'
+    );
+  });
+
+  it('should reject unfinished tasks and tasks without suitable images', () => {
+    expect(() => markupService.buildPicture(createTask([], { status: 'pending' }), OPTIONS, BASE_URL))
+      .toThrow(ValidationError);
+    expect(() => markupService.buildPicture(
+      createTask([createImage({ fit: 'fill', width: 300, height: 300 })]),
+      OPTIONS,
+      BASE_URL
+    )).toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,141 @@
+import { FORMAT_MIME_TYPES } from '../images/image.service.js';
+import { NotFoundError, ValidationError } from '../../common/errors.js';
+import type { FitMode, OutputFormat } from '../images/image.types.js';
+import type {
+  ImageResult,
+  MarkupOptions,
+  PictureMarkup,
+  PictureSource,
+  SrcsetCandidate,
+  TaskResult,
+} from './task.types.js';
+
+// Formats offered as <source> elements, best first
+const FORMAT_PREFERENCE: OutputFormat[] = ['avif', 'webp', 'jpeg', 'png', 'gif'];
+
+// Formats every browser can show in the fallback <img>
+const FALLBACK_FORMATS: ReadonlySet<OutputFormat> = new Set<OutputFormat>(['jpeg', 'png', 'gif']);
+
+// Fits that keep the original's aspect ratio, so their variants can share one srcset.
+// Cropped and letterboxed variants have aspect ratios of their own.
+const ASPECT_PRESERVING_FITS: ReadonlySet<FitMode> = new Set<FitMode>(['inside', 'outside']);
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&#39;',
+};
+
+export class MarkupService {
+  /**
+   * Describe a <picture> element for the variants of a completed task: one <source> per
+   * format with width descriptors, and a fallback <img> sized to reserve its layout box
+   */
+  buildPicture(task: TaskResult, options: MarkupOptions, imageBaseUrl: string): PictureMarkup {
+    if (task.status !== 'completed') {
+      throw new ValidationError(`Task ${task.taskId} is not completed`);
+    }
+    const images = (task.images ?? []).filter((img) => ASPECT_PRESERVING_FITS.has(img.fit));
+    const variantUrl = (img: ImageResult): string =>
+      `${imageBaseUrl}/${encodeURIComponent(task.taskId)}/${img.resolution}.${img.extension}`;
+
+    const sources = FORMAT_PREFERENCE
+      .map((format) => this.buildSource(format, images.filter((img) => img.format === format), variantUrl))
+      .filter((source): source is PictureSource => source !== undefined);
+    if (sources.length === 0) {
+      throw new NotFoundError('Responsive images for task', task.taskId);
+    }
+
+    // Formats ranked below the fallback would never be picked over it, so they are left out
+    const fallbackIndex = sources.findIndex((source) => FALLBACK_FORMATS.has(source.format));
+    const fallback = fallbackIndex === -1 ? sources.length - 1 : fallbackIndex;
+    const img = sources[fallback] as PictureSource;
+    const largest = img.candidates[img.candidates.length - 1] as SrcsetCandidate;
+    const placeholder = images.find((image) => image.format === img.format && image.width === largest.width)?.placeholder;
+
+    const picture: Omit<PictureMarkup, 'html'> = {
+      taskId: task.taskId,
+      alt: options.alt,
+      sizes: options.sizes,
+      loading: options.loading,
+      width: largest.width,
+      height: largest.height,
+      sources: sources.slice(0, fallback),
+      img: { ...img, src: largest.url },
+      ...(options.lqip && placeholder && {
+        placeholder: { lqip: placeholder.lqip, dominantColor: placeholder.dominantColor },
+      }),
+    };
+    return { ...picture, html: this.renderPicture(picture) };
+  }
+
+  /**
+   * Render the <picture> element, escaping every attribute value
+   */
+  renderPicture(picture: Omit<PictureMarkup, 'html'>): string {
+    const attributes = (values: Array<[string, string | number]>): string =>
+      values.map(([name, value]) => `${name}="${this.escapeHtml(String(value))}"`).join(' ');
+
+    const lines = picture.sources.map((source) =>
+      `  <source ${attributes([['type', source.type], ['srcset', source.srcset], ['sizes', picture.sizes]])}>`
+    );
+    const imgAttributes: Array<[string, string | number]> = [
+      ['src', picture.img.src],
+      ['srcset', picture.img.srcset],
+      ['sizes', picture.sizes],
+      ['width', picture.width],
+      ['height', picture.height],
+      ['alt', picture.alt],
+      ['loading', picture.loading],
+      ['decoding', 'async'],
+    ];
+    if (picture.placeholder) {
+      imgAttributes.push([
+        'style',
+        `background-color:${picture.placeholder.dominantColor};background-image:url(${picture.placeholder.lqip});` +
+          'background-size:cover;background-repeat:no-repeat',
+      ]);
+    }
+    lines.push(`  <img ${attributes(imgAttributes)}>`);
+
+    return ['<picture>', ...lines, '</picture>'].join('\n');
+  }
+
+  /**
+   * List the variants of one format as srcset candidates, one per width
+   */
+  private buildSource(
+    format: OutputFormat,
+    images: ImageResult[],
+    variantUrl: (img: ImageResult) => string
+  ): PictureSource | undefined {
+    const byWidth = new Map<number, SrcsetCandidate>();
+    for (const img of images) {
+      if (!byWidth.has(img.width)) {
+        byWidth.set(img.width, { url: variantUrl(img), width: img.width, height: img.height });
+      }
+    }
+    if (byWidth.size === 0) {
+      return undefined;
+    }
+
+    const candidates = [...byWidth.values()].sort((a, b) => a.width - b.width);
+    return {
+      format,
+      type: FORMAT_MIME_TYPES[format],
+      srcset: candidates.map((candidate) => `${candidate.url} ${candidate.width}w`).join(', '),
+      candidates,
+    };
+  }
+
+  /**
+   * Escape text for use in an HTML attribute value
+   */
+  private escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] ?? char);
+  }
+}
+
+export const markupService = new MarkupService();
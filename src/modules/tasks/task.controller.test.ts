@@ -2,6 +2,10 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Request, Response, NextFunction } from 'express';
 import { TaskController } from './task.controller.js';
 import { TaskService } from './task.service.js';
+import { MarkupService } from './markup.service.js';
+import { fileService } from '../images/file.service.js';
+import { UploadService } from '../uploads/upload.service.js';
+import { ArchiveService } from './archive.service.js';
 
 
 // Mock the task service
@@ -12,6 +16,13 @@ describe('TaskController', () => {
   let mockTaskService: {
     createTask: ReturnType<typeof vi.fn>;
     getTask: ReturnType<typeof vi.fn>;
+    deleteTask: ReturnType<typeof vi.fn>;
+  };
+  let mockUploadService: {
+    createDirectUpload: ReturnType<typeof vi.fn>;
+  };
+  let mockArchiveService: {
+    createArchiveTasks: ReturnType<typeof vi.fn>;
   };
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
@@ -25,15 +36,30 @@ describe('TaskController', () => {
     mockTaskService = {
       createTask: vi.fn(),
       getTask: vi.fn(),
+      deleteTask: vi.fn(),
+    };
+
+    mockUploadService = {
+      createDirectUpload: vi.fn(),
+    };
+
+    mockArchiveService = {
+      createArchiveTasks: vi.fn(),
     };
 
     // Create controller instance
-    controller = new TaskController(mockTaskService as unknown as TaskService);
+    controller = new TaskController(
+      mockTaskService as unknown as TaskService,
+      new MarkupService(),
+      mockUploadService as unknown as UploadService,
+      mockArchiveService as unknown as ArchiveService
+    );
 
     // Create mock Express objects
     mockRequest = {
       body: {},
       params: {},
+      is: vi.fn().mockReturnValue(false) as unknown as Request['is'],
     };
 
     mockResponse = {
@@ -45,6 +71,40 @@ describe('TaskController', () => {
   });
 
   describe('createTask', () => {
+    it('should create a task awaiting a direct upload and return its upload URL', async () => {
+      // Arrange
+      const upload = {
+        url: `/uploads/${'a'.repeat(32)}?expires=1754908190&signature=abc`,
+        method: 'PUT',
+        expiresAt: new Date('2025-08-11T11:09:50.000Z'),
+      };
+      mockRequest.body = { source: 'upload', resolutions: [{ width: 640 }] };
+      mockUploadService.createDirectUpload.mockResolvedValue({
+        task: { taskId: 'task_123', status: 'awaiting_upload', price: 25 },
+        upload,
+      });
+
+      // Act
+      await controller.createTask(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockUploadService.createDirectUpload).toHaveBeenCalledWith(
+        expect.objectContaining({ source: 'upload', resolutions: [{ width: 640 }] })
+      );
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          taskId: 'task_123',
+          status: 'awaiting_upload',
+          price: 25,
+          upload,
+          message: 'Task created successfully. Upload the image to start processing.',
+        },
+      });
+    });
+
     it('should create a task successfully', async () => {
       // Arrange
       const mockTask = {
@@ -108,6 +168,235 @@ describe('TaskController', () => {
       expect(mockResponse.json).not.toHaveBeenCalled();
     });
 
+    it('should reject format options that the encoder does not support', async () => {
+      // Arrange
+      mockRequest.body = {
+        imageUrl: 'https://example.com/image.jpg',
+        formats: [{ format: 'jpeg', lossless: true }, { format: 'gif', quality: 80 }],
+      };
+
+      // Act
+      await controller.createTask(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'VALIDATION_ERROR',
+          details: [
+            { field: 'formats.0.lossless', message: 'lossless is not supported for jpeg' },
+            { field: 'formats.1.quality', message: 'quality is not supported for gif' },
+          ],
+        })
+      );
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should reject resolutions without width or height', async () => {
+      // Arrange
+      mockRequest.body = {
+        imageUrl: 'https://example.com/image.jpg',
+        resolutions: [{ width: 640 }, {}],
+      };
+
+      // Act
+      await controller.createTask(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'VALIDATION_ERROR',
+          details: [{ field: 'resolutions.1', message: 'Either width or height must be provided' }],
+        })
+      );
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should reject crop options outside of fit cover', async () => {
+      // Arrange
+      mockRequest.body = {
+        imageUrl: 'https://example.com/image.jpg',
+        resolutions: [{ width: 640, height: 480, fit: 'fill', focalPoint: { x: 0.5, y: 0.5 } }],
+      };
+
+      // Act
+      await controller.createTask(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'VALIDATION_ERROR',
+          details: [
+            { field: 'resolutions.0.focalPoint', message: 'focalPoint is only supported with fit cover' },
+          ],
+        })
+      );
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown operations and invalid operation parameters', async () => {
+      // Arrange
+      mockRequest.body = {
+        imageUrl: 'https://example.com/image.jpg',
+        operations: [
+          { type: 'rotate', angle: 90, background: '#000' },
+          { type: 'posterize', levels: 4 },
+          { type: 'blur', sigma: 0 },
+        ],
+      };
+
+      // Act
+      await controller.createTask(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'VALIDATION_ERROR',
+          details: [
+            { field: 'operations.1.type', message: 'Unknown operation type' },
+            { field: 'operations.2.sigma', message: 'Blur sigma must be at least 0.3' },
+          ],
+        })
+      );
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should require exactly one watermark source', async () => {
+      // Arrange
+      mockRequest.body = {
+        imageUrl: 'https://example.com/image.jpg',
+        watermark: { asset: 'logo.png', imageUrl: 'https://example.com/logo.png' },
+      };
+
+      // Act
+      await controller.createTask(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'VALIDATION_ERROR',
+          details: [
+            { field: 'watermark.asset', message: 'Exactly one of asset, imageUrl or imageFile must be provided' },
+          ],
+        })
+      );
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+    });
+
+    describe('multipart uploads', () => {
+      const uploadedFile = {
+        path: '/tmp/photo_1754916766_abc123.png',
+        originalname: 'photo.png',
+        mimetype: 'image/png',
+        size: 2048,
+      } as Express.Multer.File;
+
+      beforeEach(() => {
+        vi.mocked(mockRequest.is as Request['is']).mockReturnValue('multipart/form-data');
+        vi.spyOn(fileService, 'cleanupTempFile').mockResolvedValue();
+        vi.spyOn(fileService, 'inspectImage').mockResolvedValue({ type: 'image/png', width: 640, height: 480, pages: 1 });
+      });
+
+      it('should create a task from the uploaded file and JSON encoded fields', async () => {
+        // Arrange
+        mockRequest.file = uploadedFile;
+        mockRequest.body = {
+          resolutions: '[{"width":640}]',
+          watermark: 'false',
+          posterFrame: '2',
+        };
+        mockTaskService.createTask.mockResolvedValue({ taskId: 'task_123', status: 'pending', price: 25 });
+
+        // Act
+        await controller.createTask(
+          mockRequest as Request,
+          mockResponse as Response,
+          mockNext
+        );
+
+        // Assert
+        expect(mockTaskService.createTask).toHaveBeenCalledWith({
+          resolutions: [{ width: 640 }],
+          watermark: false,
+          posterFrame: 2,
+          uploadedFile: {
+            path: '/tmp/photo_1754916766_abc123.png',
+            name: 'photo_1754916766_abc123.png',
+            size: 2048,
+            type: 'image/png',
+          },
+        });
+        expect(mockResponse.status).toHaveBeenCalledWith(201);
+        expect(fileService.cleanupTempFile).not.toHaveBeenCalled();
+      });
+
+      it('should require the image part', async () => {
+        // Arrange
+        mockRequest.body = { resolutions: '[{"width":640}]' };
+
+        // Act
+        await controller.createTask(
+          mockRequest as Request,
+          mockResponse as Response,
+          mockNext
+        );
+
+        // Assert
+        expect(mockNext).toHaveBeenCalledWith(
+          expect.objectContaining({
+            code: 'VALIDATION_ERROR',
+            details: [{ field: 'image', message: 'Image file is required' }],
+          })
+        );
+        expect(mockTaskService.createTask).not.toHaveBeenCalled();
+      });
+
+      it('should reject invalid fields and remove the upload', async () => {
+        // Arrange
+        mockRequest.file = uploadedFile;
+        mockRequest.body = { resolutions: '[{"width":640}', imageUrl: 'https://example.com/image.jpg' };
+
+        // Act
+        await controller.createTask(
+          mockRequest as Request,
+          mockResponse as Response,
+          mockNext
+        );
+
+        // Assert
+        expect(mockNext).toHaveBeenCalledWith(
+          expect.objectContaining({
+            code: 'VALIDATION_ERROR',
+            details: expect.arrayContaining([
+              { field: 'resolutions', message: 'Invalid JSON' },
+              expect.objectContaining({ message: expect.stringContaining('imageUrl') }),
+            ]),
+          })
+        );
+        expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/photo_1754916766_abc123.png');
+        expect(mockTaskService.createTask).not.toHaveBeenCalled();
+      });
+    });
+
     it('should handle service errors', async () => {
       // Arrange
       const serviceError = new Error('Service error');
@@ -129,6 +418,86 @@ describe('TaskController', () => {
     });
   });
 
+  describe('createArchiveTasks', () => {
+    it('should create the tasks of an archive URL and report its entries', async () => {
+      // Arrange
+      mockRequest.body = { archiveUrl: 'https://example.com/shoot.zip', resolutions: [{ width: 640 }] };
+      const result = {
+        batchId: 'batch_123',
+        entries: 2,
+        tasks: [{ entry: 'shoot/a.jpg', taskId: 'task_123', status: 'pending', price: 25 }],
+        skipped: [{ entry: 'shoot/notes.txt', reason: 'Not an image' }],
+        failures: [],
+      };
+      mockArchiveService.createArchiveTasks.mockResolvedValue(result);
+
+      // Act
+      await controller.createArchiveTasks(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockArchiveService.createArchiveTasks).toHaveBeenCalledWith({
+        archiveUrl: 'https://example.com/shoot.zip',
+        resolutions: [{ width: 640 }],
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: { ...result, message: '1 tasks created from the archive. Image processing started.' },
+      });
+    });
+
+    it('should pass the uploaded archive on with its option fields', async () => {
+      // Arrange
+      vi.mocked(mockRequest.is as Request['is']).mockReturnValue('multipart/form-data');
+      mockRequest.file = {
+        path: '/tmp/archives/3f2a9c4e.zip',
+        originalname: 'shoot.zip',
+        mimetype: 'application/zip',
+        size: 4096,
+      } as Express.Multer.File;
+      mockRequest.body = { metadataPolicy: 'keep' };
+      mockArchiveService.createArchiveTasks.mockResolvedValue({ batchId: 'batch_123', entries: 0, tasks: [], skipped: [], failures: [] });
+
+      // Act
+      await controller.createArchiveTasks(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockArchiveService.createArchiveTasks).toHaveBeenCalledWith({
+        metadataPolicy: 'keep',
+        archiveFile: { path: '/tmp/archives/3f2a9c4e.zip', name: 'shoot.zip', size: 4096, type: 'application/zip' },
+      });
+    });
+
+    it('should require an archive URL', async () => {
+      // Arrange
+      mockRequest.body = { imageUrl: 'https://example.com/image.jpg' };
+
+      // Act
+      await controller.createArchiveTasks(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'VALIDATION_ERROR',
+          details: [expect.objectContaining({ field: 'archiveUrl' })],
+        })
+      );
+      expect(mockArchiveService.createArchiveTasks).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getTask', () => {
     it('should get a task successfully', async () => {
       // Arrange
@@ -237,4 +606,129 @@ describe('TaskController', () => {
       expect(mockResponse.json).not.toHaveBeenCalled();
     });
   });
+
+  describe('getMarkup', () => {
+    const picture = { taskId: 'task_123', html: '<picture></picture>' };
+    let mockMarkupService: { buildPicture: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      mockMarkupService = { buildPicture: vi.fn().mockReturnValue(picture) };
+      controller = new TaskController(
+        mockTaskService as unknown as TaskService,
+        mockMarkupService as unknown as MarkupService
+      );
+
+      mockRequest = {
+        params: { taskId: 'task_123' },
+        query: { sizes: '50vw', alt: 'A cat', lqip: 'true' },
+        protocol: 'https',
+        get: vi.fn().mockReturnValue('api.example.com') as unknown as Request['get'],
+        accepts: vi.fn().mockReturnValue('text/html') as unknown as Request['accepts'],
+      };
+      mockResponse = {
+        ...mockResponse,
+        vary: vi.fn().mockReturnThis(),
+        type: vi.fn().mockReturnThis(),
+        send: vi.fn().mockReturnThis(),
+      };
+      mockTaskService.getTask.mockResolvedValue({ taskId: 'task_123', status: 'completed' });
+    });
+
+    it('should render the picture element as HTML by default', async () => {
+      // Act
+      await controller.getMarkup(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockMarkupService.buildPicture).toHaveBeenCalledWith(
+        { taskId: 'task_123', status: 'completed' },
+        { sizes: '50vw', alt: 'A cat', loading: 'lazy', lqip: true },
+        'https://api.example.com/images'
+      );
+      expect(mockResponse.vary).toHaveBeenCalledWith('Accept');
+      expect(mockResponse.type).toHaveBeenCalledWith('html');
+      expect(mockResponse.send).toHaveBeenCalledWith('<picture></picture>');
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+
+    it('should return the picture data as JSON when preferred', async () => {
+      // Arrange
+      vi.mocked(mockRequest.accepts as Request['accepts']).mockReturnValue('application/json');
+
+      // Act
+      await controller.getMarkup(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: picture });
+      expect(mockResponse.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid query parameters', async () => {
+      // Arrange
+      mockRequest.query = { loading: 'later' };
+
+      // Act
+      await controller.getMarkup(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Invalid query parameters',
+        statusCode: 400,
+      }));
+      expect(mockTaskService.getTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTask', () => {
+    it('should delete a task successfully', async () => {
+      // Arrange
+      mockRequest.params = { taskId: 'task_123' };
+      mockTaskService.deleteTask.mockResolvedValue({ taskId: 'task_123', deletedFiles: 2 });
+
+      // Act
+      await controller.deleteTask(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockTaskService.deleteTask).toHaveBeenCalledWith('task_123');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: { taskId: 'task_123', deletedFiles: 2 },
+      });
+    });
+
+    it('should handle service errors', async () => {
+      // Arrange
+      const serviceError = new Error('Service error');
+      mockRequest.params = { taskId: 'task_123' };
+      mockTaskService.deleteTask.mockRejectedValue(serviceError);
+
+      // Act
+      await controller.deleteTask(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(serviceError);
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,14 +1,44 @@
 import { Request, Response, NextFunction } from 'express';
 import { TaskService } from './task.service.js';
-import { CreateTaskRequestSchema } from '../../common/validation.js';
+import { MarkupService, markupService as defaultMarkupService } from './markup.service.js';
+import { ArchiveService, archiveService as defaultArchiveService } from './archive.service.js';
+import { fileService } from '../images/file.service.js';
+import { UploadService, uploadService as defaultUploadService } from '../uploads/upload.service.js';
+import {
+  CreateArchiveRequestSchema,
+  CreateTaskRequestSchema,
+  MarkupQuerySchema,
+  TaskOptionFieldsSchema,
+} from '../../common/validation.js';
 import { ValidationError, NotFoundError } from '../../common/errors.js';
 import { ZodError } from 'zod';
+import type { CreateArchiveRequest, CreateTaskRequest } from './task.types.js';
+
+// Where the image delivery routes are mounted
+const IMAGES_ROUTE = '/images';
+
+// Form field of the image in multipart task requests
+export const UPLOAD_FIELD = 'image';
+
+// Form field of the zip in multipart archive requests
+export const ARCHIVE_FIELD = 'archive';
 
 export class TaskController {
   private taskService: TaskService;
+  private markupService: MarkupService;
+  private uploadService: UploadService;
+  private archiveService: ArchiveService;
 
-  constructor(taskService: TaskService) {
+  constructor(
+    taskService: TaskService,
+    markupService: MarkupService = defaultMarkupService,
+    uploadService: UploadService = defaultUploadService,
+    archiveService: ArchiveService = defaultArchiveService
+  ) {
     this.taskService = taskService;
+    this.markupService = markupService;
+    this.uploadService = uploadService;
+    this.archiveService = archiveService;
   }
 
   /**
@@ -16,7 +46,10 @@ export class TaskController {
    * /tasks:
    *   post:
    *     summary: Create a new image processing task
-   *     description: Create a new image processing task with URL or file
+   *     description: |
+   *       Create a new image processing task with URL or file. Images can also be uploaded as
+   *       multipart/form-data, with the processing options as form fields. With source "upload"
+   *       the task awaits its image, which is PUT to the returned presigned URL before it expires.
    *     tags: [Tasks]
    *     requestBody:
    *       required: true
@@ -24,6 +57,9 @@ export class TaskController {
    *         application/json:
    *           schema:
    *             $ref: '#/components/schemas/CreateTaskRequest'
+   *         multipart/form-data:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateTaskMultipartRequest'
    *     responses:
    *       201:
    *         description: Task created successfully
@@ -37,6 +73,12 @@ export class TaskController {
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
+   *       413:
+   *         description: Uploaded image larger than MAX_DOWNLOAD_MB
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
    *       500:
    *         description: Internal server error
    *         content:
@@ -47,7 +89,26 @@ export class TaskController {
   async createTask(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       // Validate request body using Zod schema
-      const validatedData = CreateTaskRequestSchema.parse(req.body);
+      const validatedData: CreateTaskRequest = req.is('multipart/form-data')
+        ? await this.parseUpload(req)
+        : CreateTaskRequestSchema.parse(req.body);
+
+      // The image arrives later, so only the task and its upload URL are created
+      if (validatedData.source === 'upload') {
+        const { task, upload } = await this.uploadService.createDirectUpload(validatedData);
+
+        res.status(201).json({
+          success: true,
+          data: {
+            taskId: task.taskId,
+            status: task.status,
+            price: task.price,
+            upload,
+            message: 'Task created successfully. Upload the image to start processing.'
+          }
+        });
+        return;
+      }
       
       // Create task using service
       const task = await this.taskService.createTask(validatedData);
@@ -79,6 +140,124 @@ export class TaskController {
     }
   }
 
+  /**
+   * Validate the form fields and the image of a multipart request, removing the upload when rejected
+   */
+  private async parseUpload(req: Request): Promise<CreateTaskRequest> {
+    if (!req.file) {
+      throw new ValidationError('Invalid request data', [{ field: UPLOAD_FIELD, message: 'Image file is required' }]);
+    }
+    try {
+      const fields = TaskOptionFieldsSchema.parse(req.body ?? {});
+      return { ...fields, uploadedFile: await fileService.saveUploadedFile(req.file) };
+    } catch (error) {
+      await fileService.cleanupTempFile(req.file.path);
+      throw error;
+    }
+  }
+
+  /**
+   * @swagger
+   * /tasks/archives:
+   *   post:
+   *     summary: Create one task per image of a zip archive
+   *     description: |
+   *       Upload a zip as multipart/form-data, with the processing options as form fields, or send
+   *       the URL of one. Every image in the archive becomes a task with the same options, grouped
+   *       under a batch ID, and the images are extracted and processed one after another once the
+   *       response is sent. Other files are skipped, and images refused from their headers are
+   *       reported without failing the rest; images that cannot be extracted fail their own task.
+   *     tags: [Tasks]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateArchiveRequest'
+   *         multipart/form-data:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateArchiveMultipartRequest'
+   *     responses:
+   *       201:
+   *         description: Tasks created for the images of the archive
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CreateArchiveResponse'
+   *       400:
+   *         description: Invalid request data, not a zip archive, more than MAX_ARCHIVE_ENTRIES entries, or no image in it could be processed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Archive URL not allowed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       413:
+   *         description: Archive larger than MAX_ARCHIVE_MB, or extracting to more than MAX_ARCHIVE_EXTRACTED_MB
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async createArchiveTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData: CreateArchiveRequest = req.is('multipart/form-data')
+        ? await this.parseArchiveUpload(req)
+        : CreateArchiveRequestSchema.parse(req.body);
+
+      const result = await this.archiveService.createArchiveTasks(validatedData);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: `${result.tasks.length} tasks created from the archive. Image processing started.`
+        }
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        next(new ValidationError(
+          'Invalid request data',
+          error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        ));
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Validate the form fields of a multipart archive request, removing the upload when rejected
+   */
+  private async parseArchiveUpload(req: Request): Promise<CreateArchiveRequest> {
+    if (!req.file) {
+      throw new ValidationError('Invalid request data', [{ field: ARCHIVE_FIELD, message: 'Archive file is required' }]);
+    }
+    try {
+      const fields = TaskOptionFieldsSchema.parse(req.body ?? {});
+      return {
+        ...fields,
+        archiveFile: { path: req.file.path, name: req.file.originalname, size: req.file.size, type: req.file.mimetype },
+      };
+    } catch (error) {
+      await fileService.cleanupTempFile(req.file.path);
+      throw error;
+    }
+  }
+
   /**
    * @swagger
    * /tasks/{taskId}:
@@ -138,4 +317,176 @@ export class TaskController {
       next(error);
     }
   }
+
+  /**
+   * @swagger
+   * /tasks/{taskId}/markup:
+   *   get:
+   *     summary: Get responsive image markup for a task
+   *     description: |
+   *       A ready-to-embed picture element for the task's variants: one source per format, best
+   *       first, with srcset width descriptors, and a fallback img with its intrinsic width and
+   *       height to prevent layout shift. Cropped and letterboxed variants are left out, as their
+   *       aspect ratio differs. Clients that accept application/json get the same data as JSON.
+   *     tags: [Tasks]
+   *     parameters:
+   *       - in: path
+   *         name: taskId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: task_20250811115246_ipgdc3
+   *       - in: query
+   *         name: sizes
+   *         schema:
+   *           type: string
+   *           default: 100vw
+   *         example: '(min-width: 800px) 50vw, 100vw'
+   *       - in: query
+   *         name: alt
+   *         schema:
+   *           type: string
+   *           default: ''
+   *         example: Harbour at dusk
+   *       - in: query
+   *         name: loading
+   *         schema:
+   *           type: string
+   *           enum: [lazy, eager]
+   *           default: lazy
+   *       - in: query
+   *         name: lqip
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Paint the blurred placeholder and dominant color behind the image while it loads
+   *     responses:
+   *       200:
+   *         description: Picture markup
+   *         headers:
+   *           Vary:
+   *             schema:
+   *               type: string
+   *             example: Accept
+   *         content:
+   *           text/html:
+   *             schema:
+   *               type: string
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PictureMarkupResponse'
+   *       400:
+   *         description: Invalid query parameters or task not completed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Task or suitable images not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async getMarkup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId) {
+        throw new ValidationError('Task ID is required');
+      }
+
+      const options = MarkupQuerySchema.parse(req.query);
+      const task = await this.taskService.getTask(taskId);
+      const picture = this.markupService.buildPicture(
+        task,
+        options,
+        `${req.protocol}://${req.get('host')}${IMAGES_ROUTE}`
+      );
+
+      res.vary('Accept');
+      if (req.accepts('text/html', 'application/json') === 'application/json') {
+        res.status(200).json({
+          success: true,
+          data: picture
+        });
+      } else {
+        res.status(200).type('html').send(picture.html);
+      }
+    } catch (error) {
+      if (error instanceof ZodError) {
+        next(new ValidationError(
+          'Invalid query parameters',
+          error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        ));
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /tasks/{taskId}:
+   *   delete:
+   *     summary: Delete a task and its images
+   *     description: Delete a completed or failed task. Output files shared with other tasks through deduplication are kept until their last reference is deleted.
+   *     tags: [Tasks]
+   *     parameters:
+   *       - in: path
+   *         name: taskId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Task ID
+   *         example: task_20250811115246_ipgdc3
+   *     responses:
+   *       200:
+   *         description: Task deleted successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/DeleteTaskResponse'
+   *       400:
+   *         description: Task is still being processed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Task not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async deleteTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId) {
+        throw new ValidationError('Task ID is required');
+      }
+
+      // Delete task using service
+      const result = await this.taskService.deleteTask(taskId);
+
+      // Return 200 OK with the number of files removed from disk
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
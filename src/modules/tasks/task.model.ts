@@ -11,7 +11,7 @@ const TaskSchema = new Schema<ITask>(
     status: {
       type: String,
       required: true,
-      enum: ['pending', 'completed', 'failed'],
+      enum: ['awaiting_upload', 'pending', 'completed', 'failed'],
       default: 'pending',
     },
     price: {
@@ -30,12 +30,137 @@ const TaskSchema = new Schema<ITask>(
     error: {
       type: String,
     },
+    errorCode: {
+      type: String,
+    },
+    metadata: {
+      type: new Schema(
+        {
+          format: String,
+          width: Number,
+          height: Number,
+          camera: {
+            make: String,
+            model: String,
+            lens: String,
+          },
+          capturedAt: Date,
+          gps: {
+            type: new Schema(
+              {
+                latitude: { type: Number, required: true },
+                longitude: { type: Number, required: true },
+                altitude: Number,
+              },
+              { _id: false }
+            ),
+          },
+          iccProfile: String,
+          dpi: Number,
+          orientation: { type: Number, default: 1 },
+          copyright: String,
+          artist: String,
+          hasExif: { type: Boolean, default: false },
+          hasIptc: { type: Boolean, default: false },
+          hasXmp: { type: Boolean, default: false },
+        },
+        { _id: false }
+      ),
+      required: false, // Set once the original has been read
+    },
+    phash: {
+      type: String,
+      required: false, // Perceptual hash of the original
+    },
+    sourceHash: {
+      type: String,
+      required: false, // SHA-256 of the original
+    },
+    cacheKey: {
+      type: String,
+      required: false,
+    },
+    cacheHit: {
+      type: Boolean,
+      default: false,
+    },
+    cachedFrom: {
+      type: String,
+      required: false, // Task whose variants were reused
+    },
+    tiles: {
+      type: new Schema(
+        {
+          layout: { type: String, required: true, enum: ['dz', 'zoomify', 'google'] },
+          container: { type: String, required: true, enum: ['fs', 'zip'] },
+          tileSize: { type: Number, required: true },
+          overlap: { type: Number, required: true },
+          format: { type: String, required: true },
+          quality: Number,
+          path: { type: String, required: true },
+          descriptorPath: String,
+          tileCount: { type: Number, required: true },
+          width: { type: Number, required: true },
+          height: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+      required: false, // Deep-zoom pyramid, when requested
+    },
+    options: {
+      type: Schema.Types.Mixed,
+      required: false, // Processing options of tasks waiting for their image
+    },
+    uploadId: {
+      type: String,
+      required: false, // Resumable or direct upload the image arrives through
+    },
+    uploadExpiresAt: {
+      type: Date,
+      required: false, // Deadline of a direct upload
+    },
+    batchId: {
+      type: String,
+      required: false, // Batch the task was created in
+    },
     images: [
       {
         resolution: {
           type: String,
           required: true,
         },
+        requestedWidth: {
+          type: Number,
+        },
+        requestedHeight: {
+          type: Number,
+        },
+        fit: {
+          type: String,
+          default: 'inside',
+        },
+        crop: {
+          left: Number,
+          top: Number,
+          width: Number,
+          height: Number,
+        },
+        format: {
+          type: String,
+          required: true,
+        },
+        width: {
+          type: Number,
+          required: true,
+        },
+        height: {
+          type: Number,
+          required: true,
+        },
+        size: {
+          type: Number,
+          required: true,
+        },
         path: {
           type: String,
           required: true,
@@ -44,6 +169,21 @@ const TaskSchema = new Schema<ITask>(
           type: String,
           required: true,
         },
+        frames: {
+          type: Number,
+        },
+        duration: {
+          type: Number,
+        },
+        phash: {
+          type: String,
+        },
+        placeholder: {
+          blurhash: String,
+          lqip: String,
+          dominantColor: String,
+          palette: [{ color: String, weight: Number, _id: false }],
+        },
         createdAt: {
           type: Date,
           required: true,
@@ -61,6 +201,9 @@ const TaskSchema = new Schema<ITask>(
 // Indexes for efficient queries
 TaskSchema.index({ status: 1, createdAt: -1 });
 TaskSchema.index({ createdAt: -1 });
+TaskSchema.index({ cacheKey: 1, status: 1 });
+TaskSchema.index({ uploadId: 1 }, { sparse: true });
+TaskSchema.index({ batchId: 1 }, { sparse: true });
 
 // Virtual for formatted price
 TaskSchema.virtual('formattedPrice').get(function() {
@@ -1,6 +1,9 @@
 import { Router } from 'express';
-import { TaskController } from './task.controller.js';
+import { TaskController, ARCHIVE_FIELD, UPLOAD_FIELD } from './task.controller.js';
 import { TaskService } from './task.service.js';
+import { archiveService } from './archive.service.js';
+import { fileService } from '../images/file.service.js';
+import { createArchiveUpload, createImageUpload } from '../../common/upload.js';
 
 // Create service instances
 const taskService = new TaskService();
@@ -13,10 +16,25 @@ const router = Router();
 
 /**
  * @route POST /tasks
- * @desc Create a new image processing task
+ * @desc Create a new image processing task from JSON or a multipart/form-data upload
  * @access Public
  */
-router.post('/', taskController.createTask.bind(taskController));
+router.post(
+  '/',
+  createImageUpload(UPLOAD_FIELD, fileService.createUploadStorage()),
+  taskController.createTask.bind(taskController)
+);
+
+/**
+ * @route POST /tasks/archives
+ * @desc Create one task per image of a zip archive, uploaded as multipart/form-data or given by URL
+ * @access Public
+ */
+router.post(
+  '/archives',
+  createArchiveUpload(ARCHIVE_FIELD, archiveService.createUploadStorage()),
+  taskController.createArchiveTasks.bind(taskController)
+);
 
 /**
  * @route GET /tasks/:taskId
@@ -25,4 +43,18 @@ router.post('/', taskController.createTask.bind(taskController));
  */
 router.get('/:taskId', taskController.getTask.bind(taskController));
 
+/**
+ * @route GET /tasks/:taskId/markup
+ * @desc Get a responsive <picture> element for the task's images, as HTML or JSON
+ * @access Public
+ */
+router.get('/:taskId/markup', taskController.getMarkup.bind(taskController));
+
+/**
+ * @route DELETE /tasks/:taskId
+ * @desc Delete a task, its images and any output files no other task references
+ * @access Public
+ */
+router.delete('/:taskId', taskController.deleteTask.bind(taskController));
+
 export default router;
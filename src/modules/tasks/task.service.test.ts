@@ -2,7 +2,9 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { taskService } from './task.service.js';
 import { Task } from './task.model.js';
 import { Image } from '../images/image.model.js';
-import { NotFoundError } from '../../common/errors.js';
+import { imageService } from '../images/image.service.js';
+import { fileService } from '../images/file.service.js';
+import { ConflictError, ForbiddenError, GoneError, InvalidArchiveEntryError, NotFoundError } from '../../common/errors.js';
 
 
 // Safe type casting helper
@@ -19,15 +21,23 @@ vi.mock('../images/file.service.js');
 // Type-safe mock helpers
 type MockTask = {
   taskId: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'awaiting_upload' | 'pending' | 'completed' | 'failed';
   price: number;
   originalPath?: string | undefined;
   error?: string | undefined;
+  errorCode?: string | undefined;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date | undefined;
+  uploadId?: string | undefined;
+  uploadExpiresAt?: Date | undefined;
+  tiles?: { path: string } | undefined;
   images?: Array<{
     resolution: string;
+    format: string;
+    width: number;
+    height: number;
+    size: number;
     path: string;
     md5: string;
     createdAt: Date;
@@ -52,6 +62,10 @@ const createMockTask = (overrides: Partial<MockTask> = {}): MockTask => ({
 type MockImage = {
   taskId: string;
   resolution: string;
+  format: string;
+  width: number;
+  height: number;
+  size: number;
   path: string;
   md5: string;
   createdAt: Date;
@@ -60,6 +74,10 @@ type MockImage = {
 const createMockImage = (overrides: Partial<MockImage> = {}): MockImage => ({
   taskId: 'task_123',
   resolution: '1024',
+  format: 'jpeg',
+  width: 1024,
+  height: 768,
+  size: 120000,
   path: '/output/image/1024/abc123.jpg',
   md5: 'abc123def456',
   createdAt: new Date(),
@@ -114,7 +132,7 @@ describe('TaskService', () => {
     it('should throw error for request without imageUrl or imageFile', async () => {
       const request = {};
 
-      await expect(taskService.createTask(request)).rejects.toThrow('Either imageUrl or imageFile must be provided');
+      await expect(taskService.createTask(request)).rejects.toThrow('Either imageUrl, imageFile, imagePath or an uploaded image must be provided');
     });
 
     it('should reject request with both imageUrl and imageFile', async () => {
@@ -127,6 +145,19 @@ describe('TaskService', () => {
       await expect(taskService.createTask(request)).rejects.toThrow('Failed to create task: Either imageUrl or imageFile must be provided, but not both');
     });
 
+    it('should remove uploaded files when the task cannot be created', async () => {
+      const uploadedFile = { path: '/tmp/photo_123.png', name: 'photo_123.png', size: 2048, type: 'image/png' };
+      const mockTask = createMockTask();
+      mockTask.save.mockRejectedValue(new Error('Database error'));
+      asMock<{ mockImplementation: (fn: () => MockTask) => void }>(Task).mockImplementation(() => mockTask);
+
+      await expect(taskService.createTask({ uploadedFile })).rejects.toThrow('Failed to create task: Database error');
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/photo_123.png');
+
+      await expect(taskService.createTask({ uploadedFile, imageUrl: 'https://example.com/image.jpg' }))
+        .rejects.toThrow('An uploaded image cannot be combined with imageUrl or imageFile');
+    });
+
     it('should handle database save errors', async () => {
       const request = { imageUrl: 'https://example.com/image.jpg' };
       const mockTask = createMockTask();
@@ -138,6 +169,363 @@ describe('TaskService', () => {
     });
   });
 
+  describe('processing', () => {
+    const flushProcessing = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+      asMock<{ mockImplementation: (fn: () => MockTask) => void }>(Task).mockImplementation(() => createMockTask());
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOneAndUpdate).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(createMockTask()),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask | null> }) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(null),
+      });
+      vi.mocked(fileService.computeSha256).mockResolvedValue('a'.repeat(64));
+      vi.mocked(fileService.storeOriginal).mockResolvedValue(`/output/originals/${'a'.repeat(64)}.jpg`);
+      vi.mocked(fileService.downloadFromUrl).mockResolvedValue({
+        path: '/tmp/source.jpg',
+        name: 'source.jpg',
+        size: 1024,
+        type: 'image/jpeg',
+      });
+      vi.mocked(imageService.processImage).mockResolvedValue([]);
+    });
+
+    it('should process uploaded files in place and clean them up', async () => {
+      await taskService.createTask({
+        uploadedFile: { path: '/tmp/photo_123.png', name: 'photo_123.png', size: 2048, type: 'image/png' },
+        watermark: false,
+      });
+      await flushProcessing();
+
+      expect(fileService.downloadFromUrl).not.toHaveBeenCalled();
+      expect(fileService.computeSha256).toHaveBeenCalledWith('/tmp/photo_123.png');
+      expect(imageService.processImage).toHaveBeenCalledWith('/tmp/photo_123.png', 'photo_123.png', {});
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/photo_123.png');
+    });
+
+    it('should read local files in place without removing them', async () => {
+      vi.mocked(fileService.resolveInputPath).mockResolvedValue({
+        path: '/mnt/shared/incoming/photo.jpg',
+        name: 'photo.jpg',
+        size: 2048,
+        type: 'image/jpeg',
+      });
+
+      await taskService.createTask({ imagePath: '/mnt/shared/incoming/photo.jpg', watermark: false });
+      await flushProcessing();
+
+      expect(fileService.resolveInputPath).toHaveBeenCalledWith('/mnt/shared/incoming/photo.jpg');
+      expect(imageService.processImage).toHaveBeenCalledWith('/mnt/shared/incoming/photo.jpg', 'photo.jpg', {});
+      expect(fileService.cleanupTempFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject local paths outside the input roots before creating the task', async () => {
+      vi.mocked(fileService.resolveInputPath).mockRejectedValue(
+        new ForbiddenError('Image path is outside the allowed input directories')
+      );
+
+      await expect(taskService.createTask({ imagePath: '/etc/passwd' })).rejects.toThrow(ForbiddenError);
+      expect(Task).not.toHaveBeenCalled();
+    });
+
+    it('should process finished uploads with the options stored on their pending task', async () => {
+      const pending = { ...createMockTask(), options: { watermark: false, formats: ['webp'] }, uploadId: 'a'.repeat(32) };
+      asMock<{ mockReturnValueOnce: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOne).mockReturnValueOnce({
+        exec: vi.fn().mockResolvedValue(pending),
+      });
+
+      await taskService.startUploadedTask('task_123', { path: '/tmp/uploads/abc.png', name: 'photo.png', size: 2048, type: 'image/png' });
+      await flushProcessing();
+
+      expect(Task.findOne).toHaveBeenCalledWith({ taskId: 'task_123', status: 'pending', uploadId: { $exists: true } });
+      expect(imageService.processImage).toHaveBeenCalledWith('/tmp/uploads/abc.png', 'photo.png', { formats: ['webp'] });
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/uploads/abc.png');
+    });
+
+    it('should discard uploads whose task is no longer pending', async () => {
+      await expect(
+        taskService.startUploadedTask('task_123', { path: '/tmp/uploads/abc.png', name: 'photo.png', size: 2048, type: 'image/png' })
+      ).rejects.toThrow(NotFoundError);
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/uploads/abc.png');
+      expect(imageService.processImage).not.toHaveBeenCalled();
+    });
+
+    it('should resolve watermark assets and apply defaults for unset options', async () => {
+      vi.mocked(fileService.resolveAsset).mockResolvedValue({
+        path: '/assets/logo.png',
+        name: 'logo.png',
+        size: 512,
+        type: 'image/png',
+      });
+
+      await taskService.createTask({
+        imageUrl: 'https://example.com/image.jpg',
+        watermark: { asset: 'logo.png', opacity: 0.8, tile: true },
+      });
+      await flushProcessing();
+
+      expect(fileService.resolveAsset).toHaveBeenCalledWith('logo.png');
+      expect(imageService.processImage).toHaveBeenCalledWith('/tmp/source.jpg', 'source.jpg', {
+        watermark: {
+          path: '/assets/logo.png',
+          gravity: 'southeast',
+          margin: 0.02,
+          opacity: 0.8,
+          scale: 0.2,
+          tile: true,
+        },
+      });
+    });
+
+    it('should clean up downloaded watermarks and skip disabled ones', async () => {
+      vi.mocked(fileService.downloadFromUrl)
+        .mockResolvedValueOnce({ path: '/tmp/source.jpg', name: 'source.jpg', size: 1024, type: 'image/jpeg' })
+        .mockResolvedValueOnce({ path: '/tmp/logo.png', name: 'logo.png', size: 512, type: 'image/png' });
+
+      await taskService.createTask({
+        imageUrl: 'https://example.com/image.jpg',
+        watermark: { imageUrl: 'https://example.com/logo.png' },
+      });
+      await flushProcessing();
+
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/logo.png');
+
+      vi.mocked(imageService.processImage).mockClear();
+      await taskService.createTask({ imageUrl: 'https://example.com/image.jpg', watermark: false });
+      await flushProcessing();
+
+      expect(imageService.processImage).toHaveBeenCalledWith('/tmp/source.jpg', 'source.jpg', {});
+    });
+
+    it('should persist the original metadata and hash and pass the metadata policy on', async () => {
+      const metadata = { format: 'jpeg', orientation: 6, hasExif: true, hasIptc: false, hasXmp: false };
+      vi.mocked(imageService.extractMetadata).mockResolvedValue(metadata);
+      vi.mocked(imageService.computePerceptualHash).mockResolvedValue('f0e4c2d3b3a39383');
+
+      await taskService.createTask({
+        imageUrl: 'https://example.com/image.jpg',
+        watermark: false,
+        metadataPolicy: 'copyright',
+      });
+      await flushProcessing();
+
+      expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.any(Object),
+        {
+          originalPath: `/output/originals/${'a'.repeat(64)}.jpg`,
+          metadata,
+          phash: 'f0e4c2d3b3a39383',
+          sourceHash: 'a'.repeat(64),
+          cacheKey: expect.stringMatching(/^[a-f0-9]{64}$/),
+        },
+        { new: true }
+      );
+      expect(imageService.processImage).toHaveBeenCalledWith('/tmp/source.jpg', 'source.jpg', {
+        metadataPolicy: 'copyright',
+      });
+      expect(fileService.storeOriginal).toHaveBeenCalledWith('/tmp/source.jpg', 'a'.repeat(64));
+      expect(fileService.retainOutputFiles).toHaveBeenCalledWith([`/output/originals/${'a'.repeat(64)}.jpg`]);
+    });
+
+    it('should reuse the variants of a completed task with the same original and options', async () => {
+      const cachedImage = createMockImage({ taskId: 'task_cached', path: '/output/cached/1024/abc.jpg' });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(createMockTask({ taskId: 'task_cached', status: 'completed' })),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockImage[]> }) => void }>(Image.find).mockReturnValue({
+        exec: vi.fn().mockResolvedValue([cachedImage]),
+      });
+      vi.mocked(fileService.retainExistingOutputFiles).mockResolvedValue(true);
+
+      await taskService.createTask({ imageUrl: 'https://example.com/image.jpg', watermark: false });
+      await flushProcessing();
+
+      expect(imageService.processImage).not.toHaveBeenCalled();
+      expect(Task.findOne).toHaveBeenCalledWith({
+        cacheKey: expect.stringMatching(/^[a-f0-9]{64}$/),
+        status: 'completed',
+        taskId: { $ne: expect.any(String) },
+      });
+      expect(fileService.retainExistingOutputFiles).toHaveBeenCalledWith(['/output/cached/1024/abc.jpg']);
+      expect(fileService.retainOutputFiles).not.toHaveBeenCalledWith(['/output/cached/1024/abc.jpg']);
+      expect(Task.findOneAndUpdate).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ status: 'completed', cacheHit: true, cachedFrom: 'task_cached' })
+      );
+    });
+
+    it('should process the image again when the cached task is deleted before its files are retained', async () => {
+      const cachedImage = createMockImage({ taskId: 'task_cached', path: '/output/cached/1024/abc.jpg' });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(createMockTask({ taskId: 'task_cached', status: 'completed' })),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockImage[]> }) => void }>(Image.find).mockReturnValue({
+        exec: vi.fn().mockResolvedValue([cachedImage]),
+      });
+      vi.mocked(fileService.retainExistingOutputFiles).mockResolvedValue(false);
+
+      await taskService.createTask({ imageUrl: 'https://example.com/image.jpg', watermark: false });
+      await flushProcessing();
+
+      expect(imageService.processImage).toHaveBeenCalled();
+      expect(Task.findOneAndUpdate).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.not.objectContaining({ cacheHit: true })
+      );
+    });
+
+    it('should prepare the files of a batch on their turn and run onFinished after the last one', async () => {
+      const extracted = { path: '/tmp/archives/x-0.jpg', name: 'a.jpg', size: 2048, type: 'image/jpeg' };
+      const prepare = vi.fn()
+        .mockResolvedValueOnce(extracted)
+        .mockRejectedValueOnce(new InvalidArchiveEntryError('CORRUPT_ENTRY', 'Entry could not be extracted: bad data'));
+      const onFinished = vi.fn().mockResolvedValue(undefined);
+
+      await taskService.createBatchTasks({ watermark: false }, [{ prepare }, { prepare }], onFinished);
+      await vi.waitFor(() => expect(onFinished).toHaveBeenCalled());
+
+      expect(prepare).toHaveBeenCalledTimes(2);
+      expect(fileService.computeSha256).toHaveBeenCalledWith('/tmp/archives/x-0.jpg');
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/archives/x-0.jpg');
+      expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ status: 'failed', errorCode: 'CORRUPT_ENTRY' })
+      );
+    });
+
+    it('should generate a tile pyramid with the layout defaults and record it on the task', async () => {
+      const pyramid = {
+        layout: 'zoomify' as const,
+        container: 'fs' as const,
+        tileSize: 256,
+        overlap: 0,
+        format: 'jpeg' as const,
+        path: `/output/tiles/${'b'.repeat(64)}`,
+        descriptorPath: 'image/ImageProperties.xml',
+        tileCount: 21,
+        width: 1200,
+        height: 800,
+      };
+      vi.mocked(imageService.createTilePyramid).mockResolvedValue(pyramid);
+
+      await taskService.createTask({
+        imageUrl: 'https://example.com/image.jpg',
+        watermark: false,
+        tiles: { layout: 'zoomify' },
+      });
+      await flushProcessing();
+
+      expect(imageService.createTilePyramid).toHaveBeenCalledWith(
+        '/tmp/source.jpg',
+        expect.stringMatching(/^[a-f0-9]{64}$/),
+        { layout: 'zoomify', container: 'fs', tileSize: 256, overlap: 0, format: 'jpeg' }
+      );
+      expect(fileService.retainOutputFiles).toHaveBeenCalledWith([pyramid.path]);
+      expect(Task.findOneAndUpdate).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ status: 'completed', tiles: pyramid })
+      );
+    });
+
+    it('should derive the same cache key regardless of option key order', async () => {
+      const cacheKeys: unknown[] = [];
+      asMock<{ mockImplementation: (fn: (filter: unknown, update: { cacheKey?: string }) => unknown) => void }>(
+        Task.findOneAndUpdate
+      ).mockImplementation((_filter, update) => {
+        if (update.cacheKey) {
+          cacheKeys.push(update.cacheKey);
+        }
+        return { exec: vi.fn().mockResolvedValue(createMockTask()) };
+      });
+
+      await taskService.createTask({
+        imageUrl: 'https://example.com/image.jpg',
+        watermark: false,
+        formats: [{ format: 'webp', quality: 70 }],
+      });
+      await taskService.createTask({
+        imageUrl: 'https://example.com/other.jpg',
+        watermark: false,
+        formats: [{ quality: 70, format: 'webp' }],
+      });
+      await taskService.createTask({
+        imageUrl: 'https://example.com/image.jpg',
+        watermark: false,
+        formats: [{ format: 'webp', quality: 71 }],
+      });
+      await flushProcessing();
+
+      expect(cacheKeys).toHaveLength(3);
+      expect(cacheKeys[0]).toBe(cacheKeys[1]);
+      expect(cacheKeys[2]).not.toBe(cacheKeys[0]);
+    });
+  });
+
+  describe('deleteTask', () => {
+    it('should delete the task and release its output files and original', async () => {
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(createMockTask({
+          status: 'completed',
+          originalPath: '/output/originals/abc.jpg',
+        })),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockImage[]> }) => void }>(Image.find).mockReturnValue({
+        exec: vi.fn().mockResolvedValue([createMockImage({ path: '/output/a/1024/abc.jpg' })]),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<unknown> }) => void }>(Image.deleteMany).mockReturnValue({
+        exec: vi.fn().mockResolvedValue({ deletedCount: 1 }),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<unknown> }) => void }>(Task.deleteOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue({ deletedCount: 1 }),
+      });
+      vi.mocked(fileService.releaseOutputFiles).mockResolvedValue(2);
+
+      const result = await taskService.deleteTask('task_123');
+
+      expect(fileService.releaseOutputFiles).toHaveBeenCalledWith([
+        '/output/a/1024/abc.jpg',
+        '/output/originals/abc.jpg',
+      ]);
+      expect(result).toEqual({ taskId: 'task_123', deletedFiles: 2 });
+    });
+
+    it('should release the tile pyramid of the task', async () => {
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(createMockTask({
+          status: 'completed',
+          originalPath: '/output/originals/abc.jpg',
+          tiles: { path: '/output/tiles/def.zip' },
+        })),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockImage[]> }) => void }>(Image.find).mockReturnValue({
+        exec: vi.fn().mockResolvedValue([]),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<unknown> }) => void }>(Image.deleteMany).mockReturnValue({
+        exec: vi.fn().mockResolvedValue({ deletedCount: 0 }),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<unknown> }) => void }>(Task.deleteOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue({ deletedCount: 1 }),
+      });
+
+      await taskService.deleteTask('task_123');
+
+      expect(fileService.releaseOutputFiles).toHaveBeenCalledWith([
+        '/output/originals/abc.jpg',
+        '/output/tiles/def.zip',
+      ]);
+    });
+
+    it('should refuse to delete tasks that are still processing', async () => {
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(createMockTask({ status: 'pending' })),
+      });
+
+      await expect(taskService.deleteTask('task_123')).rejects.toThrow('Task is still being processed');
+      expect(fileService.releaseOutputFiles).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getTask', () => {
     it('should map task to result correctly', async () => {
       const mockTask = createMockTask({
@@ -187,7 +575,10 @@ describe('TaskService', () => {
         }),
         createMockImage({ 
           resolution: '800',
-          path: '/output/image/800/def456.jpg',
+          format: 'webp',
+          width: 800,
+          height: 600,
+          path: '/output/image/800/def456.webp',
           md5: 'def456ghi789',
         }),
       ];
@@ -208,9 +599,15 @@ describe('TaskService', () => {
       expect(result.images?.[0]?.resolution).toBe('1024');
       expect(result.images?.[0]?.path).toBe('/output/image/1024/abc123.jpg');
       expect(result.images?.[0]?.md5).toBe('abc123def456');
+      expect(result.images?.[0]?.format).toBe('jpeg');
+      expect(result.images?.[0]?.extension).toBe('jpg');
       expect(result.images?.[1]?.resolution).toBe('800');
-      expect(result.images?.[1]?.path).toBe('/output/image/800/def456.jpg');
+      expect(result.images?.[1]?.path).toBe('/output/image/800/def456.webp');
       expect(result.images?.[1]?.md5).toBe('def456ghi789');
+      expect(result.images?.[1]?.format).toBe('webp');
+      expect(result.images?.[1]?.extension).toBe('webp');
+      expect(result.images?.[1]?.width).toBe(800);
+      expect(result.images?.[1]?.height).toBe(600);
     });
 
     it('should exclude images when task is pending', async () => {
@@ -271,6 +668,148 @@ describe('TaskService', () => {
     });
   });
 
+  describe('direct uploads', () => {
+    const token = 'a'.repeat(32);
+
+    it('should create a task awaiting its image until the upload deadline', async () => {
+      const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+      let created: Record<string, unknown> = {};
+      asMock<{ mockImplementation: (fn: (doc: Record<string, unknown>) => MockTask) => void }>(Task).mockImplementation((doc) => {
+        created = doc;
+        return createMockTask({ status: 'awaiting_upload' });
+      });
+
+      const result = await taskService.createAwaitingUploadTask({ formats: [{ format: 'webp' }] }, token, expiresAt);
+
+      expect(result.status).toBe('awaiting_upload');
+      expect(created).toMatchObject({
+        status: 'awaiting_upload',
+        options: { formats: [{ format: 'webp' }] },
+        uploadId: token,
+        uploadExpiresAt: expiresAt,
+      });
+    });
+
+    it('should fail overdue tasks when they are read or receive their upload', async () => {
+      const overdue = createMockTask({ status: 'awaiting_upload', uploadId: token, uploadExpiresAt: new Date(Date.now() - 1000) });
+      const expired = createMockTask({ status: 'failed', errorCode: 'UPLOAD_EXPIRED', error: 'Upload URL expired before the image arrived' });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(overdue),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOneAndUpdate).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(expired),
+      });
+
+      const result = await taskService.getTask('task_123');
+
+      expect(result).toMatchObject({ status: 'failed', errorCode: 'UPLOAD_EXPIRED' });
+      expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+        { taskId: 'task_123', status: 'awaiting_upload' },
+        expect.objectContaining({ status: 'failed', errorCode: 'UPLOAD_EXPIRED' }),
+        { new: true }
+      );
+      await expect(taskService.getAwaitingUploadTask(token)).rejects.toThrow(GoneError);
+    });
+
+    it('should let only one upload claim a task', async () => {
+      asMock<{ mockReturnValueOnce: (obj: { exec: () => Promise<MockTask | null> }) => void }>(Task.findOneAndUpdate).mockReturnValueOnce({
+        exec: vi.fn().mockResolvedValue(createMockTask({ status: 'pending', uploadId: token })),
+      });
+      asMock<{ mockReturnValueOnce: (obj: { exec: () => Promise<MockTask | null> }) => void }>(Task.findOneAndUpdate).mockReturnValueOnce({
+        exec: vi.fn().mockResolvedValue(null),
+      });
+
+      await expect(taskService.claimAwaitingUploadTask(token)).resolves.toMatchObject({ status: 'pending' });
+      await expect(taskService.claimAwaitingUploadTask(token)).rejects.toThrow(ConflictError);
+      expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+        { uploadId: token, status: 'awaiting_upload', uploadExpiresAt: { $gt: expect.any(Date) } },
+        expect.objectContaining({ status: 'pending' }),
+        { new: true }
+      );
+    });
+
+    it('should refuse uploads for tasks that already received their image', async () => {
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask> }) => void }>(Task.findOne).mockReturnValue({
+        exec: vi.fn().mockResolvedValue(createMockTask({ status: 'completed', uploadId: token })),
+      });
+
+      await expect(taskService.getAwaitingUploadTask(token)).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('batches', () => {
+    const sources = [
+      { uploadedFile: { path: '/tmp/archives/a-0.jpg', name: 'a.jpg', size: 2048, type: 'image/jpeg' } },
+      { imageUrl: 'https://example.com/b.png' },
+      { uploadedFile: { path: '/tmp/archives/a-2.png', name: 'c.png', size: 4096, type: 'image/png' } },
+    ];
+
+    it('should create a pending task per file under one batch ID', async () => {
+      const created: Array<Record<string, unknown>> = [];
+      asMock<{ mockImplementation: (fn: (doc: Record<string, unknown>) => MockTask) => void }>(Task).mockImplementation((doc) => {
+        created.push(doc);
+        return createMockTask({ taskId: doc['taskId'] as string });
+      });
+
+      const { batchId, tasks } = await taskService.createBatchTasks({ metadataPolicy: 'keep' }, sources);
+
+      expect(batchId).toMatch(/^batch_\d{14}_[a-z0-9]+$/);
+      expect(tasks).toHaveLength(3);
+      expect(created).toEqual(Array(3).fill(expect.objectContaining({ status: 'pending', batchId })));
+      expect(tasks.map((task) => task.taskId)).toEqual(created.map((doc) => doc['taskId']));
+    });
+
+    it('should fail the tasks saved so far and remove the files when the batch cannot be created', async () => {
+      const saved = createMockTask();
+      const failing = createMockTask();
+      failing.save.mockRejectedValue(new Error('Database error'));
+      asMock<{ mockImplementationOnce: (fn: () => MockTask) => void }>(Task).mockImplementationOnce(() => saved);
+      asMock<{ mockImplementationOnce: (fn: () => MockTask) => void }>(Task).mockImplementationOnce(() => failing);
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<unknown> }) => void }>(Task.updateMany).mockReturnValue({
+        exec: vi.fn().mockResolvedValue({ modifiedCount: 1 }),
+      });
+
+      await expect(taskService.createBatchTasks({}, sources)).rejects.toThrow('Failed to create batch: Database error');
+
+      expect(Task.updateMany).toHaveBeenCalledWith(
+        { batchId: expect.stringMatching(/^batch_/), status: 'pending' },
+        expect.objectContaining({ status: 'failed' })
+      );
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/archives/a-0.jpg');
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith('/tmp/archives/a-2.png');
+    });
+
+    it('should report the tasks of a batch with the images of completed ones', async () => {
+      const tasks = [
+        createMockTask({ taskId: 'task_1', status: 'completed', completedAt: new Date() }),
+        createMockTask({ taskId: 'task_2', status: 'failed', error: 'File is not a recognized image', errorCode: 'NOT_AN_IMAGE' }),
+      ];
+      asMock<{ mockReturnValue: (obj: { sort: () => { exec: () => Promise<MockTask[]> } }) => void }>(Task.find).mockReturnValue({
+        sort: vi.fn().mockReturnValue({ exec: vi.fn().mockResolvedValue(tasks) }),
+      });
+      asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockImage[]> }) => void }>(Image.find).mockReturnValue({
+        exec: vi.fn().mockResolvedValue([createMockImage({ taskId: 'task_1' })]),
+      });
+
+      const results = await taskService.getBatchTasks('batch_20250811115246_k2m9qz');
+
+      expect(Task.find).toHaveBeenCalledWith({ batchId: 'batch_20250811115246_k2m9qz' });
+      expect(Image.find).toHaveBeenCalledWith({ taskId: { $in: ['task_1'] } });
+      expect(results.map(({ taskId, status, images }) => ({ taskId, status, images: images?.length }))).toEqual([
+        { taskId: 'task_1', status: 'completed', images: 1 },
+        { taskId: 'task_2', status: 'failed', images: undefined },
+      ]);
+    });
+
+    it('should report unknown batches as not found', async () => {
+      asMock<{ mockReturnValue: (obj: { sort: () => { exec: () => Promise<MockTask[]> } }) => void }>(Task.find).mockReturnValue({
+        sort: vi.fn().mockReturnValue({ exec: vi.fn().mockResolvedValue([]) }),
+      });
+
+      await expect(taskService.getBatchTasks('batch_20250811115246_k2m9qz')).rejects.toThrow(NotFoundError);
+    });
+  });
+
   describe('Business Logic', () => {
     it('should handle optional fields correctly in mapping', async () => {
       const mockTask = createMockTask({
@@ -297,6 +836,7 @@ describe('TaskService', () => {
       const mockTask = createMockTask({
         status: 'failed',
         error: 'Image processing failed: Invalid format',
+        errorCode: 'CORRUPT_IMAGE',
         completedAt: new Date('2024-01-01T10:05:00Z'),
       });
 
@@ -309,6 +849,7 @@ describe('TaskService', () => {
       // Test error handling in mapping
       expect(result.status).toBe('failed');
       expect(result.error).toBe('Image processing failed: Invalid format');
+      expect(result.errorCode).toBe('CORRUPT_IMAGE');
       expect(result.completedAt).toEqual(new Date('2024-01-01T10:05:00Z'));
       expect(result.images).toBeUndefined();
     });
@@ -326,7 +867,7 @@ describe('TaskService', () => {
       expect(validResult.taskId).toBe('task_123');
 
       // Invalid request should be rejected by validation
-      await expect(taskService.createTask(invalidRequest)).rejects.toThrow('Either imageUrl or imageFile must be provided');
+      await expect(taskService.createTask(invalidRequest)).rejects.toThrow('Either imageUrl, imageFile, imagePath or an uploaded image must be provided');
     });
   });
 });
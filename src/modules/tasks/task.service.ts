@@ -1,26 +1,82 @@
 import { Task } from './task.model.js';
 import { Image } from '../images/image.model.js';
-import { imageService } from '../images/image.service.js';
+import path from 'path';
+import crypto from 'crypto';
+import { appConfig } from '../../config/index.js';
+import {
+  imageService,
+  DEFAULT_OUTPUT_FORMATS,
+  DEFAULT_RESOLUTIONS,
+  TILE_DEFAULTS,
+  TILE_SIZE_DEFAULTS,
+  WATERMARK_DEFAULTS,
+} from '../images/image.service.js';
 import { fileService } from '../images/file.service.js';
-import { NotFoundError, ProcessingError, ValidationError } from '../../common/errors.js';
-import type { CreateTaskRequest, TaskResult, ITask } from './task.types.js';
-import type { IImage } from '../images/image.types.js';
+import { ConflictError, GoneError, NotFoundError, ProcessingError, ValidationError } from '../../common/errors.js';
+import type { BatchTaskSource, CreateTaskRequest, TaskOptions, TaskResult, ITask } from './task.types.js';
+import type {
+  FileInfo,
+  IImage,
+  ImagePlaceholder,
+  ProcessedImage,
+  TileOptions,
+  TilePyramid,
+  WatermarkOptions,
+} from '../images/image.types.js';
+
+// Fields stored on an image document, for both freshly processed and reused variants
+type ImageFields = Omit<ProcessedImage, 'extension' | 'phash' | 'placeholder'> & {
+  phash?: string | undefined;
+  sourcePhash: string;
+  placeholder?: ImagePlaceholder | undefined;
+};
+
+// Task of a batch waiting for its turn to be processed
+interface BatchQueueItem {
+  taskId: string;
+  request: CreateTaskRequest;
+  localFile?: FileInfo | undefined;
+  prepare?: (() => Promise<FileInfo>) | undefined;
+}
+
+// Reason and code of tasks whose direct upload never arrived
+const UPLOAD_EXPIRED = { error: 'Upload URL expired before the image arrived', errorCode: 'UPLOAD_EXPIRED' };
+
+// JSON with sorted object keys, so equal options always produce the same cache key
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+      : val
+  );
+}
 
 export class TaskService {
   /**
    * Create a new image processing task
    */
   async createTask(request: CreateTaskRequest): Promise<TaskResult> {
+    // Local paths are checked up front, so access and validation errors reach the client as is
+    const localFile = request.imagePath ? await fileService.resolveInputPath(request.imagePath) : undefined;
+
     try {
       // Validate request
-      if (!request.imageUrl && !request.imageFile) {
-        throw new ValidationError('Either imageUrl or imageFile must be provided');
+      if (!request.imageUrl && !request.imageFile && !request.imagePath && !request.uploadedFile) {
+        throw new ValidationError('Either imageUrl, imageFile, imagePath or an uploaded image must be provided');
       }
       
       if (request.imageUrl && request.imageFile) {
         throw new ValidationError('Either imageUrl or imageFile must be provided, but not both');
       }
 
+      if (request.uploadedFile && (request.imageUrl || request.imageFile)) {
+        throw new ValidationError('An uploaded image cannot be combined with imageUrl or imageFile');
+      }
+
+      if (request.imagePath && (request.imageUrl || request.imageFile || request.uploadedFile)) {
+        throw new ValidationError('imagePath cannot be combined with another image source');
+      }
+
       // Generate task ID and price
       const taskId = this.generateTaskId();
       const price = this.generateRandomPrice();
@@ -36,13 +92,17 @@ export class TaskService {
       await task.save();
 
       // Process image asynchronously
-      this.processImageAsync(taskId, request).catch((error) => {
+      this.processImageAsync(taskId, request, localFile).catch((error) => {
         console.error(`Task ${taskId} processing failed:`, error);
-        this.markTaskAsFailed(taskId, error.message).catch(console.error);
+        this.markTaskAsFailed(taskId, error.message, error.code).catch(console.error);
       });
 
       return this.mapTaskToResult(task);
     } catch (error) {
+      // The upload was already streamed to disk, so it is left behind unless removed here
+      if (request.uploadedFile) {
+        await fileService.cleanupTempFile(request.uploadedFile.path);
+      }
       throw new ProcessingError(
         `Failed to create task: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -54,12 +114,15 @@ export class TaskService {
    */
   async getTask(taskId: string): Promise<TaskResult> {
     try {
-      const task = await Task.findOne({ taskId }).exec();
+      const found = await Task.findOne({ taskId }).exec();
       
-      if (!task) {
+      if (!found) {
         throw new NotFoundError(`Task not found: ${taskId}`);
       }
 
+      // Direct uploads are only expired lazily, so an overdue task is failed when it is read
+      const task: ITask = this.isUploadOverdue(found) ? (await this.expireAwaitingUpload(taskId)) ?? found : found;
+
       // Get associated images if task is completed
       let images: IImage[] = [];
       if (task.status === 'completed') {
@@ -79,15 +142,281 @@ export class TaskService {
   }
 
   /**
-   * Process image asynchronously
+   * Delete a finished task, its images and its stored original. Output files shared with other
+   * tasks through deduplication are only removed with their last reference.
+   */
+  async deleteTask(taskId: string): Promise<{ taskId: string; deletedFiles: number }> {
+    try {
+      const task = await Task.findOne({ taskId }).exec();
+
+      if (!task) {
+        throw new NotFoundError(`Task not found: ${taskId}`);
+      }
+
+      if (task.status === 'pending') {
+        throw new ValidationError('Task is still being processed');
+      }
+
+      const images = await Image.find({ taskId }).exec();
+      await Image.deleteMany({ taskId }).exec();
+      await Task.deleteOne({ taskId }).exec();
+      const outputPaths = images.map((img) => img.path);
+      if (task.originalPath?.startsWith('/output/')) {
+        outputPaths.push(task.originalPath);
+      }
+      if (task.tiles) {
+        outputPaths.push(task.tiles.path);
+      }
+      const deletedFiles = await fileService.releaseOutputFiles(outputPaths);
+
+      return { taskId, deletedFiles };
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      throw new ProcessingError(
+        `Failed to delete task: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Create a pending task whose image arrives later through a resumable upload. Its options
+   * are kept on the task until startUploadedTask hands it the finished file.
+   */
+  async createPendingTask(options: TaskOptions, uploadId: string): Promise<TaskResult> {
+    try {
+      const task = new Task({
+        taskId: this.generateTaskId(),
+        status: 'pending',
+        price: this.generateRandomPrice(),
+        options,
+        uploadId,
+      });
+      await task.save();
+
+      return this.mapTaskToResult(task);
+    } catch (error) {
+      throw new ProcessingError(
+        `Failed to create task: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Create a task whose image is PUT to a presigned URL. It awaits the upload until
+   * `expiresAt` and fails if the image has not arrived by then.
+   */
+  async createAwaitingUploadTask(options: TaskOptions, uploadId: string, expiresAt: Date): Promise<TaskResult> {
+    try {
+      const task = new Task({
+        taskId: this.generateTaskId(),
+        status: 'awaiting_upload',
+        price: this.generateRandomPrice(),
+        options,
+        uploadId,
+        uploadExpiresAt: expiresAt,
+      });
+      await task.save();
+
+      return this.mapTaskToResult(task);
+    } catch (error) {
+      throw new ProcessingError(
+        `Failed to create task: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get the task awaiting a direct upload, refusing uploads the task no longer accepts
+   */
+  async getAwaitingUploadTask(uploadId: string): Promise<TaskResult> {
+    const task = await Task.findOne({ uploadId }).exec();
+
+    if (!task) {
+      throw new NotFoundError('Task awaiting an upload', uploadId);
+    }
+    if (this.isUploadOverdue(task)) {
+      await this.expireAwaitingUpload(task.taskId);
+      throw new GoneError(`Upload for task ${task.taskId} has expired`);
+    }
+    if (task.status !== 'awaiting_upload') {
+      throw new ConflictError(`Task ${task.taskId} is not awaiting an upload`);
+    }
+
+    return this.mapTaskToResult(task);
+  }
+
+  /**
+   * Move a task awaiting a direct upload to pending once its image arrived. Only one upload
+   * can claim the task; startUploadedTask then processes the image.
+   */
+  async claimAwaitingUploadTask(uploadId: string): Promise<TaskResult> {
+    const task = await Task.findOneAndUpdate(
+      { uploadId, status: 'awaiting_upload', uploadExpiresAt: { $gt: new Date() } },
+      { status: 'pending', updatedAt: new Date() },
+      { new: true }
+    ).exec();
+
+    if (!task) {
+      throw new ConflictError('Task is no longer awaiting an upload');
+    }
+    return this.mapTaskToResult(task);
+  }
+
+  /**
+   * Fail tasks whose direct upload did not arrive in time
+   */
+  async expireAwaitingUploads(): Promise<number> {
+    const result = await Task.updateMany(
+      { status: 'awaiting_upload', uploadExpiresAt: { $lte: new Date() } },
+      { status: 'failed', ...UPLOAD_EXPIRED, completedAt: new Date(), updatedAt: new Date() }
+    ).exec();
+    return result.modifiedCount;
+  }
+
+  /**
+   * Start processing a pending task with the file of its finished upload
+   */
+  async startUploadedTask(taskId: string, uploadedFile: FileInfo): Promise<void> {
+    const task = await Task.findOne({ taskId, status: 'pending', uploadId: { $exists: true } }).exec();
+
+    if (!task) {
+      await fileService.cleanupTempFile(uploadedFile.path);
+      throw new NotFoundError('Task awaiting an upload', taskId);
+    }
+
+    const request: CreateTaskRequest = { ...task.options, uploadedFile };
+    this.processImageAsync(taskId, request).catch((error) => {
+      console.error(`Task ${taskId} processing failed:`, error);
+      this.markTaskAsFailed(taskId, error.message, error.code).catch(console.error);
+    });
+  }
+
+  /**
+   * Fail a pending task whose upload was terminated, expired before it finished or was refused
+   */
+  async abandonUploadedTask(taskId: string, reason: string, errorCode?: string): Promise<void> {
+    await Task.findOneAndUpdate(
+      { taskId, status: 'pending', uploadId: { $exists: true } },
+      {
+        status: 'failed',
+        error: reason,
+        ...(errorCode && { errorCode }),
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      }
+    ).exec();
+  }
+
+  /**
+   * Create one pending task per source, grouped under a new batch ID. The images are processed
+   * one after another in the background, so a batch of hundreds doesn't fetch and decode them all
+   * at once. `onFinished` runs once every task was processed; when the batch cannot be created,
+   * it does not run and the caller keeps what it would have released.
+   */
+  async createBatchTasks(
+    options: TaskOptions,
+    sources: BatchTaskSource[],
+    onFinished?: () => Promise<void>
+  ): Promise<{ batchId: string; tasks: TaskResult[] }> {
+    const batchId = this.generateBatchId();
+    const tasks: TaskResult[] = [];
+    const queue: BatchQueueItem[] = [];
+
+    try {
+      for (const { localFile, prepare, ...source } of sources) {
+        const task = new Task({
+          taskId: this.generateTaskId(),
+          status: 'pending',
+          price: this.generateRandomPrice(),
+          batchId,
+        });
+        await task.save();
+        tasks.push(this.mapTaskToResult(task));
+        queue.push({ taskId: task.taskId, request: { ...options, ...source }, localFile, prepare });
+      }
+    } catch (error) {
+      // Tasks saved so far would never be processed, so they fail along with the batch
+      await Task.updateMany(
+        { batchId, status: 'pending' },
+        { status: 'failed', error: 'Batch could not be created', completedAt: new Date(), updatedAt: new Date() }
+      ).exec().catch(console.error);
+      for (const { uploadedFile } of sources) {
+        if (uploadedFile) {
+          await fileService.cleanupTempFile(uploadedFile.path);
+        }
+      }
+      throw new ProcessingError(
+        `Failed to create batch: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    this.processBatch(queue)
+      .then(() => onFinished?.())
+      .catch(console.error);
+
+    return { batchId, tasks };
+  }
+
+  /**
+   * Get the tasks of a batch in the order they were created, with the images of completed ones
+   */
+  async getBatchTasks(batchId: string): Promise<TaskResult[]> {
+    try {
+      const tasks = await Task.find({ batchId }).sort({ _id: 1 }).exec();
+
+      if (tasks.length === 0) {
+        throw new NotFoundError('Batch', batchId);
+      }
+
+      const completed = tasks.filter((task) => task.status === 'completed').map((task) => task.taskId);
+      const images = completed.length > 0 ? await Image.find({ taskId: { $in: completed } }).exec() : [];
+
+      return tasks.map((task) => this.mapTaskToResult(task, images.filter((image) => image.taskId === task.taskId)));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      throw new ProcessingError(
+        `Failed to get batch: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Process the tasks of a batch in order, failing each task on its own. Files prepared on the
+   * task's turn are handed to it as an upload, which processing removes once done with it.
+   */
+  private async processBatch(queue: BatchQueueItem[]): Promise<void> {
+    for (const { taskId, request, localFile, prepare } of queue) {
+      const run = async (): Promise<void> => {
+        const prepared = prepare ? { ...request, uploadedFile: await prepare() } : request;
+        await this.processImageAsync(taskId, prepared, localFile);
+      };
+      await run().catch((error) => {
+        console.error(`Task ${taskId} processing failed:`, error);
+        return this.markTaskAsFailed(taskId, error.message, error.code).catch(console.error);
+      });
+    }
+  }
+
+  /**
+   * Process image asynchronously. Local files are read in place and left untouched.
    */
-  private async processImageAsync(taskId: string, request: CreateTaskRequest): Promise<void> {
+  private async processImageAsync(taskId: string, request: CreateTaskRequest, localFile?: FileInfo): Promise<void> {
     try {
       let sourcePath: string;
       let originalName: string;
 
-      // Handle file upload or URL download
-      if (request.imageFile) {
+      // Handle local file, file upload or URL download
+      if (localFile) {
+        sourcePath = localFile.path;
+        originalName = localFile.name;
+      } else if (request.uploadedFile) {
+        sourcePath = request.uploadedFile.path;
+        originalName = request.uploadedFile.name;
+      } else if (request.imageFile) {
         const fileInfo = await fileService.saveBase64File(request.imageFile);
         sourcePath = fileInfo.path;
         originalName = fileInfo.name;
@@ -99,36 +428,94 @@ export class TaskService {
         throw new ValidationError('No image source provided');
       }
 
-      // Update task with original path
-      await Task.findOneAndUpdate(
-        { taskId },
-        { originalPath: sourcePath },
-        { new: true }
-      ).exec();
+      // Hash the original on ingest and summarize its metadata
+      const sourceHash = await fileService.computeSha256(sourcePath);
+      const metadata = await imageService.extractMetadata(sourcePath);
+      const phash = await imageService.computePerceptualHash(sourcePath);
 
-      // Process image with Sharp
-      const processedImages = await imageService.processImage(sourcePath, originalName);
+      const watermark = await this.resolveWatermark(request.watermark);
+      const tileOptions = this.resolveTileOptions(request.tiles);
+      let images: ImageFields[];
+      let cachedFrom: string | undefined;
+      try {
+        // Keep the original for on-the-fly transformations, then update the task
+        // with its path, its metadata summary and hashes. Local files are copied too, since
+        // their input directory may change or lose them while the task's variants are served.
+        const cacheKey = await this.computeCacheKey(sourceHash, request, watermark.options, tileOptions);
+        const originalPath = await fileService.storeOriginal(sourcePath, sourceHash);
+        await fileService.retainOutputFiles([originalPath]);
+        await Task.findOneAndUpdate(
+          { taskId },
+          { originalPath, metadata, phash, sourceHash, cacheKey },
+          { new: true }
+        ).exec();
 
-      // Save processed images to database
-      const imageDocuments = processedImages.map((img) => new Image({
+        // Identical originals processed with identical options reuse the existing variants
+        const cached = await this.findCachedImages(cacheKey, taskId);
+        if (cached) {
+          cachedFrom = cached.taskId;
+          images = cached.images.map((img) => this.toImageFields(img, phash));
+        } else {
+          const processedImages = await imageService.processImage(sourcePath, originalName, {
+            ...(request.resolutions && { resolutions: request.resolutions }),
+            ...(request.formats && { formats: request.formats }),
+            ...(request.operations && { operations: request.operations }),
+            ...(watermark.options && { watermark: watermark.options }),
+            ...(request.metadataPolicy && { metadataPolicy: request.metadataPolicy }),
+            ...(request.posterFrame !== undefined && { posterFrame: request.posterFrame }),
+          });
+          images = processedImages.map((img) => this.toImageFields(img, phash));
+        }
+      } finally {
+        if (watermark.tempPath) {
+          await fileService.cleanupTempFile(watermark.tempPath);
+        }
+      }
+
+      // Save images to database and count their references to the output files, which cache
+      // hits already retained when they were found
+      const imageDocuments = images.map((img) => new Image({
+        ...img,
         taskId,
-        resolution: img.resolution,
-        path: img.path,
-        md5: img.md5,
         createdAt: new Date(),
       }));
 
-      await Image.insertMany(imageDocuments);
+      try {
+        await Image.insertMany(imageDocuments);
+      } catch (error) {
+        if (cachedFrom) {
+          await fileService.releaseOutputFiles(images.map((img) => img.path));
+        }
+        throw error;
+      }
+      if (!cachedFrom) {
+        await fileService.retainOutputFiles(images.map((img) => img.path));
+      }
+
+      // Pyramids are addressed by the original and their options, so cache hits share them too
+      let tiles: TilePyramid | undefined;
+      if (tileOptions) {
+        const tilesKey = crypto
+          .createHash('sha256')
+          .update(canonicalJson({ source: sourceHash, ...tileOptions }))
+          .digest('hex');
+        tiles = await imageService.createTilePyramid(sourcePath, tilesKey, tileOptions);
+        await fileService.retainOutputFiles([tiles.path]);
+      }
 
       // Mark task as completed
-      await this.markTaskAsCompleted(taskId);
+      await this.markTaskAsCompleted(taskId, cachedFrom, tiles);
 
       // Cleanup temporary file
-      await fileService.cleanupTempFile(sourcePath);
+      if (!localFile) {
+        await fileService.cleanupTempFile(sourcePath);
+      }
 
     } catch (error) {
       // Cleanup temporary file on error
-      if (request.imageFile || request.imageUrl) {
+      if (request.uploadedFile) {
+        await fileService.cleanupTempFile(request.uploadedFile.path);
+      } else if (request.imageFile || request.imageUrl) {
         try {
           const fileInfo = request.imageFile 
             ? await fileService.saveBase64File(request.imageFile)
@@ -143,33 +530,195 @@ export class TaskService {
   }
 
   /**
-   * Mark task as completed
+   * Derive the cache key from the original's content hash and every option that affects the output
+   */
+  private async computeCacheKey(
+    sourceHash: string,
+    request: CreateTaskRequest,
+    watermark?: WatermarkOptions,
+    tiles?: TileOptions
+  ): Promise<string> {
+    const fingerprint = canonicalJson({
+      source: sourceHash,
+      resolutions: request.resolutions ?? DEFAULT_RESOLUTIONS,
+      formats: request.formats ?? DEFAULT_OUTPUT_FORMATS,
+      operations: request.operations ?? [],
+      watermark: watermark
+        ? {
+          image: await fileService.computeSha256(watermark.path),
+          gravity: watermark.gravity,
+          margin: watermark.margin,
+          opacity: watermark.opacity,
+          scale: watermark.scale,
+          tile: watermark.tile,
+        }
+        : null,
+      metadataPolicy: request.metadataPolicy ?? 'strip',
+      posterFrame: request.posterFrame ?? null,
+      tiles: tiles ?? null,
+    });
+    return crypto.createHash('sha256').update(fingerprint).digest('hex');
+  }
+
+  /**
+   * Find the images of a completed task with the same cache key and take a reference to their
+   * files before anything else, so deleting that task meanwhile cannot remove them. Tasks whose
+   * files are already being released are not reused.
+   */
+  private async findCachedImages(
+    cacheKey: string,
+    taskId: string
+  ): Promise<{ taskId: string; images: IImage[] } | undefined> {
+    const cachedTask = await Task.findOne({ cacheKey, status: 'completed', taskId: { $ne: taskId } }).exec();
+    if (!cachedTask) {
+      return undefined;
+    }
+    const images = await Image.find({ taskId: cachedTask.taskId }).exec();
+    if (images.length === 0 || !(await fileService.retainExistingOutputFiles(images.map((img) => img.path)))) {
+      return undefined;
+    }
+    return { taskId: cachedTask.taskId, images };
+  }
+
+
+  /**
+   * Pick the fields stored for an image, whether freshly processed or reused
+   */
+  private toImageFields(img: ProcessedImage | IImage, sourcePhash: string): ImageFields {
+    return {
+      resolution: img.resolution,
+      requestedWidth: img.requestedWidth,
+      requestedHeight: img.requestedHeight,
+      fit: img.fit,
+      crop: img.crop,
+      format: img.format,
+      width: img.width,
+      height: img.height,
+      size: img.size,
+      path: img.path,
+      md5: img.md5,
+      frames: img.frames,
+      duration: img.duration,
+      phash: img.phash,
+      sourcePhash,
+      placeholder: img.placeholder,
+    };
+  }
+
+  /**
+   * Resolve the watermark for a task: its own, the configured default, or none when disabled.
+   * Downloaded and uploaded watermark images are returned as temp files to clean up.
+   */
+  private async resolveWatermark(
+    watermark: CreateTaskRequest['watermark']
+  ): Promise<{ options?: WatermarkOptions; tempPath?: string }> {
+    const request = watermark ?? (appConfig.defaultWatermark ? { asset: appConfig.defaultWatermark } : false);
+    if (request === false) {
+      return {};
+    }
+
+    let filePath: string;
+    let tempPath: string | undefined;
+    if (request.asset) {
+      filePath = (await fileService.resolveAsset(request.asset)).path;
+    } else if (request.imageFile) {
+      filePath = tempPath = (await fileService.saveBase64File(request.imageFile)).path;
+    } else if (request.imageUrl) {
+      filePath = tempPath = (await fileService.downloadFromUrl(request.imageUrl)).path;
+    } else {
+      throw new ValidationError('No watermark source provided');
+    }
+
+    return {
+      options: {
+        path: filePath,
+        gravity: request.gravity ?? WATERMARK_DEFAULTS.gravity,
+        margin: request.margin ?? WATERMARK_DEFAULTS.margin,
+        opacity: request.opacity ?? WATERMARK_DEFAULTS.opacity,
+        scale: request.scale ?? WATERMARK_DEFAULTS.scale,
+        tile: request.tile ?? WATERMARK_DEFAULTS.tile,
+      },
+      ...(tempPath && { tempPath }),
+    };
+  }
+
+  /**
+   * Fill in the tile pyramid defaults of a task, or return nothing when no pyramid was requested
    */
-  private async markTaskAsCompleted(taskId: string): Promise<void> {
+  private resolveTileOptions(tiles: CreateTaskRequest['tiles']): TileOptions | undefined {
+    if (!tiles) {
+      return undefined;
+    }
+    const layout = tiles.layout ?? TILE_DEFAULTS.layout;
+    return {
+      layout,
+      container: tiles.container ?? TILE_DEFAULTS.container,
+      tileSize: tiles.tileSize ?? TILE_SIZE_DEFAULTS[layout].tileSize,
+      overlap: tiles.overlap ?? TILE_SIZE_DEFAULTS[layout].overlap,
+      format: tiles.format ?? TILE_DEFAULTS.format,
+      ...(tiles.quality !== undefined && { quality: tiles.quality }),
+    };
+  }
+
+  /**
+   * Mark task as completed, recording the task whose variants were reused on a cache hit
+   * and the generated tile pyramid
+   */
+  private async markTaskAsCompleted(taskId: string, cachedFrom?: string, tiles?: TilePyramid): Promise<void> {
     await Task.findOneAndUpdate(
       { taskId },
       {
         status: 'completed',
         completedAt: new Date(),
         updatedAt: new Date(),
+        ...(cachedFrom && { cacheHit: true, cachedFrom }),
+        ...(tiles && { tiles }),
       }
     ).exec();
   }
 
   /**
-   * Mark task as failed
+   * Mark task as failed, keeping the code of errors that have one
    */
-  private async markTaskAsFailed(taskId: string, error: string): Promise<void> {
+  private async markTaskAsFailed(taskId: string, error: string, errorCode?: string): Promise<void> {
     await Task.findOneAndUpdate(
       { taskId },
       {
         status: 'failed',
         error,
+        ...(errorCode && { errorCode }),
         updatedAt: new Date(),
       }
     ).exec();
   }
 
+  /**
+   * Check whether a task still awaits a direct upload past its deadline
+   */
+  private isUploadOverdue(task: ITask): boolean {
+    return task.status === 'awaiting_upload' && !!task.uploadExpiresAt && task.uploadExpiresAt.getTime() <= Date.now();
+  }
+
+  /**
+   * Fail a task whose direct upload did not arrive in time, returning it as updated
+   */
+  private async expireAwaitingUpload(taskId: string): Promise<ITask | null> {
+    return Task.findOneAndUpdate(
+      { taskId, status: 'awaiting_upload' },
+      { status: 'failed', ...UPLOAD_EXPIRED, completedAt: new Date(), updatedAt: new Date() },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Generate unique batch ID
+   */
+  private generateBatchId(): string {
+    const dateStr = new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '');
+    const random = Math.random().toString(36).substring(2, 8);
+    return `batch_${dateStr}_${random}`;
+  }
+
   /**
    * Generate unique task ID
    */
@@ -201,10 +750,30 @@ export class TaskService {
       updatedAt: task.updatedAt,
       completedAt: task.completedAt || undefined,
       error: task.error || undefined,
+      errorCode: task.errorCode || undefined,
+      metadata: task.metadata || undefined,
+      phash: task.phash || undefined,
+      cacheHit: task.cacheHit ?? false,
+      cachedFrom: task.cachedFrom || undefined,
+      batchId: task.batchId || undefined,
+      tiles: task.tiles || undefined,
       images: task.status === 'completed' ? images.map(img => ({
-        resolution: img.resolution as '1024' | '800',
+        resolution: img.resolution,
+        requestedWidth: img.requestedWidth,
+        requestedHeight: img.requestedHeight,
+        fit: img.fit,
+        crop: img.crop,
+        format: img.format,
+        extension: path.extname(img.path).slice(1),
+        width: img.width,
+        height: img.height,
+        size: img.size,
         path: img.path,
         md5: img.md5,
+        frames: img.frames,
+        duration: img.duration,
+        phash: img.phash,
+        placeholder: img.placeholder,
         createdAt: img.createdAt,
       })) : undefined,
     };
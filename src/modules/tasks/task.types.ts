@@ -1,19 +1,63 @@
 import type { Document, Model } from 'mongoose';
+import type {
+  CropRect,
+  FileInfo,
+  FitMode,
+  Gravity,
+  ImageMetadataSummary,
+  ImageOperation,
+  ImagePlaceholder,
+  MetadataPolicy,
+  OutputFormat,
+  OutputFormatOptions,
+  ResolutionSpec,
+  TileContainer,
+  TileFormat,
+  TileLayout,
+  TilePyramid,
+} from '../images/image.types.js';
+
+// Tasks of direct uploads await their image before they are pending
+export type TaskStatus = 'awaiting_upload' | 'pending' | 'completed' | 'failed';
 
 // Database Model Types
 export interface ITask extends Document {
   taskId: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: TaskStatus;
   price: number;
   originalPath?: string;
   error?: string;
+  errorCode?: string; // code of the error that failed the task, such as NOT_AN_IMAGE
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
+  metadata?: ImageMetadataSummary;
+  phash?: string;
+  sourceHash?: string; // SHA-256 of the original
+  cacheKey?: string; // source hash combined with the processing options
+  cacheHit?: boolean;
+  cachedFrom?: string; // task whose variants were reused
+  tiles?: TilePyramid;
+  options?: TaskOptions; // processing options kept until the image of the task arrives
+  uploadId?: string; // resumable or direct upload the task's image arrives through
+  uploadExpiresAt?: Date; // when a task awaiting a direct upload fails without its image
+  batchId?: string; // batch the task was created in, such as the images of one archive
   images?: Array<{
     resolution: string;
+    requestedWidth?: number;
+    requestedHeight?: number;
+    fit: string;
+    crop?: CropRect;
+    format: string;
+    width: number;
+    height: number;
+    size: number;
     path: string;
     md5: string;
+    frames?: number;
+    duration?: number;
+    phash?: string;
+    placeholder?: ImagePlaceholder;
     createdAt: Date;
   }>;
 }
@@ -26,23 +70,150 @@ export interface ITaskModel extends Model<ITask> {
 export interface CreateTaskRequest {
   imageUrl?: string | undefined;
   imageFile?: string | undefined;
+  imagePath?: string | undefined; // local file within an allowlisted input root
+  uploadedFile?: FileInfo | undefined; // multipart upload, already in the temp directory
+  source?: 'upload' | undefined; // the image is PUT to a presigned URL after the task is created
+  resolutions?: ResolutionSpec[] | undefined;
+  formats?: OutputFormatOptions[] | undefined;
+  operations?: ImageOperation[] | undefined;
+  watermark?: false | WatermarkRequest | undefined;
+  metadataPolicy?: MetadataPolicy | undefined;
+  posterFrame?: number | undefined;
+  tiles?: TilesRequest | undefined;
+}
+
+// Processing options of a task, without its image source
+export type TaskOptions = Omit<CreateTaskRequest, 'imageUrl' | 'imageFile' | 'imagePath' | 'uploadedFile' | 'source'>;
+
+// Image source of one task of a batch, with local paths already resolved to their file
+export type BatchTaskSource = Pick<CreateTaskRequest, 'imageUrl' | 'imageFile' | 'uploadedFile'> & {
+  localFile?: FileInfo | undefined;
+  prepare?: (() => Promise<FileInfo>) | undefined; // temp file made when the task's turn comes, such as an archive entry
+};
+
+// A zip archive fanned out into one task per image, with the processing options shared by all
+export type CreateArchiveRequest = TaskOptions & {
+  archiveUrl?: string | undefined;
+  archiveFile?: FileInfo | undefined; // multipart upload, already in the temp directory
+};
+
+export interface WatermarkRequest {
+  asset?: string | undefined;
+  imageUrl?: string | undefined;
+  imageFile?: string | undefined;
+  gravity?: Gravity | undefined;
+  margin?: number | undefined;
+  opacity?: number | undefined;
+  scale?: number | undefined;
+  tile?: boolean | undefined;
+}
+
+export interface TilesRequest {
+  layout?: TileLayout | undefined;
+  container?: TileContainer | undefined;
+  tileSize?: number | undefined;
+  overlap?: number | undefined;
+  format?: TileFormat | undefined;
+  quality?: number | undefined;
 }
 
 export interface TaskResult {
   taskId: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: TaskStatus;
   price: number;
   originalPath?: string | undefined;
   error?: string | undefined;
+  errorCode?: string | undefined;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date | undefined;
+  metadata?: ImageMetadataSummary | undefined;
+  phash?: string | undefined;
+  cacheHit: boolean;
+  cachedFrom?: string | undefined;
+  batchId?: string | undefined;
+  tiles?: TilePyramid | undefined;
   images?: ImageResult[] | undefined;
 }
 
 export interface ImageResult {
-  resolution: '1024' | '800';
+  resolution: string;
+  requestedWidth?: number | undefined;
+  requestedHeight?: number | undefined;
+  fit: FitMode;
+  crop?: CropRect | undefined;
+  format: OutputFormat;
+  extension: string;
+  width: number;
+  height: number;
+  size: number;
   path: string;
   md5: string;
+  frames?: number | undefined;
+  duration?: number | undefined;
+  phash?: string | undefined;
+  placeholder?: ImagePlaceholder | undefined;
   createdAt: Date;
 }
+
+// Archive Ingestion Types
+export interface ArchiveEntryTask {
+  entry: string; // path of the image within the archive
+  taskId: string;
+  status: TaskStatus;
+  price: number;
+}
+
+export interface ArchiveEntrySkipped {
+  entry: string;
+  reason: string;
+}
+
+export interface ArchiveEntryFailure {
+  entry: string;
+  error: string;
+  errorCode: string; // such as UNSAFE_ENTRY_PATH or ENCRYPTED_ENTRY
+}
+
+export interface ArchiveResult {
+  batchId: string;
+  entries: number; // files in the archive, directories aside
+  tasks: ArchiveEntryTask[];
+  skipped: ArchiveEntrySkipped[]; // files that are no images, never extracted
+  failures: ArchiveEntryFailure[]; // images refused from their headers, before any extraction
+}
+
+// Responsive Markup Types
+export interface MarkupOptions {
+  sizes: string; // sizes attribute, e.g. "(min-width: 800px) 50vw, 100vw"
+  alt: string;
+  loading: 'lazy' | 'eager';
+  lqip: boolean; // paint the blurred placeholder behind the image while it loads
+}
+
+export interface SrcsetCandidate {
+  url: string;
+  width: number;
+  height: number;
+}
+
+// One <source> per format, or the fallback <img>
+export interface PictureSource {
+  format: OutputFormat;
+  type: string; // MIME type
+  srcset: string;
+  candidates: SrcsetCandidate[]; // ascending width
+}
+
+export interface PictureMarkup {
+  taskId: string;
+  alt: string;
+  sizes: string;
+  loading: 'lazy' | 'eager';
+  width: number; // intrinsic size of the fallback image, reserving its layout box
+  height: number;
+  sources: PictureSource[]; // best format first
+  img: PictureSource & { src: string }; // src is the largest candidate
+  placeholder?: Pick<ImagePlaceholder, 'lqip' | 'dominantColor'> | undefined; // LQIP background, when requested
+  html: string;
+}
@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import { TileService } from './tile.service.js';
+import { TileParamsSchema } from '../../common/validation.js';
+import { ValidationError } from '../../common/errors.js';
+import { sendImage } from '../../common/image-response.js';
+import { ZodError } from 'zod';
+
+export class TileController {
+  private tileService: TileService;
+
+  constructor(tileService: TileService) {
+    this.tileService = tileService;
+  }
+
+  /**
+   * @swagger
+   * /tiles/{taskId}/{file}:
+   *   get:
+   *     summary: Get a file of a task's tile pyramid
+   *     description: |
+   *       Serve the descriptor or a tile of the deep-zoom pyramid generated for the task, by its
+   *       path relative to the pyramid root: image.dzi and image_files/{level}/{col}_{row}.jpeg
+   *       for the dz layout, image/ImageProperties.xml and image/TileGroup{n}/{level}-{col}-{row}.jpg
+   *       for zoomify, image/{z}/{y}/{x}.jpg for google. Pyramids stored as a zip archive are
+   *       served entry by entry with the same paths, so viewers can open either kind.
+   *     tags: [Tiles]
+   *     parameters:
+   *       - in: path
+   *         name: taskId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: task_20250811115246_ipgdc3
+   *       - in: path
+   *         name: file
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Path within the pyramid, slashes included
+   *         example: image.dzi
+   *     responses:
+   *       200:
+   *         description: Descriptor or tile content
+   *         headers:
+   *           ETag:
+   *             schema:
+   *               type: string
+   *           Cache-Control:
+   *             schema:
+   *               type: string
+   *             example: public, max-age=31536000, immutable
+   *         content:
+   *           image/*:
+   *             schema:
+   *               type: string
+   *               format: binary
+   *           application/xml:
+   *             schema:
+   *               type: string
+   *       304:
+   *         description: Not modified since the cached copy
+   *       400:
+   *         description: Invalid path or task not completed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Task, pyramid or file not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async getTile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId, file } = TileParamsSchema.parse(req.params);
+
+      const tile = await this.tileService.getTileFile(taskId, file);
+
+      res.status(200);
+      res.setHeader('Content-Type', tile.contentType);
+      // Viewers load tiles from other origins, which helmet blocks by default
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      sendImage(res, next, tile);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        next(new ValidationError(
+          'Invalid tile request',
+          error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        ));
+        return;
+      }
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { TileController } from './tile.controller.js';
+import { tileService } from './tile.service.js';
+
+// Create controller instance
+const tileController = new TileController(tileService);
+
+// Create router
+const router = Router();
+
+/**
+ * @route GET /tiles/:taskId/*file
+ * @desc Get the descriptor or a tile of a task's deep-zoom pyramid
+ * @access Public
+ */
+router.get('/:taskId/*file', tileController.getTile.bind(tileController));
+
+export default router;
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { tileService } from './tile.service.js';
+import { Task } from '../tasks/task.model.js';
+import { imageService } from '../images/image.service.js';
+import { appConfig } from '../../config/index.js';
+import { NotFoundError, ValidationError } from '../../common/errors.js';
+import type { TileContainer, TilePyramid } from '../images/image.types.js';
+
+// Safe type casting helper
+const asMock = <T>(obj: unknown): T => obj as T;
+
+// Mock dependencies
+vi.mock('../tasks/task.model.js');
+
+type MockTask = {
+  taskId: string;
+  status: 'pending' | 'completed' | 'failed';
+  completedAt?: Date;
+  tiles?: TilePyramid;
+};
+
+const COMPLETED_AT = new Date('2025-08-11T12:00:00Z');
+const KEY = 'd'.repeat(64);
+
+const mockTask = (task: MockTask | null): void => {
+  asMock<{ mockReturnValue: (obj: { exec: () => Promise<MockTask | null> }) => void }>(Task.findOne).mockReturnValue({
+    exec: vi.fn().mockResolvedValue(task),
+  });
+};
+
+describe('TileService', () => {
+  const sourcePath = path.join(process.cwd(), 'test-images', 'tile-test.png');
+  const pyramids = {} as Record<TileContainer, TilePyramid>;
+
+  beforeAll(async () => {
+    fs.mkdirSync(path.dirname(sourcePath), { recursive: true });
+    await sharp({ create: { width: 600, height: 400, channels: 3, background: { r: 0, g: 128, b: 0 } } })
+      .png()
+      .toFile(sourcePath);
+    for (const container of ['fs', 'zip'] as const) {
+      pyramids[container] = await imageService.createTilePyramid(sourcePath, KEY, {
+        layout: 'dz',
+        container,
+        tileSize: 254,
+        overlap: 1,
+        format: 'jpeg',
+      });
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(sourcePath, { force: true });
+    fs.rmSync(path.join(appConfig.outputDir, 'tiles', KEY), { recursive: true, force: true });
+    fs.rmSync(path.join(appConfig.outputDir, 'tiles', `${KEY}.zip`), { force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resolve files of directory pyramids within the pyramid', async () => {
+    mockTask({ taskId: 'task_123', status: 'completed', completedAt: COMPLETED_AT, tiles: pyramids.fs });
+
+    const descriptor = await tileService.getTileFile('task_123', 'image.dzi');
+    const tile = await tileService.getTileFile('task_123', 'image_files/10/0_0.jpeg');
+
+    expect(descriptor).toMatchObject({
+      filePath: path.join(appConfig.outputDir, 'tiles', KEY, 'image.dzi'),
+      contentType: 'application/xml',
+      lastModified: COMPLETED_AT,
+    });
+    expect(tile.contentType).toBe('image/jpeg');
+    expect(tile.etag).toMatch(/^"[a-f0-9]{32}"$/);
+    expect(tile.etag).not.toBe(descriptor.etag);
+  });
+
+  it('should serve files of zip pyramids as byte ranges of the archive', async () => {
+    mockTask({ taskId: 'task_123', status: 'completed', completedAt: COMPLETED_AT, tiles: pyramids.zip });
+
+    const tile = await tileService.getTileFile('task_123', 'image_files/10/0_0.jpeg');
+
+    expect(tile.filePath).toBe(path.join(appConfig.outputDir, 'tiles', `${KEY}.zip`));
+    const data = fs.readFileSync(tile.filePath).subarray(tile.start, (tile.end ?? 0) + 1);
+    const extracted = fs.readFileSync(path.join(appConfig.outputDir, 'tiles', KEY, 'image_files', '10', '0_0.jpeg'));
+    expect(await sharp(data).metadata()).toMatchObject({ format: 'jpeg', width: 255, height: 255 });
+    expect(data.equals(extracted)).toBe(true);
+  });
+
+  it('should report entries missing from zip pyramids', async () => {
+    mockTask({ taskId: 'task_123', status: 'completed', tiles: pyramids.zip });
+
+    await expect(tileService.getTileFile('task_123', 'image_files/99/0_0.jpeg')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should reject tasks without a pyramid or still processing', async () => {
+    mockTask({ taskId: 'task_123', status: 'completed' });
+    await expect(tileService.getTileFile('task_123', 'image.dzi')).rejects.toThrow('Tile pyramid for task');
+
+    mockTask({ taskId: 'task_123', status: 'pending' });
+    await expect(tileService.getTileFile('task_123', 'image.dzi')).rejects.toThrow(ValidationError);
+
+    mockTask(null);
+    await expect(tileService.getTileFile('task_123', 'image.dzi')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Task } from '../tasks/task.model.js';
+import { fileService } from '../images/file.service.js';
+import { readZipEntries, getZipEntryRange, ZIP_STORED } from '../../common/zip.js';
+import { NotFoundError, ProcessingError, ValidationError } from '../../common/errors.js';
+import type { TileFile } from './tile.types.js';
+
+// Descriptors are XML; tiles are typed by their extension
+const DESCRIPTOR_MIME_TYPES: Record<string, string> = {
+  '.dzi': 'application/xml',
+  '.xml': 'application/xml',
+};
+
+export class TileService {
+  /**
+   * Locate a file of a task's tile pyramid, given its path relative to the pyramid root.
+   * Files of zip pyramids are served straight from the archive, as byte ranges.
+   */
+  async getTileFile(taskId: string, file: string): Promise<TileFile> {
+    const task = await Task.findOne({ taskId }).exec();
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
+    }
+    if (task.status !== 'completed') {
+      throw new ValidationError(`Task ${taskId} is not completed`);
+    }
+    if (!task.tiles) {
+      throw new NotFoundError('Tile pyramid for task', taskId);
+    }
+
+    const extension = path.extname(file).toLowerCase();
+    const tile = {
+      contentType: DESCRIPTOR_MIME_TYPES[extension] ?? fileService.getMimeTypeFromExtension(extension),
+      // Pyramids are never rewritten under the same path, so their files can be validated by name
+      etag: `"${crypto.createHash('md5').update(`${task.tiles.path}/${file}`).digest('hex')}"`,
+      lastModified: task.completedAt,
+    };
+    const rootPath = fileService.resolveOutputPath(task.tiles.path);
+
+    if (task.tiles.container === 'fs') {
+      return { ...tile, filePath: path.join(rootPath, file) };
+    }
+
+    const entry = readZipEntries(rootPath).find((candidate) => candidate.name === file);
+    if (!entry) {
+      throw new NotFoundError('Tile', file);
+    }
+    if (entry.method !== ZIP_STORED) {
+      throw new ProcessingError(`Tile ${file} is compressed within its archive`);
+    }
+    return { ...tile, filePath: rootPath, ...getZipEntryRange(rootPath, entry) };
+  }
+}
+
+export const tileService = new TileService();
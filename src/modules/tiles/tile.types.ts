@@ -0,0 +1,6 @@
+import type { ImageFile } from '../../common/image-response.js';
+
+// A file of a tile pyramid ready to be streamed, possibly as a range of a zip archive
+export interface TileFile extends ImageFile {
+  contentType: string;
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import { UploadController } from './upload.controller.js';
+import { UploadService } from './upload.service.js';
+import { PreconditionFailedError, UnsupportedMediaTypeError, ValidationError } from '../../common/errors.js';
+
+// Mock the upload service
+vi.mock('./upload.service.js');
+
+describe('UploadController', () => {
+  let controller: UploadController;
+  let mockUploadService: {
+    getMaxSize: ReturnType<typeof vi.fn>;
+    createUpload: ReturnType<typeof vi.fn>;
+    appendUpload: ReturnType<typeof vi.fn>;
+    receiveDirectUpload: ReturnType<typeof vi.fn>;
+  };
+  let headers: Record<string, string>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const upload = {
+    uploadId: 'a'.repeat(32),
+    taskId: 'task_123',
+    length: 2048,
+    offset: 0,
+    expiresAt: new Date('2025-08-13T10:16:30.000Z'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockUploadService = {
+      getMaxSize: vi.fn().mockReturnValue(26214400),
+      createUpload: vi.fn().mockResolvedValue(upload),
+      appendUpload: vi.fn(),
+      receiveDirectUpload: vi.fn(),
+    };
+    controller = new UploadController(mockUploadService as unknown as UploadService);
+
+    headers = { 'tus-resumable': '1.0.0' };
+    mockRequest = {
+      method: 'POST',
+      baseUrl: '/uploads',
+      params: {},
+      headers,
+      get: vi.fn((name: string) => headers[name.toLowerCase()]) as unknown as Request['get'],
+    };
+    mockResponse = {
+      setHeader: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      end: vi.fn().mockReturnThis(),
+    };
+    mockNext = vi.fn();
+  });
+
+  describe('checkTusResumable', () => {
+    it('should refuse requests for other protocol versions', () => {
+      headers['tus-resumable'] = '0.2.2';
+
+      controller.checkTusResumable(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Tus-Resumable', '1.0.0');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Tus-Version', '1.0.0');
+      expect(mockNext).toHaveBeenCalledWith(expect.any(PreconditionFailedError));
+    });
+
+    it('should let OPTIONS requests through without a version', () => {
+      delete headers['tus-resumable'];
+      mockRequest.method = 'OPTIONS';
+
+      controller.checkTusResumable(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('createUpload', () => {
+    it('should create an upload and point to it', async () => {
+      headers['upload-length'] = '2048';
+      headers['upload-metadata'] = 'filetype aW1hZ2UvcG5n';
+
+      await controller.createUpload(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockUploadService.createUpload).toHaveBeenCalledWith(2048, 'filetype aW1hZ2UvcG5n');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Location', `/uploads/${'a'.repeat(32)}`);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Upload-Expires', 'Wed, 13 Aug 2025 10:16:30 GMT');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Task-Id', 'task_123');
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: upload });
+    });
+
+    it('should require a numeric Upload-Length', async () => {
+      headers['upload-length'] = '-1';
+
+      await controller.createUpload(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationError));
+      expect(mockUploadService.createUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('appendUpload', () => {
+    beforeEach(() => {
+      mockRequest.method = 'PATCH';
+      mockRequest.params = { uploadId: 'a'.repeat(32) };
+      headers['upload-offset'] = '0';
+    });
+
+    it('should refuse bodies that are not offset octet streams', async () => {
+      headers['content-type'] = 'application/octet-stream';
+
+      await controller.appendUpload(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(UnsupportedMediaTypeError));
+      expect(mockUploadService.appendUpload).not.toHaveBeenCalled();
+    });
+
+    it('should stream the body to the upload and report the new offset', async () => {
+      headers['content-type'] = 'application/offset+octet-stream';
+      mockUploadService.appendUpload.mockResolvedValue({ ...upload, offset: 2048, completedAt: new Date() });
+
+      await controller.appendUpload(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockUploadService.appendUpload).toHaveBeenCalledWith('a'.repeat(32), 0, mockRequest);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Upload-Offset', '2048');
+      expect(mockResponse.setHeader).not.toHaveBeenCalledWith('Upload-Expires', expect.anything());
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+  });
+
+  describe('receiveDirectUpload', () => {
+    beforeEach(() => {
+      mockRequest.method = 'PUT';
+      mockRequest.query = { expires: '1754908190', signature: 'abc' };
+      delete headers['tus-resumable'];
+      headers['content-type'] = 'image/png';
+      headers['content-length'] = '2048';
+    });
+
+    it('should hand the body to the task awaiting it and accept it for processing', async () => {
+      mockRequest.params = { token: 'b'.repeat(32) };
+      mockUploadService.receiveDirectUpload.mockResolvedValue({ taskId: 'task_123', status: 'pending', price: 25 });
+
+      await controller.receiveDirectUpload(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockUploadService.receiveDirectUpload).toHaveBeenCalledWith(
+        'b'.repeat(32),
+        { expires: '1754908190', signature: 'abc' },
+        'image/png',
+        2048,
+        mockRequest
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: { taskId: 'task_123', status: 'pending', price: 25, message: 'Image received. Image processing started.' },
+      });
+    });
+
+    it('should refuse malformed tokens', async () => {
+      mockRequest.params = { token: '../etc/passwd' };
+
+      await controller.receiveDirectUpload(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationError));
+      expect(mockUploadService.receiveDirectUpload).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,427 @@
+import { Request, Response, NextFunction } from 'express';
+import { UploadService } from './upload.service.js';
+import {
+  DirectUploadParamsSchema,
+  UploadCreationHeadersSchema,
+  UploadParamsSchema,
+  UploadPatchHeadersSchema,
+} from '../../common/validation.js';
+import { PreconditionFailedError, UnsupportedMediaTypeError, ValidationError } from '../../common/errors.js';
+import { ZodError } from 'zod';
+import type { UploadResult } from './upload.types.js';
+
+// tus protocol version and the extensions implemented on top of its core
+const TUS_VERSION = '1.0.0';
+const TUS_EXTENSIONS = ['creation', 'expiration', 'termination'];
+
+// Content type of PATCH request bodies
+const OFFSET_OCTET_STREAM = 'application/offset+octet-stream';
+
+// Response headers browser clients need to read across origins
+export const UPLOAD_EXPOSED_HEADERS = [
+  'Location',
+  'Tus-Resumable',
+  'Tus-Version',
+  'Tus-Extension',
+  'Tus-Max-Size',
+  'Upload-Offset',
+  'Upload-Length',
+  'Upload-Metadata',
+  'Upload-Expires',
+  'Task-Id',
+];
+
+export class UploadController {
+  private uploadService: UploadService;
+
+  constructor(uploadService: UploadService) {
+    this.uploadService = uploadService;
+  }
+
+  /**
+   * Announce the protocol version on every response and refuse requests for other versions.
+   * OPTIONS requests are exempt, since clients send them to discover the version.
+   */
+  checkTusResumable(req: Request, res: Response, next: NextFunction): void {
+    if (req.method === 'OPTIONS') {
+      next();
+      return;
+    }
+
+    res.setHeader('Tus-Resumable', TUS_VERSION);
+    if (req.get('Tus-Resumable') !== TUS_VERSION) {
+      res.setHeader('Tus-Version', TUS_VERSION);
+      next(new PreconditionFailedError(`Unsupported tus version, expected Tus-Resumable: ${TUS_VERSION}`));
+      return;
+    }
+    next();
+  }
+
+  /**
+   * @swagger
+   * /uploads:
+   *   options:
+   *     summary: Discover the tus capabilities of the server
+   *     tags: [Uploads]
+   *     responses:
+   *       204:
+   *         description: Supported protocol versions, extensions and maximum upload size
+   *         headers:
+   *           Tus-Version:
+   *             schema:
+   *               type: string
+   *             example: 1.0.0
+   *           Tus-Extension:
+   *             schema:
+   *               type: string
+   *             example: creation,expiration,termination
+   *           Tus-Max-Size:
+   *             schema:
+   *               type: integer
+   *             example: 26214400
+   */
+  getCapabilities(_req: Request, res: Response): void {
+    res.setHeader('Tus-Version', TUS_VERSION);
+    res.setHeader('Tus-Extension', TUS_EXTENSIONS.join(','));
+    res.setHeader('Tus-Max-Size', String(this.uploadService.getMaxSize()));
+    res.status(204).end();
+  }
+
+  /**
+   * @swagger
+   * /uploads:
+   *   post:
+   *     summary: Create a resumable upload
+   *     description: |
+   *       Create a tus upload of Upload-Length bytes, together with the pending task its image is
+   *       processed by once the upload completes. Upload-Metadata carries filename and filetype
+   *       and, optionally, the processing options of the task, encoded as for multipart requests
+   *       (resolutions, formats, operations, watermark and tiles as JSON).
+   *     tags: [Uploads]
+   *     parameters:
+   *       - $ref: '#/components/parameters/TusResumable'
+   *       - in: header
+   *         name: Upload-Length
+   *         required: true
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *         description: Size of the whole file in bytes, at most MAX_DOWNLOAD_MB
+   *       - in: header
+   *         name: Upload-Metadata
+   *         schema:
+   *           type: string
+   *         description: Comma-separated keys, each followed by a space and its base64 encoded value
+   *         example: filename cGhvdG8uanBn,filetype aW1hZ2UvanBlZw==,resolutions W3sid2lkdGgiOjgwMH1d
+   *     responses:
+   *       201:
+   *         description: Upload created
+   *         headers:
+   *           Location:
+   *             schema:
+   *               type: string
+   *             example: /uploads/3f2a9c4e0b7d4b1e8a6f5c2d1e0f9a8b
+   *           Upload-Expires:
+   *             schema:
+   *               type: string
+   *             example: Wed, 13 Aug 2025 10:16:30 GMT
+   *           Task-Id:
+   *             schema:
+   *               type: string
+   *             example: task_20250812101630_abc123
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/UploadResponse'
+   *       400:
+   *         description: Invalid headers, metadata or processing options
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       412:
+   *         description: Unsupported tus version
+   *       413:
+   *         description: Upload-Length larger than MAX_DOWNLOAD_MB
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  async createUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const headers = UploadCreationHeadersSchema.parse(req.headers);
+
+      const upload = await this.uploadService.createUpload(headers['upload-length'], headers['upload-metadata']);
+
+      res.setHeader('Location', `${req.baseUrl}/${upload.uploadId}`);
+      this.setUploadHeaders(res, upload);
+      res.status(201).json({
+        success: true,
+        data: upload,
+      });
+    } catch (error) {
+      next(this.toValidationError(error, 'Invalid upload request'));
+    }
+  }
+
+  /**
+   * @swagger
+   * /uploads/{uploadId}:
+   *   head:
+   *     summary: Get the offset of an upload to resume it
+   *     tags: [Uploads]
+   *     parameters:
+   *       - $ref: '#/components/parameters/TusResumable'
+   *       - $ref: '#/components/parameters/UploadId'
+   *     responses:
+   *       200:
+   *         description: Bytes received so far
+   *         headers:
+   *           Upload-Offset:
+   *             schema:
+   *               type: integer
+   *           Upload-Length:
+   *             schema:
+   *               type: integer
+   *           Upload-Metadata:
+   *             schema:
+   *               type: string
+   *           Upload-Expires:
+   *             schema:
+   *               type: string
+   *           Task-Id:
+   *             schema:
+   *               type: string
+   *       404:
+   *         description: Upload not found
+   *       410:
+   *         description: Upload expired
+   */
+  async getUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { uploadId } = UploadParamsSchema.parse(req.params);
+
+      const upload = await this.uploadService.getUpload(uploadId);
+
+      res.setHeader('Upload-Length', String(upload.length));
+      if (upload.metadata) {
+        res.setHeader('Upload-Metadata', upload.metadata);
+      }
+      res.setHeader('Cache-Control', 'no-store');
+      this.setUploadHeaders(res, upload);
+      res.status(200).end();
+    } catch (error) {
+      next(this.toValidationError(error, 'Invalid upload request'));
+    }
+  }
+
+  /**
+   * @swagger
+   * /uploads/{uploadId}:
+   *   patch:
+   *     summary: Append data to an upload
+   *     description: |
+   *       Write the request body at Upload-Offset, which must equal the upload's current offset.
+   *       Data received before a connection drops is kept. The chunk that completes the upload
+   *       starts processing of its task.
+   *     tags: [Uploads]
+   *     parameters:
+   *       - $ref: '#/components/parameters/TusResumable'
+   *       - $ref: '#/components/parameters/UploadId'
+   *       - in: header
+   *         name: Upload-Offset
+   *         required: true
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/offset+octet-stream:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *     responses:
+   *       204:
+   *         description: Data written
+   *         headers:
+   *           Upload-Offset:
+   *             schema:
+   *               type: integer
+   *           Upload-Expires:
+   *             schema:
+   *               type: string
+   *       404:
+   *         description: Upload not found
+   *       409:
+   *         description: Upload-Offset does not match the upload's offset
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       410:
+   *         description: Upload expired
+   *       413:
+   *         description: More data than Upload-Length
+   *       415:
+   *         description: Content-Type is not application/offset+octet-stream
+   */
+  async appendUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (req.get('Content-Type')?.split(';')[0]?.trim().toLowerCase() !== OFFSET_OCTET_STREAM) {
+        throw new UnsupportedMediaTypeError(`Content-Type must be ${OFFSET_OCTET_STREAM}`);
+      }
+      const { uploadId } = UploadParamsSchema.parse(req.params);
+      const headers = UploadPatchHeadersSchema.parse(req.headers);
+
+      const upload = await this.uploadService.appendUpload(uploadId, headers['upload-offset'], req);
+
+      this.setUploadHeaders(res, upload);
+      res.status(204).end();
+    } catch (error) {
+      next(this.toValidationError(error, 'Invalid upload request'));
+    }
+  }
+
+  /**
+   * @swagger
+   * /uploads/{uploadId}:
+   *   delete:
+   *     summary: Terminate an upload
+   *     description: Discard an upload's data. Its task fails unless the upload had completed.
+   *     tags: [Uploads]
+   *     parameters:
+   *       - $ref: '#/components/parameters/TusResumable'
+   *       - $ref: '#/components/parameters/UploadId'
+   *     responses:
+   *       204:
+   *         description: Upload terminated
+   *       404:
+   *         description: Upload not found
+   */
+  async terminateUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { uploadId } = UploadParamsSchema.parse(req.params);
+
+      await this.uploadService.terminateUpload(uploadId);
+
+      res.status(204).end();
+    } catch (error) {
+      next(this.toValidationError(error, 'Invalid upload request'));
+    }
+  }
+
+  /**
+   * @swagger
+   * /uploads/{token}:
+   *   put:
+   *     summary: Upload the image of a task created with source "upload"
+   *     description: |
+   *       Send the image as the whole request body to the presigned URL returned on task creation,
+   *       with its type as Content-Type. The task leaves awaiting_upload and starts processing.
+   *       Transfers that fail or are refused before the image is complete can be retried until the
+   *       URL expires. This is not a tus request, so Tus-Resumable is not needed.
+   *     tags: [Uploads]
+   *     parameters:
+   *       - in: path
+   *         name: token
+   *         required: true
+   *         schema:
+   *           type: string
+   *           pattern: '^[a-f0-9]{32}$'
+   *       - in: query
+   *         name: expires
+   *         required: true
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: signature
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         image/*:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *     responses:
+   *       202:
+   *         description: Image received, processing started
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CreateTaskResponse'
+   *       400:
+   *         description: Invalid token or empty body
+   *       403:
+   *         description: Missing, invalid or expired signature
+   *       404:
+   *         description: No task awaits this upload
+   *       409:
+   *         description: The task already received its image
+   *       410:
+   *         description: The task's upload expired
+   *       413:
+   *         description: Image larger than MAX_DOWNLOAD_MB or beyond the input pixel limits
+   *       415:
+   *         description: Content-Type is not an allowed image type
+   *       422:
+   *         description: The body is not a valid image of its Content-Type
+   */
+  async receiveDirectUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = DirectUploadParamsSchema.parse(req.params);
+      const contentLength = req.get('Content-Length');
+
+      const task = await this.uploadService.receiveDirectUpload(
+        token,
+        req.query,
+        req.get('Content-Type'),
+        contentLength === undefined ? undefined : Number(contentLength),
+        req
+      );
+
+      res.status(202).json({
+        success: true,
+        data: {
+          taskId: task.taskId,
+          status: task.status,
+          price: task.price,
+          message: 'Image received. Image processing started.',
+        },
+      });
+    } catch (error) {
+      next(this.toValidationError(error, 'Invalid upload request'));
+    }
+  }
+
+  /**
+   * Set the headers describing an upload's progress. Finished uploads no longer expire.
+   */
+  private setUploadHeaders(res: Response, upload: UploadResult): void {
+    res.setHeader('Upload-Offset', String(upload.offset));
+    if (!upload.completedAt) {
+      res.setHeader('Upload-Expires', upload.expiresAt.toUTCString());
+    }
+    res.setHeader('Task-Id', upload.taskId);
+  }
+
+  /**
+   * Convert a ZodError to a ValidationError, passing other errors through
+   */
+  private toValidationError(error: unknown, message: string): unknown {
+    if (error instanceof ZodError) {
+      return new ValidationError(
+        message,
+        error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        }))
+      );
+    }
+    return error;
+  }
+}
@@ -0,0 +1,58 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IUpload } from './upload.types.js';
+
+// State of a resumable tus upload; its data lives in the temp directory
+const UploadSchema = new Schema<IUpload>(
+  {
+    uploadId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    taskId: {
+      type: String,
+      required: true,
+    },
+    length: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    offset: {
+      type: Number,
+      required: true,
+      min: 0,
+      default: 0,
+    },
+    metadata: {
+      type: String,
+    },
+    filename: {
+      type: String,
+    },
+    filetype: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'uploads',
+  }
+);
+
+// Expired uploads are swept when new ones are created
+UploadSchema.index({ expiresAt: 1 });
+
+export const Upload = mongoose.model<IUpload>('Upload', UploadSchema);
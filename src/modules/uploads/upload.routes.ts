@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { UploadController } from './upload.controller.js';
+import { uploadService } from './upload.service.js';
+
+// Create controller instance
+const uploadController = new UploadController(uploadService);
+
+// Create router
+const router = Router();
+
+/**
+ * @route PUT /uploads/:token
+ * @desc Upload the image of a task awaiting a direct upload through its presigned URL
+ * @access Signed URL
+ */
+router.put('/:token', uploadController.receiveDirectUpload.bind(uploadController));
+
+// Every route below speaks tus
+router.use(uploadController.checkTusResumable.bind(uploadController));
+
+/**
+ * @route OPTIONS /uploads
+ * @desc Get the tus version, extensions and maximum size supported by the server
+ * @access Public
+ */
+router.options(['/', '/:uploadId'], uploadController.getCapabilities.bind(uploadController));
+
+/**
+ * @route POST /uploads
+ * @desc Create a resumable tus upload and the pending task that processes it
+ * @access Public
+ */
+router.post('/', uploadController.createUpload.bind(uploadController));
+
+/**
+ * @route HEAD /uploads/:uploadId
+ * @desc Get the offset to resume an upload from
+ * @access Public
+ */
+router.head('/:uploadId', uploadController.getUpload.bind(uploadController));
+
+/**
+ * @route PATCH /uploads/:uploadId
+ * @desc Append data to an upload, starting its task once complete
+ * @access Public
+ */
+router.patch('/:uploadId', uploadController.appendUpload.bind(uploadController));
+
+/**
+ * @route DELETE /uploads/:uploadId
+ * @desc Terminate an upload and fail its task
+ * @access Public
+ */
+router.delete('/:uploadId', uploadController.terminateUpload.bind(uploadController));
+
+export default router;
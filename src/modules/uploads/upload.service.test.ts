@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { UploadService } from './upload.service.js';
+import { Upload } from './upload.model.js';
+import { taskService } from '../tasks/task.service.js';
+import { fileService } from '../images/file.service.js';
+import { appConfig } from '../../config/index.js';
+import {
+  ConflictError,
+  GoneError,
+  InvalidImageError,
+  PayloadTooLargeError,
+  SignatureError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from '../../common/errors.js';
+import type { Document } from 'mongoose';
+import type { IUpload } from './upload.types.js';
+
+// Mock dependencies
+vi.mock('./upload.model.js');
+vi.mock('../tasks/task.service.js');
+vi.mock('../images/file.service.js');
+
+// Upload fields without the document methods
+type MockUpload = Omit<IUpload, keyof Document>;
+
+const encode = (value: string): string => Buffer.from(value).toString('base64');
+
+describe('UploadService', () => {
+  let uploadService: UploadService;
+  let tempDir: string;
+  const configuredTempDir = appConfig.tempDir;
+
+  const createMockUpload = (overrides: Partial<MockUpload> = {}): MockUpload => ({
+    uploadId: 'a'.repeat(32),
+    taskId: 'task_123',
+    length: 8,
+    offset: 0,
+    filename: 'photo.png',
+    filetype: 'image/png',
+    path: path.join(tempDir, 'uploads', `${'a'.repeat(32)}.png`),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const mockFindOne = (upload: MockUpload | null): void => {
+    vi.mocked(Upload.findOne).mockReturnValue({
+      exec: vi.fn().mockResolvedValue(upload),
+    } as unknown as ReturnType<typeof Upload.findOne>);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+    fs.mkdirSync(path.join(tempDir, 'uploads'));
+    appConfig.tempDir = tempDir;
+    uploadService = new UploadService();
+
+    vi.mocked(Upload.find).mockReturnValue({
+      exec: vi.fn().mockResolvedValue([]),
+    } as unknown as ReturnType<typeof Upload.find>);
+    vi.mocked(Upload.deleteOne).mockReturnValue({
+      exec: vi.fn().mockResolvedValue({ deletedCount: 1 }),
+    } as unknown as ReturnType<typeof Upload.deleteOne>);
+    vi.mocked(Upload.findOneAndUpdate).mockImplementation(((filter: Partial<MockUpload>, update: Partial<MockUpload>) => ({
+      exec: vi.fn().mockResolvedValue({ ...createMockUpload(filter), ...update }),
+    })) as unknown as typeof Upload.findOneAndUpdate);
+    vi.mocked(fileService.getExtensionFromMimeType).mockReturnValue('png');
+  });
+
+  afterEach(() => {
+    appConfig.tempDir = configuredTempDir;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createUpload', () => {
+    it('should create an empty file and a pending task with the options from the metadata', async () => {
+      vi.mocked(taskService.createPendingTask).mockResolvedValue({
+        taskId: 'task_123',
+        status: 'pending',
+        price: 25,
+        cacheHit: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      vi.mocked(Upload.create).mockImplementation((async (doc: MockUpload) => ({
+        ...doc,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })) as unknown as typeof Upload.create);
+      const metadata = `filename ${encode('photo.png')},filetype ${encode('image/png')},formats ${encode('[{"format":"webp"}]')},is_private`;
+
+      const result = await uploadService.createUpload(2048, metadata);
+
+      expect(result.uploadId).toMatch(/^[a-f0-9]{32}$/);
+      expect(result).toMatchObject({ taskId: 'task_123', length: 2048, offset: 0, metadata });
+      expect(taskService.createPendingTask).toHaveBeenCalledWith({ formats: [{ format: 'webp' }] }, result.uploadId);
+      expect(fs.statSync(path.join(tempDir, 'uploads', `${result.uploadId}.png`)).size).toBe(0);
+    });
+
+    it('should reject invalid metadata and sizes before creating anything', async () => {
+      await expect(uploadService.createUpload(2048, 'filename photo.png')).rejects.toThrow(ValidationError);
+      await expect(uploadService.createUpload(2048, `filetype ${encode('text/plain')}`)).rejects.toThrow(
+        'File type must be one of'
+      );
+      await expect(
+        uploadService.createUpload(2048, `filetype ${encode('image/png')},formats ${encode('webp')}`)
+      ).rejects.toThrow('Invalid JSON');
+      await expect(uploadService.createUpload(0)).rejects.toThrow('Upload must not be empty');
+      await expect(uploadService.createUpload(uploadService.getMaxSize() + 1)).rejects.toThrow(PayloadTooLargeError);
+
+      expect(taskService.createPendingTask).not.toHaveBeenCalled();
+      expect(fs.readdirSync(path.join(tempDir, 'uploads'))).toEqual([]);
+    });
+  });
+
+  describe('appendUpload', () => {
+    it('should write chunks at their offset and start the task once the upload completes', async () => {
+      const upload = createMockUpload();
+      fs.writeFileSync(upload.path, '');
+
+      mockFindOne(upload);
+      const partial = await uploadService.appendUpload(upload.uploadId, 0, Readable.from([Buffer.from('abcd')]));
+
+      expect(partial.offset).toBe(4);
+      expect(partial.completedAt).toBeUndefined();
+      expect(taskService.startUploadedTask).not.toHaveBeenCalled();
+
+      mockFindOne({ ...upload, offset: 4 });
+      const complete = await uploadService.appendUpload(upload.uploadId, 4, Readable.from([Buffer.from('efgh')]));
+
+      expect(complete.offset).toBe(8);
+      expect(complete.completedAt).toBeInstanceOf(Date);
+      expect(Upload.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { uploadId: upload.uploadId, offset: 4 },
+        expect.objectContaining({ offset: 8, completedAt: expect.any(Date) }),
+        { new: true }
+      );
+      expect(taskService.startUploadedTask).toHaveBeenCalledWith('task_123', {
+        path: upload.path,
+        name: 'photo.png',
+        size: 8,
+        type: 'image/png',
+      });
+      expect(fs.readFileSync(upload.path, 'utf8')).toBe('abcdefgh');
+    });
+
+    it('should fail the task instead of starting it when the file is not the declared image', async () => {
+      const upload = createMockUpload();
+      fs.writeFileSync(upload.path, '');
+      mockFindOne(upload);
+      vi.mocked(fileService.inspectImage).mockRejectedValueOnce(
+        new InvalidImageError('IMAGE_TYPE_MISMATCH', 'Image declared as image/png is actually image/gif')
+      );
+
+      await expect(
+        uploadService.appendUpload(upload.uploadId, 0, Readable.from([Buffer.from('GIF89a..')]))
+      ).rejects.toThrow(InvalidImageError);
+      expect(fileService.inspectImage).toHaveBeenCalledWith(upload.path, 'image/png');
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith(upload.path);
+      expect(taskService.abandonUploadedTask).toHaveBeenCalledWith(
+        'task_123',
+        'Image declared as image/png is actually image/gif',
+        'IMAGE_TYPE_MISMATCH'
+      );
+      expect(taskService.startUploadedTask).not.toHaveBeenCalled();
+    });
+
+    it('should refuse offsets that do not match the upload', async () => {
+      mockFindOne(createMockUpload({ offset: 4 }));
+
+      await expect(
+        uploadService.appendUpload('a'.repeat(32), 0, Readable.from([Buffer.from('abcd')]))
+      ).rejects.toThrow(ConflictError);
+      expect(Upload.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse data beyond the upload length', async () => {
+      const upload = createMockUpload({ length: 4 });
+      fs.writeFileSync(upload.path, '');
+      mockFindOne(upload);
+
+      await expect(
+        uploadService.appendUpload(upload.uploadId, 0, Readable.from([Buffer.from('abcdefgh')]))
+      ).rejects.toThrow(PayloadTooLargeError);
+      expect(fs.statSync(upload.path).size).toBe(0);
+      expect(taskService.startUploadedTask).not.toHaveBeenCalled();
+    });
+
+    it('should discard expired uploads and fail their task', async () => {
+      const upload = createMockUpload({ expiresAt: new Date(Date.now() - 1000) });
+      mockFindOne(upload);
+
+      await expect(
+        uploadService.appendUpload(upload.uploadId, 0, Readable.from([Buffer.from('abcd')]))
+      ).rejects.toThrow(GoneError);
+      expect(Upload.deleteOne).toHaveBeenCalledWith({ uploadId: upload.uploadId });
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith(upload.path);
+      expect(taskService.abandonUploadedTask).toHaveBeenCalledWith('task_123', 'Upload expired before it was completed');
+    });
+  });
+
+  describe('terminateUpload', () => {
+    it('should keep the file of a completed upload for its task', async () => {
+      const upload = createMockUpload({ offset: 8, completedAt: new Date() });
+      mockFindOne(upload);
+
+      await uploadService.terminateUpload(upload.uploadId);
+
+      expect(Upload.deleteOne).toHaveBeenCalledWith({ uploadId: upload.uploadId });
+      expect(fileService.cleanupTempFile).not.toHaveBeenCalled();
+      expect(taskService.abandonUploadedTask).not.toHaveBeenCalled();
+    });
+
+    it('should remove the data of an unfinished upload and fail its task', async () => {
+      const upload = createMockUpload({ offset: 4 });
+      mockFindOne(upload);
+
+      await uploadService.terminateUpload(upload.uploadId);
+
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith(upload.path);
+      expect(taskService.abandonUploadedTask).toHaveBeenCalledWith('task_123', 'Upload was terminated');
+    });
+  });
+
+  describe('direct uploads', () => {
+    const awaitingTask = {
+      taskId: 'task_123',
+      status: 'awaiting_upload' as const,
+      price: 25,
+      cacheHit: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    // Signed URL of a direct upload, split into its token and query parameters
+    const createSignedUpload = async (): Promise<{ token: string; query: Record<string, string> }> => {
+      const { upload } = await uploadService.createDirectUpload({});
+      const url = new URL(upload.url, 'http://localhost');
+      return { token: url.pathname.split('/').pop() ?? '', query: Object.fromEntries(url.searchParams) };
+    };
+
+    beforeEach(() => {
+      vi.mocked(taskService.createAwaitingUploadTask).mockResolvedValue(awaitingTask);
+      vi.mocked(taskService.getAwaitingUploadTask).mockResolvedValue(awaitingTask);
+      vi.mocked(taskService.claimAwaitingUploadTask).mockResolvedValue({ ...awaitingTask, status: 'pending' });
+    });
+
+    it('should create a task awaiting its image with a signed, expiring upload URL', async () => {
+      const before = Date.now();
+
+      const { task, upload } = await uploadService.createDirectUpload({
+        imageUrl: undefined,
+        source: 'upload',
+        resolutions: [{ width: 640 }],
+      });
+
+      expect(task).toBe(awaitingTask);
+      expect(upload.method).toBe('PUT');
+      expect(upload.url).toMatch(/^\/uploads\/[a-f0-9]{32}\?expires=\d+&signature=[\w-]+$/);
+      expect(upload.expiresAt.getTime()).toBeGreaterThan(before + (appConfig.directUploadExpiration * 60 - 1) * 1000);
+      expect(taskService.expireAwaitingUploads).toHaveBeenCalled();
+      expect(taskService.createAwaitingUploadTask).toHaveBeenCalledWith(
+        { resolutions: [{ width: 640 }] },
+        upload.url.slice('/uploads/'.length, '/uploads/'.length + 32),
+        upload.expiresAt
+      );
+    });
+
+    it('should stream the image to the temp directory and start the claimed task', async () => {
+      const { token, query } = await createSignedUpload();
+
+      const task = await uploadService.receiveDirectUpload(token, query, 'image/png', 8, Readable.from([Buffer.from('abcdefgh')]));
+
+      expect(task.status).toBe('pending');
+      expect(taskService.claimAwaitingUploadTask).toHaveBeenCalledWith(token);
+      const file = vi.mocked(taskService.startUploadedTask).mock.calls[0]?.[1];
+      expect(file).toMatchObject({ size: 8, type: 'image/png' });
+      expect(fileService.inspectImage).toHaveBeenCalledWith(file?.path, 'image/png');
+      expect(fs.readFileSync(file?.path ?? '', 'utf8')).toBe('abcdefgh');
+    });
+
+    it('should refuse unsigned or tampered URLs and bodies that are no allowed image type', async () => {
+      const { token, query } = await createSignedUpload();
+      const body = (): Readable => Readable.from([Buffer.from('abcd')]);
+
+      await expect(uploadService.receiveDirectUpload(token, {}, 'image/png', 4, body())).rejects.toThrow(SignatureError);
+      await expect(
+        uploadService.receiveDirectUpload(token, { ...query, expires: String(Number(query['expires']) + 3600) }, 'image/png', 4, body())
+      ).rejects.toThrow('Invalid signature');
+      await expect(uploadService.receiveDirectUpload(token, query, 'text/plain', 4, body())).rejects.toThrow(
+        UnsupportedMediaTypeError
+      );
+      await expect(
+        uploadService.receiveDirectUpload(token, query, 'image/png', uploadService.getMaxSize() + 1, body())
+      ).rejects.toThrow(PayloadTooLargeError);
+
+      expect(taskService.getAwaitingUploadTask).not.toHaveBeenCalled();
+    });
+
+    it('should remove the file when another request already claimed the task', async () => {
+      const { token, query } = await createSignedUpload();
+      vi.mocked(taskService.claimAwaitingUploadTask).mockRejectedValueOnce(
+        new ConflictError('Task is no longer awaiting an upload')
+      );
+
+      await expect(
+        uploadService.receiveDirectUpload(token, query, 'image/png', 4, Readable.from([Buffer.from('abcd')]))
+      ).rejects.toThrow(ConflictError);
+      expect(fileService.cleanupTempFile).toHaveBeenCalledWith(expect.stringContaining(path.join(tempDir, 'uploads', token)));
+      expect(taskService.startUploadedTask).not.toHaveBeenCalled();
+    });
+  });
+});
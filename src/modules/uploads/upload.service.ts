@@ -0,0 +1,404 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import { Upload } from './upload.model.js';
+import { taskService } from '../tasks/task.service.js';
+import { fileService } from '../images/file.service.js';
+import { signatureService } from '../signatures/signature.service.js';
+import { appConfig } from '../../config/index.js';
+import { TaskOptionFieldsSchema, UploadFileMetadataSchema } from '../../common/validation.js';
+import {
+  ConflictError,
+  GoneError,
+  ImageTooLargeError,
+  InvalidImageError,
+  NotFoundError,
+  PayloadTooLargeError,
+  ProcessingError,
+  SignatureError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from '../../common/errors.js';
+import type { FileInfo } from '../images/image.types.js';
+import type { CreateTaskRequest, TaskOptions, TaskResult } from '../tasks/task.types.js';
+import type { DirectUploadResult, IUpload, UploadResult } from './upload.types.js';
+
+// Partial uploads are kept apart from the other temp files
+const UPLOADS_DIR = 'uploads';
+
+// Where the upload routes are mounted
+const UPLOADS_ROUTE = '/uploads';
+
+// Upload-Metadata values are base64 encoded
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export class UploadService {
+  // Uploads receiving data in this process, since tus leaves concurrent writes to the server
+  private readonly writing = new Set<string>();
+
+  /**
+   * Largest upload accepted, in bytes
+   */
+  getMaxSize(): number {
+    return appConfig.maxDownloadSize * 1024 * 1024;
+  }
+
+  /**
+   * Create an empty upload of `length` bytes with a pending task that receives the file once
+   * it is complete. Processing options travel in the metadata, next to filename and filetype.
+   */
+  async createUpload(length: number, metadataHeader?: string): Promise<UploadResult> {
+    if (length === 0) {
+      throw new ValidationError('Upload must not be empty', [{ field: 'Upload-Length', message: 'Must be at least 1' }]);
+    }
+    if (length > this.getMaxSize()) {
+      throw new PayloadTooLargeError(`Upload size exceeds maximum allowed size of ${appConfig.maxDownloadSize}MB`);
+    }
+
+    const { filename, filetype, ...fields } = this.parseMetadata(metadataHeader);
+    const file = UploadFileMetadataSchema.parse({
+      filename,
+      filetype: filetype ?? (filename ? fileService.getMimeTypeFromExtension(path.extname(filename)) : undefined),
+    });
+    // Clients add metadata of their own, such as name and relativePath, so other keys are ignored
+    const options = TaskOptionFieldsSchema.parse(
+      Object.fromEntries(Object.entries(fields).filter(([key]) => key in TaskOptionFieldsSchema.shape))
+    );
+
+    await this.removeExpiredUploads();
+
+    const uploadId = crypto.randomBytes(16).toString('hex');
+    const filePath = path.join(
+      appConfig.tempDir,
+      UPLOADS_DIR,
+      `${uploadId}.${fileService.getExtensionFromMimeType(file.filetype)}`
+    );
+
+    let taskId: string | undefined;
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, '');
+
+      taskId = (await taskService.createPendingTask(options, uploadId)).taskId;
+      const upload = await Upload.create({
+        uploadId,
+        taskId,
+        length,
+        offset: 0,
+        metadata: metadataHeader,
+        filename: file.filename,
+        filetype: file.filetype,
+        path: filePath,
+        expiresAt: this.nextExpiry(),
+      });
+
+      return this.mapUploadToResult(upload);
+    } catch (error) {
+      await fileService.cleanupTempFile(filePath);
+      if (taskId) {
+        await taskService.abandonUploadedTask(taskId, 'Upload could not be created');
+      }
+      throw new ProcessingError(
+        `Failed to create upload: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get the state of an upload, to resume it from its offset
+   */
+  async getUpload(uploadId: string): Promise<UploadResult> {
+    return this.mapUploadToResult(await this.findActiveUpload(uploadId));
+  }
+
+  /**
+   * Write a chunk at `offset`, which must be the upload's current offset. Data received before
+   * the connection dropped is kept, so clients can resume from the new offset. The last chunk
+   * hands the file to the upload's task.
+   */
+  async appendUpload(uploadId: string, offset: number, data: Readable): Promise<UploadResult> {
+    const upload = await this.findActiveUpload(uploadId);
+
+    if (offset !== upload.offset) {
+      throw new ConflictError(`Upload-Offset ${offset} does not match the upload's offset ${upload.offset}`);
+    }
+    if (this.writing.has(uploadId)) {
+      throw new ConflictError('Upload is already receiving data');
+    }
+
+    this.writing.add(uploadId);
+    try {
+      const limit = this.limitSize(upload.length - upload.offset, 'Upload data exceeds its Upload-Length');
+      const output = fs.createWriteStream(upload.path, { flags: 'r+', start: upload.offset });
+
+      let failure: unknown;
+      try {
+        await pipeline(data, limit, output);
+      } catch (error) {
+        failure = error;
+      }
+
+      const newOffset = upload.offset + output.bytesWritten;
+      const completed = newOffset === upload.length && !upload.completedAt;
+      const updated = await Upload.findOneAndUpdate(
+        { uploadId, offset: upload.offset },
+        {
+          offset: newOffset,
+          expiresAt: this.nextExpiry(),
+          ...(completed && { completedAt: new Date() }),
+        },
+        { new: true }
+      ).exec();
+
+      if (!updated) {
+        throw new ConflictError('Upload was modified concurrently');
+      }
+      // Excess data is refused, but the file is complete and belongs to the task all the same
+      if (completed) {
+        await this.startTask(updated.taskId, {
+          path: updated.path,
+          name: updated.filename || path.basename(updated.path),
+          size: updated.length,
+          type: updated.filetype,
+        });
+      }
+      if (failure) {
+        throw failure;
+      }
+
+      return this.mapUploadToResult(updated);
+    } finally {
+      this.writing.delete(uploadId);
+    }
+  }
+
+  /**
+   * Terminate an upload, discarding its data and failing its task unless it already finished
+   */
+  async terminateUpload(uploadId: string): Promise<void> {
+    const upload = await Upload.findOne({ uploadId }).exec();
+
+    if (!upload) {
+      throw new NotFoundError('Upload', uploadId);
+    }
+    if (this.writing.has(uploadId)) {
+      throw new ConflictError('Upload is receiving data');
+    }
+
+    await this.discardUpload(upload, 'Upload was terminated');
+  }
+
+  /**
+   * Create a task awaiting its image and the presigned URL the image is PUT to. Both expire
+   * after DIRECT_UPLOAD_EXPIRATION_MINUTES.
+   */
+  async createDirectUpload(request: CreateTaskRequest): Promise<DirectUploadResult> {
+    await taskService.expireAwaitingUploads();
+
+    const token = crypto.randomBytes(16).toString('hex');
+    const expires = Math.floor(Date.now() / 1000) + appConfig.directUploadExpiration * 60;
+    const expiresAt = new Date(expires * 1000);
+
+    // The task only keeps the processing options, not the request's image source
+    const options: TaskOptions = Object.fromEntries(
+      Object.entries(request).filter(([key]) => key in TaskOptionFieldsSchema.shape)
+    );
+    const task = await taskService.createAwaitingUploadTask(options, token, expiresAt);
+    const { url } = signatureService.signPath(`${UPLOADS_ROUTE}/${token}`, { expires }, undefined);
+
+    return { task, upload: { url, method: 'PUT', expiresAt } };
+  }
+
+  /**
+   * Receive the image of a direct upload in a single request and start its task. The file is
+   * streamed to the temp directory first, so a failed or refused transfer leaves the task
+   * awaiting its image until the URL expires.
+   */
+  async receiveDirectUpload(
+    token: string,
+    query: Record<string, unknown>,
+    contentType: string | undefined,
+    contentLength: number | undefined,
+    data: Readable
+  ): Promise<TaskResult> {
+    const uploadPath = `${UPLOADS_ROUTE}/${token}`;
+    if (query['signature'] === undefined || query['expires'] === undefined) {
+      throw new SignatureError('Upload URLs must be signed and expire');
+    }
+    signatureService.verify(uploadPath, query);
+
+    const filetype = contentType?.split(';')[0]?.trim().toLowerCase();
+    if (!filetype || !appConfig.allowedImageTypes.includes(filetype)) {
+      throw new UnsupportedMediaTypeError(`Content-Type must be one of ${appConfig.allowedImageTypes.join(', ')}`);
+    }
+    if (contentLength !== undefined && contentLength > this.getMaxSize()) {
+      throw new PayloadTooLargeError(`Upload size exceeds maximum allowed size of ${appConfig.maxDownloadSize}MB`);
+    }
+
+    const { taskId } = await taskService.getAwaitingUploadTask(token);
+
+    const filePath = path.join(
+      appConfig.tempDir,
+      UPLOADS_DIR,
+      `${token}-${crypto.randomBytes(4).toString('hex')}.${fileService.getExtensionFromMimeType(filetype)}`
+    );
+    let size: number;
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const output = fs.createWriteStream(filePath);
+      await pipeline(
+        data,
+        this.limitSize(this.getMaxSize(), `Upload size exceeds maximum allowed size of ${appConfig.maxDownloadSize}MB`),
+        output
+      );
+      size = output.bytesWritten;
+      if (size === 0) {
+        throw new ValidationError('Upload must not be empty', [{ field: 'body', message: 'Must contain the image' }]);
+      }
+    } catch (error) {
+      await fileService.cleanupTempFile(filePath);
+      throw error;
+    }
+
+    // Concurrent requests with the same URL may all arrive, but only one claims the task
+    let task: TaskResult;
+    try {
+      task = await taskService.claimAwaitingUploadTask(token);
+    } catch (error) {
+      await fileService.cleanupTempFile(filePath);
+      throw error;
+    }
+
+    await this.startTask(taskId, { path: filePath, name: path.basename(filePath), size, type: filetype });
+    return task;
+  }
+
+  /**
+   * Discard uploads past their expiration. Their tasks fail unless the upload was finished.
+   */
+  async removeExpiredUploads(): Promise<number> {
+    const expired = await Upload.find({ expiresAt: { $lte: new Date() } }).exec();
+
+    let removed = 0;
+    for (const upload of expired) {
+      if (!this.writing.has(upload.uploadId)) {
+        await this.discardUpload(upload, 'Upload expired before it was completed');
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Hand a finished upload to its task once its contents prove to be the declared image.
+   * Refused files are removed and fail the task with the reason.
+   */
+  private async startTask(taskId: string, file: FileInfo): Promise<void> {
+    try {
+      await fileService.inspectImage(file.path, file.type);
+    } catch (error) {
+      await fileService.cleanupTempFile(file.path);
+      if (error instanceof InvalidImageError || error instanceof ImageTooLargeError) {
+        await taskService.abandonUploadedTask(taskId, error.message, error.code);
+      } else {
+        await taskService.abandonUploadedTask(taskId, 'Upload could not be inspected');
+      }
+      throw error;
+    }
+
+    await taskService.startUploadedTask(taskId, file);
+  }
+
+  /**
+   * Stream stage failing with PayloadTooLargeError once more than `maxBytes` passed through
+   */
+  private limitSize(maxBytes: number, message: string): Transform {
+    let received = 0;
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback): void {
+        received += chunk.length;
+        if (received > maxBytes) {
+          callback(new PayloadTooLargeError(message));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+  }
+
+  /**
+   * Find an upload that can still receive data, discarding it when it has expired
+   */
+  private async findActiveUpload(uploadId: string): Promise<IUpload> {
+    const upload = await Upload.findOne({ uploadId }).exec();
+
+    if (!upload) {
+      throw new NotFoundError('Upload', uploadId);
+    }
+    if (!upload.completedAt && upload.expiresAt.getTime() <= Date.now()) {
+      await this.discardUpload(upload, 'Upload expired before it was completed');
+      throw new GoneError(`Upload ${uploadId} has expired`);
+    }
+
+    return upload;
+  }
+
+  /**
+   * Remove an upload record. Unfinished uploads also lose their data and fail their task;
+   * finished ones belong to their task, which removes the file after processing.
+   */
+  private async discardUpload(upload: IUpload, reason: string): Promise<void> {
+    await Upload.deleteOne({ uploadId: upload.uploadId }).exec();
+    if (!upload.completedAt) {
+      await fileService.cleanupTempFile(upload.path);
+      await taskService.abandonUploadedTask(upload.taskId, reason);
+    }
+  }
+
+  /**
+   * Parse a tus Upload-Metadata header: comma-separated keys, each followed by a space and its
+   * base64 encoded value unless it is empty
+   */
+  private parseMetadata(header?: string): Record<string, string> {
+    const pairs = new Map<string, string>();
+
+    for (const pair of header ? header.split(',') : []) {
+      const [key, value = '', ...rest] = pair.trim().split(' ');
+      if (!key || rest.length > 0 || !BASE64.test(value) || pairs.has(key)) {
+        throw new ValidationError('Invalid Upload-Metadata header', [
+          { field: 'Upload-Metadata', message: `Invalid metadata pair: ${pair.trim()}` },
+        ]);
+      }
+      pairs.set(key, Buffer.from(value, 'base64').toString('utf8'));
+    }
+
+    return Object.fromEntries(pairs);
+  }
+
+  /**
+   * Expiration of an upload that just received data
+   */
+  private nextExpiry(): Date {
+    return new Date(Date.now() + appConfig.uploadExpiration * 60 * 60 * 1000);
+  }
+
+  /**
+   * Map upload document to result
+   */
+  private mapUploadToResult(upload: IUpload): UploadResult {
+    return {
+      uploadId: upload.uploadId,
+      taskId: upload.taskId,
+      length: upload.length,
+      offset: upload.offset,
+      metadata: upload.metadata || undefined,
+      expiresAt: upload.expiresAt,
+      completedAt: upload.completedAt || undefined,
+    };
+  }
+}
+
+export const uploadService = new UploadService();
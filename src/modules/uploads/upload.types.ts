@@ -0,0 +1,41 @@
+import type { Document } from 'mongoose';
+import type { TaskResult } from '../tasks/task.types.js';
+
+// Database Model Types
+export interface IUpload extends Document {
+  uploadId: string;
+  taskId: string; // pending task the finished file is handed to
+  length: number; // total size in bytes, declared on creation
+  offset: number; // bytes received so far
+  metadata?: string; // Upload-Metadata header as sent, echoed back on HEAD
+  filename?: string;
+  filetype: string;
+  path: string; // partial file in the temp directory
+  expiresAt: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Request/Response Types
+export interface UploadResult {
+  uploadId: string;
+  taskId: string;
+  length: number;
+  offset: number;
+  metadata?: string | undefined;
+  expiresAt: Date;
+  completedAt?: Date | undefined;
+}
+
+// Presigned target of a direct upload, returned when its task is created
+export interface DirectUploadTarget {
+  url: string; // signed path, valid until expiresAt
+  method: 'PUT';
+  expiresAt: Date;
+}
+
+export interface DirectUploadResult {
+  task: TaskResult;
+  upload: DirectUploadTarget;
+}
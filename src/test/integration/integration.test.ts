@@ -1,10 +1,14 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import request from 'supertest';
 import pino from 'pino';
+import sharp from 'sharp';
+import fs from 'fs';
+import path from 'path';
 import { createApp } from '../../app.js';
 import type { AppConfig } from '../../types/index.js';
 import { appConfig } from '../../config/index.js';
 import { mongoConnection } from '../../infra/mongo.js';
+import { signImageUrl } from '../../common/url-signing.js';
 
 // Create test configuration with logger
 const testConfig: AppConfig = {
@@ -30,8 +34,10 @@ describe('Image Processor API Integration Tests', () => {
     // Clean up test data before each test
     const { Task } = await import('../../modules/tasks/task.model.js');
     const { Image } = await import('../../modules/images/image.model.js');
+    const { OutputFile } = await import('../../modules/images/output-file.model.js');
     await Task.deleteMany({});
     await Image.deleteMany({});
+    await OutputFile.deleteMany({});
   });
 
   describe('Health Check', () => {
@@ -140,6 +146,68 @@ describe('Image Processor API Integration Tests', () => {
       });
     });
 
+    it('should create a task from a multipart upload', async () => {
+      const image = await sharp({ create: { width: 64, height: 48, channels: 3, background: '#336699' } }).png().toBuffer();
+
+      const response = await request(app)
+        .post('/tasks')
+        .attach('image', image, { filename: 'upload.png', contentType: 'image/png' })
+        .field('resolutions', JSON.stringify([{ width: 32 }]))
+        .field('metadataPolicy', 'keep')
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: {
+          taskId: expect.stringMatching(/^task_\d{14}_[a-z0-9]{6}$/),
+          status: 'pending',
+          price: expect.any(Number),
+          message: 'Task created successfully. Image processing started.',
+        },
+      });
+    });
+
+    it('should reject uploads whose content is not the declared image type', async () => {
+      const gif = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#336699' } }).gif().toBuffer();
+
+      const response = await request(app)
+        .post('/tasks')
+        .attach('image', gif, { filename: 'upload.png', contentType: 'image/png' })
+        .expect(422);
+
+      expect(response.body).toMatchObject({
+        error: 'Invalid Image',
+        code: 'IMAGE_TYPE_MISMATCH',
+      });
+    });
+
+    it('should reject uploads larger than MAX_DOWNLOAD_MB while streaming them', async () => {
+      const response = await request(app)
+        .post('/tasks')
+        .attach('image', Buffer.alloc(appConfig.maxDownloadSize * 1024 * 1024 + 1), {
+          filename: 'large.png',
+          contentType: 'image/png',
+        })
+        .expect(413);
+
+      expect(response.body).toMatchObject({
+        error: 'Payload Too Large',
+        code: 'PAYLOAD_TOO_LARGE',
+      });
+    });
+
+    it('should reject multipart requests without the image part', async () => {
+      const response = await request(app)
+        .post('/tasks')
+        .field('resolutions', JSON.stringify([{ width: 32 }]))
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        error: 'Validation Error',
+        details: [{ field: 'image', message: 'Image file is required' }],
+      });
+    });
+
     it('should reject task creation without imageUrl or imageFile', async () => {
       const response = await request(app)
         .post('/tasks')
@@ -152,7 +220,7 @@ describe('Image Processor API Integration Tests', () => {
         details: expect.arrayContaining([
           expect.objectContaining({
             field: expect.any(String),
-            message: expect.stringContaining('Either imageUrl or imageFile must be provided'),
+            message: expect.stringContaining('Either imageUrl, imageFile, imagePath or source "upload" must be provided'),
           }),
         ]),
       });
@@ -176,6 +244,47 @@ describe('Image Processor API Integration Tests', () => {
       });
     });
 
+    it('should reject relative image paths', async () => {
+      const response = await request(app)
+        .post('/tasks')
+        .send({ imagePath: '../incoming/photo.jpg' })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        error: 'Validation Error',
+        details: expect.arrayContaining([
+          { field: 'imagePath', message: 'Image path must be absolute' },
+        ]),
+      });
+    });
+
+    it('should refuse image paths unless input roots are configured', async () => {
+      const response = await request(app)
+        .post('/tasks')
+        .send({ imagePath: '/etc/passwd' })
+        .expect(403);
+
+      expect(response.body).toMatchObject({
+        error: 'Forbidden',
+        code: 'FORBIDDEN',
+      });
+    });
+
+    it('should fail tasks whose imageUrl points at a private address', async () => {
+      const created = await request(app)
+        .post('/tasks')
+        .send({ imageUrl: 'http://169.254.169.254/latest/meta-data/image.jpg' })
+        .expect(201);
+
+      let task = created.body.data;
+      for (let attempt = 0; attempt < 50 && task.status === 'pending'; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        task = (await request(app).get(`/tasks/${task.taskId}`).expect(200)).body.data;
+      }
+      expect(task.status).toBe('failed');
+      expect(task.error).toContain('Address not allowed: 169.254.169.254');
+    });
+
     it('should reject task creation with both imageUrl and imageFile', async () => {
       const response = await request(app)
         .post('/tasks')
@@ -251,6 +360,10 @@ describe('Image Processor API Integration Tests', () => {
         {
           taskId,
           resolution: '1024',
+          format: 'jpeg',
+          width: 1024,
+          height: 768,
+          size: 120000,
           path: '/output/test-image/1024/abc123.jpg',
           md5: 'abc123def456',
           createdAt: new Date(),
@@ -258,6 +371,10 @@ describe('Image Processor API Integration Tests', () => {
         {
           taskId,
           resolution: '800',
+          format: 'jpeg',
+          width: 800,
+          height: 600,
+          size: 80000,
           path: '/output/test-image/800/def456.jpg',
           md5: 'def456ghi789',
           createdAt: new Date(),
@@ -280,6 +397,11 @@ describe('Image Processor API Integration Tests', () => {
           images: expect.arrayContaining([
             expect.objectContaining({
               resolution: '1024',
+              format: 'jpeg',
+              extension: 'jpg',
+              width: 1024,
+              height: 768,
+              size: 120000,
               path: '/output/test-image/1024/abc123.jpg',
               md5: 'abc123def456',
             }),
@@ -359,6 +481,737 @@ describe('Image Processor API Integration Tests', () => {
     });
   });
 
+  describe('Responsive Markup', () => {
+    beforeEach(async () => {
+      const { Task } = await import('../../modules/tasks/task.model.js');
+      const { Image } = await import('../../modules/images/image.model.js');
+
+      await Task.create({ taskId: 'task_markup', status: 'completed', price: 10, completedAt: new Date() });
+      await Image.insertMany([
+        { resolution: '800', format: 'jpeg', width: 800, height: 600, size: 3, path: '/output/markup/800/a.jpg', md5: 'a' },
+        { resolution: '1024', format: 'jpeg', width: 1024, height: 768, size: 3, path: '/output/markup/1024/b.jpg', md5: 'b' },
+        { resolution: '1024', format: 'webp', width: 1024, height: 768, size: 3, path: '/output/markup/1024/c.webp', md5: 'c' },
+      ].map(image => ({ ...image, taskId: 'task_markup' })));
+    });
+
+    it('should return a picture element for the task variants', async () => {
+      const response = await request(app)
+        .get('/tasks/task_markup/markup')
+        .query({ sizes: '(min-width: 1024px) 50vw, 100vw', alt: 'Cat & dog' })
+        .expect('Content-Type', /text\/html/)
+        .expect('Vary', /Accept/)
+        .expect(200);
+
+      expect(response.text).toMatch(/^<picture>\n  <source type="image\/webp" srcset="http:\/\/127\.0\.0\.1:\d+\/images\/task_markup\/1024\.webp 1024w"/);
+      expect(response.text).toContain('/images/task_markup/800.jpg 800w, ');
+      expect(response.text).toContain('width="1024" height="768" alt="Cat &amp; dog" loading="lazy"');
+    });
+
+    it('should return the same data as JSON when requested', async () => {
+      const response = await request(app)
+        .get('/tasks/task_markup/markup')
+        .set('Accept', 'application/json')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        taskId: 'task_markup',
+        sizes: '100vw',
+        width: 1024,
+        height: 768,
+        sources: [expect.objectContaining({ format: 'webp', type: 'image/webp' })],
+        img: expect.objectContaining({ format: 'jpeg', src: expect.stringMatching(/\/images\/task_markup\/1024\.jpg$/) }),
+        html: expect.stringContaining('<picture>'),
+      });
+    });
+
+    it('should return 400 for invalid options', async () => {
+      await request(app)
+        .get('/tasks/task_markup/markup?lqip=maybe')
+        .expect(400);
+    });
+  });
+
+  describe('Task Deletion', () => {
+    it('should keep files shared with a deduplicated task until both are deleted', async () => {
+      const { Task } = await import('../../modules/tasks/task.model.js');
+      const { Image } = await import('../../modules/images/image.model.js');
+      const { OutputFile } = await import('../../modules/images/output-file.model.js');
+
+      const outputPath = '/output/dedup-test/800/abc.jpg';
+      await Task.insertMany([
+        { taskId: 'task_original', status: 'completed', price: 10 },
+        { taskId: 'task_duplicate', status: 'completed', price: 10, cacheHit: true, cachedFrom: 'task_original' },
+      ]);
+      const image = { resolution: '800', format: 'jpeg', width: 800, height: 600, size: 3, path: outputPath, md5: 'abc' };
+      await Image.insertMany([{ ...image, taskId: 'task_original' }, { ...image, taskId: 'task_duplicate' }]);
+      await OutputFile.create({ path: outputPath, refCount: 2 });
+
+      const first = await request(app).delete('/tasks/task_original').expect(200);
+      expect(first.body.data).toEqual({ taskId: 'task_original', deletedFiles: 0 });
+      expect(await OutputFile.findOne({ path: outputPath })).toMatchObject({ refCount: 1 });
+
+      await request(app).delete('/tasks/task_duplicate').expect(200);
+      expect(await OutputFile.findOne({ path: outputPath })).toBeNull();
+      expect(await Image.countDocuments({})).toBe(0);
+    });
+
+    it('should return 404 for non-existent task', async () => {
+      await request(app)
+        .delete('/tasks/task_missing')
+        .expect(404);
+    });
+  });
+
+  describe('Similar Images', () => {
+    it('should return images from other tasks ranked by hash distance', async () => {
+      const { Task } = await import('../../modules/tasks/task.model.js');
+      const { Image } = await import('../../modules/images/image.model.js');
+
+      await Task.insertMany([
+        { taskId: 'task_query', status: 'completed', price: 10, phash: '00000000000000ff' },
+        { taskId: 'task_other', status: 'completed', price: 10, phash: '00000000000000fe' },
+      ]);
+      const image = { format: 'jpeg', width: 800, height: 600, size: 80000, createdAt: new Date() };
+      await Image.insertMany([
+        { ...image, taskId: 'task_query', resolution: '800', path: '/output/a/800/a.jpg', md5: 'a', phash: '00000000000000ff' },
+        { ...image, taskId: 'task_other', resolution: '800', path: '/output/b/800/b.jpg', md5: 'b', phash: '000000000000000f' },
+        { ...image, taskId: 'task_other', resolution: '1024', path: '/output/b/1024/c.jpg', md5: 'c', phash: 'ffffffffffffffff' },
+      ]);
+
+      const response = await request(app)
+        .get('/images/similar')
+        .query({ taskId: 'task_query', maxDistance: 4 })
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: {
+          taskId: 'task_query',
+          phash: '00000000000000ff',
+          maxDistance: 4,
+          images: [
+            expect.objectContaining({ taskId: 'task_other', md5: 'b', distance: 4 }),
+          ],
+        },
+      });
+    });
+
+    it('should reject an invalid maxDistance', async () => {
+      const response = await request(app)
+        .get('/images/similar')
+        .query({ taskId: 'task_query', maxDistance: 65 })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        code: 'VALIDATION_ERROR',
+        details: [{ field: 'maxDistance', message: 'Max distance must be at most 64' }],
+      });
+    });
+
+    it('should return 404 for non-existent task', async () => {
+      await request(app)
+        .get('/images/similar')
+        .query({ taskId: 'task_missing' })
+        .expect(404);
+    });
+  });
+
+  describe('Image Delivery', () => {
+    const originalPath = '/output/originals/delivery.png';
+    const originalFile = path.join(appConfig.outputDir, 'originals', 'delivery.png');
+
+    beforeEach(async () => {
+      const { Task } = await import('../../modules/tasks/task.model.js');
+      fs.mkdirSync(path.dirname(originalFile), { recursive: true });
+      await sharp({ create: { width: 200, height: 100, channels: 3, background: '#336699' } })
+        .png()
+        .toFile(originalFile);
+      await Task.create({
+        taskId: 'task_delivery',
+        status: 'completed',
+        price: 10,
+        originalPath,
+        sourceHash: 'd'.repeat(64),
+        metadata: { format: 'png', width: 200, height: 100, orientation: 1, hasExif: false, hasIptc: false, hasXmp: false },
+      });
+    });
+
+    it('should serve the original re-encoded without its metadata', async () => {
+      await sharp({ create: { width: 200, height: 100, channels: 3, background: '#336699' } })
+        .png()
+        .withExif({ IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '48/1 51/1 24/1', GPSLongitudeRef: 'E', GPSLongitude: '2/1 21/1 3/1' } })
+        .toFile(originalFile);
+
+      const response = await request(app)
+        .get('/images/task_delivery/original')
+        .buffer(true)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('image/png');
+      const metadata = await sharp(response.body).metadata();
+      expect(metadata).toMatchObject({ format: 'png', width: 200, height: 100 });
+      expect(metadata.exif).toBeUndefined();
+    });
+
+    it('should render signed query-string transformations of the original', async () => {
+      const url = signImageUrl(appConfig.urlSigningSecret, '/images/task_delivery/original', {
+        w: 50,
+        format: 'webp',
+        q: 60,
+      });
+      const response = await request(app)
+        .get(url)
+        .buffer(true)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('image/webp');
+      expect(response.headers['etag']).toMatch(/^W\/"[a-f0-9]{64}"$/);
+      expect(await sharp(response.body).metadata()).toMatchObject({ format: 'webp', width: 50, height: 25 });
+    });
+
+    it('should serve immutable caching headers and answer conditional requests', async () => {
+      const response = await request(app)
+        .get('/images/task_delivery/original')
+        .expect(200);
+
+      expect(response.headers['etag']).toMatch(/^W\/"[a-f0-9]{64}"$/);
+      expect(response.headers['last-modified']).toBeDefined();
+      expect(response.headers['cache-control']).toBe('public, max-age=31536000, immutable');
+
+      await request(app)
+        .get('/images/task_delivery/original')
+        .set('If-None-Match', response.headers['etag'] as string)
+        .expect(304);
+      await request(app)
+        .get('/images/task_delivery/original')
+        .set('If-Modified-Since', new Date(Date.now() + 60_000).toUTCString())
+        .expect(304);
+    });
+
+    it('should serve byte ranges', async () => {
+      const full = await request(app)
+        .get('/images/task_delivery/original')
+        .buffer(true)
+        .expect(200);
+      const response = await request(app)
+        .get('/images/task_delivery/original')
+        .set('Range', 'bytes=0-9')
+        .buffer(true)
+        .expect(206);
+
+      const size = (full.body as Buffer).length;
+      expect(response.headers['content-range']).toBe(`bytes 0-9/${size}`);
+      expect(response.body).toEqual((full.body as Buffer).subarray(0, 10));
+
+      const unsatisfiable = await request(app)
+        .get('/images/task_delivery/original')
+        .set('Range', `bytes=${size}-`)
+        .expect(416);
+      expect(unsatisfiable.headers['content-range']).toBe(`bytes */${size}`);
+    });
+
+    it('should negotiate the format from Accept and the width from client hints', async () => {
+      const response = await request(app)
+        .get('/images/task_delivery/original')
+        .set('Accept', 'image/avif,image/webp,*/*;q=0.8')
+        .set('Sec-CH-Width', '100')
+        .buffer(true)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('image/avif');
+      expect(response.headers['vary']).toContain('Accept, Sec-CH-Width, Width');
+      expect(response.headers['accept-ch']).toBe('Sec-CH-DPR, Sec-CH-Width');
+      expect(await sharp(response.body).metadata()).toMatchObject({ width: 160, height: 80 });
+
+      const fallback = await request(app)
+        .get('/images/task_delivery/original')
+        .set('Accept', '*/*')
+        .expect(200);
+      expect(fallback.headers['content-type']).toBe('image/png');
+    });
+
+    it('should reject unsigned and expired transformations', async () => {
+      const unsigned = await request(app)
+        .get('/images/task_delivery/original')
+        .query({ w: 50 })
+        .expect(403);
+      expect(unsigned.body).toMatchObject({ code: 'INVALID_SIGNATURE' });
+
+      const expired = signImageUrl(appConfig.urlSigningSecret, '/images/task_delivery/original', { w: 50 }, {
+        expiresIn: 60,
+        now: new Date(Date.now() - 120_000),
+      });
+      const response = await request(app)
+        .get(expired)
+        .expect(403);
+      expect(response.body).toMatchObject({ message: 'Signature has expired' });
+    });
+
+    it('should reject unknown query parameters', async () => {
+      const url = signImageUrl(appConfig.urlSigningSecret, '/images/task_delivery/original', { width: 50 });
+      const response = await request(app)
+        .get(url)
+        .expect(400);
+
+      expect(response.body).toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+
+    it('should return 404 for unknown variants', async () => {
+      await request(app)
+        .get('/images/task_delivery/1024.webp')
+        .expect(404);
+    });
+  });
+
+  describe('Signatures', () => {
+    it('should require the signing API key', async () => {
+      const response = await request(app)
+        .post('/signatures')
+        .set('X-Api-Key', 'wrong')
+        .send({ taskId: 'task_delivery', variant: 'original', params: { w: 50 } })
+        .expect(401);
+
+      expect(response.body).toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+  });
+
+  describe('IIIF', () => {
+    const originalFile = path.join(appConfig.outputDir, 'originals', 'iiif.png');
+
+    beforeEach(async () => {
+      const { Task } = await import('../../modules/tasks/task.model.js');
+      fs.mkdirSync(path.dirname(originalFile), { recursive: true });
+      await sharp({ create: { width: 1200, height: 600, channels: 3, background: '#336699' } })
+        .png()
+        .toFile(originalFile);
+      await Task.create({
+        taskId: 'task_iiif',
+        status: 'completed',
+        price: 10,
+        originalPath: '/output/originals/iiif.png',
+        sourceHash: 'e'.repeat(64),
+        metadata: { format: 'png', width: 1200, height: 600, orientation: 1, hasExif: false, hasIptc: false, hasXmp: false },
+      });
+    });
+
+    it('should serve the image information document', async () => {
+      const response = await request(app)
+        .get('/iiif/3/task_iiif/info.json')
+        .set('Accept', 'application/ld+json')
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/ld+json');
+      expect(response.headers['content-type']).toContain('profile="http://iiif.io/api/image/3/context.json"');
+      expect(response.headers['access-control-allow-origin']).toBe('*');
+      expect(JSON.parse(response.text)).toMatchObject({
+        id: expect.stringMatching(/\/iiif\/3\/task_iiif$/),
+        type: 'ImageService3',
+        profile: 'level2',
+        width: 1200,
+        height: 600,
+        tiles: [{ width: 512, scaleFactors: [1, 2, 4] }],
+      });
+    });
+
+    it('should redirect the base URI to info.json', async () => {
+      const response = await request(app)
+        .get('/iiif/3/task_iiif')
+        .expect(303);
+
+      expect(response.headers['location']).toMatch(/\/iiif\/3\/task_iiif\/info\.json$/);
+    });
+
+    it('should render regions, sizes, rotations and qualities', async () => {
+      const tile = await request(app)
+        .get('/iiif/3/task_iiif/512,0,512,512/256,/0/default.jpg')
+        .buffer(true)
+        .expect(200);
+      expect(tile.headers['content-type']).toBe('image/jpeg');
+      expect(await sharp(tile.body).metadata()).toMatchObject({ format: 'jpeg', width: 256, height: 256 });
+
+      const rotated = await request(app)
+        .get('/iiif/3/task_iiif/pct:0,0,50,100/!300,300/!90/gray.png')
+        .buffer(true)
+        .expect(200);
+      expect(await sharp(rotated.body).metadata()).toMatchObject({ format: 'png', width: 300, height: 300 });
+    });
+
+    it('should reject invalid and unsupported requests', async () => {
+      await request(app).get('/iiif/3/task_iiif/full/2000,/0/default.jpg').expect(400);
+      await request(app).get('/iiif/3/task_iiif/full/max/0/default.tif').expect(400);
+      await request(app).get('/iiif/3/task_iiif/full/max/45/default.jpg').expect(501);
+      await request(app).get('/iiif/3/task_missing/info.json').expect(404);
+    });
+  });
+
+  describe('Tiles', () => {
+    const sourceFile = path.join(appConfig.tempDir, 'tiles-source.png');
+    const tilesKey = 'f'.repeat(64);
+
+    beforeEach(async () => {
+      const { Task } = await import('../../modules/tasks/task.model.js');
+      const { imageService } = await import('../../modules/images/image.service.js');
+      fs.mkdirSync(path.dirname(sourceFile), { recursive: true });
+      await sharp({ create: { width: 1000, height: 600, channels: 3, background: '#336699' } })
+        .png()
+        .toFile(sourceFile);
+      for (const container of ['fs', 'zip'] as const) {
+        const tiles = await imageService.createTilePyramid(sourceFile, tilesKey, {
+          layout: 'dz',
+          container,
+          tileSize: 254,
+          overlap: 1,
+          format: 'jpeg',
+        });
+        await Task.create({
+          taskId: `task_tiles_${container}`,
+          status: 'completed',
+          price: 10,
+          completedAt: new Date(),
+          tiles,
+        });
+      }
+    });
+
+    afterEach(() => {
+      fs.rmSync(sourceFile, { force: true });
+      fs.rmSync(path.join(appConfig.outputDir, 'tiles'), { recursive: true, force: true });
+    });
+
+    it('should record the pyramid on the task', async () => {
+      const response = await request(app)
+        .get('/tasks/task_tiles_zip')
+        .expect(200);
+
+      expect(response.body.data.tiles).toMatchObject({
+        layout: 'dz',
+        container: 'zip',
+        path: `/output/tiles/${tilesKey}.zip`,
+        descriptorPath: 'image.dzi',
+        tileCount: expect.any(Number),
+        width: 1000,
+        height: 600,
+      });
+    });
+
+    it('should serve descriptors and tiles from directories and zip archives alike', async () => {
+      for (const taskId of ['task_tiles_fs', 'task_tiles_zip']) {
+        const descriptor = await request(app)
+          .get(`/tiles/${taskId}/image.dzi`)
+          .expect(200);
+        expect(descriptor.headers['content-type']).toContain('application/xml');
+        expect(descriptor.text).toContain('TileSize="254"');
+
+        const tile = await request(app)
+          .get(`/tiles/${taskId}/image_files/10/0_0.jpeg`)
+          .buffer(true)
+          .expect(200);
+        expect(tile.headers['cache-control']).toBe('public, max-age=31536000, immutable');
+        expect(await sharp(tile.body).metadata()).toMatchObject({ format: 'jpeg', width: 255, height: 255 });
+
+        await request(app)
+          .get(`/tiles/${taskId}/image_files/10/0_0.jpeg`)
+          .set('If-None-Match', tile.headers['etag'] as string)
+          .expect(304);
+      }
+    });
+
+    it('should reject invalid paths and missing tiles', async () => {
+      await request(app).get('/tiles/task_tiles_fs/image_files/..%2F..%2Fsecret').expect(400);
+      await request(app).get('/tiles/task_tiles_zip/image_files/99/0_0.jpeg').expect(404);
+      await request(app).get('/tiles/task_missing/image.dzi').expect(404);
+    });
+  });
+
+  describe('Uploads', () => {
+    const tus = { 'Tus-Resumable': '1.0.0' };
+    const encode = (value: string): string => Buffer.from(value).toString('base64');
+    let image: Buffer;
+
+    beforeAll(async () => {
+      image = await sharp({ create: { width: 200, height: 100, channels: 3, background: '#336699' } })
+        .png()
+        .toBuffer();
+    });
+
+    afterEach(async () => {
+      const { Upload } = await import('../../modules/uploads/upload.model.js');
+      await Upload.deleteMany({});
+    });
+
+    it('should announce the tus capabilities', async () => {
+      const response = await request(app)
+        .options('/uploads')
+        .expect(204);
+
+      expect(response.headers['tus-version']).toBe('1.0.0');
+      expect(response.headers['tus-extension']).toBe('creation,expiration,termination');
+      expect(Number(response.headers['tus-max-size'])).toBe(appConfig.maxDownloadSize * 1024 * 1024);
+    });
+
+    it('should resume an upload in chunks and process the finished file', async () => {
+      const created = await request(app)
+        .post('/uploads')
+        .set(tus)
+        .set('Upload-Length', String(image.length))
+        .set('Upload-Metadata', `filename ${encode('photo.png')},filetype ${encode('image/png')},watermark ${encode('false')}`)
+        .expect(201);
+
+      const location = created.headers['location'] as string;
+      const taskId = created.headers['task-id'] as string;
+      expect(location).toMatch(/^\/uploads\/[a-f0-9]{32}$/);
+      expect(created.headers['upload-expires']).toBeDefined();
+
+      const pending = await request(app).get(`/tasks/${taskId}`).expect(200);
+      expect(pending.body.data.status).toBe('pending');
+
+      const half = Math.floor(image.length / 2);
+      await request(app)
+        .patch(location)
+        .set(tus)
+        .set('Content-Type', 'application/offset+octet-stream')
+        .set('Upload-Offset', '0')
+        .send(image.subarray(0, half))
+        .expect(204);
+
+      const head = await request(app).head(location).set(tus).expect(200);
+      expect(head.headers['upload-offset']).toBe(String(half));
+      expect(head.headers['upload-length']).toBe(String(image.length));
+      expect(head.headers['cache-control']).toBe('no-store');
+
+      await request(app)
+        .patch(location)
+        .set(tus)
+        .set('Content-Type', 'application/offset+octet-stream')
+        .set('Upload-Offset', '0')
+        .send(image.subarray(half))
+        .expect(409);
+
+      const finished = await request(app)
+        .patch(location)
+        .set(tus)
+        .set('Content-Type', 'application/offset+octet-stream')
+        .set('Upload-Offset', String(half))
+        .send(image.subarray(half))
+        .expect(204);
+      expect(finished.headers['upload-offset']).toBe(String(image.length));
+
+      let task = pending.body.data;
+      for (let attempt = 0; attempt < 50 && task.status === 'pending'; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        task = (await request(app).get(`/tasks/${taskId}`).expect(200)).body.data;
+      }
+      expect(task.status).toBe('completed');
+      expect(task.images.length).toBeGreaterThan(0);
+    });
+
+    it('should fail the task of a terminated upload', async () => {
+      const created = await request(app)
+        .post('/uploads')
+        .set(tus)
+        .set('Upload-Length', '1024')
+        .set('Upload-Metadata', `filetype ${encode('image/jpeg')}`)
+        .expect(201);
+      const location = created.headers['location'] as string;
+
+      await request(app).delete(location).set(tus).expect(204);
+      await request(app).head(location).set(tus).expect(404);
+
+      const task = await request(app).get(`/tasks/${created.headers['task-id']}`).expect(200);
+      expect(task.body.data).toMatchObject({ status: 'failed', error: 'Upload was terminated' });
+    });
+
+    it('should reject unsupported versions, file types and oversized uploads', async () => {
+      await request(app).post('/uploads').set('Upload-Length', '1024').expect(412);
+      await request(app)
+        .post('/uploads')
+        .set(tus)
+        .set('Upload-Length', '1024')
+        .set('Upload-Metadata', `filetype ${encode('text/plain')}`)
+        .expect(400);
+      await request(app)
+        .post('/uploads')
+        .set(tus)
+        .set('Upload-Length', String(appConfig.maxDownloadSize * 1024 * 1024 + 1))
+        .set('Upload-Metadata', `filetype ${encode('image/png')}`)
+        .expect(413);
+    });
+  });
+
+  describe('Direct Uploads', () => {
+    let image: Buffer;
+
+    beforeAll(async () => {
+      image = await sharp({ create: { width: 200, height: 100, channels: 3, background: '#336699' } })
+        .png()
+        .toBuffer();
+    });
+
+    it('should keep the task awaiting its image until it is PUT to the signed URL', async () => {
+      const created = await request(app)
+        .post('/tasks')
+        .send({ source: 'upload', resolutions: [{ width: 100 }] })
+        .expect(201);
+
+      const { taskId, upload } = created.body.data;
+      expect(created.body.data.status).toBe('awaiting_upload');
+      expect(upload).toMatchObject({
+        url: expect.stringMatching(/^\/uploads\/[a-f0-9]{32}\?expires=\d+&signature=/),
+        method: 'PUT',
+        expiresAt: expect.any(String),
+      });
+
+      const awaiting = await request(app).get(`/tasks/${taskId}`).expect(200);
+      expect(awaiting.body.data.status).toBe('awaiting_upload');
+
+      const received = await request(app)
+        .put(upload.url)
+        .set('Content-Type', 'image/png')
+        .send(image)
+        .expect(202);
+      expect(received.body.data).toMatchObject({ taskId, status: 'pending' });
+
+      // The URL can only be used once
+      await request(app).put(upload.url).set('Content-Type', 'image/png').send(image).expect(409);
+
+      let task = received.body.data;
+      for (let attempt = 0; attempt < 50 && task.status === 'pending'; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        task = (await request(app).get(`/tasks/${taskId}`).expect(200)).body.data;
+      }
+      expect(task.status).toBe('completed');
+      expect(task.images).toHaveLength(1);
+    });
+
+    it('should refuse tampered URLs and fail tasks whose upload expired', async () => {
+      const created = await request(app).post('/tasks').send({ source: 'upload' }).expect(201);
+      const { taskId, upload } = created.body.data;
+
+      const tampered = await request(app)
+        .put(upload.url.replace(/expires=\d+/, 'expires=4102444800'))
+        .set('Content-Type', 'image/png')
+        .send(image)
+        .expect(403);
+      expect(tampered.body.code).toBe('INVALID_SIGNATURE');
+      await request(app).put(upload.url).set('Content-Type', 'text/plain').send('hello').expect(415);
+
+      const { Task } = await import('../../modules/tasks/task.model.js');
+      await Task.updateOne({ taskId }, { uploadExpiresAt: new Date(Date.now() - 1000) });
+
+      const task = await request(app).get(`/tasks/${taskId}`).expect(200);
+      expect(task.body.data).toMatchObject({ status: 'failed', errorCode: 'UPLOAD_EXPIRED' });
+      await request(app).put(upload.url).set('Content-Type', 'image/png').send(image).expect(409);
+    });
+  });
+
+  describe('Archives', () => {
+    const archiveFile = path.join(appConfig.tempDir, 'shoot.zip');
+
+    beforeAll(async () => {
+      // A deep-zoom pyramid in a zip holds one JPEG per level and XML descriptors
+      fs.mkdirSync(path.dirname(archiveFile), { recursive: true });
+      await sharp({ create: { width: 100, height: 80, channels: 3, background: '#336699' } })
+        .jpeg()
+        .tile({ size: 512, layout: 'dz', container: 'zip' })
+        .toFile(archiveFile);
+    });
+
+    afterAll(() => {
+      fs.rmSync(archiveFile, { force: true });
+    });
+
+    it('should create a task per image of an uploaded zip, grouped under a batch', async () => {
+      const response = await request(app)
+        .post('/tasks/archives')
+        .field('resolutions', '[{"width":50}]')
+        .attach('archive', archiveFile, { contentType: 'application/zip' })
+        .expect(201);
+
+      const { batchId, entries, tasks, skipped, failures } = response.body.data;
+      expect(batchId).toMatch(/^batch_/);
+      expect(entries).toBe(tasks.length + 2);
+      expect(tasks[0]).toMatchObject({ entry: expect.stringMatching(/^shoot_files\/\d+\/0_0\.jpeg$/), status: 'pending' });
+      expect(skipped).toEqual([
+        { entry: 'shoot.dzi', reason: 'Not an image' },
+        { entry: 'shoot_files/vips-properties.xml', reason: 'Not an image' },
+      ]);
+      expect(failures).toEqual([]);
+
+      // Images are processed one after another, so the last task finishes last
+      const last = tasks[tasks.length - 1];
+      let task = last;
+      for (let attempt = 0; attempt < 100 && task.status === 'pending'; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        task = (await request(app).get(`/tasks/${last.taskId}`).expect(200)).body.data;
+      }
+      expect(task).toMatchObject({ status: 'completed', batchId });
+    });
+
+    it('should refuse files that are no zip archive', async () => {
+      const image = await sharp({ create: { width: 10, height: 10, channels: 3, background: '#336699' } }).png().toBuffer();
+
+      const response = await request(app)
+        .post('/tasks/archives')
+        .attach('archive', image, { filename: 'shoot.zip', contentType: 'application/zip' })
+        .expect(400);
+      expect(response.body.details).toEqual([{ field: 'archive', message: expect.stringContaining('Invalid zip archive') }]);
+
+      await request(app).post('/tasks/archives').send({ archiveUrl: 'not a url' }).expect(400);
+    });
+  });
+
+  describe('Batches', () => {
+    it('should create tasks for the valid items of a batch and report its progress', async () => {
+      const image = await sharp({ create: { width: 40, height: 30, channels: 3, background: '#336699' } }).png().toBuffer();
+      const imageFile = `data:image/png;base64,${image.toString('base64')}`;
+
+      const response = await request(app)
+        .post('/batches')
+        .send({
+          items: [{ imageFile }, { imageUrl: 'not a url' }, { imageFile }],
+          resolutions: [{ width: 20 }],
+        })
+        .expect(201);
+
+      const { batchId, total, accepted, rejected, items } = response.body.data;
+      expect({ total, accepted, rejected }).toEqual({ total: 3, accepted: 2, rejected: 1 });
+      expect(items[0]).toMatchObject({ index: 0, status: 'pending' });
+      expect(items[1]).toEqual({
+        index: 1,
+        error: 'Invalid item',
+        errorCode: 'VALIDATION_ERROR',
+        details: [{ field: 'imageUrl', message: 'Invalid URL format' }],
+      });
+
+      // Images are processed one after another, so the batch is done once its last task is
+      let batch = (await request(app).get(`/batches/${batchId}`).expect(200)).body.data;
+      for (let attempt = 0; attempt < 100 && batch.counts.completed < 2; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        batch = (await request(app).get(`/batches/${batchId}`).expect(200)).body.data;
+      }
+      expect(batch).toMatchObject({
+        batchId,
+        total: 2,
+        counts: { awaiting_upload: 0, pending: 0, completed: 2, failed: 0 },
+        totalPrice: Math.round((items[0].price + items[2].price) * 100) / 100,
+      });
+      expect(batch.items.map((task: { taskId: string }) => task.taskId)).toEqual([items[0].taskId, items[2].taskId]);
+      expect(batch.items[0].images).toHaveLength(1);
+    });
+
+    it('should refuse batches without a valid item and unknown batches', async () => {
+      const response = await request(app)
+        .post('/batches')
+        .send({ items: [{ imageUrl: 'not a url' }] })
+        .expect(400);
+      expect(response.body.details).toEqual([{ field: 'items.0.imageUrl', message: 'Invalid URL format' }]);
+
+      await request(app).post('/batches').send({ items: [] }).expect(400);
+      await request(app).get('/batches/batch_20250811115246_unknown').expect(404);
+      await request(app).get('/batches/not-a-batch').expect(400);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle malformed JSON in request body', async () => {
       const response = await request(app)